@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { useLiveUpdates } from "@/hooks/useLiveUpdates";
 import { ThemeProvider } from "@/contexts/ThemeContext";
 import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
@@ -14,14 +15,37 @@ import Gallery from "@/pages/gallery";
 import Analytics from "@/pages/analytics";
 import Settings from "@/pages/settings";
 import Onboarding from "@/pages/onboarding";
+import PublicSite from "@/pages/public-site";
+import AuthPage from "@/pages/auth";
+import ResetPassword from "@/pages/reset-password";
+import AcceptInvite from "@/pages/accept-invite";
+import Kiosk from "@/pages/kiosk";
+import Display from "@/pages/display";
+import Sales from "@/pages/sales";
+import Inventory from "@/pages/inventory";
+import Payroll from "@/pages/payroll";
+import TimeClock from "@/pages/timeclock";
+import { getSubdomainFromHost } from "@shared/tenant";
+
+// Visiting a shop's own subdomain always shows its public booking site
+const tenantSubdomain = getSubdomainFromHost(window.location.host, import.meta.env.VITE_BASE_DOMAIN);
 
 function Router() {
   const { isAuthenticated, isLoading, user } = useAuth();
+  useLiveUpdates(isAuthenticated && !!user?.isOnboarded);
 
   return (
     <Switch>
+      <Route path="/s/:subdomain" component={PublicSite} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/invite" component={AcceptInvite} />
+      <Route path="/kiosk" component={Kiosk} />
+      <Route path="/display" component={Display} />
       {isLoading || !isAuthenticated ? (
-        <Route path="/" component={Landing} />
+        <>
+          <Route path="/" component={Landing} />
+          <Route path="/login" component={AuthPage} />
+        </>
       ) : !user?.isOnboarded ? (
         <Route path="/" component={Onboarding} />
       ) : (
@@ -29,6 +53,10 @@ function Router() {
           <Route path="/" component={Dashboard} />
           <Route path="/appointments" component={Appointments} />
           <Route path="/customers" component={Customers} />
+          <Route path="/sales" component={Sales} />
+          <Route path="/inventory" component={Inventory} />
+          <Route path="/payroll" component={Payroll} />
+          <Route path="/timeclock" component={TimeClock} />
           <Route path="/gallery" component={Gallery} />
           <Route path="/analytics" component={Analytics} />
           <Route path="/settings" component={Settings} />
@@ -45,7 +73,7 @@ function App() {
       <ThemeProvider>
         <TooltipProvider>
           <Toaster />
-          <Router />
+          {tenantSubdomain ? <PublicSite /> : <Router />}
         </TooltipProvider>
       </ThemeProvider>
     </QueryClientProvider>
@@ -0,0 +1,22 @@
+import Navigation from "@/components/Navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { ShieldAlert } from "lucide-react";
+
+// Shown in place of a page the signed-in staff role can't use
+export default function AccessDenied() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardContent className="py-12 text-center">
+            <ShieldAlert className="h-10 w-10 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">You don't have access to this page</h2>
+            <p className="text-gray-600">Ask the shop owner if you need it.</p>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
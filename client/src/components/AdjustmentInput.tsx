@@ -0,0 +1,49 @@
+import { useState } from "react";
+import type { Adjustment } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+interface AdjustmentInputProps {
+  value: Adjustment | null;
+  onChange: (value: Adjustment | null) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+// A dollar amount or percentage, used for discounts and custom tips.
+// Clearing the number clears the adjustment.
+export default function AdjustmentInput({ value, onChange, placeholder, className }: AdjustmentInputProps) {
+  const [type, setType] = useState<Adjustment["type"]>(value?.type ?? "amount");
+
+  const toggleType = () => {
+    const next = type === "amount" ? "percent" : "amount";
+    setType(next);
+    if (value) onChange({ ...value, type: next });
+  };
+
+  return (
+    <div className={`flex items-center space-x-1 ${className ?? ""}`}>
+      <Input
+        type="number"
+        min="0"
+        step="0.01"
+        placeholder={placeholder}
+        className="h-8"
+        value={value ? value.value : ""}
+        onChange={(e) => {
+          const number = parseFloat(e.target.value);
+          onChange(isNaN(number) ? null : { type, value: Math.max(0, number) });
+        }}
+      />
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        className="h-8 w-9 px-0"
+        onClick={toggleType}
+      >
+        {type === "amount" ? "$" : "%"}
+      </Button>
+    </div>
+  );
+}
@@ -1,8 +1,19 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { toDateInputValue } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { insertAppointmentSchema, insertQueueSchema } from "@shared/schema";
+import {
+  insertAppointmentSchema,
+  type Appointment,
+  type Barber,
+  type Customer,
+  type InsertQueue,
+  type Queue,
+  type RecurrenceRule,
+  type SeriesScope,
+  type Service,
+} from "@shared/schema";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -31,6 +42,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Calendar, Clock, User } from "lucide-react";
+import AvailabilitySlotPicker, { type AvailableSlot } from "./AvailabilitySlotPicker";
 
 interface AppointmentBookingModalProps {
   isOpen: boolean;
@@ -46,10 +58,22 @@ const appointmentFormSchema = insertAppointmentSchema.extend({
   endTime: z.string().min(1, "End time is required"),
 });
 
-const queueFormSchema = insertQueueSchema.extend({
-  customerId: z.number().min(1, "Please select a customer"),
-  serviceId: z.number().min(1, "Please select a service"),
-  position: z.number().min(1, "Position is required"),
+type BookingFormValues = z.infer<typeof appointmentFormSchema>;
+
+// "Repeat" choices offered at the front desk, mapped to recurrence rules
+const repeatOptions: Record<string, { label: string; frequency?: RecurrenceRule["frequency"]; interval?: number }> = {
+  none: { label: "Does not repeat" },
+  "1w": { label: "Every week", frequency: "weekly", interval: 1 },
+  "2w": { label: "Every 2 weeks", frequency: "weekly", interval: 2 },
+  "3w": { label: "Every 3 weeks", frequency: "weekly", interval: 3 },
+  "4w": { label: "Every 4 weeks", frequency: "weekly", interval: 4 },
+  "1m": { label: "Every month", frequency: "monthly", interval: 1 },
+};
+
+// Walk-ins don't pick a time; they go to the back of the line on submit
+const walkInFormSchema = appointmentFormSchema.extend({
+  startTime: z.string(),
+  endTime: z.string(),
 });
 
 export default function AppointmentBookingModal({
@@ -58,26 +82,40 @@ export default function AppointmentBookingModal({
   isWalkIn = false,
   appointmentToEdit,
 }: AppointmentBookingModalProps) {
+  const [selectedDate, setSelectedDate] = useState(
+    toDateInputValue(appointmentToEdit?.startTime ? new Date(appointmentToEdit.startTime) : new Date()),
+  );
+  const [repeat, setRepeat] = useState("none");
+  const [repeatEnd, setRepeatEnd] = useState<"count" | "until">("count");
+  const [repeatCount, setRepeatCount] = useState(6);
+  const [repeatUntil, setRepeatUntil] = useState("");
+  const [editScope, setEditScope] = useState<SeriesScope>("this");
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const isSeriesAppointment = !!appointmentToEdit?.seriesId;
 
-  const { data: customers } = useQuery({
+  const { data: customers } = useQuery<Customer[]>({
     queryKey: ["/api/customers"],
     enabled: isOpen,
   });
 
-  const { data: services } = useQuery({
+  const { data: services } = useQuery<Service[]>({
     queryKey: ["/api/services"],
     enabled: isOpen,
   });
 
-  const { data: queueData } = useQuery({
+  const { data: barbers } = useQuery<Barber[]>({
+    queryKey: ["/api/barbers"],
+    enabled: isOpen,
+  });
+
+  const { data: queue } = useQuery<Queue[]>({
     queryKey: ["/api/queue"],
     enabled: isOpen && isWalkIn,
   });
 
-  const form = useForm<z.infer<typeof appointmentFormSchema>>({
-    resolver: zodResolver(isWalkIn ? queueFormSchema : appointmentFormSchema),
+  const form = useForm<BookingFormValues>({
+    resolver: zodResolver(isWalkIn ? walkInFormSchema : appointmentFormSchema),
     defaultValues: {
       customerId: appointmentToEdit?.customerId || 0,
       serviceId: appointmentToEdit?.serviceId || 0,
@@ -85,38 +123,48 @@ export default function AppointmentBookingModal({
       startTime: appointmentToEdit?.startTime || "",
       endTime: appointmentToEdit?.endTime || "",
       notes: appointmentToEdit?.notes || "",
-      position: queueData?.length ? queueData.length + 1 : 1,
     },
   });
 
   const createAppointmentMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof appointmentFormSchema>) => {
+    mutationFn: async (data: BookingFormValues | InsertQueue) => {
       const endpoint = isWalkIn ? "/api/queue" : "/api/appointments";
-      await apiRequest("POST", endpoint, data);
+      const recurrence = getRecurrenceRule();
+      const res = await apiRequest("POST", endpoint, recurrence ? { ...data, recurrence } : data);
+      return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { appointments?: Appointment[]; skipped?: string[] }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/queue"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      const skipped = result.skipped?.length
+        ? ` ${result.skipped.length} skipped because the shop is closed or the barber isn't working.`
+        : "";
       toast({
         title: "Success",
-        description: isWalkIn ? "Added to queue successfully" : "Appointment created successfully",
+        description: isWalkIn ? "Added to queue successfully" :
+          result.appointments ? `Booked ${result.appointments.length} recurring appointments.${skipped}` :
+          "Appointment created successfully",
       });
       onClose();
       form.reset();
     },
     onError: (error) => {
+      if (showAppointmentConflict(error)) return;
+      // 409 without a clash: the shop is shut or the barber isn't working then
+      const { status, message } = parseApiError(error);
       toast({
         title: "Error",
-        description: isWalkIn ? "Failed to add to queue" : "Failed to create appointment",
+        description: status === 400 || status === 409 ? message : isWalkIn ? "Failed to add to queue" : "Failed to create appointment",
         variant: "destructive",
       });
     },
   });
 
   const updateAppointmentMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof appointmentFormSchema>) => {
-      await apiRequest("PUT", `/api/appointments/${appointmentToEdit.id}`, data);
+    mutationFn: async (data: BookingFormValues) => {
+      const scope = isSeriesAppointment ? `?scope=${editScope}` : "";
+      await apiRequest("PUT", `/api/appointments/${appointmentToEdit.id}${scope}`, data);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
@@ -129,24 +177,57 @@ export default function AppointmentBookingModal({
       form.reset();
     },
     onError: (error) => {
+      if (showAppointmentConflict(error)) return;
+      // A move the shop's hours or a barber's schedule or time off rule out
+      const { status, message } = parseApiError(error);
       toast({
         title: "Error",
-        description: "Failed to update appointment",
+        description: status === 409 ? message : "Failed to update appointment",
         variant: "destructive",
       });
     },
   });
 
-  const onSubmit = (data: z.infer<typeof appointmentFormSchema>) => {
+  // A 409 from the server means someone else grabbed the slot; explain the clash
+  // next to the time picker and refresh the open slots
+  const showAppointmentConflict = (error: Error) => {
+    const { status, body } = parseApiError(error);
+    if (status !== 409 || !body?.conflict) return false;
+
+    const { conflict } = body;
+    const customerName = customers?.find((c) => c.id === conflict.customerId)?.name || "another customer";
+    const formatTime = (time: string) =>
+      new Date(time).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+    form.setError("startTime", {
+      message: `${conflict.barber} is already booked with ${customerName} from ${formatTime(conflict.startTime)} to ${formatTime(conflict.endTime)}.`,
+    });
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/availability"),
+    });
+    return true;
+  };
+
+  const getRecurrenceRule = (): RecurrenceRule | undefined => {
+    const option = repeatOptions[repeat];
+    if (isWalkIn || appointmentToEdit || !option.frequency || !option.interval) return undefined;
+    return {
+      frequency: option.frequency,
+      interval: option.interval,
+      ...(repeatEnd === "count"
+        ? { count: repeatCount }
+        : { until: new Date(`${repeatUntil}T23:59:59`) }),
+    };
+  };
+
+  const onSubmit = (data: BookingFormValues) => {
     if (isWalkIn) {
-      const queueData = {
+      const queueEntry: InsertQueue = {
         customerId: data.customerId,
         serviceId: data.serviceId,
         barber: data.barber,
-        position: queueData?.length ? queueData.length + 1 : 1,
-        estimatedWaitTime: calculateEstimatedWaitTime(data.serviceId),
+        position: (queue?.length ?? 0) + 1,
       };
-      createAppointmentMutation.mutate(queueData as any);
+      createAppointmentMutation.mutate(queueEntry);
     } else {
       if (appointmentToEdit) {
         updateAppointmentMutation.mutate(data);
@@ -156,32 +237,31 @@ export default function AppointmentBookingModal({
     }
   };
 
-  const calculateEstimatedWaitTime = (serviceId: number) => {
-    const service = services?.find((s: any) => s.id === serviceId);
-    const serviceDuration = service?.duration || 30;
-    const queueLength = queueData?.filter((item: any) => item.status === 'waiting').length || 0;
-    return queueLength * serviceDuration;
+  const activeBarbers = barbers?.filter((barber) => barber.isActive) || [];
+  const selectedServiceId = form.watch('serviceId');
+  const selectedBarber = form.watch('barber');
+  const selectedStartTime = form.watch('startTime');
+
+  const getAvailabilityUrl = () => {
+    if (isWalkIn || !selectedServiceId || !selectedDate) return null;
+    const params = new URLSearchParams({ serviceId: String(selectedServiceId), date: selectedDate });
+    const barber = activeBarbers.find((b) => b.name === selectedBarber);
+    if (barber) params.set('barberId', String(barber.id));
+    if (appointmentToEdit) params.set('excludeAppointmentId', String(appointmentToEdit.id));
+    return `/api/availability?${params}`;
   };
 
-  const handleServiceChange = (serviceId: string) => {
-    const service = services?.find((s: any) => s.id === parseInt(serviceId));
-    if (service && !isWalkIn) {
-      const startTime = form.getValues('startTime');
-      if (startTime) {
-        const start = new Date(startTime);
-        const end = new Date(start.getTime() + service.duration * 60000);
-        form.setValue('endTime', end.toISOString().slice(0, 16));
-      }
-    }
+  // Changing service, barber or day invalidates the previously picked slot
+  const clearSelectedSlot = () => {
+    form.setValue('startTime', '');
+    form.setValue('endTime', '');
   };
 
-  const handleStartTimeChange = (startTime: string) => {
-    const serviceId = form.getValues('serviceId');
-    const service = services?.find((s: any) => s.id === serviceId);
-    if (service && !isWalkIn) {
-      const start = new Date(startTime);
-      const end = new Date(start.getTime() + service.duration * 60000);
-      form.setValue('endTime', end.toISOString().slice(0, 16));
+  const handleSlotSelect = (slot: AvailableSlot) => {
+    form.setValue('startTime', slot.startTime, { shouldValidate: true });
+    form.setValue('endTime', slot.endTime);
+    if (!selectedBarber && slot.barbers.length > 0) {
+      form.setValue('barber', slot.barbers[0]);
     }
   };
 
@@ -230,7 +310,7 @@ export default function AppointmentBookingModal({
                   <FormLabel>Service</FormLabel>
                   <Select onValueChange={(value) => {
                     field.onChange(parseInt(value));
-                    handleServiceChange(value);
+                    clearSelectedSlot();
                   }}>
                     <FormControl>
                       <SelectTrigger>
@@ -250,38 +330,64 @@ export default function AppointmentBookingModal({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="barber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Barber</FormLabel>
+                  <Select
+                    value={field.value || "any"}
+                    onValueChange={(value) => {
+                      field.onChange(value === "any" ? "" : value);
+                      clearSelectedSlot();
+                    }}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Any barber" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="any">Any barber</SelectItem>
+                      {activeBarbers.map((barber) => (
+                        <SelectItem key={barber.id} value={barber.name}>
+                          {barber.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             {!isWalkIn && (
               <>
-                <FormField
-                  control={form.control}
-                  name="startTime"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Date & Time</FormLabel>
-                      <FormControl>
-                        <Input
-                          type="datetime-local"
-                          {...field}
-                          onChange={(e) => {
-                            field.onChange(e);
-                            handleStartTimeChange(e.target.value);
-                          }}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                <FormItem>
+                  <FormLabel>Date</FormLabel>
+                  <Input
+                    type="date"
+                    value={selectedDate}
+                    min={toDateInputValue(new Date())}
+                    onChange={(e) => {
+                      setSelectedDate(e.target.value);
+                      clearSelectedSlot();
+                    }}
+                  />
+                </FormItem>
 
                 <FormField
                   control={form.control}
-                  name="endTime"
-                  render={({ field }) => (
+                  name="startTime"
+                  render={() => (
                     <FormItem>
-                      <FormLabel>End Time</FormLabel>
-                      <FormControl>
-                        <Input type="datetime-local" {...field} />
-                      </FormControl>
+                      <FormLabel>Available Times</FormLabel>
+                      <AvailabilitySlotPicker
+                        availabilityUrl={getAvailabilityUrl()}
+                        selectedStartTime={selectedStartTime}
+                        onSelect={handleSlotSelect}
+                      />
                       <FormMessage />
                     </FormItem>
                   )}
@@ -289,19 +395,72 @@ export default function AppointmentBookingModal({
               </>
             )}
 
-            <FormField
-              control={form.control}
-              name="barber"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Barber</FormLabel>
-                  <FormControl>
-                    <Input placeholder="Enter barber name..." {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {!isWalkIn && !appointmentToEdit && (
+              <FormItem>
+                <FormLabel>Repeat</FormLabel>
+                <Select value={repeat} onValueChange={setRepeat}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(repeatOptions).map(([value, option]) => (
+                      <SelectItem key={value} value={value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {repeat !== "none" && (
+                  <div className="flex items-center gap-2 pt-2">
+                    <Select value={repeatEnd} onValueChange={(value) => setRepeatEnd(value as "count" | "until")}>
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="count">Ends after</SelectItem>
+                        <SelectItem value="until">Ends on</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {repeatEnd === "count" ? (
+                      <>
+                        <Input
+                          type="number"
+                          min={2}
+                          max={52}
+                          className="w-20"
+                          value={repeatCount}
+                          onChange={(e) => setRepeatCount(parseInt(e.target.value) || 2)}
+                        />
+                        <span className="text-sm text-gray-600">visits</span>
+                      </>
+                    ) : (
+                      <Input
+                        type="date"
+                        min={selectedDate}
+                        value={repeatUntil}
+                        onChange={(e) => setRepeatUntil(e.target.value)}
+                      />
+                    )}
+                  </div>
+                )}
+              </FormItem>
+            )}
+
+            {isSeriesAppointment && (
+              <FormItem>
+                <FormLabel>Apply changes to</FormLabel>
+                <Select value={editScope} onValueChange={(value) => setEditScope(value as SeriesScope)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="this">This appointment</SelectItem>
+                    <SelectItem value="following">This and following appointments</SelectItem>
+                    <SelectItem value="series">All appointments in the series</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
 
             <FormField
               control={form.control}
@@ -314,6 +473,7 @@ export default function AppointmentBookingModal({
                       placeholder="Special requests or notes..."
                       rows={3}
                       {...field}
+                      value={field.value ?? ""}
                     />
                   </FormControl>
                   <FormMessage />
@@ -328,7 +488,11 @@ export default function AppointmentBookingModal({
               <Button 
                 type="submit" 
                 className="flex-1"
-                disabled={createAppointmentMutation.isPending || updateAppointmentMutation.isPending}
+                disabled={
+                  createAppointmentMutation.isPending ||
+                  updateAppointmentMutation.isPending ||
+                  (repeat !== "none" && repeatEnd === "until" && !repeatUntil)
+                }
               >
                 {isWalkIn ? "Add to Queue" : 
                  appointmentToEdit ? "Update Appointment" : "Book Appointment"}
@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+
+export interface AvailableSlot {
+  startTime: string;
+  endTime: string;
+  barbers: string[];
+}
+
+interface AvailabilitySlotPickerProps {
+  availabilityUrl: string | null;
+  selectedStartTime?: string;
+  onSelect: (slot: AvailableSlot) => void;
+}
+
+export default function AvailabilitySlotPicker({
+  availabilityUrl,
+  selectedStartTime,
+  onSelect,
+}: AvailabilitySlotPickerProps) {
+  const { data: slots, isLoading } = useQuery<AvailableSlot[]>({
+    queryKey: [availabilityUrl],
+    enabled: !!availabilityUrl,
+    staleTime: 0,
+  });
+
+  if (!availabilityUrl) {
+    return <p className="text-sm text-gray-500">Choose a service and date to see open times.</p>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!slots || slots.length === 0) {
+    return <p className="text-sm text-gray-500">No open times on this day.</p>;
+  }
+
+  const isSelected = (slot: AvailableSlot) =>
+    !!selectedStartTime && new Date(selectedStartTime).getTime() === new Date(slot.startTime).getTime();
+
+  return (
+    <div className="grid grid-cols-4 gap-2 max-h-48 overflow-y-auto">
+      {slots.map((slot) => (
+        <Button
+          key={slot.startTime}
+          type="button"
+          size="sm"
+          variant={isSelected(slot) ? "default" : "outline"}
+          onClick={() => onSelect(slot)}
+        >
+          {new Date(slot.startTime).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { toDateInputValue } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import {
+  barberScheduleSchema,
+  type Barber,
+  type BarberSchedule,
+  type BarberTimeOff,
+} from "@shared/schema";
+import type { DayHours } from "@shared/schedule";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Form, FormControl, FormField, FormItem } from "@/components/ui/form";
+import { Save, Plus, Trash2, CalendarOff } from "lucide-react";
+
+interface BarberScheduleEditorProps {
+  barber: Barber;
+  businessHours: unknown;
+}
+
+const daysOfWeek = [
+  { key: "monday", label: "Monday" },
+  { key: "tuesday", label: "Tuesday" },
+  { key: "wednesday", label: "Wednesday" },
+  { key: "thursday", label: "Thursday" },
+  { key: "friday", label: "Friday" },
+  { key: "saturday", label: "Saturday" },
+  { key: "sunday", label: "Sunday" },
+] as const;
+
+// Start a custom schedule from the shop's own hours
+const scheduleFromBusinessHours = (businessHours: unknown): BarberSchedule => {
+  const hours = (businessHours || {}) as Record<string, DayHours | undefined>;
+  return Object.fromEntries(daysOfWeek.map(({ key }) => {
+    const day = hours[key];
+    return [key, {
+      isWorking: !!day && day.closed !== true && day.isOpen !== false,
+      start: day?.open || "09:00",
+      end: day?.close || "18:00",
+      breakStart: "",
+      breakEnd: "",
+    }];
+  })) as BarberSchedule;
+};
+
+export default function BarberScheduleEditor({ barber, businessHours }: BarberScheduleEditorProps) {
+  const [hasCustomSchedule, setHasCustomSchedule] = useState(!!barber.schedule);
+  const [timeOffStart, setTimeOffStart] = useState(toDateInputValue(new Date()));
+  const [timeOffEnd, setTimeOffEnd] = useState(toDateInputValue(new Date()));
+  const [timeOffReason, setTimeOffReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const scheduleForm = useForm<BarberSchedule>({
+    resolver: zodResolver(barberScheduleSchema),
+    defaultValues: (barber.schedule as BarberSchedule | null) || scheduleFromBusinessHours(businessHours),
+  });
+
+  const { data: allTimeOff } = useQuery<BarberTimeOff[]>({
+    queryKey: ["/api/barbers/time-off"],
+  });
+  const upcomingTimeOff = allTimeOff?.filter(
+    (entry) => entry.barberId === barber.id && new Date(entry.endDate) > new Date(),
+  ) || [];
+
+  const invalidateSchedules = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/barbers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/barbers/time-off"] });
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/availability"),
+    });
+  };
+
+  const updateScheduleMutation = useMutation({
+    mutationFn: async (schedule: BarberSchedule | null) => {
+      await apiRequest("PUT", `/api/barbers/${barber.id}`, { schedule });
+    },
+    onSuccess: () => {
+      invalidateSchedules();
+      toast({
+        title: "Schedule updated",
+        description: `${barber.name}'s working hours have been saved.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update schedule. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createTimeOffMutation = useMutation({
+    mutationFn: async () => {
+      // Time off is stored as whole local days with an exclusive end
+      const startDate = new Date(`${timeOffStart}T00:00:00`);
+      const endDate = new Date(`${timeOffEnd}T00:00:00`);
+      endDate.setDate(endDate.getDate() + 1);
+      await apiRequest("POST", `/api/barbers/${barber.id}/time-off`, {
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        reason: timeOffReason || null,
+      });
+    },
+    onSuccess: () => {
+      invalidateSchedules();
+      setTimeOffReason("");
+      toast({
+        title: "Time off added",
+        description: `${barber.name} won't be bookable on those days.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteTimeOffMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/barbers/time-off/${id}`);
+    },
+    onSuccess: () => {
+      invalidateSchedules();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to remove time off.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onScheduleSubmit = (schedule: BarberSchedule) => {
+    updateScheduleMutation.mutate(schedule);
+  };
+
+  const handleCustomScheduleChange = (checked: boolean) => {
+    setHasCustomSchedule(checked);
+    if (!checked) {
+      updateScheduleMutation.mutate(null);
+    }
+  };
+
+  const formatTimeOffEnd = (endDate: Date | string) => {
+    // endDate is exclusive, show the last day off instead
+    return new Date(new Date(endDate).getTime() - 1).toLocaleDateString();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-primary">{barber.name}</CardTitle>
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`custom-schedule-${barber.id}`} className="text-sm text-gray-600">
+              Custom schedule
+            </Label>
+            <Switch
+              id={`custom-schedule-${barber.id}`}
+              checked={hasCustomSchedule}
+              onCheckedChange={handleCustomScheduleChange}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!hasCustomSchedule ? (
+          <p className="text-sm text-gray-600">Works whenever the shop is open.</p>
+        ) : (
+          <Form {...scheduleForm}>
+            <form onSubmit={scheduleForm.handleSubmit(onScheduleSubmit)} className="space-y-3">
+              {daysOfWeek.map((day) => {
+                const isWorking = scheduleForm.watch(`${day.key}.isWorking`);
+                return (
+                  <div key={day.key} className="flex flex-wrap items-center gap-3 p-3 bg-gray-50 rounded-lg">
+                    <div className="w-24 font-medium text-gray-900">{day.label}</div>
+                    <FormField
+                      control={scheduleForm.control}
+                      name={`${day.key}.isWorking`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                    {(["start", "end"] as const).map((part, index) => (
+                      <div key={part} className="flex items-center gap-2">
+                        {index === 1 && <span className="text-gray-500">to</span>}
+                        <FormField
+                          control={scheduleForm.control}
+                          name={`${day.key}.${part}`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input type="time" className="w-28" {...field} disabled={!isWorking} />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    ))}
+                    <span className="text-gray-500 text-sm">Break</span>
+                    {(["breakStart", "breakEnd"] as const).map((part, index) => (
+                      <div key={part} className="flex items-center gap-2">
+                        {index === 1 && <span className="text-gray-500">to</span>}
+                        <FormField
+                          control={scheduleForm.control}
+                          name={`${day.key}.${part}`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input
+                                  type="time"
+                                  className="w-28"
+                                  {...field}
+                                  value={field.value || ""}
+                                  disabled={!isWorking}
+                                />
+                              </FormControl>
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+              <Button
+                type="submit"
+                className="bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg"
+                disabled={updateScheduleMutation.isPending}
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Schedule
+              </Button>
+            </form>
+          </Form>
+        )}
+
+        <Separator />
+
+        <div className="space-y-3">
+          <h3 className="font-medium text-gray-900 flex items-center gap-2">
+            <CalendarOff className="h-4 w-4 text-secondary" />
+            Time Off
+          </h3>
+          {upcomingTimeOff.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {new Date(entry.startDate).toLocaleDateString()} - {formatTimeOffEnd(entry.endDate)}
+                </p>
+                {entry.reason && <p className="text-sm text-gray-600">{entry.reason}</p>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600"
+                onClick={() => deleteTimeOffMutation.mutate(entry.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {upcomingTimeOff.length === 0 && (
+            <p className="text-sm text-gray-500">No upcoming time off.</p>
+          )}
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <Label className="text-sm">From</Label>
+              <Input type="date" value={timeOffStart} onChange={(e) => setTimeOffStart(e.target.value)} />
+            </div>
+            <div>
+              <Label className="text-sm">To</Label>
+              <Input type="date" value={timeOffEnd} min={timeOffStart} onChange={(e) => setTimeOffEnd(e.target.value)} />
+            </div>
+            <div className="flex-1 min-w-[10rem]">
+              <Label className="text-sm">Reason</Label>
+              <Input placeholder="Vacation, sick day..." value={timeOffReason} onChange={(e) => setTimeOffReason(e.target.value)} />
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => createTimeOffMutation.mutate()}
+              disabled={createTimeOffMutation.isPending || !timeOffStart || !timeOffEnd}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add Time Off
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
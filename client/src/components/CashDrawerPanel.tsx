@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { fromCents, toCents } from "@shared/pricing";
+import type { CashDrawerMovement, CashDrawerSession, ZReport } from "@shared/schema";
+import ZReportView from "@/components/ZReportView";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Wallet } from "lucide-react";
+
+interface CurrentDrawer {
+  session: CashDrawerSession;
+  movements: CashDrawerMovement[];
+  report: ZReport;
+}
+
+type MovementType = "paid_in" | "paid_out";
+
+// Open the till with a float, record cash in and out during the shift, and
+// count it down at the end of the day
+export default function CashDrawerPanel() {
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [movementType, setMovementType] = useState<MovementType>("paid_out");
+  const [movementAmount, setMovementAmount] = useState("");
+  const [movementReason, setMovementReason] = useState("");
+  const [countedCash, setCountedCash] = useState("");
+  const [closeNotes, setCloseNotes] = useState("");
+  const [closedSession, setClosedSession] = useState<CashDrawerSession | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: drawer, isLoading } = useQuery<CurrentDrawer | null>({
+    queryKey: ["/api/cash-drawer/current"],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: parseApiError(error).message,
+      variant: "destructive",
+    });
+  };
+
+  const openDrawerMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/cash-drawer/open", { openingFloat: openingFloat || 0 });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-drawer/current"] });
+      setOpeningFloat("");
+      toast({ title: "Drawer opened" });
+    },
+    onError: showError,
+  });
+
+  const movementMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/cash-drawer/current/movements", {
+        type: movementType,
+        amount: movementAmount,
+        reason: movementReason,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-drawer/current"] });
+      setMovementAmount("");
+      setMovementReason("");
+      toast({ title: movementType === "paid_in" ? "Paid in recorded" : "Paid out recorded" });
+    },
+    onError: showError,
+  });
+
+  const closeDrawerMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/cash-drawer/current/close", {
+        countedCash,
+        notes: closeNotes || undefined,
+      });
+      return await response.json() as CashDrawerSession;
+    },
+    onSuccess: (session) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-drawer/current"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-drawer/sessions"] });
+      setCountedCash("");
+      setCloseNotes("");
+      setClosedSession(session);
+    },
+    onError: showError,
+  });
+
+  const overShortCents = drawer && countedCash !== ""
+    ? toCents(countedCash) - toCents(drawer.report.expectedCash)
+    : null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Wallet className="h-5 w-5 mr-2" />
+          Cash Drawer
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : !drawer ? (
+          <div className="flex items-end space-x-3 max-w-sm">
+            <div className="flex-1">
+              <label className="text-sm font-medium text-gray-700">Opening float</label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="150.00"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+              />
+            </div>
+            <Button onClick={() => openDrawerMutation.mutate()} disabled={openDrawerMutation.isPending}>
+              Open Drawer
+            </Button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            <ZReportView report={drawer.report} />
+
+            <div className="space-y-6">
+              <div className="space-y-2">
+                <p className="font-medium text-sm">Paid in / paid out</p>
+                <div className="flex space-x-2">
+                  <Select value={movementType} onValueChange={(value) => setMovementType(value as MovementType)}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="paid_out">Paid out</SelectItem>
+                      <SelectItem value="paid_in">Paid in</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Amount"
+                    value={movementAmount}
+                    onChange={(e) => setMovementAmount(e.target.value)}
+                  />
+                </div>
+                <div className="flex space-x-2">
+                  <Input
+                    placeholder="Reason, e.g. cleaning supplies"
+                    value={movementReason}
+                    onChange={(e) => setMovementReason(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => movementMutation.mutate()}
+                    disabled={movementMutation.isPending || !movementAmount || !movementReason.trim()}
+                  >
+                    Record
+                  </Button>
+                </div>
+                {drawer.movements.map((movement) => (
+                  <div key={movement.id} className="flex justify-between text-sm text-gray-600">
+                    <span>{movement.type === "paid_in" ? "Paid in" : "Paid out"} · {movement.reason}</span>
+                    <span>{movement.type === "paid_in" ? "+" : "-"}${movement.amount}</span>
+                  </div>
+                ))}
+              </div>
+
+              <Separator />
+              <div className="space-y-2">
+                <p className="font-medium text-sm">Close drawer</p>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="Counted cash"
+                  value={countedCash}
+                  onChange={(e) => setCountedCash(e.target.value)}
+                />
+                {overShortCents !== null && (
+                  <p className={overShortCents === 0 ? "text-sm text-green-700" : "text-sm text-red-600"}>
+                    {overShortCents === 0
+                      ? "Drawer balances"
+                      : `${overShortCents > 0 ? "Over" : "Short"} by $${fromCents(Math.abs(overShortCents))}`}
+                  </p>
+                )}
+                <Input
+                  placeholder="Notes (optional)"
+                  value={closeNotes}
+                  onChange={(e) => setCloseNotes(e.target.value)}
+                />
+                <Button
+                  className="w-full"
+                  onClick={() => closeDrawerMutation.mutate()}
+                  disabled={closeDrawerMutation.isPending || countedCash === ""}
+                >
+                  Close Drawer
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={closedSession !== null} onOpenChange={(open) => !open && setClosedSession(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Z-Report</DialogTitle>
+          </DialogHeader>
+          {closedSession?.report && <ZReportView report={closedSession.report} />}
+          {closedSession?.notes && <p className="text-sm text-gray-600">Notes: {closedSession.notes}</p>}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocations } from "@/hooks/useLocations";
+import { useToast } from "@/hooks/use-toast";
+import { taxRateSchema, type Service } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Save } from "lucide-react";
+
+// Sales tax for the location picked in the switcher, and which services it
+// applies to. Extra locations can leave the rate blank to use the main shop's.
+export default function CheckoutSettings() {
+  const { user } = useAuth();
+  const { currentLocation } = useLocations();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [taxRate, setTaxRate] = useState("");
+
+  const { data: services } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  useEffect(() => {
+    setTaxRate((currentLocation ? currentLocation.taxRate : user?.taxRate) ?? "");
+  }, [user?.taxRate, currentLocation]);
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: parseApiError(error).message,
+      variant: "destructive",
+    });
+  };
+
+  const taxRateMutation = useMutation({
+    mutationFn: async (rate: string | null) => {
+      if (currentLocation) {
+        await apiRequest("PUT", `/api/locations/${currentLocation.id}`, { taxRate: rate });
+      } else {
+        await apiRequest("PUT", "/api/user/profile", { taxRate: rate ?? "0" });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      toast({
+        title: "Tax rate updated",
+        description: "New sales will be taxed at this rate.",
+      });
+    },
+    onError: showError,
+  });
+
+  const taxableMutation = useMutation({
+    mutationFn: async ({ id, taxable }: { id: number; taxable: boolean }) => {
+      await apiRequest("PUT", `/api/services/${id}`, { taxable });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/services"] });
+    },
+    onError: showError,
+  });
+
+  const saveTaxRate = () => {
+    const rate = taxRate.trim();
+    if (!rate && currentLocation) {
+      taxRateMutation.mutate(null);
+      return;
+    }
+    const parsed = taxRateSchema.safeParse(rate || "0");
+    if (!parsed.success) {
+      toast({
+        title: "Error",
+        description: parsed.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+    taxRateMutation.mutate(parsed.data);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-primary">
+            Sales Tax{currentLocation ? ` - ${currentLocation.name}` : ""}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-3">
+            <div className="w-40">
+              <label className="block text-sm font-medium mb-2">Tax rate (%)</label>
+              <Input
+                inputMode="decimal"
+                placeholder={currentLocation ? `${user?.taxRate ?? "0"} (main shop)` : "0"}
+                value={taxRate}
+                onChange={(e) => setTaxRate(e.target.value)}
+              />
+            </div>
+            <Button onClick={saveTaxRate} disabled={taxRateMutation.isPending}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          </div>
+          <p className="text-sm text-gray-600">
+            Tax is charged after discounts, only on items marked taxable. Tips are never taxed.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-primary">Taxable Services</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {services?.map((service) => (
+            <div key={service.id} className="flex items-center justify-between">
+              <div>
+                <p className="font-medium text-gray-900">{service.name}</p>
+                <p className="text-sm text-gray-600">${service.price}</p>
+              </div>
+              <Switch
+                checked={!!service.taxable}
+                onCheckedChange={(taxable) => taxableMutation.mutate({ id: service.id, taxable })}
+              />
+            </div>
+          ))}
+          {services?.length === 0 && (
+            <p className="text-gray-500 text-center py-4">No services yet.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
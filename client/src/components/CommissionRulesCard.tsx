@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Barber, CommissionRule, CommissionRuleData } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Percent } from "lucide-react";
+
+type PayType = CommissionRuleData["payType"];
+
+function RuleRow({ barber, rule }: { barber: Barber; rule?: CommissionRule }) {
+  const [payType, setPayType] = useState<PayType>((rule?.payType as PayType) ?? "commission");
+  const [serviceRate, setServiceRate] = useState(rule?.serviceRate ?? "0");
+  const [retailRate, setRetailRate] = useState(rule?.retailRate ?? "0");
+  const [tipsPassThrough, setTipsPassThrough] = useState(rule?.tipsPassThrough ?? true);
+  const [boothRent, setBoothRent] = useState(rule?.boothRent ?? "0");
+  const [hourlyRate, setHourlyRate] = useState(rule?.hourlyRate ?? "0");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/payroll/rules/${barber.id}`, {
+        payType,
+        serviceRate,
+        retailRate,
+        tipsPassThrough,
+        boothRent,
+        hourlyRate,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payroll/rules"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/payroll?"),
+      });
+      toast({ title: `Pay for ${barber.name} saved` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const boothRenter = payType === "booth_rent";
+
+  return (
+    <tr className="border-b last:border-0">
+      <td className="py-2 font-medium text-gray-900">{barber.name}</td>
+      <td className="py-2 pr-2">
+        <Select value={payType} onValueChange={(value) => setPayType(value as PayType)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="commission">Commission</SelectItem>
+            <SelectItem value="booth_rent">Booth rent</SelectItem>
+          </SelectContent>
+        </Select>
+      </td>
+      <td className="py-2 pr-2">
+        <Input
+          type="number"
+          min="0"
+          max="100"
+          step="0.5"
+          className="w-24"
+          disabled={boothRenter}
+          value={boothRenter ? "100" : serviceRate}
+          onChange={(e) => setServiceRate(e.target.value)}
+        />
+      </td>
+      <td className="py-2 pr-2">
+        <Input
+          type="number"
+          min="0"
+          max="100"
+          step="0.5"
+          className="w-24"
+          value={retailRate}
+          onChange={(e) => setRetailRate(e.target.value)}
+        />
+      </td>
+      <td className="py-2 pr-2">
+        <Switch checked={tipsPassThrough} onCheckedChange={setTipsPassThrough} />
+      </td>
+      <td className="py-2 pr-2">
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          className="w-24"
+          disabled={boothRenter}
+          value={boothRenter ? "0" : hourlyRate}
+          onChange={(e) => setHourlyRate(e.target.value)}
+        />
+      </td>
+      <td className="py-2 pr-2">
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          className="w-28"
+          disabled={!boothRenter}
+          value={boothRent}
+          onChange={(e) => setBoothRent(e.target.value)}
+        />
+      </td>
+      <td className="py-2 text-right">
+        <Button size="sm" onClick={() => saveRuleMutation.mutate()} disabled={saveRuleMutation.isPending}>
+          Save
+        </Button>
+      </td>
+    </tr>
+  );
+}
+
+// How each barber is paid: a cut of service and retail sales plus an hourly
+// rate for clocked time, or booth rent
+export default function CommissionRulesCard() {
+  const { data: barbers } = useQuery<Barber[]>({
+    queryKey: ["/api/barbers"],
+  });
+
+  const { data: rules, isLoading } = useQuery<CommissionRule[]>({
+    queryKey: ["/api/payroll/rules"],
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Percent className="h-5 w-5 mr-2" />
+          Pay Rules
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 font-medium">Barber</th>
+                  <th className="py-2 font-medium">Pay type</th>
+                  <th className="py-2 font-medium">Service %</th>
+                  <th className="py-2 font-medium">Retail %</th>
+                  <th className="py-2 font-medium">Keeps tips</th>
+                  <th className="py-2 font-medium">Hourly $</th>
+                  <th className="py-2 font-medium">Rent / week</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {barbers?.filter((barber) => barber.isActive).map((barber) => (
+                  <RuleRow
+                    key={barber.id}
+                    barber={barber}
+                    rule={rules?.find((rule) => rule.barberId === barber.id)}
+                  />
+                ))}
+              </tbody>
+            </table>
+            {barbers?.length === 0 && (
+              <p className="text-center text-gray-500 py-8">Add barbers in Settings to set their pay</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
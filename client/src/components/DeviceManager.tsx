@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { deviceKinds, type DeviceKind, type DeviceSummary } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, TabletSmartphone, Trash2 } from "lucide-react";
+
+const kindLabels: Record<DeviceKind, string> = {
+  kiosk: "Check-in kiosk",
+  display: "Queue display",
+};
+
+// Where each kind of device is opened before it's paired
+const kindPaths: Record<DeviceKind, string> = {
+  kiosk: "/kiosk",
+  display: "/display",
+};
+
+interface PendingPairing {
+  kind: DeviceKind;
+  name: string;
+  pairingCode: string;
+  expiresAt: Date | string | null;
+}
+
+// Kiosks and displays for the current location. A new device shows its
+// pairing code here once; after that it can only be removed.
+export default function DeviceManager() {
+  const [kind, setKind] = useState<DeviceKind>("kiosk");
+  const [name, setName] = useState("");
+  const [pending, setPending] = useState<PendingPairing | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: devices } = useQuery<DeviceSummary[]>({
+    queryKey: ["/api/devices"],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: parseApiError(error).message,
+      variant: "destructive",
+    });
+  };
+
+  const createDeviceMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/devices", { kind, name });
+      return (await res.json()) as { device: DeviceSummary; pairingCode: string };
+    },
+    onSuccess: ({ device, pairingCode }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      setPending({ kind, name: device.name, pairingCode, expiresAt: device.pairingExpiresAt });
+      setName("");
+    },
+    onError: showError,
+  });
+
+  const removeDeviceMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/devices/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      toast({
+        title: "Device removed",
+        description: "It will ask to be paired again.",
+      });
+    },
+    onError: showError,
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-primary">Add Device</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-4">
+            <Select value={kind} onValueChange={(value) => setKind(value as DeviceKind)}>
+              <SelectTrigger className="md:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {deviceKinds.map((deviceKind) => (
+                  <SelectItem key={deviceKind} value={deviceKind}>
+                    {kindLabels[deviceKind]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={kind === "display" ? "Waiting area TV" : "Front door tablet"}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button
+              onClick={() => createDeviceMutation.mutate()}
+              disabled={createDeviceMutation.isPending || !name.trim()}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Get Pairing Code
+            </Button>
+          </div>
+          {pending && (
+            <div className="rounded-lg border border-primary/30 bg-primary/5 p-4 text-center">
+              <p className="text-sm text-gray-600">
+                On {pending.name}, open <span className="font-medium">{window.location.origin}{kindPaths[pending.kind]}</span> and enter
+              </p>
+              <p className="text-3xl font-bold tracking-widest text-primary my-2">{pending.pairingCode}</p>
+              {pending.expiresAt && (
+                <p className="text-xs text-gray-500">
+                  Works until {new Date(pending.expiresAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-primary">Devices</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {devices?.map((device) => (
+            <div key={device.id} className="flex items-center gap-3">
+              <TabletSmartphone className="h-5 w-5 text-gray-400" />
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">
+                  {device.name}
+                  {!device.pairedAt && (
+                    <Badge variant="secondary" className="ml-2">Waiting to pair</Badge>
+                  )}
+                </p>
+                <p className="text-sm text-gray-600">
+                  {kindLabels[device.kind as DeviceKind] ?? device.kind}
+                  {device.pairedAt && ` · paired ${new Date(device.pairedAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600"
+                disabled={removeDeviceMutation.isPending}
+                onClick={() => removeDeviceMutation.mutate(device.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {devices?.length === 0 && (
+            <p className="text-gray-500 text-center py-4">
+              No devices paired to this location.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import type { DeviceKind } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TabletSmartphone } from "lucide-react";
+
+const pairingHints: Record<DeviceKind, string> = {
+  kiosk: "In Settings, add a check-in kiosk and type the code it shows here.",
+  display: "In Settings, add a queue display and type the code it shows here.",
+};
+
+interface DevicePairingScreenProps {
+  kind: DeviceKind;
+  onPaired: (token: string) => void;
+}
+
+export default function DevicePairingScreen({ kind, onPaired }: DevicePairingScreenProps) {
+  const [code, setCode] = useState("");
+
+  const pairMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/devices/pair", { kind, code });
+      return (await res.json()) as { token: string; name: string };
+    },
+    onSuccess: ({ token }) => onPaired(token),
+  });
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardContent className="pt-6 space-y-4 text-center">
+          <TabletSmartphone className="h-10 w-10 text-gray-400 mx-auto" />
+          <h1 className="text-2xl font-bold text-gray-900">Pair this screen</h1>
+          <p className="text-sm text-gray-600">{pairingHints[kind]}</p>
+          <Input
+            className="text-center text-2xl tracking-widest uppercase h-14"
+            placeholder="ABCD2345"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+          {pairMutation.error && (
+            <p className="text-sm text-red-600">{parseApiError(pairMutation.error).message}</p>
+          )}
+          <Button
+            className="w-full h-12"
+            onClick={() => pairMutation.mutate()}
+            disabled={pairMutation.isPending || !code.trim()}
+          >
+            Pair
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
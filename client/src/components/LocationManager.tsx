@@ -0,0 +1,194 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/useLocations";
+import { insertLocationSchema } from "@shared/schema";
+import { getBookingUrl } from "@shared/tenant";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { ExternalLink, MapPin, Plus, Trash2 } from "lucide-react";
+
+// New locations start with the main shop's hours; those are edited from the
+// Hours tab once the location is selected
+const locationFormSchema = insertLocationSchema.pick({ name: true, phone: true, address: true });
+type LocationFormData = z.infer<typeof locationFormSchema>;
+
+export default function LocationManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { locations, currentLocationId } = useLocations();
+
+  const locationForm = useForm<LocationFormData>({
+    resolver: zodResolver(locationFormSchema),
+    defaultValues: { name: "", phone: "", address: "" },
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: parseApiError(error).message,
+      variant: "destructive",
+    });
+  };
+
+  const createLocationMutation = useMutation({
+    mutationFn: async (data: LocationFormData) => {
+      await apiRequest("POST", "/api/locations", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      locationForm.reset({ name: "", phone: "", address: "" });
+      toast({
+        title: "Location added",
+        description: "Switch to it from the menu bar to set up its barbers and services.",
+      });
+    },
+    onError: showError,
+  });
+
+  const closeLocationMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/locations/${id}`);
+    },
+    onSuccess: (_, id) => {
+      // Closing the location we're working in drops the session back to the main shop
+      if (id === currentLocationId) {
+        queryClient.invalidateQueries();
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+      }
+      toast({
+        title: "Location closed",
+        description: "Its booking page is no longer available.",
+      });
+    },
+    onError: showError,
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-primary">Add Location</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Form {...locationForm}>
+            <form
+              onSubmit={locationForm.handleSubmit((data) => createLocationMutation.mutate(data))}
+              className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+            >
+              <FormField
+                control={locationForm.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Downtown" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={locationForm.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={locationForm.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={createLocationMutation.isPending}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Location
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-primary">Locations</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {locations.map((location) => {
+            const bookingUrl = location.subdomain
+              ? getBookingUrl(location.subdomain, import.meta.env.VITE_BASE_DOMAIN, window.location.origin)
+              : null;
+
+            return (
+              <div key={location.id} className="flex flex-col md:flex-row md:items-center gap-3">
+                <MapPin className="h-5 w-5 text-gray-400 hidden md:block" />
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">
+                    {location.name}
+                    {location.id === currentLocationId && (
+                      <Badge variant="secondary" className="ml-2">Current</Badge>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {[location.address, location.phone].filter(Boolean).join(" · ") || "No address yet"}
+                  </p>
+                </div>
+                {bookingUrl && (
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={bookingUrl} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Booking Page
+                    </a>
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600"
+                  disabled={closeLocationMutation.isPending}
+                  onClick={() => closeLocationMutation.mutate(location.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+          {locations.length === 0 && (
+            <p className="text-gray-500 text-center py-4">
+              Your main shop is your only location.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,12 +1,15 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { useLocations } from "@/hooks/useLocations";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
   DropdownMenuItem, 
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
@@ -20,22 +23,35 @@ import {
   Users,
   Star,
   BarChart3,
-  Settings
+  Settings,
+  MapPin,
+  Check,
+  ChevronDown,
+  CreditCard,
+  Package,
+  Wallet,
+  Clock
 } from "lucide-react";
 
 export default function Navigation() {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const { locations, currentLocationId, currentLocation, switchLocation } = useLocations();
   const [location] = useLocation();
+  const mainLocationName = user?.barbershopName || 'Main location';
 
   const navigation = [
     { name: 'Dashboard', href: '/', icon: Home },
     { name: 'Appointments', href: '/appointments', icon: Calendar },
     { name: 'Customers', href: '/customers', icon: Users },
+    { name: 'Sales', href: '/sales', icon: CreditCard, permission: 'pos.use' as const },
+    { name: 'Inventory', href: '/inventory', icon: Package, permission: 'settings.manage' as const },
+    { name: 'Time Clock', href: '/timeclock', icon: Clock },
+    { name: 'Payroll', href: '/payroll', icon: Wallet, permission: 'payroll.manage' as const },
     { name: 'Gallery', href: '/gallery', icon: Star },
-    { name: 'Analytics', href: '/analytics', icon: BarChart3 },
-    { name: 'Settings', href: '/settings', icon: Settings },
-  ];
+    { name: 'Analytics', href: '/analytics', icon: BarChart3, permission: 'analytics.view' as const },
+    { name: 'Settings', href: '/settings', icon: Settings, permission: 'settings.manage' as const },
+  ].filter((item) => !item.permission || can(item.permission));
 
   const isActiveRoute = (href: string) => {
     if (href === '/') return location === '/';
@@ -63,6 +79,34 @@ export default function Navigation() {
                 </span>
                 <Badge variant="secondary" className="ml-2">Pro</Badge>
               </div>
+
+              {/* Location switcher - only for shops with more than one storefront */}
+              {locations.length > 0 && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm" className="ml-4">
+                      <MapPin className="h-4 w-4 mr-1" />
+                      <span className="hidden sm:inline max-w-[10rem] truncate">
+                        {currentLocation?.name || mainLocationName}
+                      </span>
+                      <ChevronDown className="h-4 w-4 ml-1" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    <DropdownMenuLabel>Locations</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    {[{ id: null, name: mainLocationName }, ...locations].map((shopLocation) => (
+                      <DropdownMenuItem
+                        key={shopLocation.id ?? 'main'}
+                        onClick={() => switchLocation(shopLocation.id)}
+                      >
+                        <Check className={`h-4 w-4 mr-2 ${shopLocation.id === currentLocationId ? '' : 'invisible'}`} />
+                        {shopLocation.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
             
             {/* Desktop Navigation */}
@@ -93,7 +137,7 @@ export default function Navigation() {
                 <DropdownMenuTrigger asChild>
                   <Button variant="ghost" className="flex items-center space-x-2">
                     <Avatar className="h-8 w-8">
-                      <AvatarImage src={user?.profileImageUrl} alt={user?.barbershopName || 'User'} />
+                      <AvatarImage src={user?.profileImageUrl ?? undefined} alt={user?.barbershopName || 'User'} />
                       <AvatarFallback>{user?.barbershopName?.charAt(0) || 'U'}</AvatarFallback>
                     </Avatar>
                     <span className="text-gray-900 font-medium hidden sm:block">
@@ -102,9 +146,11 @@ export default function Navigation() {
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end">
-                  <DropdownMenuItem onClick={() => window.location.href = '/settings'}>
-                    Profile Settings
-                  </DropdownMenuItem>
+                  {can('settings.manage') && (
+                    <DropdownMenuItem onClick={() => window.location.href = '/settings'}>
+                      Profile Settings
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem onClick={() => window.location.href = '/api/logout'}>
                     Sign Out
                   </DropdownMenuItem>
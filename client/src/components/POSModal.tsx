@@ -1,25 +1,19 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { insertTransactionSchema } from "@shared/schema";
-import { z } from "zod";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocations } from "@/hooks/useLocations";
+import { tenderSchema, type Adjustment, type PaymentMethod, type Product, type Tender, type TransactionWithItems, type Customer, type Barber } from "@shared/schema";
+import { effectiveTaxRate, fromCents, priceSale, settleTenders, toCents } from "@shared/pricing";
+import AdjustmentInput from "@/components/AdjustmentInput";
+import ReceiptActions from "@/components/ReceiptActions";
 import {
   Dialog,
   DialogContent,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import {
-  Form,
-  FormControl,
-  FormField,
-  FormItem,
-  FormLabel,
-  FormMessage,
-} from "@/components/ui/form";
 import {
   Select,
   SelectContent,
@@ -39,7 +33,8 @@ import {
   CreditCard, 
   DollarSign,
   Receipt,
-  User
+  User,
+  X
 } from "lucide-react";
 
 interface POSModalProps {
@@ -50,16 +45,23 @@ interface POSModalProps {
 }
 
 interface CartItem {
-  serviceId: number;
-  serviceName: string;
+  key: string;
+  serviceId?: number;
+  productId?: number;
+  name: string;
   price: number;
   quantity: number;
+  taxable: boolean;
+  discount: Adjustment | null;
 }
 
-const transactionFormSchema = insertTransactionSchema.extend({
-  total: z.number().min(0.01, "Total must be greater than 0"),
-  paymentMethod: z.string().min(1, "Payment method is required"),
-});
+const tipPresets = [15, 18, 20, 25];
+
+const paymentMethodLabels: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  card: "Credit/Debit Card",
+  digital: "Digital Payment",
+};
 
 export default function POSModal({
   isOpen,
@@ -69,114 +71,258 @@ export default function POSModal({
 }: POSModalProps) {
   const [cart, setCart] = useState<CartItem[]>([]);
   const [selectedCustomerId, setSelectedCustomerId] = useState<number>(customerId || 0);
+  const [selectedBarber, setSelectedBarber] = useState("");
+  const [completedSale, setCompletedSale] = useState<TransactionWithItems | null>(null);
+  const [orderDiscount, setOrderDiscount] = useState<Adjustment | null>(null);
+  const [tip, setTip] = useState<Adjustment | null>(null);
+  const [isCustomTip, setIsCustomTip] = useState(false);
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [tenderMethod, setTenderMethod] = useState<PaymentMethod>("cash");
+  const [tenderAmount, setTenderAmount] = useState("");
+  const [tenderDetail, setTenderDetail] = useState("");
+  const [barcode, setBarcode] = useState("");
+  const { user } = useAuth();
+  const { currentLocation } = useLocations();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: customers } = useQuery({
+  const { data: customers } = useQuery<Customer[]>({
     queryKey: ["/api/customers"],
     enabled: isOpen,
   });
 
+  const { data: barbers } = useQuery<Barber[]>({
+    queryKey: ["/api/barbers"],
+    enabled: isOpen,
+  });
+
   const { data: services } = useQuery({
     queryKey: ["/api/services"],
     enabled: isOpen,
   });
 
-  const form = useForm<z.infer<typeof transactionFormSchema>>({
-    resolver: zodResolver(transactionFormSchema),
-    defaultValues: {
-      total: 0,
-      paymentMethod: "",
-    },
+  const { data: products } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+    enabled: isOpen,
   });
 
+  // Without a processor, cards go through the shop's own terminal
+  const { data: paymentConfig } = useQuery<{ provider: string | null }>({
+    queryKey: ["/api/payments/config"],
+    enabled: isOpen,
+  });
+  const chargesCards = !!paymentConfig?.provider;
+
   const createTransactionMutation = useMutation({
-    mutationFn: async (data: z.infer<typeof transactionFormSchema>) => {
+    mutationFn: async () => {
+      // The server prices the cart itself; only what was sold and how many are sent
       const transactionData = {
-        ...data,
         customerId: selectedCustomerId || undefined,
+        barber: selectedBarber || undefined,
         appointmentId: appointmentId || undefined,
+        items: cart.map(({ serviceId, productId, quantity, discount }) => ({ serviceId, productId, quantity, discount: discount ?? undefined })),
+        discount: orderDiscount ?? undefined,
+        tip: tip ?? undefined,
+        payments: tenders,
       };
-      await apiRequest("POST", "/api/transactions", transactionData);
+      const response = await apiRequest("POST", "/api/transactions", transactionData);
+      return await response.json() as TransactionWithItems;
     },
-    onSuccess: () => {
+    onSuccess: (sale) => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions/today"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/low-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cash-drawer/current"] });
       toast({
         title: "Payment processed",
-        description: "Transaction completed successfully",
+        description: settlement.changeCents > 0
+          ? `Give $${fromCents(settlement.changeCents)} in change`
+          : "Transaction completed successfully",
       });
-      handleClose();
+      setCompletedSale(sale);
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to process payment",
+        description: parseApiError(error).message,
         variant: "destructive",
       });
     },
   });
 
-  const addToCart = (service: any) => {
-    const existingItem = cart.find(item => item.serviceId === service.id);
+  const addToCart = (line: Omit<CartItem, "quantity" | "discount">) => {
+    const existingItem = cart.find(item => item.key === line.key);
     if (existingItem) {
       setCart(cart.map(item => 
-        item.serviceId === service.id 
+        item.key === line.key 
           ? { ...item, quantity: item.quantity + 1 }
           : item
       ));
     } else {
-      setCart([...cart, {
-        serviceId: service.id,
-        serviceName: service.name,
-        price: Number(service.price),
-        quantity: 1
-      }]);
+      setCart([...cart, { ...line, quantity: 1, discount: null }]);
     }
   };
 
-  const removeFromCart = (serviceId: number) => {
-    setCart(cart.filter(item => item.serviceId !== serviceId));
+  const addService = (service: any) => {
+    addToCart({
+      key: `service-${service.id}`,
+      serviceId: service.id,
+      name: service.name,
+      price: Number(service.price),
+      taxable: !!service.taxable,
+    });
   };
 
-  const updateQuantity = (serviceId: number, quantity: number) => {
+  const addProduct = (product: Product) => {
+    const inCart = cart.find(item => item.key === `product-${product.id}`)?.quantity ?? 0;
+    if (inCart >= product.stock) {
+      toast({
+        title: "Out of stock",
+        description: `Only ${product.stock} of ${product.name} in stock`,
+        variant: "destructive",
+      });
+      return;
+    }
+    addToCart({
+      key: `product-${product.id}`,
+      productId: product.id,
+      name: product.name,
+      price: Number(product.price),
+      taxable: !!product.taxable,
+    });
+  };
+
+  // Scanners type the barcode and press Enter; a SKU typed by hand works too
+  const scanBarcode = () => {
+    const code = barcode.trim();
+    if (!code) return;
+    const product = products?.find((candidate) => candidate.barcode === code || candidate.sku === code);
+    if (product) {
+      addProduct(product);
+    } else {
+      toast({
+        title: "Not found",
+        description: `No product with barcode or SKU ${code}`,
+        variant: "destructive",
+      });
+    }
+    setBarcode("");
+  };
+
+  const removeFromCart = (key: string) => {
+    setCart(cart.filter(item => item.key !== key));
+  };
+
+  const updateQuantity = (key: string, quantity: number) => {
     if (quantity <= 0) {
-      removeFromCart(serviceId);
+      removeFromCart(key);
       return;
     }
     setCart(cart.map(item => 
-      item.serviceId === serviceId 
+      item.key === key 
         ? { ...item, quantity }
         : item
     ));
   };
 
-  const calculateTotal = () => {
-    return cart.reduce((total, item) => total + (item.price * item.quantity), 0);
+  const updateLineDiscount = (key: string, discount: Adjustment | null) => {
+    setCart(cart.map(item =>
+      item.key === key
+        ? { ...item, discount }
+        : item
+    ));
+  };
+
+  // Same arithmetic the server uses to total the sale
+  const pricing = priceSale({
+    lines: cart,
+    discount: orderDiscount,
+    tip,
+    taxRate: effectiveTaxRate(user, currentLocation),
+  });
+  const settlement = settleTenders(pricing.totalCents, tenders);
+
+  // A blank amount takes whatever is still owed
+  const addTender = async () => {
+    const charged = tenderMethod === "card" && chargesCards;
+    const parsed = tenderSchema.safeParse({
+      method: tenderMethod,
+      amount: tenderAmount || fromCents(settlement.balanceCents),
+      // Digital payments and cards run on the shop's terminal just note a
+      // reference or approval code
+      reference: tenderMethod === "cash" || charged ? undefined : tenderDetail || undefined,
+    });
+    if (!parsed.success) {
+      toast({
+        title: "Error",
+        description: parsed.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (parsed.data.method !== "cash" && toCents(parsed.data.amount) > settlement.balanceCents) {
+      toast({
+        title: "Error",
+        description: `Only $${fromCents(settlement.balanceCents)} is left to pay`,
+        variant: "destructive",
+      });
+      return;
+    }
+    let tender = parsed.data;
+    if (charged) {
+      // The processor's card form swaps the card for a token, and only the
+      // token is charged
+      try {
+        const res = await apiRequest("POST", "/api/payments/mock/tokens", { number: tenderDetail });
+        const card = await res.json() as { token: string; last4: string };
+        tender = { ...tender, token: card.token, reference: `ending ${card.last4}` };
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: parseApiError(error as Error).message,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    setTenders([...tenders, tender]);
+    setTenderAmount("");
+    setTenderDetail("");
+  };
+
+  const removeTender = (index: number) => {
+    setTenders(tenders.filter((_, candidate) => candidate !== index));
   };
 
   const handleClose = () => {
     onClose();
+    setCompletedSale(null);
     setCart([]);
     setSelectedCustomerId(customerId || 0);
-    form.reset();
+    setSelectedBarber("");
+    setOrderDiscount(null);
+    setTip(null);
+    setIsCustomTip(false);
+    setTenders([]);
+    setTenderMethod("cash");
+    setTenderAmount("");
+    setTenderDetail("");
+    setBarcode("");
   };
 
-  const onSubmit = (data: z.infer<typeof transactionFormSchema>) => {
+  const onSubmit = () => {
     if (cart.length === 0) {
       toast({
         title: "Error",
-        description: "Please add at least one service to the cart",
+        description: "Please add at least one item to the cart",
         variant: "destructive",
       });
       return;
     }
 
-    const total = calculateTotal();
-    createTransactionMutation.mutate({
-      ...data,
-      total,
-    });
+    createTransactionMutation.mutate();
   };
 
   const getCustomerName = (customerId: number) => {
@@ -193,14 +339,34 @@ export default function POSModal({
             Point of Sale
           </DialogTitle>
         </DialogHeader>
-        
+
+        {completedSale ? (
+          <div className="space-y-4">
+            <div className="text-center">
+              <p className="text-sm text-gray-600">Sale complete</p>
+              <p className="text-3xl font-bold">${completedSale.total}</p>
+              {completedSale.payments.filter((payment) => toCents(payment.change ?? 0) > 0).map((payment) => (
+                <p key={payment.id} className="text-lg font-semibold text-green-700">
+                  Change due ${payment.change}
+                </p>
+              ))}
+            </div>
+            <ReceiptActions
+              transactionId={completedSale.id}
+              defaultEmail={customers?.find((customer) => customer.id === completedSale.customerId)?.email}
+            />
+            <Button type="button" className="w-full" onClick={handleClose}>
+              Done
+            </Button>
+          </div>
+        ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Services Selection */}
           <div>
             <h3 className="font-semibold mb-4">Select Services</h3>
             <div className="space-y-2 max-h-60 overflow-y-auto">
               {services?.map((service: any) => (
-                <Card key={service.id} className="cursor-pointer hover:bg-gray-50" onClick={() => addToCart(service)}>
+                <Card key={service.id} className="cursor-pointer hover:bg-gray-50" onClick={() => addService(service)}>
                   <CardContent className="p-3">
                     <div className="flex items-center justify-between">
                       <div>
@@ -218,6 +384,50 @@ export default function POSModal({
                 </Card>
               ))}
             </div>
+
+            {products && products.length > 0 && (
+              <>
+                <h3 className="font-semibold mt-6 mb-4">Products</h3>
+                <Input
+                  placeholder="Scan barcode or enter SKU"
+                  className="mb-2"
+                  value={barcode}
+                  onChange={(e) => setBarcode(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      scanBarcode();
+                    }
+                  }}
+                />
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                  {products.map((product) => (
+                    <Card
+                      key={product.id}
+                      className={product.stock > 0 ? "cursor-pointer hover:bg-gray-50" : "opacity-50"}
+                      onClick={() => addProduct(product)}
+                    >
+                      <CardContent className="p-3">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="font-medium">{product.name}</p>
+                            <p className="text-sm text-gray-600">
+                              {product.stock > 0 ? `${product.stock} in stock` : "Out of stock"}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-semibold">${product.price}</p>
+                            <Button size="sm" variant="outline" disabled={product.stock === 0}>
+                              <Plus className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </>
+            )}
           </div>
 
           {/* Cart and Checkout */}
@@ -245,19 +455,46 @@ export default function POSModal({
               </Select>
             </div>
 
+            {/* Barber Selection */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium mb-2">Barber</label>
+              <Select
+                value={selectedBarber || "none"}
+                onValueChange={(value) => setSelectedBarber(value === "none" ? "" : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{appointmentId ? "The appointment's barber" : "No barber"}</SelectItem>
+                  {barbers?.filter((barber) => barber.isActive).map((barber) => (
+                    <SelectItem key={barber.id} value={barber.name}>
+                      {barber.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {/* Cart Items */}
             <div className="space-y-2 mb-4 max-h-40 overflow-y-auto">
               {cart.map((item) => (
-                <div key={item.serviceId} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                <div key={item.key} className="flex items-center justify-between p-2 bg-gray-50 rounded">
                   <div className="flex-1">
-                    <p className="font-medium text-sm">{item.serviceName}</p>
+                    <p className="font-medium text-sm">{item.name}</p>
                     <p className="text-sm text-gray-600">${item.price.toFixed(2)} each</p>
+                    <AdjustmentInput
+                      value={item.discount}
+                      onChange={(discount) => updateLineDiscount(item.key, discount)}
+                      placeholder="Discount"
+                      className="mt-1 w-32"
+                    />
                   </div>
                   <div className="flex items-center space-x-2">
                     <Button
                       size="sm"
                       variant="outline"
-                      onClick={() => updateQuantity(item.serviceId, item.quantity - 1)}
+                      onClick={() => updateQuantity(item.key, item.quantity - 1)}
                     >
                       <Minus className="h-3 w-3" />
                     </Button>
@@ -265,14 +502,14 @@ export default function POSModal({
                     <Button
                       size="sm"
                       variant="outline"
-                      onClick={() => updateQuantity(item.serviceId, item.quantity + 1)}
+                      onClick={() => updateQuantity(item.key, item.quantity + 1)}
                     >
                       <Plus className="h-3 w-3" />
                     </Button>
                     <Button
                       size="sm"
                       variant="ghost"
-                      onClick={() => removeFromCart(item.serviceId)}
+                      onClick={() => removeFromCart(item.key)}
                       className="text-red-600"
                     >
                       <Trash2 className="h-3 w-3" />
@@ -285,58 +522,190 @@ export default function POSModal({
               )}
             </div>
 
+            {/* Order discount and tip */}
+            <div className="space-y-3 mb-4">
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium">Order Discount</label>
+                <AdjustmentInput value={orderDiscount} onChange={setOrderDiscount} className="w-32" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Tip</label>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={!tip && !isCustomTip ? "default" : "outline"}
+                    onClick={() => { setTip(null); setIsCustomTip(false); }}
+                  >
+                    None
+                  </Button>
+                  {tipPresets.map((percent) => (
+                    <Button
+                      key={percent}
+                      type="button"
+                      size="sm"
+                      variant={!isCustomTip && tip?.type === "percent" && tip.value === percent ? "default" : "outline"}
+                      onClick={() => { setTip({ type: "percent", value: percent }); setIsCustomTip(false); }}
+                    >
+                      {percent}%
+                    </Button>
+                  ))}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={isCustomTip ? "default" : "outline"}
+                    onClick={() => { setTip(null); setIsCustomTip(true); }}
+                  >
+                    Custom
+                  </Button>
+                </div>
+                {isCustomTip && (
+                  <AdjustmentInput value={tip} onChange={setTip} placeholder="Tip" className="mt-2 w-32" />
+                )}
+              </div>
+            </div>
+
             {/* Total */}
             <div className="mb-4">
               <Separator />
+              <div className="space-y-1 py-2 text-sm">
+                <div className="flex justify-between">
+                  <span>Subtotal</span>
+                  <span>${fromCents(pricing.subtotalCents)}</span>
+                </div>
+                {pricing.discountCents > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Discounts</span>
+                    <span>-${fromCents(pricing.discountCents)}</span>
+                  </div>
+                )}
+                {pricing.taxCents > 0 && (
+                  <div className="flex justify-between">
+                    <span>Tax</span>
+                    <span>${fromCents(pricing.taxCents)}</span>
+                  </div>
+                )}
+                {pricing.tipCents > 0 && (
+                  <div className="flex justify-between">
+                    <span>Tip</span>
+                    <span>${fromCents(pricing.tipCents)}</span>
+                  </div>
+                )}
+              </div>
               <div className="flex justify-between items-center py-2">
                 <span className="font-semibold">Total:</span>
-                <span className="text-xl font-bold">${calculateTotal().toFixed(2)}</span>
+                <span className="text-xl font-bold">${fromCents(pricing.totalCents)}</span>
               </div>
             </div>
 
-            {/* Payment Method */}
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <FormField
-                  control={form.control}
-                  name="paymentMethod"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Payment Method</FormLabel>
-                      <Select onValueChange={field.onChange}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select payment method" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <SelectItem value="cash">Cash</SelectItem>
-                          <SelectItem value="card">Credit/Debit Card</SelectItem>
-                          <SelectItem value="digital">Digital Payment</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+            {/* Payments */}
+            <div className="space-y-3">
+              <label className="block text-sm font-medium">Payments</label>
+              {tenders.map((tender, index) => (
+                <div key={index} className="flex items-center justify-between text-sm p-2 bg-gray-50 rounded">
+                  <span>
+                    {paymentMethodLabels[tender.method]}
+                    {tender.reference && <span className="text-gray-500"> · {tender.reference}</span>}
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    <span>${fromCents(toCents(tender.amount))}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => removeTender(index)}
+                      className="text-red-600"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
 
-                <div className="flex space-x-3 pt-4">
-                  <Button type="button" variant="outline" onClick={handleClose} className="flex-1">
-                    Cancel
-                  </Button>
-                  <Button 
-                    type="submit" 
-                    className="flex-1"
-                    disabled={createTransactionMutation.isPending || cart.length === 0}
-                  >
-                    <Receipt className="h-4 w-4 mr-2" />
-                    Process Payment
-                  </Button>
+              {settlement.balanceCents > 0 && (
+                <div className="space-y-2">
+                  <div className="flex space-x-2">
+                    <Select value={tenderMethod} onValueChange={(value) => setTenderMethod(value as PaymentMethod)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(paymentMethodLabels).map(([method, label]) => (
+                          <SelectItem key={method} value={method}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder={fromCents(settlement.balanceCents)}
+                      className="w-28"
+                      value={tenderAmount}
+                      onChange={(e) => setTenderAmount(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex space-x-2">
+                    {tenderMethod !== "cash" && (
+                      <Input
+                        placeholder={
+                          tenderMethod === "card"
+                            ? chargesCards ? "Test card number" : "Approval code (optional)"
+                            : "Reference (optional)"
+                        }
+                        value={tenderDetail}
+                        onChange={(e) => setTenderDetail(e.target.value)}
+                      />
+                    )}
+                    <Button type="button" variant="outline" onClick={addTender} className="ml-auto">
+                      <DollarSign className="h-4 w-4 mr-2" />
+                      Add Payment
+                    </Button>
+                  </div>
                 </div>
-              </form>
-            </Form>
+              )}
+
+              <div className="flex justify-between font-semibold">
+                {settlement.changeCents > 0 ? (
+                  <>
+                    <span>Change due</span>
+                    <span className="text-green-700">${fromCents(settlement.changeCents)}</span>
+                  </>
+                ) : (
+                  <>
+                    <span>Balance due</span>
+                    <span>${fromCents(settlement.balanceCents)}</span>
+                  </>
+                )}
+              </div>
+              {settlement.overpaidCents > 0 && (
+                <p className="text-sm text-red-600">
+                  Card and digital payments are more than what's owed; remove one and take the rest in cash.
+                </p>
+              )}
+
+              <div className="flex space-x-3 pt-4">
+                <Button type="button" variant="outline" onClick={handleClose} className="flex-1">
+                  Cancel
+                </Button>
+                <Button
+                  type="button"
+                  className="flex-1"
+                  onClick={onSubmit}
+                  disabled={
+                    createTransactionMutation.isPending ||
+                    cart.length === 0 ||
+                    settlement.balanceCents > 0 ||
+                    settlement.overpaidCents > 0
+                  }
+                >
+                  <Receipt className="h-4 w-4 mr-2" />
+                  Process Payment
+                </Button>
+              </div>
+            </div>
           </div>
         </div>
+        )}
       </DialogContent>
     </Dialog>
   );
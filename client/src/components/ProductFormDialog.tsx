@@ -0,0 +1,181 @@
+import { useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { insertProductSchema, type Product } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+
+// Number inputs hand back strings, and blank optional fields are saved as null
+const productFormSchema = insertProductSchema.extend({
+  sku: z.string().optional(),
+  barcode: z.string().optional(),
+  cost: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a cost like 6.25").or(z.literal("")).optional(),
+  stock: z.coerce.number().int("Stock is a whole number"),
+  reorderThreshold: z.coerce.number().int().min(0, "Can't be negative"),
+});
+type ProductFormData = z.infer<typeof productFormSchema>;
+
+const emptyProduct: ProductFormData = {
+  name: "",
+  sku: "",
+  barcode: "",
+  price: "",
+  cost: "",
+  stock: 0,
+  reorderThreshold: 0,
+  taxable: true,
+};
+
+interface ProductFormDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  product?: Product | null;
+}
+
+export default function ProductFormDialog({ isOpen, onClose, product }: ProductFormDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<ProductFormData>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: emptyProduct,
+  });
+
+  useEffect(() => {
+    form.reset(product
+      ? {
+          name: product.name,
+          sku: product.sku ?? "",
+          barcode: product.barcode ?? "",
+          price: product.price,
+          cost: product.cost ?? "",
+          stock: product.stock,
+          reorderThreshold: product.reorderThreshold,
+          taxable: !!product.taxable,
+        }
+      : emptyProduct);
+  }, [product, isOpen]);
+
+  const saveProductMutation = useMutation({
+    mutationFn: async (data: ProductFormData) => {
+      const body = {
+        ...data,
+        sku: data.sku?.trim() || null,
+        barcode: data.barcode?.trim() || null,
+        cost: data.cost || null,
+      };
+      if (product) {
+        await apiRequest("PUT", `/api/products/${product.id}`, body);
+      } else {
+        await apiRequest("POST", "/api/products", body);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/low-stock"] });
+      toast({ title: product ? "Product updated" : "Product added" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const textField = (name: "name" | "sku" | "barcode" | "price" | "cost", label: string, placeholder?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} value={field.value ?? ""} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const numberField = (name: "stock" | "reorderThreshold", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type="number" step="1" {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{product ? "Edit Product" : "Add Product"}</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveProductMutation.mutate(data))} className="space-y-4">
+            {textField("name", "Name", "Matte pomade")}
+            <div className="grid grid-cols-2 gap-4">
+              {textField("sku", "SKU")}
+              {textField("barcode", "Barcode")}
+              {textField("price", "Price", "18.00")}
+              {textField("cost", "Cost", "7.50")}
+              {numberField("stock", "In stock")}
+              {numberField("reorderThreshold", "Reorder at")}
+            </div>
+            <FormField
+              control={form.control}
+              name="taxable"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <FormLabel>Charge sales tax</FormLabel>
+                  <FormControl>
+                    <Switch checked={!!field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <div className="flex space-x-3 pt-2">
+              <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+                Cancel
+              </Button>
+              <Button type="submit" className="flex-1" disabled={saveProductMutation.isPending}>
+                {product ? "Save" : "Add Product"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -21,7 +21,6 @@ export default function QueueManagement() {
 
   const { data: queueData, isLoading } = useQuery({
     queryKey: ["/api/queue"],
-    refetchInterval: 5000, // Refetch every 5 seconds for real-time updates
   });
 
   const { data: customers } = useQuery({
@@ -97,6 +96,9 @@ export default function QueueManagement() {
         return 'bg-secondary/20 text-secondary';
       case 'completed':
         return 'bg-green-100 text-green-800';
+      case 'no_show':
+      case 'left':
+        return 'bg-red-100 text-red-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -110,6 +112,10 @@ export default function QueueManagement() {
         return 'Waiting';
       case 'completed':
         return 'Completed';
+      case 'no_show':
+        return 'No Show';
+      case 'left':
+        return 'Walked Out';
       default:
         return status;
     }
@@ -159,7 +165,7 @@ export default function QueueManagement() {
                     <Badge className={getStatusColor(item.status)}>
                       {getStatusText(item.status)}
                     </Badge>
-                    {item.estimatedWaitTime && (
+                    {item.status === 'waiting' && item.estimatedWaitTime !== null && (
                       <Badge variant="outline">
                         <Clock className="h-3 w-3 mr-1" />
                         {item.estimatedWaitTime}m
@@ -173,11 +179,23 @@ export default function QueueManagement() {
                       </DropdownMenuTrigger>
                       <DropdownMenuContent align="end">
                         {item.status === 'waiting' && (
-                          <DropdownMenuItem
-                            onClick={() => updateQueueStatusMutation.mutate({ id: item.id, status: 'in_progress' })}
-                          >
-                            Start Service
-                          </DropdownMenuItem>
+                          <>
+                            <DropdownMenuItem
+                              onClick={() => updateQueueStatusMutation.mutate({ id: item.id, status: 'in_progress' })}
+                            >
+                              Start Service
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => updateQueueStatusMutation.mutate({ id: item.id, status: 'no_show' })}
+                            >
+                              No Show
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => updateQueueStatusMutation.mutate({ id: item.id, status: 'left' })}
+                            >
+                              Walked Out
+                            </DropdownMenuItem>
+                          </>
                         )}
                         {item.status === 'in_progress' && (
                           <DropdownMenuItem
@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toDateInputValue } from "@/lib/utils";
+import type { QueueTimesReport, QueueTimesRow } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Timer } from "lucide-react";
+
+type Grouping = "days" | "barbers" | "services";
+
+const groupingLabels: Record<Grouping, string> = {
+  days: "Day",
+  barbers: "Barber",
+  services: "Service",
+};
+
+const minutes = (value: number | null) => value === null ? "—" : `${value}m`;
+
+function defaultRange() {
+  const to = new Date();
+  const from = new Date(to);
+  from.setDate(from.getDate() - 29);
+  return { from: toDateInputValue(from), to: toDateInputValue(to) };
+}
+
+function QueueTimesTable({ grouping, rows }: { grouping: Grouping; rows: QueueTimesRow[] }) {
+  if (rows.length === 0) {
+    return <p className="text-center text-gray-500 py-8">No walk-ins in this period</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 border-b">
+            <th className="py-2 font-medium">{groupingLabels[grouping]}</th>
+            <th className="py-2 font-medium text-right">Joined</th>
+            <th className="py-2 font-medium text-right">Served</th>
+            <th className="py-2 font-medium text-right">Walked out</th>
+            <th className="py-2 font-medium text-right">Avg wait</th>
+            <th className="py-2 font-medium text-right">Longest wait</th>
+            <th className="py-2 font-medium text-right">Avg service</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.key} className="border-b">
+              <td className="py-2 font-medium text-gray-900">
+                {grouping === "days" ? new Date(`${row.key}T00:00:00`).toLocaleDateString() : row.label}
+              </td>
+              <td className="py-2 text-right">{row.joined}</td>
+              <td className="py-2 text-right">{row.served}</td>
+              <td className="py-2 text-right">{row.walkouts}</td>
+              <td className="py-2 text-right">{minutes(row.averageWait)}</td>
+              <td className="py-2 text-right">{minutes(row.longestWait)}</td>
+              <td className="py-2 text-right">{minutes(row.averageService)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Measured from when walk-ins joined, sat down and finished, rather than
+// the estimates they were shown
+export default function QueueTimesCard() {
+  const [range, setRange] = useState(defaultRange);
+  const validRange = range.from !== "" && range.to !== "" && range.to >= range.from;
+
+  const { data: report, isLoading } = useQuery<QueueTimesReport>({
+    queryKey: [`/api/analytics/queue?from=${range.from}&to=${range.to}`],
+    enabled: validRange,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <CardTitle className="flex items-center">
+            <Timer className="h-5 w-5 mr-2" />
+            Queue Times
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <Input
+              type="date"
+              value={range.from}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+            />
+            <span className="text-gray-500">to</span>
+            <Input
+              type="date"
+              value={range.to}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : report ? (
+          <Tabs defaultValue="days">
+            <TabsList>
+              <TabsTrigger value="days">By Day</TabsTrigger>
+              <TabsTrigger value="barbers">By Barber</TabsTrigger>
+              <TabsTrigger value="services">By Service</TabsTrigger>
+            </TabsList>
+            {(["days", "barbers", "services"] as const).map((grouping) => (
+              <TabsContent key={grouping} value={grouping}>
+                <QueueTimesTable grouping={grouping} rows={report[grouping]} />
+              </TabsContent>
+            ))}
+          </Tabs>
+        ) : (
+          <p className="text-center text-gray-500 py-8">Pick a start date on or before the end date</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { FileText, Mail, Printer } from "lucide-react";
+
+interface ReceiptActionsProps {
+  transactionId: number;
+  defaultEmail?: string | null;
+}
+
+// Print, download or email the receipt for a sale
+export default function ReceiptActions({ transactionId, defaultEmail }: ReceiptActionsProps) {
+  const [email, setEmail] = useState(defaultEmail ?? "");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setEmail(defaultEmail ?? "");
+  }, [transactionId, defaultEmail]);
+
+  const emailReceiptMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/transactions/${transactionId}/receipt/email`, {
+        email: email.trim() || undefined,
+      });
+      return await response.json() as { message: string };
+    },
+    onSuccess: (result) => {
+      toast({ title: "Receipt sent", description: result.message });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const receiptUrl = `/api/transactions/${transactionId}/receipt`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-2">
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => window.open(`${receiptUrl}?print=1`, "_blank")}>
+          <Printer className="h-4 w-4 mr-2" />
+          Print
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={() => window.open(`${receiptUrl}?format=pdf`, "_blank")}>
+          <FileText className="h-4 w-4 mr-2" />
+          PDF
+        </Button>
+      </div>
+      <div className="flex space-x-2">
+        <Input
+          type="email"
+          placeholder="Customer email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => emailReceiptMutation.mutate()}
+          disabled={emailReceiptMutation.isPending}
+        >
+          <Mail className="h-4 w-4 mr-2" />
+          Email
+        </Button>
+      </div>
+    </div>
+  );
+}
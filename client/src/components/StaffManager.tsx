@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  staffInviteSchema,
+  type Barber,
+  type StaffInvite,
+  type StaffInviteData,
+  type User,
+} from "@shared/schema";
+import { roleLabels, type StaffRole } from "@shared/permissions";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Copy, Send, Trash2, UserMinus } from "lucide-react";
+
+interface StaffList {
+  members: User[];
+  invites: Omit<StaffInvite, "tokenHash">[];
+}
+
+const invitableRoles = ["manager", "barber", "front_desk"] as const;
+
+interface StaffManagerProps {
+  barbers: Barber[];
+}
+
+export default function StaffManager({ barbers }: StaffManagerProps) {
+  const [lastInviteUrl, setLastInviteUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: staff } = useQuery<StaffList>({
+    queryKey: ["/api/staff"],
+  });
+
+  const inviteForm = useForm<StaffInviteData>({
+    resolver: zodResolver(staffInviteSchema),
+    defaultValues: { email: "", role: "barber", barberId: null },
+  });
+  const inviteRole = inviteForm.watch("role");
+
+  const barberName = (barberId: number | null) =>
+    barbers.find((barber) => barber.id === barberId)?.name;
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: parseApiError(error).message,
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: StaffInviteData) => {
+      const res = await apiRequest("POST", "/api/staff/invites", data);
+      return (await res.json()) as { inviteUrl: string };
+    },
+    onSuccess: ({ inviteUrl }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      inviteForm.reset({ email: "", role: "barber", barberId: null });
+      setLastInviteUrl(inviteUrl);
+      toast({
+        title: "Invite created",
+        description: "Send the invite link to your new team member.",
+      });
+    },
+    onError: showError,
+  });
+
+  const revokeInviteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/staff/invites/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+    },
+    onError: showError,
+  });
+
+  const updateMemberMutation = useMutation({
+    mutationFn: async ({ id, role, barberId }: { id: string; role: StaffRole; barberId: number | null }) => {
+      await apiRequest("PUT", `/api/staff/${id}`, { role, barberId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+    },
+    onError: showError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/staff/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
+      toast({
+        title: "Staff member removed",
+        description: "They can no longer sign in to your shop.",
+      });
+    },
+    onError: showError,
+  });
+
+  const copyInviteUrl = () => {
+    if (!lastInviteUrl) return;
+    navigator.clipboard.writeText(lastInviteUrl);
+    toast({
+      title: "Copied!",
+      description: "Invite link copied to clipboard.",
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-primary">Invite Staff</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Form {...inviteForm}>
+            <form
+              onSubmit={inviteForm.handleSubmit((data) => inviteMutation.mutate(data))}
+              className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+            >
+              <FormField
+                control={inviteForm.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="name@example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={inviteForm.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {invitableRoles.map((role) => (
+                          <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {inviteRole === "barber" && (
+                <FormField
+                  control={inviteForm.control}
+                  name="barberId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Barber</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(parseInt(value))}
+                        value={field.value ? String(field.value) : ""}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose barber" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {barbers.map((barber) => (
+                            <SelectItem key={barber.id} value={String(barber.id)}>{barber.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <Button type="submit" disabled={inviteMutation.isPending} className="md:col-start-4">
+                <Send className="h-4 w-4 mr-2" />
+                Send Invite
+              </Button>
+            </form>
+          </Form>
+
+          {lastInviteUrl && (
+            <div className="flex items-center gap-2">
+              <Input value={lastInviteUrl} readOnly className="font-mono text-xs" />
+              <Button type="button" variant="outline" size="sm" onClick={copyInviteUrl}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-primary">Team</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {staff?.members.map((member) => (
+            <div key={member.id} className="flex flex-col md:flex-row md:items-center gap-3">
+              <div className="flex-1">
+                <p className="font-medium text-gray-900">
+                  {[member.firstName, member.lastName].filter(Boolean).join(" ") || member.email}
+                </p>
+                <p className="text-sm text-gray-600">{member.email}</p>
+              </div>
+              <Select
+                value={member.role || "barber"}
+                onValueChange={(role) => updateMemberMutation.mutate({
+                  id: member.id,
+                  role: role as StaffRole,
+                  barberId: role === "barber" ? member.barberId ?? barbers[0]?.id ?? null : null,
+                })}
+              >
+                <SelectTrigger className="md:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {invitableRoles.map((role) => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {member.role === "barber" && (
+                <Select
+                  value={member.barberId ? String(member.barberId) : ""}
+                  onValueChange={(value) => updateMemberMutation.mutate({
+                    id: member.id,
+                    role: "barber",
+                    barberId: parseInt(value),
+                  })}
+                >
+                  <SelectTrigger className="md:w-40">
+                    <SelectValue placeholder="Choose barber" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {barbers.map((barber) => (
+                      <SelectItem key={barber.id} value={String(barber.id)}>{barber.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600"
+                onClick={() => removeMemberMutation.mutate(member.id)}
+              >
+                <UserMinus className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {staff?.members.length === 0 && (
+            <p className="text-gray-500 text-center py-4">No staff accounts yet.</p>
+          )}
+
+          {!!staff?.invites.length && (
+            <>
+              <Separator />
+              <h3 className="text-sm font-medium text-gray-900">Pending Invites</h3>
+              {staff.invites.map((invite) => (
+                <div key={invite.id} className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <p className="text-gray-900">{invite.email}</p>
+                    <p className="text-sm text-gray-600">
+                      Expires {new Date(invite.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Badge variant="secondary">
+                    {roleLabels[invite.role as StaffRole]}
+                    {invite.barberId && barberName(invite.barberId) ? ` · ${barberName(invite.barberId)}` : ""}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => revokeInviteMutation.mutate(invite.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Barber, TimeEntryTimes, TimeEntryWithEdits } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { Plus, X } from "lucide-react";
+
+interface BreakDraft {
+  start: string;
+  end: string;
+}
+
+// datetime-local inputs work in local time without a zone
+function toInputValue(date: Date | string | null) {
+  if (!date) return "";
+  const local = new Date(date);
+  local.setMinutes(local.getMinutes() - local.getTimezoneOffset());
+  return local.toISOString().slice(0, 16);
+}
+
+const fromInputValue = (value: string) => value ? new Date(value).toISOString() : null;
+
+const formatTime = (date: string | null) => date ? new Date(date).toLocaleString() : "still on the clock";
+
+function describeTimes(times: TimeEntryTimes) {
+  const breaks = times.breaks.length > 0 ? `, ${times.breaks.length} break${times.breaks.length === 1 ? "" : "s"}` : "";
+  return `${formatTime(times.clockIn)} – ${formatTime(times.clockOut)}${breaks}`;
+}
+
+interface TimeEntryDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entry: TimeEntryWithEdits | null;
+  barbers: Barber[];
+}
+
+// Owner corrections to a shift, or a shift added after the fact. Every save
+// needs a reason and is kept in the shift's history.
+export default function TimeEntryDialog({ isOpen, onClose, entry, barbers }: TimeEntryDialogProps) {
+  const [barberId, setBarberId] = useState("");
+  const [clockIn, setClockIn] = useState("");
+  const [clockOut, setClockOut] = useState("");
+  const [breaks, setBreaks] = useState<BreakDraft[]>([]);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    setBarberId(entry ? String(entry.barberId) : "");
+    setClockIn(toInputValue(entry?.clockIn ?? null));
+    setClockOut(toInputValue(entry?.clockOut ?? null));
+    setBreaks(entry?.breaks.map((breakTime) => ({ start: toInputValue(breakTime.start), end: toInputValue(breakTime.end) })) ?? []);
+    setReason("");
+  }, [entry, isOpen]);
+
+  const saveEntryMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        clockIn: fromInputValue(clockIn),
+        clockOut: fromInputValue(clockOut),
+        breaks: breaks.map((breakTime) => ({ start: fromInputValue(breakTime.start), end: fromInputValue(breakTime.end) })),
+        reason,
+      };
+      if (entry) {
+        await apiRequest("PUT", `/api/timeclock/entries/${entry.id}`, body);
+      } else {
+        await apiRequest("POST", "/api/timeclock/entries", { ...body, barberId: parseInt(barberId) });
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (query) => /^\/api\/(timeclock\/timesheets|payroll)\?/.test(String(query.queryKey[0])),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/timeclock/open"] });
+      toast({ title: entry ? "Shift updated" : "Shift added" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateBreak = (index: number, changes: Partial<BreakDraft>) => {
+    setBreaks(breaks.map((breakTime, position) => position === index ? { ...breakTime, ...changes } : breakTime));
+  };
+
+  const canSave = !!clockIn && !!reason.trim() && (!!entry || (!!barberId && !!clockOut))
+    && breaks.every((breakTime) => !!breakTime.start);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{entry ? "Edit Shift" : "Add Shift"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!entry && (
+            <div>
+              <label className="text-sm font-medium text-gray-700">Barber</label>
+              <Select value={barberId} onValueChange={setBarberId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a barber" />
+                </SelectTrigger>
+                <SelectContent>
+                  {barbers.map((barber) => (
+                    <SelectItem key={barber.id} value={String(barber.id)}>
+                      {barber.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium text-gray-700">Clock in</label>
+              <Input type="datetime-local" value={clockIn} onChange={(e) => setClockIn(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700">Clock out</label>
+              <Input type="datetime-local" value={clockOut} onChange={(e) => setClockOut(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-gray-700">Breaks</p>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setBreaks([...breaks, { start: "", end: "" }])}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add break
+              </Button>
+            </div>
+            {breaks.map((breakTime, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <Input
+                  type="datetime-local"
+                  value={breakTime.start}
+                  onChange={(e) => updateBreak(index, { start: e.target.value })}
+                />
+                <span className="text-gray-500">to</span>
+                <Input
+                  type="datetime-local"
+                  value={breakTime.end}
+                  onChange={(e) => updateBreak(index, { end: e.target.value })}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="text-red-600"
+                  onClick={() => setBreaks(breaks.filter((_, position) => position !== index))}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">Reason for the change</label>
+            <Input
+              placeholder="e.g. Forgot to clock out"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={() => saveEntryMutation.mutate()}
+            disabled={saveEntryMutation.isPending || !canSave}
+          >
+            {entry ? "Save Changes" : "Add Shift"}
+          </Button>
+
+          {entry && entry.edits.length > 0 && (
+            <>
+              <Separator />
+              <div className="space-y-2 text-sm">
+                <p className="font-medium">History</p>
+                {entry.edits.map((edit) => (
+                  <div key={edit.id} className="text-gray-600">
+                    <p className="text-gray-900">
+                      {edit.createdAt && new Date(edit.createdAt).toLocaleString()} · {edit.reason}
+                    </p>
+                    {edit.before && <p>Was {describeTimes(edit.before)}</p>}
+                    <p>{edit.before ? "Now" : "Added as"} {describeTimes(edit.after)}</p>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
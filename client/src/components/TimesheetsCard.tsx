@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { hoursLabel, workedMinutes } from "@shared/timeclock";
+import type { Barber, TimeEntryWithEdits, Timesheet } from "@shared/schema";
+import TimeEntryDialog from "@/components/TimeEntryDialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Clock, History, Pencil, Plus } from "lucide-react";
+
+const formatTime = (date: Date | string) =>
+  new Date(date).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+// Each barber's shifts in the pay period. Owners can fix up a shift or add
+// one that was never punched.
+export default function TimesheetsCard({ from, to }: { from: string; to: string }) {
+  const [editingEntry, setEditingEntry] = useState<TimeEntryWithEdits | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { can } = useAuth();
+
+  const { data: timesheets, isLoading } = useQuery<Timesheet[]>({
+    queryKey: [`/api/timeclock/timesheets?from=${from}&to=${to}`],
+  });
+
+  const { data: barbers } = useQuery<Barber[]>({
+    queryKey: ["/api/barbers"],
+  });
+
+  const openDialog = (entry: TimeEntryWithEdits | null) => {
+    setEditingEntry(entry);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center">
+            <Clock className="h-5 w-5 mr-2" />
+            Timesheets
+          </CardTitle>
+          {can("timeclock.edit") && (
+            <Button size="sm" variant="outline" onClick={() => openDialog(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Shift
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {timesheets?.map((timesheet) => (
+              <div key={timesheet.barberId}>
+                <div className="flex justify-between border-b pb-2">
+                  <p className="font-medium text-gray-900">{timesheet.barber}</p>
+                  <p className="font-semibold">{timesheet.hours} h</p>
+                </div>
+                {timesheet.entries.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between py-2 text-sm">
+                    <div>
+                      <span className="text-gray-900">{new Date(entry.clockIn).toLocaleDateString()}</span>
+                      <span className="text-gray-600">
+                        {" "}· {formatTime(entry.clockIn)} – {entry.clockOut ? formatTime(entry.clockOut) : "now"}
+                        {entry.breaks.length > 0 && ` · ${entry.breaks.length} break${entry.breaks.length === 1 ? "" : "s"}`}
+                      </span>
+                      {entry.edits.length > 0 && (
+                        <Badge variant="outline" className="ml-2">
+                          <History className="h-3 w-3 mr-1" />
+                          Edited
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {entry.clockOut ? (
+                        <span>{hoursLabel(workedMinutes(entry))} h</span>
+                      ) : (
+                        <Badge className="bg-green-100 text-green-800">On the clock</Badge>
+                      )}
+                      {can("timeclock.edit") && (
+                        <Button size="sm" variant="ghost" onClick={() => openDialog(entry)}>
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+                {timesheet.entries.length === 0 && (
+                  <p className="text-sm text-gray-500 py-2">No shifts in this period</p>
+                )}
+              </div>
+            ))}
+            {timesheets?.length === 0 && (
+              <p className="text-center text-gray-500 py-8">No barbers yet</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <TimeEntryDialog
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+        entry={editingEntry}
+        barbers={barbers?.filter((barber) => barber.isActive) ?? []}
+      />
+    </Card>
+  );
+}
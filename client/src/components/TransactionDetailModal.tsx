@@ -0,0 +1,349 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { fromCents, lineNetCents, lineTotalCents, netSaleCents, toCents } from "@shared/pricing";
+import type { PaymentMethod, TransactionWithItems } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { Receipt, RotateCcw, Ban } from "lucide-react";
+import TransactionStatusBadge from "@/components/TransactionStatusBadge";
+import ReceiptActions from "@/components/ReceiptActions";
+
+interface TransactionDetailModalProps {
+  transactionId: number | null;
+  onClose: () => void;
+}
+
+type RefundMode = "full" | "items" | "amount";
+
+export default function TransactionDetailModal({
+  transactionId,
+  onClose,
+}: TransactionDetailModalProps) {
+  const [reason, setReason] = useState("");
+  const [refundMode, setRefundMode] = useState<RefundMode>("full");
+  const [refundQuantities, setRefundQuantities] = useState<Record<number, number>>({});
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod | "auto">("auto");
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: transaction } = useQuery<TransactionWithItems>({
+    queryKey: ["/api/transactions", transactionId],
+    enabled: transactionId !== null,
+  });
+
+  useEffect(() => {
+    setReason("");
+    setRefundMode("full");
+    setRefundQuantities({});
+    setRefundAmount("");
+    setRefundMethod("auto");
+  }, [transactionId]);
+
+  const onAdjusted = (title: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions/today"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cash-drawer/current"] });
+    setReason("");
+    setRefundQuantities({});
+    setRefundAmount("");
+    toast({ title });
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: parseApiError(error).message,
+      variant: "destructive",
+    });
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const paymentMethod = refundMethod === "auto" ? undefined : refundMethod;
+      const body =
+        refundMode === "items"
+          ? {
+              reason,
+              paymentMethod,
+              items: Object.entries(refundQuantities)
+                .filter(([, quantity]) => quantity > 0)
+                .map(([transactionItemId, quantity]) => ({ transactionItemId: Number(transactionItemId), quantity })),
+            }
+          : refundMode === "amount"
+            ? { reason, paymentMethod, amount: refundAmount }
+            : { reason, paymentMethod };
+      await apiRequest("POST", `/api/transactions/${transactionId}/refunds`, body);
+    },
+    onSuccess: () => onAdjusted("Refund issued"),
+    onError: showError,
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/transactions/${transactionId}/void`, { reason });
+    },
+    onSuccess: () => onAdjusted("Sale voided"),
+    onError: showError,
+  });
+
+  const remainingCents = transaction ? netSaleCents(transaction) : 0;
+  const canRefund = can("pos.refund") && !!transaction && transaction.status !== "voided" && remainingCents > 0;
+  const canVoid =
+    can("pos.refund") &&
+    !!transaction &&
+    transaction.status === "completed" &&
+    toCents(transaction.refundedTotal ?? 0) === 0 &&
+    !!transaction.createdAt &&
+    new Date(transaction.createdAt).toDateString() === new Date().toDateString();
+  // Mirrors the server: returned units carry their share of discount and tax
+  const selectedItemsCents = transaction
+    ? transaction.items.reduce((sum, item) =>
+        sum + Math.round(lineNetCents(item) * (refundQuantities[item.id] ?? 0) / (item.quantity ?? 1)), 0)
+    : 0;
+  const isPending = refundMutation.isPending || voidMutation.isPending;
+  const paidMethods = transaction
+    ? Array.from(new Set(transaction.payments.map((payment) => payment.method as PaymentMethod)))
+    : [];
+
+  return (
+    <Dialog open={transactionId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Receipt className="h-5 w-5 mr-2" />
+            Sale #{transactionId}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!transaction ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>
+                {transaction.createdAt && new Date(transaction.createdAt).toLocaleString()} · {transaction.paymentMethod}
+              </span>
+              <TransactionStatusBadge status={transaction.status} />
+            </div>
+
+            <div className="space-y-2">
+              {transaction.items.map((item) => (
+                <div key={item.id} className="flex items-center justify-between text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {item.quantity ?? 1} × {item.name}
+                    </p>
+                    {toCents(item.discount ?? 0) > 0 && (
+                      <p className="text-green-700">Discount -${item.discount}</p>
+                    )}
+                    {item.refundedQuantity > 0 && (
+                      <p className="text-red-600">{item.refundedQuantity} refunded</p>
+                    )}
+                  </div>
+                  <span>${fromCents(lineTotalCents(item))}</span>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+            <div className="space-y-1 text-sm">
+              {transaction.subtotal !== null && (
+                <>
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <span>${transaction.subtotal}</span>
+                  </div>
+                  {toCents(transaction.discountTotal ?? 0) > 0 && (
+                    <div className="flex justify-between text-green-700">
+                      <span>Discounts</span>
+                      <span>-${transaction.discountTotal}</span>
+                    </div>
+                  )}
+                  {toCents(transaction.taxTotal ?? 0) > 0 && (
+                    <div className="flex justify-between">
+                      <span>Tax</span>
+                      <span>${transaction.taxTotal}</span>
+                    </div>
+                  )}
+                  {toCents(transaction.tip ?? 0) > 0 && (
+                    <div className="flex justify-between">
+                      <span>Tip</span>
+                      <span>${transaction.tip}</span>
+                    </div>
+                  )}
+                </>
+              )}
+              <div className="flex justify-between font-semibold">
+                <span>Total</span>
+                <span>${transaction.total}</span>
+              </div>
+              {transaction.payments.length > 1 && transaction.payments.map((payment) => (
+                <div key={payment.id} className="flex justify-between text-gray-600">
+                  <span>
+                    Paid by {payment.method}{payment.reference && ` · ${payment.reference}`}
+                  </span>
+                  <span>${payment.amount}</span>
+                </div>
+              ))}
+              {transaction.payments.filter((payment) => toCents(payment.change ?? 0) > 0).map((payment) => (
+                <div key={payment.id} className="flex justify-between text-gray-600">
+                  <span>Cash tendered ${payment.tendered}</span>
+                  <span>Change ${payment.change}</span>
+                </div>
+              ))}
+              {transaction.refunds.map((refund) => (
+                <div key={refund.id} className="flex justify-between text-red-600">
+                  <span>
+                    Refund ({refund.paymentMethod}) - {refund.reason}
+                    {refund.status === "pending" && " · processing"}
+                  </span>
+                  <span>-${refund.amount}</span>
+                </div>
+              ))}
+              {transaction.status === "voided" && (
+                <p className="text-red-600">Voided: {transaction.voidReason}</p>
+              )}
+            </div>
+
+            <Separator />
+            <ReceiptActions transactionId={transaction.id} />
+
+            {(canRefund || canVoid) && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <Textarea
+                    placeholder="Reason (required)"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                  />
+
+                  {canRefund && (
+                    <>
+                      <Select value={refundMode} onValueChange={(value) => setRefundMode(value as RefundMode)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="full">Refund everything left (${fromCents(remainingCents)})</SelectItem>
+                          <SelectItem value="items">Refund specific items</SelectItem>
+                          <SelectItem value="amount">Refund an amount</SelectItem>
+                        </SelectContent>
+                      </Select>
+
+                      {refundMode === "items" && transaction.items.map((item) => {
+                        const refundable = (item.quantity ?? 1) - item.refundedQuantity;
+                        return (
+                          <div key={item.id} className="flex items-center justify-between text-sm">
+                            <span>{item.name} ({refundable} left)</span>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={refundable}
+                              disabled={refundable === 0}
+                              className="w-20"
+                              value={refundQuantities[item.id] ?? 0}
+                              onChange={(e) => setRefundQuantities({
+                                ...refundQuantities,
+                                [item.id]: Math.min(refundable, Math.max(0, parseInt(e.target.value) || 0)),
+                              })}
+                            />
+                          </div>
+                        );
+                      })}
+
+                      {refundMode === "amount" && (
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          placeholder="Amount"
+                          value={refundAmount}
+                          onChange={(e) => setRefundAmount(e.target.value)}
+                        />
+                      )}
+                    </>
+                  )}
+
+                  {canRefund && paidMethods.length > 1 && (
+                    <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as PaymentMethod | "auto")}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">Back to card and digital first, then cash</SelectItem>
+                        {paidMethods.map((method) => (
+                          <SelectItem key={method} value={method}>Back to {method} only</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  <p className="text-xs text-gray-500">
+                    {paidMethods.length > 1
+                      ? "This sale was split across payments; refunds go back to the methods it was paid with."
+                      : `Refunds go back to the original payment method (${transaction.paymentMethod}).`}
+                  </p>
+
+                  <div className="flex space-x-3">
+                    {canVoid && (
+                      <Button
+                        variant="outline"
+                        className="flex-1"
+                        disabled={isPending || !reason.trim()}
+                        onClick={() => voidMutation.mutate()}
+                      >
+                        <Ban className="h-4 w-4 mr-2" />
+                        Void Sale
+                      </Button>
+                    )}
+                    {canRefund && (
+                      <Button
+                        variant="destructive"
+                        className="flex-1"
+                        disabled={
+                          isPending ||
+                          !reason.trim() ||
+                          (refundMode === "items" && selectedItemsCents === 0) ||
+                          (refundMode === "amount" && !(Number(refundAmount) > 0))
+                        }
+                        onClick={() => refundMutation.mutate()}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Refund
+                        {refundMode === "items" && selectedItemsCents > 0 && ` $${fromCents(selectedItemsCents)}`}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,14 @@
+import { Badge } from "@/components/ui/badge";
+
+const statusStyles: Record<string, { label: string; className: string }> = {
+  completed: { label: "Completed", className: "bg-green-100 text-green-800" },
+  partially_refunded: { label: "Partially refunded", className: "bg-yellow-100 text-yellow-800" },
+  refunded: { label: "Refunded", className: "bg-red-100 text-red-800" },
+  voided: { label: "Voided", className: "bg-gray-200 text-gray-700" },
+  pending: { label: "Pending", className: "bg-blue-100 text-blue-800" },
+};
+
+export default function TransactionStatusBadge({ status }: { status: string | null }) {
+  const style = statusStyles[status || "completed"] ?? statusStyles.completed;
+  return <Badge className={style.className}>{style.label}</Badge>;
+}
@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { toCents } from "@shared/pricing";
+import type { CashDrawerSession } from "@shared/schema";
+import ZReportView from "@/components/ZReportView";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileText } from "lucide-react";
+
+// Closed drawer sessions, for reviewing past days' counts
+export default function ZReportHistory() {
+  const [selected, setSelected] = useState<CashDrawerSession | null>(null);
+
+  const { data: sessions } = useQuery<CashDrawerSession[]>({
+    queryKey: ["/api/cash-drawer/sessions"],
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileText className="h-5 w-5 mr-2" />
+          Z-Reports
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y">
+          {sessions?.map((session) => {
+            const overShortCents = toCents(session.overShort ?? 0);
+            return (
+              <button
+                key={session.id}
+                className="w-full flex items-center justify-between py-3 text-left hover:bg-gray-50"
+                onClick={() => setSelected(session)}
+              >
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {session.closedAt && new Date(session.closedAt).toLocaleDateString()}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    Expected ${session.expectedCash} · counted ${session.countedCash}
+                  </p>
+                </div>
+                <span className={overShortCents === 0 ? "text-green-700" : "text-red-600 font-semibold"}>
+                  {overShortCents === 0 ? "Balanced" : `${overShortCents > 0 ? "+" : ""}${session.overShort}`}
+                </span>
+              </button>
+            );
+          })}
+          {sessions?.length === 0 && (
+            <p className="text-center text-gray-500 py-8">No closed drawers yet</p>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Z-Report</DialogTitle>
+          </DialogHeader>
+          {selected?.report && <ZReportView report={selected.report} />}
+          {selected?.notes && <p className="text-sm text-gray-600">Notes: {selected.notes}</p>}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
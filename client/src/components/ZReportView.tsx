@@ -0,0 +1,80 @@
+import { toCents } from "@shared/pricing";
+import { paymentMethods, type ZReport } from "@shared/schema";
+import { Separator } from "@/components/ui/separator";
+
+const methodLabels: Record<string, string> = {
+  cash: "Cash",
+  card: "Card",
+  digital: "Digital",
+};
+
+function Row({ label, amount, className = "" }: { label: string; amount: string; className?: string }) {
+  return (
+    <div className={`flex justify-between ${className}`}>
+      <span>{label}</span>
+      <span>{amount}</span>
+    </div>
+  );
+}
+
+function overShortLabel(overShort: string) {
+  const cents = toCents(overShort);
+  if (cents === 0) return "Balanced";
+  return cents > 0 ? `Over $${overShort}` : `Short $${overShort.replace("-", "")}`;
+}
+
+// The figures for a drawer session, live while it's open and frozen once closed
+export default function ZReportView({ report }: { report: ZReport }) {
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="text-gray-600">
+        {new Date(report.openedAt).toLocaleString()}
+        {report.closedAt && ` – ${new Date(report.closedAt).toLocaleString()}`}
+      </div>
+
+      <div className="space-y-1">
+        <Row label={`Sales (${report.salesCount})`} amount={`$${report.grossSales}`} className="font-medium" />
+        {toCents(report.discounts) > 0 && <Row label="Discounts given" amount={`-$${report.discounts}`} />}
+        <Row label="Tax collected" amount={`$${report.tax}`} />
+        <Row label="Tips" amount={`$${report.tips}`} />
+        {report.voidedCount > 0 && <Row label="Voided sales" amount={String(report.voidedCount)} className="text-gray-600" />}
+      </div>
+
+      <Separator />
+      <div className="space-y-1">
+        <p className="font-medium">Taken</p>
+        {paymentMethods.map((method) => (
+          <Row
+            key={method}
+            label={methodLabels[method]}
+            amount={toCents(report.refunded[method]) > 0
+              ? `$${report.taken[method]} (-$${report.refunded[method]} refunded)`
+              : `$${report.taken[method]}`}
+          />
+        ))}
+        {toCents(report.pending) > 0 && (
+          <Row label="Card awaiting processor" amount={`$${report.pending}`} className="text-gray-600" />
+        )}
+      </div>
+
+      <Separator />
+      <div className="space-y-1">
+        <p className="font-medium">Cash drawer</p>
+        <Row label="Opening float" amount={`$${report.openingFloat}`} />
+        <Row label="Cash sales" amount={`+$${report.taken.cash}`} />
+        {toCents(report.refunded.cash) > 0 && <Row label="Cash refunds" amount={`-$${report.refunded.cash}`} />}
+        {toCents(report.paidIn) > 0 && <Row label="Paid in" amount={`+$${report.paidIn}`} />}
+        {toCents(report.paidOut) > 0 && <Row label="Paid out" amount={`-$${report.paidOut}`} />}
+        <Row label="Expected in drawer" amount={`$${report.expectedCash}`} className="font-semibold" />
+        {report.countedCash !== null && <Row label="Counted" amount={`$${report.countedCash}`} className="font-semibold" />}
+        {report.overShort !== null && (
+          <Row
+            label="Over / short"
+            amount={overShortLabel(report.overShort)}
+            className={toCents(report.overShort) === 0 ? "text-green-700" : "text-red-600 font-semibold"}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
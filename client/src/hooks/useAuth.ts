@@ -1,7 +1,9 @@
 import { useQuery } from "@tanstack/react-query";
+import type { User } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 export function useAuth() {
-  const { data: user, isLoading } = useQuery({
+  const { data: user, isLoading } = useQuery<User>({
     queryKey: ["/api/auth/user"],
     retry: false,
   });
@@ -10,5 +12,6 @@ export function useAuth() {
     user,
     isLoading,
     isAuthenticated: !!user,
+    can: (permission: Permission) => hasPermission(user?.role, permission),
   };
 }
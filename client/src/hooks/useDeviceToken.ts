@@ -0,0 +1,21 @@
+import { useState } from "react";
+import type { DeviceKind } from "@shared/schema";
+
+// The token a paired kiosk or display keeps in the browser. Forgetting it
+// (after the device is removed in Settings) sends the screen back to pairing.
+export function useDeviceToken(kind: DeviceKind) {
+  const storageKey = `${kind}Token`;
+  const [token, setToken] = useState(() => localStorage.getItem(storageKey));
+
+  const saveToken = (newToken: string) => {
+    localStorage.setItem(storageKey, newToken);
+    setToken(newToken);
+  };
+
+  const forgetToken = () => {
+    localStorage.removeItem(storageKey);
+    setToken(null);
+  };
+
+  return { token, saveToken, forgetToken };
+}
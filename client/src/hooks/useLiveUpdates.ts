@@ -0,0 +1,60 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { changeTopics, type ChangeTopic } from "@shared/schema";
+
+// The queries each kind of change leaves out of date, by the start of their URL
+const affectedQueries: Record<ChangeTopic, string[]> = {
+  queue: ["/api/queue", "/api/dashboard/stats", "/api/analytics/queue"],
+  appointments: ["/api/appointments", "/api/availability", "/api/dashboard/stats"],
+  transactions: [
+    "/api/transactions",
+    "/api/cash-drawer",
+    "/api/products",
+    "/api/dashboard/stats",
+    "/api/analytics",
+    "/api/payroll",
+  ],
+  customers: ["/api/customers"],
+};
+
+function refetchAffected(queryClient: QueryClient, topics: readonly ChangeTopic[]) {
+  const prefixes = topics.flatMap((topic) => affectedQueries[topic]);
+  queryClient.invalidateQueries({
+    predicate: (query) => prefixes.some((prefix) => String(query.queryKey[0]).startsWith(prefix)),
+  });
+}
+
+// Keeps every open tab in step with the others: the server says what kind of
+// data changed at this location and the queries showing it refetch
+export function useLiveUpdates(enabled: boolean) {
+  const queryClient = useQueryClient();
+  // The stream is scoped to the location the session is working in, so it
+  // reconnects after a switch
+  const { data: locations } = useQuery<{ currentLocationId: number | null }>({
+    queryKey: ["/api/locations"],
+    enabled,
+  });
+  const locationId = locations?.currentLocationId;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const source = new EventSource("/api/events");
+    let dropped = false;
+
+    source.addEventListener("change", (event) => {
+      const { topic } = JSON.parse((event as MessageEvent).data) as { topic: ChangeTopic };
+      if (topic in affectedQueries) refetchAffected(queryClient, [topic]);
+    });
+    // EventSource reconnects by itself; anything missed while the stream was
+    // down is caught up once it's back
+    source.onerror = () => {
+      dropped = true;
+    };
+    source.onopen = () => {
+      if (dropped) refetchAffected(queryClient, changeTopics);
+      dropped = false;
+    };
+
+    return () => source.close();
+  }, [enabled, locationId, queryClient]);
+}
@@ -0,0 +1,39 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { Location } from "@shared/schema";
+
+interface LocationsResponse {
+  currentLocationId: number | null;
+  locations: Location[];
+}
+
+// The shop's additional storefronts and the one the dashboard is working in.
+// A null current location is the main shop.
+export function useLocations() {
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useQuery<LocationsResponse>({
+    queryKey: ["/api/locations"],
+  });
+
+  const switchMutation = useMutation({
+    mutationFn: async (locationId: number | null) => {
+      await apiRequest("POST", "/api/locations/switch", { locationId });
+    },
+    onSuccess: () => {
+      // Barbers, services, queue, appointments and sales all depend on the location
+      queryClient.invalidateQueries();
+    },
+  });
+
+  const locations = data?.locations ?? [];
+  const currentLocationId = data?.currentLocationId ?? null;
+
+  return {
+    locations,
+    currentLocationId,
+    currentLocation: locations.find((location) => location.id === currentLocationId),
+    isLoading,
+    switchLocation: switchMutation.mutate,
+    isSwitching: switchMutation.isPending,
+  };
+}
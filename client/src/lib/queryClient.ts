@@ -7,14 +7,32 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Recover the status code and JSON body from an error thrown by apiRequest
+export function parseApiError(error: Error): { status: number; message: string; body?: any } {
+  const match = /^(\d{3}): ([\s\S]*)$/.exec(error.message);
+  if (!match) {
+    return { status: 0, message: error.message };
+  }
+
+  const status = parseInt(match[1]);
+  try {
+    const body = JSON.parse(match[2]);
+    return { status, message: body.message || match[2], body };
+  } catch {
+    return { status, message: match[2] };
+  }
+}
+
+// Paired devices pass their bearer token in headers; staff rely on the cookie
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { ...headers, "Content-Type": "application/json" } : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
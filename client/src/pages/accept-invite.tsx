@@ -0,0 +1,168 @@
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { roleLabels, type StaffRole } from "@shared/permissions";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+interface InviteDetails {
+  email: string;
+  role: StaffRole;
+  barbershopName: string | null;
+  hasAccount: boolean;
+}
+
+const newAccountSchema = z.object({
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+type NewAccountData = z.infer<typeof newAccountSchema>;
+
+export default function AcceptInvite() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const { data: invite, isLoading, error } = useQuery<InviteDetails>({
+    queryKey: ["/api/invites", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const accountForm = useForm<NewAccountData>({
+    resolver: zodResolver(newAccountSchema),
+    defaultValues: { firstName: "", lastName: "", password: "" },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (data: Partial<NewAccountData>) => {
+      await apiRequest("POST", "/api/invites/accept", { token, ...data });
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      toast({
+        title: "Welcome aboard",
+        description: `You've joined ${invite?.barbershopName || "the shop"}.`,
+      });
+      setLocation("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const shopName = invite?.barbershopName || "a barbershop";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>{invite ? `Join ${shopName}` : "Staff invite"}</CardTitle>
+          <CardDescription>
+            {!token || error
+              ? "This invite is invalid or has expired. Ask the shop owner for a new one."
+              : isLoading || !invite
+                ? "Loading invite..."
+                : `You've been invited as ${roleLabels[invite.role]} with ${invite.email}.`}
+          </CardDescription>
+        </CardHeader>
+        {invite && (
+          <CardContent>
+            {isAuthenticated ? (
+              <Button
+                className="w-full"
+                disabled={acceptMutation.isPending}
+                onClick={() => acceptMutation.mutate({})}
+              >
+                Accept Invite
+              </Button>
+            ) : invite.hasAccount ? (
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  An account already exists for {invite.email}. Sign in, then open this invite link again.
+                </p>
+                <Button className="w-full" onClick={() => setLocation("/login")}>
+                  Sign In
+                </Button>
+              </div>
+            ) : (
+              <Form {...accountForm}>
+                <form
+                  onSubmit={accountForm.handleSubmit((data) => acceptMutation.mutate(data))}
+                  className="space-y-4"
+                >
+                  <div className="grid grid-cols-2 gap-3">
+                    <FormField
+                      control={accountForm.control}
+                      name="firstName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>First Name</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="given-name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={accountForm.control}
+                      name="lastName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Last Name</FormLabel>
+                          <FormControl>
+                            <Input autoComplete="family-name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <FormField
+                    control={accountForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="submit" className="w-full" disabled={acceptMutation.isPending}>
+                    Create Account & Join
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
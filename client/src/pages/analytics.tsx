@@ -4,6 +4,10 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import Navigation from "@/components/Navigation";
+import AccessDenied from "@/components/AccessDenied";
+import QueueTimesCard from "@/components/QueueTimesCard";
+import { fromCents, netSaleCents, summarizeSales } from "@shared/pricing";
+import type { Transaction } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
@@ -16,12 +20,23 @@ import {
   DollarSign,
   Star,
   BarChart3,
-  PieChart
+  PieChart,
+  MapPin
 } from "lucide-react";
 
+interface LocationSummary {
+  locationId: number | null;
+  name: string;
+  todayRevenue: number;
+  todayAppointmentCount: number;
+  todayQueueCount: number;
+  weekRevenue: number;
+  weekTransactionCount: number;
+}
+
 export default function Analytics() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, can } = useAuth();
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -63,11 +78,16 @@ export default function Analytics() {
     enabled: isAuthenticated,
   });
 
-  const { data: transactions } = useQuery({
+  const { data: transactions } = useQuery<Transaction[]>({
     queryKey: ["/api/transactions"],
     enabled: isAuthenticated,
   });
 
+  const { data: locationSummaries } = useQuery<LocationSummary[]>({
+    queryKey: ["/api/analytics/locations"],
+    enabled: isAuthenticated && can("analytics.view"),
+  });
+
   // Calculate analytics
   const calculateWeeklyRevenue = () => {
     if (!transactions) return { thisWeek: 0, lastWeek: 0, change: 0 };
@@ -79,12 +99,12 @@ export default function Analytics() {
     
     const thisWeek = transactions.filter((t: any) => 
       new Date(t.createdAt) >= weekStart
-    ).reduce((sum: number, t: any) => sum + Number(t.total), 0);
+    ).reduce((sum: number, t: any) => sum + netSaleCents(t) / 100, 0);
     
     const lastWeek = transactions.filter((t: any) => {
       const date = new Date(t.createdAt);
       return date >= lastWeekStart && date < weekStart;
-    }).reduce((sum: number, t: any) => sum + Number(t.total), 0);
+    }).reduce((sum: number, t: any) => sum + netSaleCents(t) / 100, 0);
     
     const change = lastWeek > 0 ? ((thisWeek - lastWeek) / lastWeek) * 100 : 0;
     
@@ -136,6 +156,7 @@ export default function Analytics() {
   };
 
   const weeklyRevenue = calculateWeeklyRevenue();
+  const salesSummary = summarizeSales(transactions || []);
   const customerRetention = calculateCustomerRetention();
   const averageRating = calculateAverageRating();
   const popularServices = getPopularServices();
@@ -149,6 +170,10 @@ export default function Analytics() {
     );
   }
 
+  if (!can("analytics.view")) {
+    return <AccessDenied />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navigation />
@@ -345,7 +370,7 @@ export default function Analytics() {
                 </div>
                 <div className="text-center">
                   <p className="text-2xl font-bold text-gray-900">
-                    ${transactions?.reduce((sum: number, t: any) => sum + Number(t.total), 0).toFixed(0) || 0}
+                    ${transactions?.reduce((sum: number, t: any) => sum + netSaleCents(t) / 100, 0).toFixed(0) || 0}
                   </p>
                   <p className="text-sm text-gray-600">Total Revenue</p>
                 </div>
@@ -353,6 +378,102 @@ export default function Analytics() {
             </CardContent>
           </Card>
         </div>
+
+        {/* Actual walk-in waits and service times */}
+        <div className="mt-8">
+          <QueueTimesCard />
+        </div>
+
+        {/* Sales Breakdown */}
+        <div className="mt-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <DollarSign className="h-5 w-5 mr-2" />
+                Sales Breakdown
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-6">
+                {[
+                  { label: "Gross Sales", cents: salesSummary.grossCents },
+                  { label: "Discounts", cents: -salesSummary.discountCents },
+                  { label: "Tax Collected", cents: salesSummary.taxCents },
+                  { label: "Tips", cents: salesSummary.tipCents },
+                  { label: "Refunds", cents: -salesSummary.refundCents },
+                  { label: "Net Collected", cents: salesSummary.netCents },
+                ].map(({ label, cents }) => (
+                  <div key={label} className="text-center">
+                    <p className="text-2xl font-bold text-gray-900">
+                      {cents < 0 ? "-" : ""}${fromCents(Math.abs(cents))}
+                    </p>
+                    <p className="text-sm text-gray-600">{label}</p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* All locations side by side; the cards above follow the location switcher */}
+        {locationSummaries && locationSummaries.length > 1 && (
+          <div className="mt-8">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <MapPin className="h-5 w-5 mr-2" />
+                  Locations
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b">
+                        <th className="py-2 font-medium">Location</th>
+                        <th className="py-2 font-medium text-right">Revenue Today</th>
+                        <th className="py-2 font-medium text-right">Appointments Today</th>
+                        <th className="py-2 font-medium text-right">Queue Today</th>
+                        <th className="py-2 font-medium text-right">Revenue (7 days)</th>
+                        <th className="py-2 font-medium text-right">Sales (7 days)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {locationSummaries.map((summary) => (
+                        <tr key={summary.locationId ?? 'main'} className="border-b">
+                          <td className="py-2 font-medium text-gray-900">{summary.name}</td>
+                          <td className="py-2 text-right">${summary.todayRevenue.toFixed(2)}</td>
+                          <td className="py-2 text-right">{summary.todayAppointmentCount}</td>
+                          <td className="py-2 text-right">{summary.todayQueueCount}</td>
+                          <td className="py-2 text-right">${summary.weekRevenue.toFixed(2)}</td>
+                          <td className="py-2 text-right">{summary.weekTransactionCount}</td>
+                        </tr>
+                      ))}
+                      <tr className="font-semibold text-gray-900">
+                        <td className="py-2">All locations</td>
+                        <td className="py-2 text-right">
+                          ${locationSummaries.reduce((sum, s) => sum + s.todayRevenue, 0).toFixed(2)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {locationSummaries.reduce((sum, s) => sum + s.todayAppointmentCount, 0)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {locationSummaries.reduce((sum, s) => sum + s.todayQueueCount, 0)}
+                        </td>
+                        <td className="py-2 text-right">
+                          ${locationSummaries.reduce((sum, s) => sum + s.weekRevenue, 0).toFixed(2)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {locationSummaries.reduce((sum, s) => sum + s.weekTransactionCount, 0)}
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
       </main>
     </div>
   );
@@ -4,12 +4,23 @@ import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { isBarberWorkingDuring } from "@shared/schedule";
+import type { Barber, BarberTimeOff, SeriesScope } from "@shared/schema";
 import Navigation from "@/components/Navigation";
 import AppointmentBookingModal from "@/components/AppointmentBookingModal";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -24,15 +35,18 @@ import {
   Search, 
   MoreVertical,
   Edit,
-  Trash2
+  Trash2,
+  AlertTriangle,
+  Repeat
 } from "lucide-react";
 
 export default function Appointments() {
   const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
   const [editingAppointment, setEditingAppointment] = useState(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [seriesAction, setSeriesAction] = useState<{ appointment: any; action: "cancel" | "delete" } | null>(null);
   const { toast } = useToast();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { isAuthenticated, isLoading, user } = useAuth();
   const queryClient = useQueryClient();
 
   // Redirect to login if not authenticated
@@ -65,9 +79,19 @@ export default function Appointments() {
     enabled: isAuthenticated,
   });
 
+  const { data: barbers } = useQuery<Barber[]>({
+    queryKey: ["/api/barbers"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: barberTimeOff } = useQuery<BarberTimeOff[]>({
+    queryKey: ["/api/barbers/time-off"],
+    enabled: isAuthenticated,
+  });
+
   const deleteAppointmentMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/appointments/${id}`);
+    mutationFn: async ({ id, scope }: { id: number; scope?: SeriesScope }) => {
+      await apiRequest("DELETE", `/api/appointments/${id}${scope ? `?scope=${scope}` : ""}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
@@ -98,8 +122,8 @@ export default function Appointments() {
   });
 
   const updateAppointmentStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: number; status: string }) => {
-      await apiRequest("PUT", `/api/appointments/${id}`, { status });
+    mutationFn: async ({ id, status, scope }: { id: number; status: string; scope?: SeriesScope }) => {
+      await apiRequest("PUT", `/api/appointments/${id}${scope ? `?scope=${scope}` : ""}`, { status });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
@@ -118,6 +142,34 @@ export default function Appointments() {
     },
   });
 
+  // Cancelling or deleting part of a series first asks how much of it to affect
+  const handleCancel = (appointment: any) => {
+    if (appointment.seriesId) {
+      setSeriesAction({ appointment, action: "cancel" });
+    } else {
+      updateAppointmentStatusMutation.mutate({ id: appointment.id, status: 'cancelled' });
+    }
+  };
+
+  const handleDelete = (appointment: any) => {
+    if (appointment.seriesId) {
+      setSeriesAction({ appointment, action: "delete" });
+    } else {
+      deleteAppointmentMutation.mutate({ id: appointment.id });
+    }
+  };
+
+  const applySeriesAction = (scope: SeriesScope) => {
+    if (!seriesAction) return;
+    const { appointment, action } = seriesAction;
+    if (action === "cancel") {
+      updateAppointmentStatusMutation.mutate({ id: appointment.id, status: 'cancelled', scope });
+    } else {
+      deleteAppointmentMutation.mutate({ id: appointment.id, scope });
+    }
+    setSeriesAction(null);
+  };
+
   const getCustomerName = (customerId: number) => {
     const customer = customers?.find((c: any) => c.id === customerId);
     return customer?.name || "Unknown Customer";
@@ -128,6 +180,21 @@ export default function Appointments() {
     return service?.name || "Unknown Service";
   };
 
+  // Flag bookings that land outside the barber's schedule, on a break or during time off
+  const isBarberUnavailable = (appointment: any) => {
+    if (!appointment.barber || appointment.status === 'cancelled' || appointment.status === 'completed') return false;
+    const barber = barbers?.find((b) => b.name === appointment.barber);
+    if (!barber) return false;
+    return !isBarberWorkingDuring(
+      barber.schedule,
+      barberTimeOff?.filter((entry) => entry.barberId === barber.id) || [],
+      user?.businessHours,
+      new Date(appointment.startTime),
+      new Date(appointment.endTime),
+      user?.timezone,
+    );
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed':
@@ -219,10 +286,22 @@ export default function Appointments() {
                               {appointment.barber}
                             </span>
                           )}
+                          {appointment.seriesId && (
+                            <span className="text-sm text-gray-500 flex items-center">
+                              <Repeat className="h-3 w-3 mr-1" />
+                              Recurring
+                            </span>
+                          )}
                         </div>
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
+                      {isBarberUnavailable(appointment) && (
+                        <Badge variant="outline" className="border-amber-500 text-amber-700">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          {appointment.barber} is off
+                        </Badge>
+                      )}
                       <Badge className={getStatusColor(appointment.status)}>
                         {appointment.status?.charAt(0).toUpperCase() + appointment.status?.slice(1)}
                       </Badge>
@@ -262,16 +341,11 @@ export default function Appointments() {
                               Complete Service
                             </DropdownMenuItem>
                           )}
-                          <DropdownMenuItem
-                            onClick={() => updateAppointmentStatusMutation.mutate({ 
-                              id: appointment.id, 
-                              status: 'cancelled' 
-                            })}
-                          >
+                          <DropdownMenuItem onClick={() => handleCancel(appointment)}>
                             Cancel
                           </DropdownMenuItem>
                           <DropdownMenuItem
-                            onClick={() => deleteAppointmentMutation.mutate(appointment.id)}
+                            onClick={() => handleDelete(appointment)}
                             className="text-red-600"
                           >
                             <Trash2 className="h-4 w-4 mr-2" />
@@ -310,6 +384,33 @@ export default function Appointments() {
         }}
         appointmentToEdit={editingAppointment}
       />
+
+      <AlertDialog open={!!seriesAction} onOpenChange={(open) => !open && setSeriesAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {seriesAction?.action === "cancel" ? "Cancel recurring appointment" : "Delete recurring appointment"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This appointment is part of a series. Visits that are already completed or cancelled are not changed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex flex-col gap-2">
+            <Button variant="outline" onClick={() => applySeriesAction("this")}>
+              This appointment
+            </Button>
+            <Button variant="outline" onClick={() => applySeriesAction("following")}>
+              This and following appointments
+            </Button>
+            <Button variant="outline" onClick={() => applySeriesAction("series")}>
+              All appointments in the series
+            </Button>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Back</AlertDialogCancel>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
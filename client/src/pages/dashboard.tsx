@@ -1,5 +1,6 @@
 import { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
@@ -9,10 +10,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Users, Calendar, Clock, DollarSign, Plus, CreditCard, Star } from "lucide-react";
+import { netSaleCents } from "@shared/pricing";
+import type { Transaction } from "@shared/schema";
 
 export default function Dashboard() {
   const { toast } = useToast();
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { isAuthenticated, isLoading, user, can } = useAuth();
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -44,11 +47,15 @@ export default function Dashboard() {
     enabled: isAuthenticated,
   });
 
-  const { data: todaysTransactions } = useQuery({
+  const { data: todaysTransactions } = useQuery<Transaction[]>({
     queryKey: ["/api/transactions/today"],
-    enabled: isAuthenticated,
+    enabled: isAuthenticated && can("pos.use"),
   });
 
+  // Voided sales never happened; refunds come off the sale they belong to
+  const todaysSales = todaysTransactions?.filter((t) => t.status !== "voided") ?? [];
+  const todaysSalesTotal = todaysSales.reduce((sum, t) => sum + netSaleCents(t), 0) / 100;
+
   const { data: gallery } = useQuery({
     queryKey: ["/api/gallery"],
     enabled: isAuthenticated,
@@ -137,25 +144,27 @@ export default function Dashboard() {
             </CardContent>
           </Card>
 
-          <Card>
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-600">Revenue</p>
-                  <p className="text-2xl font-bold text-gray-900">
-                    {statsLoading ? "..." : `$${stats?.todayRevenue || 0}`}
-                  </p>
+          {can("analytics.view") && (
+            <Card>
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-600">Revenue</p>
+                    <p className="text-2xl font-bold text-gray-900">
+                      {statsLoading ? "..." : `$${stats?.todayRevenue || 0}`}
+                    </p>
+                  </div>
+                  <div className="bg-secondary/20 rounded-full p-3">
+                    <DollarSign className="h-5 w-5 text-secondary" />
+                  </div>
                 </div>
-                <div className="bg-secondary/20 rounded-full p-3">
-                  <DollarSign className="h-5 w-5 text-secondary" />
+                <div className="mt-4 flex items-center">
+                  <span className="text-green-600 text-sm font-medium">+22.1%</span>
+                  <span className="text-gray-500 text-sm ml-2">vs yesterday</span>
                 </div>
-              </div>
-              <div className="mt-4 flex items-center">
-                <span className="text-green-600 text-sm font-medium">+22.1%</span>
-                <span className="text-gray-500 text-sm ml-2">vs yesterday</span>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -266,37 +275,39 @@ export default function Dashboard() {
           </Card>
 
           {/* POS Summary */}
-          <Card>
-            <CardHeader>
-              <CardTitle>POS Summary</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-600">Total Sales Today</span>
-                  <span className="font-semibold text-gray-900">
-                    ${todaysTransactions?.reduce((sum: number, t: any) => sum + Number(t.total), 0) || 0}
-                  </span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-600">Transactions</span>
-                  <span className="font-semibold text-gray-900">{todaysTransactions?.length || 0}</span>
-                </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-gray-600">Average Ticket</span>
-                  <span className="font-semibold text-gray-900">
-                    ${todaysTransactions?.length ? 
-                      (todaysTransactions.reduce((sum: number, t: any) => sum + Number(t.total), 0) / todaysTransactions.length).toFixed(0) : 
-                      0}
-                  </span>
+          {can("pos.use") && (
+            <Card>
+              <CardHeader>
+                <CardTitle>POS Summary</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Total Sales Today</span>
+                    <span className="font-semibold text-gray-900">
+                      ${todaysSalesTotal.toFixed(2)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Transactions</span>
+                    <span className="font-semibold text-gray-900">{todaysSales.length}</span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Average Ticket</span>
+                    <span className="font-semibold text-gray-900">
+                      ${todaysSales.length ? (todaysSalesTotal / todaysSales.length).toFixed(0) : 0}
+                    </span>
+                  </div>
+                  <Link href="/sales">
+                    <Button className="w-full mt-4" variant="default">
+                      <CreditCard className="h-4 w-4 mr-2" />
+                      Open POS
+                    </Button>
+                  </Link>
                 </div>
-                <Button className="w-full mt-4" variant="default">
-                  <CreditCard className="h-4 w-4 mr-2" />
-                  Open POS
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Gallery Preview */}
@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useTheme } from "@/contexts/ThemeContext";
+import { useDeviceToken } from "@/hooks/useDeviceToken";
+import type { ChangeTopic, QueueBoardEntry } from "@shared/schema";
+import DevicePairingScreen from "@/components/DevicePairingScreen";
+import { Scissors, Volume2 } from "lucide-react";
+
+interface DisplayData {
+  shop: {
+    barbershopName: string | null;
+    locationName: string | null;
+    logoUrl: string | null;
+    primaryColor: string | null;
+    secondaryColor: string | null;
+  };
+  queue: QueueBoardEntry[];
+}
+
+// Two rising notes, made on the fly so there's no sound file to ship
+function playChime(audio: AudioContext) {
+  [660, 880].forEach((frequency, index) => {
+    const start = audio.currentTime + index * 0.25;
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.3, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.6);
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.6);
+  });
+}
+
+// The lobby TV: who's in the chair and who's next. Read-only, and paired
+// like the kiosk rather than signed in.
+export default function Display() {
+  const { token, saveToken, forgetToken } = useDeviceToken("display");
+
+  if (!token) {
+    return <DevicePairingScreen kind="display" onPaired={saveToken} />;
+  }
+  return <QueueBoard token={token} onUnpaired={forgetToken} />;
+}
+
+function QueueBoard({ token, onUnpaired }: { token: string; onUnpaired: () => void }) {
+  const [audio, setAudio] = useState<AudioContext | null>(null);
+  const serving = useRef<Set<number> | null>(null);
+  const { applyTheme } = useTheme();
+  const queryClient = useQueryClient();
+
+  // The stream keeps the board live; the slow refetch also notices when the
+  // device has been removed
+  const { data, error } = useQuery<DisplayData>({
+    queryKey: ["/api/display"],
+    queryFn: async () =>
+      (await apiRequest("GET", "/api/display", undefined, { Authorization: `Bearer ${token}` })).json(),
+    refetchInterval: 60000,
+  });
+
+  useEffect(() => {
+    const source = new EventSource(`/api/display/events?token=${encodeURIComponent(token)}`);
+    source.addEventListener("change", (event) => {
+      const { topic } = JSON.parse((event as MessageEvent).data) as { topic: ChangeTopic };
+      if (topic === "queue" || topic === "customers") {
+        queryClient.invalidateQueries({ queryKey: ["/api/display"] });
+      }
+    });
+    return () => source.close();
+  }, [token, queryClient]);
+
+  useEffect(() => {
+    if (error && parseApiError(error).status === 401) onUnpaired();
+  }, [error]);
+
+  useEffect(() => {
+    if (data?.shop.primaryColor && data?.shop.secondaryColor) {
+      applyTheme(data.shop.primaryColor, data.shop.secondaryColor);
+    }
+  }, [data?.shop.primaryColor, data?.shop.secondaryColor]);
+
+  useEffect(() => {
+    if (data?.shop.barbershopName) {
+      document.title = data.shop.barbershopName;
+    }
+  }, [data?.shop.barbershopName]);
+
+  // Chime when someone new is called to a chair, but not for whoever was
+  // already there when the board loaded
+  useEffect(() => {
+    if (!data) return;
+    const inChair = new Set(data.queue.filter((entry) => entry.status === "in_progress").map((entry) => entry.id));
+    const called = serving.current && Array.from(inChair).some((id) => !serving.current!.has(id));
+    serving.current = inChair;
+    if (called && audio) playChime(audio);
+  }, [data, audio]);
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const { shop, queue } = data;
+  const inChair = queue.filter((entry) => entry.status === "in_progress");
+  const waiting = queue.filter((entry) => entry.status === "waiting");
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex flex-col">
+      <header className="bg-primary px-10 py-6 flex items-center">
+        {shop.logoUrl ? (
+          <img src={shop.logoUrl} alt={shop.barbershopName || "Logo"} className="h-16 w-16 object-contain mr-6" />
+        ) : (
+          <Scissors className="h-12 w-12 mr-6" />
+        )}
+        <h1 className="text-4xl font-bold flex-1">
+          {shop.barbershopName}
+          {shop.locationName && <span className="text-2xl font-medium opacity-80 ml-4">{shop.locationName}</span>}
+        </h1>
+        {/* Browsers only play sound after someone has touched the page */}
+        {!audio && (
+          <button
+            className="flex items-center text-lg bg-white/20 rounded-full px-5 py-2"
+            onClick={() => setAudio(new AudioContext())}
+          >
+            <Volume2 className="h-5 w-5 mr-2" />
+            Turn on chime
+          </button>
+        )}
+      </header>
+
+      <main className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-10 p-10">
+        <section>
+          <h2 className="text-3xl font-semibold text-secondary mb-6">Now Serving</h2>
+          <div className="space-y-4">
+            {inChair.map((entry) => (
+              <div key={entry.id} className="rounded-2xl bg-primary px-8 py-6 flex justify-between items-center">
+                <span className="text-5xl font-bold">{entry.name}</span>
+                <span className="text-2xl opacity-90">{entry.barber ?? ""}</span>
+              </div>
+            ))}
+            {inChair.length === 0 && <p className="text-2xl text-gray-400">No one in the chair yet</p>}
+          </div>
+        </section>
+
+        <section>
+          <h2 className="text-3xl font-semibold text-secondary mb-6">Up Next</h2>
+          <div className="space-y-3">
+            {waiting.map((entry, index) => (
+              <div key={entry.id} className="rounded-xl bg-white/10 px-6 py-4 flex items-center">
+                <span className="text-3xl font-bold text-primary w-14">{index + 1}</span>
+                <div className="flex-1">
+                  <p className="text-3xl font-semibold">{entry.name}</p>
+                  <p className="text-xl text-gray-300">{entry.barber ?? "Next available"}</p>
+                </div>
+                {entry.estimatedWaitTime !== null && (
+                  <span className="text-2xl text-gray-300">~{entry.estimatedWaitTime} min</span>
+                )}
+              </div>
+            ))}
+            {waiting.length === 0 && <p className="text-2xl text-gray-400">No wait right now</p>}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
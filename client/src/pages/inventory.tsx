@@ -0,0 +1,199 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import Navigation from "@/components/Navigation";
+import AccessDenied from "@/components/AccessDenied";
+import ProductFormDialog from "@/components/ProductFormDialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import type { Product } from "@shared/schema";
+import { AlertTriangle, Package, Pencil, Plus, Trash2 } from "lucide-react";
+
+export default function Inventory() {
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { isAuthenticated, isLoading, can } = useAuth();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: products, isLoading: productsLoading } = useQuery<Product[]>({
+    queryKey: ["/api/products"],
+    enabled: isAuthenticated && can("settings.manage"),
+  });
+
+  const { data: lowStock } = useQuery<Product[]>({
+    queryKey: ["/api/products/low-stock"],
+    enabled: isAuthenticated && can("settings.manage"),
+  });
+
+  const deleteProductMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/products/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products/low-stock"] });
+      toast({ title: "Product removed" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (product: Product | null) => {
+    setEditingProduct(product);
+    setIsFormOpen(true);
+  };
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!can("settings.manage")) {
+    return <AccessDenied />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Inventory</h1>
+            <p className="text-gray-600">Retail products, stock levels and reordering</p>
+          </div>
+          <Button onClick={() => openForm(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Product
+          </Button>
+        </div>
+
+        {lowStock && lowStock.length > 0 && (
+          <Card className="mb-8 border-yellow-300">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <AlertTriangle className="h-5 w-5 mr-2 text-yellow-600" />
+                Low Stock
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y">
+                {lowStock.map((product) => (
+                  <div key={product.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <p className="font-medium text-gray-900">{product.name}</p>
+                      {product.sku && <p className="text-sm text-gray-600">SKU {product.sku}</p>}
+                    </div>
+                    <span className={product.stock > 0 ? "text-yellow-700" : "text-red-600"}>
+                      {product.stock} left (reorder at {product.reorderThreshold})
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Package className="h-5 w-5 mr-2" />
+              Products
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {productsLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-2 font-medium">Product</th>
+                      <th className="py-2 font-medium">SKU</th>
+                      <th className="py-2 font-medium">Barcode</th>
+                      <th className="py-2 font-medium text-right">Price</th>
+                      <th className="py-2 font-medium text-right">Cost</th>
+                      <th className="py-2 font-medium text-right">In Stock</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {products?.map((product) => (
+                      <tr key={product.id} className="border-b last:border-0">
+                        <td className="py-2 font-medium text-gray-900">{product.name}</td>
+                        <td className="py-2">{product.sku}</td>
+                        <td className="py-2">{product.barcode}</td>
+                        <td className="py-2 text-right">${product.price}</td>
+                        <td className="py-2 text-right">{product.cost && `$${product.cost}`}</td>
+                        <td className="py-2 text-right">
+                          {product.stock <= product.reorderThreshold ? (
+                            <Badge className="bg-yellow-100 text-yellow-800">{product.stock}</Badge>
+                          ) : (
+                            product.stock
+                          )}
+                        </td>
+                        <td className="py-2 text-right whitespace-nowrap">
+                          <Button size="sm" variant="ghost" onClick={() => openForm(product)}>
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="text-red-600"
+                            disabled={deleteProductMutation.isPending}
+                            onClick={() => deleteProductMutation.mutate(product.id)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {products?.length === 0 && (
+                  <p className="text-center text-gray-500 py-8">No products yet</p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <ProductFormDialog
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        product={editingProduct}
+      />
+    </div>
+  );
+}
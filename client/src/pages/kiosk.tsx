@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useTheme } from "@/contexts/ThemeContext";
+import { useDeviceToken } from "@/hooks/useDeviceToken";
+import type { KioskCheckIn } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import DevicePairingScreen from "@/components/DevicePairingScreen";
+import { Scissors, CheckCircle } from "lucide-react";
+
+const confirmationTimeout = 20000; // back to the form for the next customer
+
+interface KioskData {
+  shop: {
+    barbershopName: string | null;
+    locationName: string | null;
+    logoUrl: string | null;
+    primaryColor: string | null;
+    secondaryColor: string | null;
+    acceptsWalkIns: boolean;
+  };
+  services: { id: number; name: string; price: string; duration: number }[];
+  barbers: { id: number; name: string }[];
+}
+
+// The walk-in check-in tablet. It never signs in; its device token ties it to
+// one location and opens nothing but check-in.
+export default function Kiosk() {
+  const { token, saveToken, forgetToken } = useDeviceToken("kiosk");
+
+  if (!token) {
+    return <DevicePairingScreen kind="kiosk" onPaired={saveToken} />;
+  }
+  return <CheckInScreen token={token} onUnpaired={forgetToken} />;
+}
+
+function CheckInScreen({ token, onUnpaired }: { token: string; onUnpaired: () => void }) {
+  const [name, setName] = useState("");
+  const [phone, setPhone] = useState("");
+  const [serviceId, setServiceId] = useState("");
+  const [barber, setBarber] = useState("");
+  const [confirmation, setConfirmation] = useState<KioskCheckIn | null>(null);
+  const { applyTheme } = useTheme();
+  const auth = { Authorization: `Bearer ${token}` };
+
+  const { data, isLoading, error } = useQuery<KioskData>({
+    queryKey: ["/api/kiosk"],
+    queryFn: async () => (await apiRequest("GET", "/api/kiosk", undefined, auth)).json(),
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/kiosk/check-in", {
+        name,
+        phone,
+        serviceId: parseInt(serviceId),
+        barber: barber || undefined,
+      }, auth);
+      return (await res.json()) as KioskCheckIn;
+    },
+    onSuccess: (checkIn) => {
+      setConfirmation(checkIn);
+      setName("");
+      setPhone("");
+      setServiceId("");
+      setBarber("");
+    },
+    onError: (error: Error) => {
+      if (parseApiError(error).status === 401) onUnpaired();
+    },
+  });
+
+  useEffect(() => {
+    if (error && parseApiError(error).status === 401) onUnpaired();
+  }, [error]);
+
+  useEffect(() => {
+    if (data?.shop.primaryColor && data?.shop.secondaryColor) {
+      applyTheme(data.shop.primaryColor, data.shop.secondaryColor);
+    }
+  }, [data?.shop.primaryColor, data?.shop.secondaryColor]);
+
+  useEffect(() => {
+    if (!confirmation) return;
+    const timer = setTimeout(() => setConfirmation(null), confirmationTimeout);
+    return () => clearTimeout(timer);
+  }, [confirmation]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6 text-center text-gray-600">
+            Check-in isn't available right now. Please see the front desk.
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const { shop, services, barbers } = data;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-3xl mx-auto px-6 flex items-center h-20">
+          {shop.logoUrl ? (
+            <img src={shop.logoUrl} alt={shop.barbershopName || "Logo"} className="h-12 w-12 object-contain mr-4" />
+          ) : (
+            <Scissors className="h-8 w-8 text-primary mr-4" />
+          )}
+          <h1 className="text-2xl font-bold text-primary">
+            {shop.barbershopName}
+            {shop.locationName && (
+              <span className="text-lg font-medium text-secondary ml-2">{shop.locationName}</span>
+            )}
+          </h1>
+        </div>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-6">
+        {!shop.acceptsWalkIns ? (
+          <Card className="w-full max-w-xl">
+            <CardContent className="p-8 text-center text-gray-600">
+              We're not taking walk-ins right now. Please see the front desk.
+            </CardContent>
+          </Card>
+        ) : confirmation ? (
+          <Card className="w-full max-w-xl">
+            <CardContent className="p-10 text-center space-y-4">
+              <CheckCircle className="h-16 w-16 text-green-500 mx-auto" />
+              <h2 className="text-3xl font-bold text-gray-900">You're checked in, {confirmation.firstName}!</h2>
+              <div className="flex justify-center gap-12">
+                <div>
+                  <p className="text-5xl font-bold text-primary">{confirmation.position}</p>
+                  <p className="text-secondary">in line</p>
+                </div>
+                <div>
+                  <p className="text-5xl font-bold text-primary">~{confirmation.estimatedWaitTime}</p>
+                  <p className="text-secondary">minute wait</p>
+                </div>
+              </div>
+              <Button variant="outline" className="h-12 px-8" onClick={() => setConfirmation(null)}>
+                Done
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="w-full max-w-xl">
+            <CardHeader>
+              <CardTitle className="text-2xl text-primary">Check in</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <label className="text-sm font-medium text-gray-700">Name</label>
+                <Input className="h-12 text-lg" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Phone</label>
+                <Input
+                  type="tel"
+                  className="h-12 text-lg"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Service</label>
+                <Select value={serviceId} onValueChange={setServiceId}>
+                  <SelectTrigger className="h-12 text-lg">
+                    <SelectValue placeholder="Choose a service" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {services.map((service) => (
+                      <SelectItem key={service.id} value={String(service.id)}>
+                        {service.name} (${service.price})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-gray-700">Barber</label>
+                <Select value={barber || "any"} onValueChange={(value) => setBarber(value === "any" ? "" : value)}>
+                  <SelectTrigger className="h-12 text-lg">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Next available</SelectItem>
+                    {barbers.map((candidate) => (
+                      <SelectItem key={candidate.id} value={candidate.name}>
+                        {candidate.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {checkInMutation.error && (
+                <p className="text-sm text-red-600">{parseApiError(checkInMutation.error).message}</p>
+              )}
+              <Button
+                className="w-full h-14 text-lg"
+                onClick={() => checkInMutation.mutate()}
+                disabled={checkInMutation.isPending || !name.trim() || !phone.trim() || !serviceId}
+              >
+                Join the Queue
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -17,10 +17,10 @@ export default function Landing() {
             
             <div className="flex items-center space-x-4">
               <Button variant="outline" asChild>
-                <a href="/api/login">Sign In</a>
+                <a href="/login">Sign In</a>
               </Button>
               <Button asChild>
-                <a href="/api/login">Get Started</a>
+                <a href="/login">Get Started</a>
               </Button>
             </div>
           </div>
@@ -41,7 +41,7 @@ export default function Landing() {
           </p>
           <div className="flex flex-col sm:flex-row gap-4 justify-center">
             <Button size="lg" className="text-lg px-8 py-3" asChild>
-              <a href="/api/login">Start Free Trial</a>
+              <a href="/login">Start Free Trial</a>
             </Button>
             <Button size="lg" variant="outline" className="text-lg px-8 py-3">
               Watch Demo
@@ -136,7 +136,7 @@ export default function Landing() {
             Join thousands of barbershop owners who have already modernized their business with Trimify.
           </p>
           <Button size="lg" variant="secondary" className="text-lg px-8 py-3" asChild>
-            <a href="/api/login">Get Started Today</a>
+            <a href="/login">Get Started Today</a>
           </Button>
         </div>
       </section>
@@ -51,6 +51,8 @@ export default function Onboarding() {
       primaryColor: "#3b82f6",
       secondaryColor: "#1e40af",
       logoUrl: "",
+      // Hours are read on the shop's clock; the owner can change it in settings
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       businessHours: defaultBusinessHours,
       barbers: [{ name: "", email: "", phone: "", specialties: [], bio: "", experience: 0 }],
     },
@@ -0,0 +1,189 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Navigation from "@/components/Navigation";
+import AccessDenied from "@/components/AccessDenied";
+import CommissionRulesCard from "@/components/CommissionRulesCard";
+import TimesheetsCard from "@/components/TimesheetsCard";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { fromCents, toCents } from "@shared/pricing";
+import type { PayrollReport } from "@shared/schema";
+import { Download, Wallet } from "lucide-react";
+
+function dateInputValue(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// Two weeks ending today, the most common pay cycle
+function defaultPeriod() {
+  const to = new Date();
+  const from = new Date(to);
+  from.setDate(from.getDate() - 13);
+  return { from: dateInputValue(from), to: dateInputValue(to) };
+}
+
+export default function Payroll() {
+  const [period, setPeriod] = useState(defaultPeriod);
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading, can } = useAuth();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const validPeriod = period.from !== "" && period.to !== "" && period.to >= period.from;
+  const reportUrl = `/api/payroll?from=${period.from}&to=${period.to}`;
+
+  const { data: report, isLoading: reportLoading } = useQuery<PayrollReport>({
+    queryKey: [reportUrl],
+    enabled: isAuthenticated && can("payroll.manage") && validPeriod,
+  });
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!can("payroll.manage")) {
+    return <AccessDenied />;
+  }
+
+  const totalPayCents = report?.rows.reduce((sum, row) => sum + toCents(row.totalPay), 0) ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Payroll</h1>
+            <p className="text-gray-600">Hours, commission, tips and booth rent for each barber</p>
+          </div>
+          <Button
+            variant="outline"
+            disabled={!validPeriod}
+            onClick={() => window.open(`${reportUrl}&format=csv`, "_blank")}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <CardTitle className="flex items-center">
+                <Wallet className="h-5 w-5 mr-2" />
+                Pay Period
+              </CardTitle>
+              <div className="flex items-center space-x-2">
+                <Input
+                  type="date"
+                  className="w-40"
+                  value={period.from}
+                  onChange={(e) => setPeriod({ ...period, from: e.target.value })}
+                />
+                <span className="text-gray-500">to</span>
+                <Input
+                  type="date"
+                  className="w-40"
+                  value={period.to}
+                  onChange={(e) => setPeriod({ ...period, to: e.target.value })}
+                />
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!validPeriod ? (
+              <p className="text-center text-gray-500 py-8">The period must end on or after it starts</p>
+            ) : reportLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b">
+                      <th className="py-2 font-medium">Barber</th>
+                      <th className="py-2 font-medium text-right">Sales</th>
+                      <th className="py-2 font-medium text-right">Services</th>
+                      <th className="py-2 font-medium text-right">Retail</th>
+                      <th className="py-2 font-medium text-right">Tips</th>
+                      <th className="py-2 font-medium text-right">Hours</th>
+                      <th className="py-2 font-medium text-right">Hourly pay</th>
+                      <th className="py-2 font-medium text-right">Service pay</th>
+                      <th className="py-2 font-medium text-right">Retail commission</th>
+                      <th className="py-2 font-medium text-right">Tips paid</th>
+                      <th className="py-2 font-medium text-right">Booth rent</th>
+                      <th className="py-2 font-medium text-right">Total pay</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report?.rows.map((row) => (
+                      <tr
+                        key={row.barberId ?? "unassigned"}
+                        className={`border-b last:border-0 ${row.barberId === null ? "text-gray-500" : ""}`}
+                      >
+                        <td className="py-2">
+                          <span className="font-medium">{row.barber}</span>
+                          {row.payType === "booth_rent" && <span className="text-gray-500"> · booth rent</span>}
+                        </td>
+                        <td className="py-2 text-right">{row.salesCount}</td>
+                        <td className="py-2 text-right">${row.serviceSales}</td>
+                        <td className="py-2 text-right">${row.retailSales}</td>
+                        <td className="py-2 text-right">${row.tips}</td>
+                        <td className="py-2 text-right">{row.hours}</td>
+                        <td className="py-2 text-right">${row.hourlyPay}</td>
+                        <td className="py-2 text-right">${row.serviceCommission}</td>
+                        <td className="py-2 text-right">${row.retailCommission}</td>
+                        <td className="py-2 text-right">${row.tipsPaid}</td>
+                        <td className="py-2 text-right">{toCents(row.boothRent) > 0 && `-$${row.boothRent}`}</td>
+                        <td className="py-2 text-right font-semibold">${row.totalPay}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  {report && report.rows.length > 0 && (
+                    <tfoot>
+                      <tr className="border-t font-semibold">
+                        <td className="py-2" colSpan={11}>Total</td>
+                        <td className="py-2 text-right">${fromCents(totalPayCents)}</td>
+                      </tr>
+                    </tfoot>
+                  )}
+                </table>
+                {report?.rows.length === 0 && (
+                  <p className="text-center text-gray-500 py-8">No barbers yet</p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {validPeriod && <TimesheetsCard from={period.from} to={period.to} />}
+
+        <CommissionRulesCard />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,461 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { toDateInputValue } from "@/lib/utils";
+import { useTheme } from "@/contexts/ThemeContext";
+import { useToast } from "@/hooks/use-toast";
+import { publicBookingSchema, type PublicBookingData } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Scissors, MapPin, Phone, Clock, User, CheckCircle } from "lucide-react";
+import AvailabilitySlotPicker, { type AvailableSlot } from "@/components/AvailabilitySlotPicker";
+
+interface PublicSiteProps {
+  params?: { subdomain?: string };
+}
+
+interface PublicShopData {
+  shop: {
+    barbershopName: string | null;
+    locationName: string | null;
+    subdomain: string | null;
+    logoUrl: string | null;
+    primaryColor: string | null;
+    secondaryColor: string | null;
+    address: string | null;
+    phone: string | null;
+    bookingStyle: string | null;
+    businessHours: Record<string, { open: string; close: string; closed?: boolean; isOpen?: boolean }> | null;
+  };
+  services: { id: number; name: string; description: string | null; price: string; duration: number }[];
+  barbers: { id: number; name: string; bio: string | null; specialties: string[] | null; experience: number | null; profileImageUrl: string | null }[];
+}
+
+interface BookingConfirmation {
+  id: number;
+  serviceName: string;
+  barber: string | null;
+  startTime: string;
+  endTime: string;
+}
+
+const daysOfWeek = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+export default function PublicSite({ params }: PublicSiteProps) {
+  const subdomain = params?.subdomain;
+  const apiBase = subdomain ? `/api/public/shops/${subdomain}` : "/api/public/shop";
+  const [confirmation, setConfirmation] = useState<BookingConfirmation | null>(null);
+  const [selectedDate, setSelectedDate] = useState(toDateInputValue(new Date()));
+  const { applyTheme } = useTheme();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery<PublicShopData>({
+    queryKey: [apiBase],
+  });
+
+  const form = useForm<PublicBookingData>({
+    resolver: zodResolver(publicBookingSchema),
+    defaultValues: {
+      name: "",
+      phone: "",
+      email: "",
+      serviceId: 0,
+      barber: "",
+      startTime: "",
+      notes: "",
+    },
+  });
+
+  useEffect(() => {
+    if (data?.shop.primaryColor && data?.shop.secondaryColor) {
+      applyTheme(data.shop.primaryColor, data.shop.secondaryColor);
+    }
+  }, [data?.shop.primaryColor, data?.shop.secondaryColor]);
+
+  useEffect(() => {
+    if (data?.shop.barbershopName) {
+      document.title = data.shop.barbershopName;
+    }
+  }, [data?.shop.barbershopName]);
+
+  const bookingMutation = useMutation({
+    mutationFn: async (booking: PublicBookingData) => {
+      const res = await apiRequest("POST", `${apiBase}/bookings`, booking);
+      return (await res.json()) as BookingConfirmation;
+    },
+    onSuccess: (booking) => {
+      setConfirmation(booking);
+      form.reset();
+    },
+    onError: (error: Error) => {
+      if (parseApiError(error).status === 409) {
+        form.setValue("startTime", "");
+        queryClient.invalidateQueries({ queryKey: [getAvailabilityUrl()] });
+      }
+      toast({
+        title: "Booking failed",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (booking: PublicBookingData) => {
+    bookingMutation.mutate(booking);
+  };
+
+  const selectedServiceId = form.watch("serviceId");
+  const selectedBarber = form.watch("barber");
+
+  const getAvailabilityUrl = () => {
+    if (!selectedServiceId || !selectedDate) return null;
+    const query = new URLSearchParams({ serviceId: String(selectedServiceId), date: selectedDate });
+    if (selectedBarber) query.set("barber", selectedBarber);
+    return `${apiBase}/availability?${query}`;
+  };
+
+  const handleSlotSelect = (slot: AvailableSlot) => {
+    form.setValue("startTime", slot.startTime, { shouldValidate: true });
+  };
+
+  const isDayClosed = (hours?: { closed?: boolean; isOpen?: boolean }) =>
+    !hours || hours.closed === true || hours.isOpen === false;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6 text-center">
+            <Scissors className="h-10 w-10 text-gray-400 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900">Shop not found</h1>
+            <p className="mt-2 text-sm text-gray-600">
+              This booking link doesn't match any barbershop.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { shop, services, barbers } = data;
+  const acceptsBookings = shop.bookingStyle !== "walk-in";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white shadow-sm">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center h-20">
+            {shop.logoUrl ? (
+              <img src={shop.logoUrl} alt={shop.barbershopName || "Logo"} className="h-12 w-12 object-contain mr-4" />
+            ) : (
+              <Scissors className="h-8 w-8 text-primary mr-4" />
+            )}
+            <div>
+              <h1 className="text-2xl font-bold text-primary">
+                {shop.barbershopName}
+                {shop.locationName && (
+                  <span className="text-lg font-medium text-secondary ml-2">{shop.locationName}</span>
+                )}
+              </h1>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-secondary">
+                {shop.address && (
+                  <span className="flex items-center">
+                    <MapPin className="h-3 w-3 mr-1" />
+                    {shop.address}
+                  </span>
+                )}
+                {shop.phone && (
+                  <a href={`tel:${shop.phone}`} className="flex items-center">
+                    <Phone className="h-3 w-3 mr-1" />
+                    {shop.phone}
+                  </a>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-primary">Services</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {services.map((service) => (
+                <div key={service.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="font-medium text-gray-900">{service.name}</p>
+                    {service.description && <p className="text-sm text-gray-600">{service.description}</p>}
+                    <p className="text-sm text-gray-500 flex items-center mt-1">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {service.duration} min
+                    </p>
+                  </div>
+                  <span className="font-semibold text-primary">${service.price}</span>
+                </div>
+              ))}
+              {services.length === 0 && (
+                <p className="text-center text-gray-500 py-4">No services listed yet</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-primary">Our Barbers</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {barbers.map((barber) => (
+                <div key={barber.id} className="p-4 bg-gray-50 rounded-lg">
+                  <p className="font-medium text-gray-900 flex items-center">
+                    <User className="h-4 w-4 mr-2 text-secondary" />
+                    {barber.name}
+                  </p>
+                  {barber.bio && <p className="text-sm text-gray-600 mt-1">{barber.bio}</p>}
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {barber.specialties?.map((specialty) => (
+                      <Badge key={specialty} variant="secondary">{specialty}</Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-primary">Book a Visit</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {!acceptsBookings ? (
+                <p className="text-gray-600">
+                  We only take walk-ins. Come on by during business hours!
+                </p>
+              ) : confirmation ? (
+                <div className="text-center space-y-3">
+                  <CheckCircle className="h-10 w-10 text-green-600 mx-auto" />
+                  <p className="font-medium text-gray-900">You're booked!</p>
+                  <p className="text-sm text-gray-600">
+                    {confirmation.serviceName}
+                    {confirmation.barber ? ` with ${confirmation.barber}` : ""}
+                    <br />
+                    {new Date(confirmation.startTime).toLocaleString()}
+                  </p>
+                  <Button variant="outline" onClick={() => setConfirmation(null)}>
+                    Book another
+                  </Button>
+                </div>
+              ) : (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Name</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Your name" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="phone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Phone</FormLabel>
+                          <FormControl>
+                            <Input placeholder="(555) 123-4567" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="email"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Email (Optional)</FormLabel>
+                          <FormControl>
+                            <Input type="email" placeholder="you@example.com" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="serviceId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Service</FormLabel>
+                          <Select onValueChange={(value) => {
+                            field.onChange(parseInt(value));
+                            form.setValue("startTime", "");
+                          }}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select service..." />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {services.map((service) => (
+                                <SelectItem key={service.id} value={service.id.toString()}>
+                                  {service.name} (${service.price})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="barber"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Barber</FormLabel>
+                          <Select onValueChange={(value) => {
+                            field.onChange(value === "any" ? "" : value);
+                            form.setValue("startTime", "");
+                          }}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Any barber" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="any">Any barber</SelectItem>
+                              {barbers.map((barber) => (
+                                <SelectItem key={barber.id} value={barber.name}>
+                                  {barber.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormItem>
+                      <FormLabel>Date</FormLabel>
+                      <Input
+                        type="date"
+                        value={selectedDate}
+                        min={toDateInputValue(new Date())}
+                        onChange={(e) => {
+                          setSelectedDate(e.target.value);
+                          form.setValue("startTime", "");
+                        }}
+                      />
+                    </FormItem>
+
+                    <FormField
+                      control={form.control}
+                      name="startTime"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Available Times</FormLabel>
+                          <AvailabilitySlotPicker
+                            availabilityUrl={getAvailabilityUrl()}
+                            selectedStartTime={field.value}
+                            onSelect={handleSlotSelect}
+                          />
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="notes"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Notes</FormLabel>
+                          <FormControl>
+                            <Textarea placeholder="Anything we should know?" rows={2} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <Button
+                      type="submit"
+                      className="w-full bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg"
+                      disabled={bookingMutation.isPending}
+                    >
+                      Book Appointment
+                    </Button>
+                  </form>
+                </Form>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-primary">Business Hours</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {daysOfWeek.map((day) => {
+                const hours = shop.businessHours?.[day];
+                return (
+                  <div key={day} className="flex justify-between text-sm">
+                    <span className="capitalize text-gray-900">{day}</span>
+                    <span className="text-secondary">
+                      {isDayClosed(hours) ? "Closed" : `${hours!.open} - ${hours!.close}`}
+                    </span>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { resetPasswordSchema } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+const resetFormSchema = resetPasswordSchema.extend({
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ResetFormData = z.infer<typeof resetFormSchema>;
+
+export default function ResetPassword() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const form = useForm<ResetFormData>({
+    resolver: zodResolver(resetFormSchema),
+    defaultValues: { token, password: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async ({ token, password }: ResetFormData) => {
+      await apiRequest("POST", "/api/auth/reset-password", { token, password });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password updated",
+        description: "You can now sign in with your new password.",
+      });
+      setLocation("/login");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle>Choose a new password</CardTitle>
+          <CardDescription>
+            {token ? "Enter a new password for your account." : "This reset link is missing its token."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirm Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="new-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={!token || resetMutation.isPending}>
+                Update Password
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
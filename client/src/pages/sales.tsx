@@ -0,0 +1,126 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import Navigation from "@/components/Navigation";
+import AccessDenied from "@/components/AccessDenied";
+import POSModal from "@/components/POSModal";
+import TransactionDetailModal from "@/components/TransactionDetailModal";
+import TransactionStatusBadge from "@/components/TransactionStatusBadge";
+import CashDrawerPanel from "@/components/CashDrawerPanel";
+import ZReportHistory from "@/components/ZReportHistory";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { netSaleCents, fromCents } from "@shared/pricing";
+import type { Transaction } from "@shared/schema";
+import { CreditCard, Receipt } from "lucide-react";
+
+export default function Sales() {
+  const [isPOSOpen, setIsPOSOpen] = useState(false);
+  const [selectedTransactionId, setSelectedTransactionId] = useState<number | null>(null);
+  const { toast } = useToast();
+  const { isAuthenticated, isLoading, can } = useAuth();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: transactions, isLoading: transactionsLoading } = useQuery<Transaction[]>({
+    queryKey: ["/api/transactions"],
+    enabled: isAuthenticated && can("pos.use"),
+  });
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!can("pos.use")) {
+    return <AccessDenied />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Sales</h1>
+            <p className="text-gray-600">Ring up sales, handle refunds and balance the drawer</p>
+          </div>
+          <Button onClick={() => setIsPOSOpen(true)}>
+            <CreditCard className="h-4 w-4 mr-2" />
+            New Sale
+          </Button>
+        </div>
+
+        <CashDrawerPanel />
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Receipt className="h-5 w-5 mr-2" />
+              Recent Sales
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {transactionsLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+              </div>
+            ) : (
+              <div className="divide-y">
+                {transactions?.map((transaction) => (
+                  <button
+                    key={transaction.id}
+                    className="w-full flex items-center justify-between py-3 text-left hover:bg-gray-50"
+                    onClick={() => setSelectedTransactionId(transaction.id)}
+                  >
+                    <div>
+                      <p className="font-medium text-gray-900">Sale #{transaction.id}</p>
+                      <p className="text-sm text-gray-600">
+                        {transaction.createdAt && new Date(transaction.createdAt).toLocaleString()} · {transaction.paymentMethod}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <TransactionStatusBadge status={transaction.status} />
+                      <span className="font-semibold text-gray-900 w-20 text-right">
+                        ${fromCents(netSaleCents(transaction))}
+                      </span>
+                    </div>
+                  </button>
+                ))}
+                {transactions?.length === 0 && (
+                  <p className="text-center text-gray-500 py-8">No sales yet</p>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {can("analytics.view") && <ZReportHistory />}
+      </main>
+
+      <POSModal isOpen={isPOSOpen} onClose={() => setIsPOSOpen(false)} />
+      <TransactionDetailModal
+        transactionId={selectedTransactionId}
+        onClose={() => setSelectedTransactionId(null)}
+      />
+    </div>
+  );
+}
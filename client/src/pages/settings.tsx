@@ -5,10 +5,19 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
+import { useLocations } from "@/hooks/useLocations";
 import { useTheme } from "@/contexts/ThemeContext";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { getBookingUrl } from "@shared/tenant";
+import { timeZoneSchema, type User as ShopUser, type Barber } from "@shared/schema";
 import Navigation from "@/components/Navigation";
+import AccessDenied from "@/components/AccessDenied";
+import BarberScheduleEditor from "@/components/BarberScheduleEditor";
+import StaffManager from "@/components/StaffManager";
+import LocationManager from "@/components/LocationManager";
+import DeviceManager from "@/components/DeviceManager";
+import CheckoutSettings from "@/components/CheckoutSettings";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -42,7 +51,13 @@ import {
   MapPin,
   Phone,
   Mail,
-  Globe
+  Globe,
+  Copy,
+  ExternalLink,
+  Scissors,
+  Users,
+  TabletSmartphone,
+  Receipt
 } from "lucide-react";
 
 const profileSchema = z.object({
@@ -52,9 +67,14 @@ const profileSchema = z.object({
   primaryColor: z.string().min(1, "Primary color is required"),
   secondaryColor: z.string().min(1, "Secondary color is required"),
   bookingStyle: z.enum(["appointment", "walk-in", "both"]),
+  timezone: timeZoneSchema,
   logoUrl: z.string().optional(),
 });
 
+// Where the browser thinks it is, for shops that haven't picked a zone yet
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const timeZones = Intl.supportedValuesOf("timeZone");
+
 const businessHoursSchema = z.object({
   monday: z.object({ open: z.string(), close: z.string(), isOpen: z.boolean() }),
   tuesday: z.object({ open: z.string(), close: z.string(), isOpen: z.boolean() }),
@@ -74,10 +94,16 @@ export default function Settings() {
   const [secondaryColorPreview, setSecondaryColorPreview] = useState("#1e40af");
   
   const { toast } = useToast();
-  const { user, isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading, can } = useAuth();
+  const { currentLocation } = useLocations();
   const { applyTheme } = useTheme();
   const queryClient = useQueryClient();
 
+  const { data: barbers } = useQuery<Barber[]>({
+    queryKey: ["/api/barbers"],
+    enabled: isAuthenticated,
+  });
+
   const profileForm = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
     defaultValues: {
@@ -87,6 +113,7 @@ export default function Settings() {
       primaryColor: "#3b82f6",
       secondaryColor: "#1e40af",
       bookingStyle: "both",
+      timezone: browserTimeZone,
       logoUrl: "",
     },
   });
@@ -128,21 +155,27 @@ export default function Settings() {
         address: user.address || "",
         primaryColor: user.primaryColor || "#3b82f6",
         secondaryColor: user.secondaryColor || "#1e40af",
-        bookingStyle: user.bookingStyle || "both",
+        bookingStyle: (user.bookingStyle || "both") as ProfileFormData["bookingStyle"],
+        timezone: user.timezone || browserTimeZone,
         logoUrl: user.logoUrl || "",
       });
       setPrimaryColorPreview(user.primaryColor || "#3b82f6");
       setSecondaryColorPreview(user.secondaryColor || "#1e40af");
+    }
+  }, [user, profileForm]);
 
-      if (user.businessHours) {
-        businessHoursForm.reset(user.businessHours);
-      }
+  // Hours belong to whichever location is picked in the switcher
+  useEffect(() => {
+    const businessHours = currentLocation ? currentLocation.businessHours : user?.businessHours;
+    if (businessHours) {
+      businessHoursForm.reset(businessHours as BusinessHoursData);
     }
-  }, [user, profileForm, businessHoursForm]);
+  }, [user, currentLocation, businessHoursForm]);
 
   const updateProfileMutation = useMutation({
     mutationFn: async (data: ProfileFormData) => {
-      return await apiRequest("PUT", "/api/user/profile", data);
+      const res = await apiRequest("PUT", "/api/user/profile", data);
+      return (await res.json()) as ShopUser;
     },
     onSuccess: (updatedUser) => {
       toast({
@@ -150,7 +183,7 @@ export default function Settings() {
         description: "Your profile has been updated successfully.",
       });
       queryClient.setQueryData(["/api/auth/user"], updatedUser);
-      applyTheme(updatedUser.primaryColor, updatedUser.secondaryColor);
+      applyTheme(updatedUser.primaryColor || "#3b82f6", updatedUser.secondaryColor || "#1e40af");
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -174,6 +207,9 @@ export default function Settings() {
 
   const updateBusinessHoursMutation = useMutation({
     mutationFn: async (data: BusinessHoursData) => {
+      if (currentLocation) {
+        return await apiRequest("PUT", `/api/locations/${currentLocation.id}`, { businessHours: data });
+      }
       return await apiRequest("PUT", "/api/user/profile", { businessHours: data });
     },
     onSuccess: () => {
@@ -182,6 +218,7 @@ export default function Settings() {
         description: "Your business hours have been updated successfully.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -221,6 +258,19 @@ export default function Settings() {
     }
   };
 
+  const bookingUrl = user?.subdomain
+    ? getBookingUrl(user.subdomain, import.meta.env.VITE_BASE_DOMAIN, window.location.origin)
+    : null;
+
+  const copyBookingUrl = async () => {
+    if (!bookingUrl) return;
+    await navigator.clipboard.writeText(bookingUrl);
+    toast({
+      title: "Link copied",
+      description: "Share it with your clients so they can book online.",
+    });
+  };
+
   const daysOfWeek = [
     { key: 'monday', label: 'Monday' },
     { key: 'tuesday', label: 'Tuesday' },
@@ -239,6 +289,10 @@ export default function Settings() {
     );
   }
 
+  if (!can("settings.manage")) {
+    return <AccessDenied />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Navigation />
@@ -250,7 +304,7 @@ export default function Settings() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className={`grid w-full ${can("staff.manage") ? "grid-cols-9" : "grid-cols-8"}`}>
             <TabsTrigger value="profile" className="flex items-center gap-2">
               <Store className="h-4 w-4" />
               Profile
@@ -263,6 +317,28 @@ export default function Settings() {
               <Clock className="h-4 w-4" />
               Business Hours
             </TabsTrigger>
+            <TabsTrigger value="barbers" className="flex items-center gap-2">
+              <Scissors className="h-4 w-4" />
+              Barbers
+            </TabsTrigger>
+            <TabsTrigger value="locations" className="flex items-center gap-2">
+              <MapPin className="h-4 w-4" />
+              Locations
+            </TabsTrigger>
+            <TabsTrigger value="devices" className="flex items-center gap-2">
+              <TabletSmartphone className="h-4 w-4" />
+              Devices
+            </TabsTrigger>
+            <TabsTrigger value="checkout" className="flex items-center gap-2">
+              <Receipt className="h-4 w-4" />
+              Checkout
+            </TabsTrigger>
+            {can("staff.manage") && (
+              <TabsTrigger value="staff" className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Staff
+              </TabsTrigger>
+            )}
             <TabsTrigger value="notifications" className="flex items-center gap-2">
               <Bell className="h-4 w-4" />
               Notifications
@@ -270,6 +346,35 @@ export default function Settings() {
           </TabsList>
 
           <TabsContent value="profile" className="space-y-6">
+            {bookingUrl && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-primary flex items-center gap-2">
+                    <Globe className="h-5 w-5" />
+                    Your Booking Link
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-gray-600 mb-3">
+                    Clients can view your services and book online at this address.
+                  </p>
+                  <div className="flex items-center gap-3">
+                    <Input value={bookingUrl} readOnly className="flex-1" />
+                    <Button type="button" variant="outline" onClick={copyBookingUrl}>
+                      <Copy className="h-4 w-4 mr-2" />
+                      Copy
+                    </Button>
+                    <Button type="button" variant="outline" asChild>
+                      <a href={bookingUrl} target="_blank" rel="noreferrer">
+                        <ExternalLink className="h-4 w-4 mr-2" />
+                        Open
+                      </a>
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             <Card>
               <CardHeader>
                 <CardTitle className="text-primary">Business Profile</CardTitle>
@@ -349,6 +454,34 @@ export default function Settings() {
                         )}
                       />
 
+                      <FormField
+                        control={profileForm.control}
+                        name="timezone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Time Zone</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select time zone" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {timeZones.map((timeZone) => (
+                                  <SelectItem key={timeZone} value={timeZone}>
+                                    {timeZone.replace(/_/g, " ")}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              Opening hours, bookings and daily reports follow this clock
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                       <FormField
                         control={profileForm.control}
                         name="logoUrl"
@@ -523,7 +656,9 @@ export default function Settings() {
           <TabsContent value="hours" className="space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle className="text-primary">Business Hours</CardTitle>
+                <CardTitle className="text-primary">
+                  Business Hours{currentLocation ? ` - ${currentLocation.name}` : ""}
+                </CardTitle>
               </CardHeader>
               <CardContent>
                 <Form {...businessHoursForm}>
@@ -607,6 +742,59 @@ export default function Settings() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="barbers" className="space-y-6">
+            <p className="text-gray-600">
+              Set each barber's weekly hours, lunch breaks and time off. Online booking and
+              queue wait times only count barbers while they're working.
+            </p>
+            {barbers?.filter((barber) => barber.isActive).map((barber) => (
+              <BarberScheduleEditor
+                key={barber.id}
+                barber={barber}
+                businessHours={user?.businessHours}
+              />
+            ))}
+            {barbers?.filter((barber) => barber.isActive).length === 0 && (
+              <Card>
+                <CardContent className="py-8 text-center text-gray-500">
+                  No active barbers yet.
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="locations" className="space-y-6">
+            <p className="text-gray-600">
+              Run more than one shop from this account. Each location has its own address, hours,
+              barbers, services, queue and booking page; switch between them from the menu bar.
+            </p>
+            <LocationManager />
+          </TabsContent>
+
+          <TabsContent value="devices" className="space-y-6">
+            <p className="text-gray-600">
+              Put a tablet by the door so walk-ins can add themselves to the queue, and a TV in the
+              waiting area to show who's next. Pairing opens this location's check-in or queue
+              screen only; a paired device can't reach anything else.
+            </p>
+            <DeviceManager />
+          </TabsContent>
+
+          <TabsContent value="checkout" className="space-y-6">
+            <CheckoutSettings />
+          </TabsContent>
+
+          {can("staff.manage") && (
+            <TabsContent value="staff" className="space-y-6">
+              <p className="text-gray-600">
+                Invite your team to sign in to this shop. Barbers only see their own appointments,
+                front desk staff can check people in and take payments, and managers can do
+                everything except manage staff.
+              </p>
+              <StaffManager barbers={barbers?.filter((barber) => barber.isActive) || []} />
+            </TabsContent>
+          )}
+
           <TabsContent value="notifications" className="space-y-6">
             <Card>
               <CardHeader>
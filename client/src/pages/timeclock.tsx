@@ -0,0 +1,174 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, parseApiError } from "@/lib/queryClient";
+import { hoursLabel, onBreak, workedMinutes } from "@shared/timeclock";
+import type { Barber, TimeEntry, TimePunchAction } from "@shared/schema";
+import Navigation from "@/components/Navigation";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Coffee, LogIn, LogOut, Play } from "lucide-react";
+
+const punchLabels: Record<TimePunchAction, string> = {
+  clock_in: "Clocked in",
+  break_start: "Break started",
+  break_end: "Back from break",
+  clock_out: "Clocked out",
+};
+
+const formatTime = (date: Date | string) =>
+  new Date(date).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+export default function TimeClock() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user, isAuthenticated, isLoading, can } = useAuth();
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, isLoading, toast]);
+
+  const { data: barbers } = useQuery<Barber[]>({
+    queryKey: ["/api/barbers"],
+    enabled: isAuthenticated,
+  });
+
+  // Refreshed every minute so the time on the clock keeps counting
+  const { data: openEntries } = useQuery<TimeEntry[]>({
+    queryKey: ["/api/timeclock/open"],
+    enabled: isAuthenticated,
+    refetchInterval: 60000,
+  });
+
+  const punchMutation = useMutation({
+    mutationFn: async ({ barberId, action }: { barberId: number; action: TimePunchAction }) => {
+      await apiRequest("POST", "/api/timeclock/punch", { barberId, action });
+    },
+    onSuccess: (_, { barberId, action }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/timeclock/open"] });
+      const barber = barbers?.find((candidate) => candidate.id === barberId);
+      toast({ title: `${punchLabels[action]}${barber ? ` · ${barber.name}` : ""}` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: parseApiError(error).message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  // Front desk and managers punch for anyone; barbers only for themselves
+  const punchable = (barbers ?? []).filter((barber) =>
+    barber.isActive && (can("timeclock.punchAll") || barber.id === user?.barberId));
+  const punch = (barberId: number, action: TimePunchAction) => punchMutation.mutate({ barberId, action });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navigation />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-gray-900">Time Clock</h1>
+          <p className="text-gray-600">Clock in and out, and punch breaks</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {punchable.map((barber) => {
+            const entry = openEntries?.find((candidate) => candidate.barberId === barber.id);
+            const breaking = !!entry && onBreak(entry);
+            return (
+              <Card key={barber.id}>
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="font-semibold text-gray-900">{barber.name}</p>
+                      <p className="text-sm text-gray-600">
+                        {entry
+                          ? `In since ${formatTime(entry.clockIn)} · ${hoursLabel(workedMinutes(entry))} h worked`
+                          : "Off the clock"}
+                      </p>
+                    </div>
+                    {entry && (
+                      <Badge className={breaking ? "bg-yellow-100 text-yellow-800" : "bg-green-100 text-green-800"}>
+                        {breaking ? "On break" : "Working"}
+                      </Badge>
+                    )}
+                  </div>
+
+                  {!entry ? (
+                    <Button className="w-full" disabled={punchMutation.isPending} onClick={() => punch(barber.id, "clock_in")}>
+                      <LogIn className="h-4 w-4 mr-2" />
+                      Clock In
+                    </Button>
+                  ) : (
+                    <div className="flex space-x-2">
+                      {breaking ? (
+                        <Button
+                          variant="outline"
+                          className="flex-1"
+                          disabled={punchMutation.isPending}
+                          onClick={() => punch(barber.id, "break_end")}
+                        >
+                          <Play className="h-4 w-4 mr-2" />
+                          End Break
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          className="flex-1"
+                          disabled={punchMutation.isPending}
+                          onClick={() => punch(barber.id, "break_start")}
+                        >
+                          <Coffee className="h-4 w-4 mr-2" />
+                          Start Break
+                        </Button>
+                      )}
+                      <Button
+                        className="flex-1"
+                        disabled={punchMutation.isPending}
+                        onClick={() => punch(barber.id, "clock_out")}
+                      >
+                        <LogOut className="h-4 w-4 mr-2" />
+                        Clock Out
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        {barbers && punchable.length === 0 && (
+          <Card>
+            <CardContent className="p-8 text-center text-gray-500">
+              Your account isn't linked to a barber profile, so there's no time to punch
+            </CardContent>
+          </Card>
+        )}
+      </main>
+    </div>
+  );
+}
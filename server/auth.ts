@@ -0,0 +1,180 @@
+import passport from "passport";
+import session from "express-session";
+import type { Express, RequestHandler } from "express";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { hasPermission, type Permission, type StaffRole } from "@shared/permissions";
+import type { Device, DeviceKind } from "@shared/schema";
+import { hashToken, setupLocalAuth } from "./localAuth";
+import { storage } from "./storage";
+import {
+  isReplitAuthEnabled,
+  setupReplitAuth,
+  getReplitLogoutUrl,
+  refreshReplitSession,
+} from "./replitAuth";
+
+// The shop a signed-in account works in. Owners are their own shop; staff
+// accounts point at their owner through users.shopId. locationId is the
+// storefront picked in the location switcher, null for the main location.
+export interface ShopContext {
+  id: string;
+  role: StaffRole;
+  barberId: number | null;
+  locationId: number | null;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      shop?: ShopContext;
+      device?: Device;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    locationId?: number | null;
+  }
+}
+
+export function getSession() {
+  const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+  let sessionStore: session.Store;
+  if (process.env.STORAGE_DRIVER === "memory") {
+    const MemoryStore = createMemoryStore(session);
+    sessionStore = new MemoryStore({ checkPeriod: sessionTtl });
+  } else {
+    const pgStore = connectPg(session);
+    sessionStore = new pgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: false,
+      ttl: sessionTtl,
+      tableName: "sessions",
+    });
+  }
+  return session({
+    secret: process.env.SESSION_SECRET!,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      // Self-hosted development usually runs over plain http
+      secure: process.env.NODE_ENV === "production" || isReplitAuthEnabled(),
+      maxAge: sessionTtl,
+    },
+  });
+}
+
+// Every provider stores the same session shape: `provider` plus OIDC-style
+// `claims`, so routes only ever read req.user.claims.sub
+export async function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.serializeUser((user: Express.User, cb) => cb(null, user));
+  passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+  setupLocalAuth(app);
+
+  if (isReplitAuthEnabled()) {
+    await setupReplitAuth(app);
+  } else {
+    app.get("/api/login", (req, res) => {
+      res.redirect("/login");
+    });
+  }
+
+  app.get("/api/auth/providers", (req, res) => {
+    res.json({ local: true, replit: isReplitAuthEnabled() });
+  });
+
+  app.get("/api/logout", async (req, res, next) => {
+    try {
+      const user = req.user as any;
+      const redirectUrl = user?.provider !== "local" && isReplitAuthEnabled()
+        ? await getReplitLogoutUrl(req)
+        : "/";
+      req.logout((error) => {
+        if (error) return next(error);
+        res.redirect(redirectUrl);
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+}
+
+async function resolveShop(userId: string, locationId?: number | null): Promise<ShopContext | undefined> {
+  const account = await storage.getUser(userId);
+  if (!account) return undefined;
+
+  const shopId = account.shopId ?? account.id;
+  // A location that was closed (or belongs to a shop the account has left)
+  // falls back to the main location
+  const location = locationId ? await storage.getLocation(locationId, shopId) : undefined;
+  return {
+    id: shopId,
+    role: (account.role ?? "owner") as StaffRole,
+    barberId: account.barberId,
+    locationId: location?.id ?? null,
+  };
+}
+
+// Routes scope all data by req.shop.id rather than the signed-in account
+export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  const user = req.user as any;
+
+  if (!req.isAuthenticated() || !user?.claims?.sub) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  // Local sessions live as long as the session cookie
+  if (user.provider !== "local" && !(await refreshReplitSession(user))) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+
+  try {
+    req.shop = await resolveShop(user.claims.sub, req.session.locationId);
+  } catch (error) {
+    return next(error);
+  }
+  if (!req.shop) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  next();
+};
+
+// Use after isAuthenticated
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!req.shop || !hasPermission(req.shop.role, permission)) {
+      return res.status(403).json({ message: "You don't have permission to do that" });
+    }
+    next();
+  };
+}
+
+// Paired shop devices send their token as a bearer token instead of signing
+// in. Sets req.device; the device's own userId and locationId scope its data.
+// EventSource can't set headers, so event streams pass ?token= instead.
+export function requireDevice(kind: DeviceKind): RequestHandler {
+  return async (req, res, next) => {
+    const token = req.get("authorization")?.match(/^Bearer (\S+)$/)?.[1]
+      ?? (typeof req.query.token === "string" ? req.query.token : undefined);
+    try {
+      const device = token ? await storage.getDeviceByToken(hashToken(token)) : undefined;
+      if (!device || device.kind !== kind) {
+        return res.status(401).json({ message: "This device isn't paired" });
+      }
+      req.device = device;
+    } catch (error) {
+      return next(error);
+    }
+    next();
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Appointment, Queue, Service } from "@shared/schema";
+import { getBarberWorkingIntervals } from "@shared/schedule";
+import { computeAvailableSlots, estimateQueueWaitTimes, type BarberAvailability } from "./availability";
+
+const timeZone = "America/New_York";
+const businessHours = {
+  sunday: { open: "09:00", close: "11:00" },
+  tuesday: { open: "09:00", close: "17:00", closed: true },
+};
+// New York moves its clocks forward at 2am that morning, so 9am is 13:00 UTC
+const clockChangeDay = new Date("2026-03-08T15:00:00Z");
+const lastWeek = new Date("2026-03-01T12:00:00Z");
+
+function barber(name: string, schedule: unknown = null): BarberAvailability {
+  return { name, workingHours: getBarberWorkingIntervals(schedule, [], businessHours, clockChangeDay, timeZone) };
+}
+
+function appointment(barber: string | null, startTime: string, endTime: string, status = "scheduled"): Appointment {
+  return {
+    id: 1, userId: "shop", locationId: null, customerId: 1, serviceId: 1, barber, startTime: new Date(startTime),
+    endTime: new Date(endTime), status, notes: null, seriesId: null, createdAt: null, updatedAt: null,
+  };
+}
+
+function slots(options: Partial<Parameters<typeof computeAvailableSlots>[0]>) {
+  return computeAvailableSlots({
+    date: clockChangeDay, timeZone, businessHours, duration: 30, barbers: [barber("Ana")], appointments: [],
+    queue: [], services: [], now: lastWeek, slotInterval: 30, ...options,
+  }).map(({ startTime, barbers }) => `${startTime.slice(11, 16)} ${barbers.join("+")}`);
+}
+
+describe("computeAvailableSlots", () => {
+  test("offers every start from opening that finishes by closing, on the shop's clock", () => {
+    assert.deepEqual(slots({}), ["13:00 Ana", "13:30 Ana", "14:00 Ana", "14:30 Ana"]);
+    assert.deepEqual(slots({ duration: 90 }), ["13:00 Ana", "13:30 Ana"]);
+  });
+
+  test("leaves out booked barbers and breaks, but not cancelled bookings", () => {
+    const ben = barber("Ben", { sunday: { isWorking: true, start: "09:00", end: "11:00", breakStart: "10:00", breakEnd: "10:30" } });
+    const appointments = [
+      appointment("Ana", "2026-03-08T13:00:00Z", "2026-03-08T13:30:00Z"),
+      appointment("Ben", "2026-03-08T13:00:00Z", "2026-03-08T13:30:00Z", "cancelled"),
+    ];
+    assert.deepEqual(slots({ barbers: [barber("Ana"), ben], appointments }), [
+      "13:00 Ben",
+      "13:30 Ana+Ben",
+      "14:00 Ana",
+      "14:30 Ana+Ben",
+    ]);
+    assert.deepEqual(slots({ barbers: [barber("Ana"), ben], appointments, barber: "Ben" }), ["13:00 Ben", "13:30 Ben", "14:30 Ben"]);
+  });
+
+  test("bookings for any barber take one of the free chairs", () => {
+    const anyone = appointment(null, "2026-03-08T13:00:00Z", "2026-03-08T14:00:00Z");
+    const team = [barber("Ana"), barber("Ben")];
+    assert.equal(slots({ barbers: team, appointments: [anyone] })[0], "13:00 Ana+Ben");
+    assert.deepEqual(slots({ barbers: team, appointments: [anyone, anyone] }), ["14:00 Ana+Ben", "14:30 Ana+Ben"]);
+    // A shop that hasn't added its team is one chair
+    assert.deepEqual(slots({ barbers: [], appointments: [anyone] }), ["14:00 ", "14:30 "]);
+  });
+
+  test("offers nothing on closed days or before now", () => {
+    assert.deepEqual(slots({ date: new Date("2026-03-10T15:00:00Z") }), []);
+    assert.deepEqual(slots({ date: new Date("2026-03-09T15:00:00Z") }), []);
+    assert.deepEqual(slots({ now: new Date("2026-03-08T13:40:00Z") }), ["14:00 Ana", "14:30 Ana"]);
+  });
+});
+
+describe("estimateQueueWaitTimes", () => {
+  // 10am on a Monday; both barbers work until 6pm
+  const now = new Date("2026-03-09T14:00:00Z");
+  const minutes = 60000;
+  const services = [{ id: 1, duration: 30 }, { id: 2, duration: 15 }] as Service[];
+  const allDay = { start: now.getTime() - 60 * minutes, end: now.getTime() + 8 * 60 * minutes };
+  const team: BarberAvailability[] = [{ name: "Ana", workingHours: [allDay] }, { name: "Ben", workingHours: [allDay] }];
+
+  function entry(id: number, status: string, changes: Partial<Queue> = {}): Queue {
+    return {
+      id, userId: "shop", locationId: null, customerId: id, serviceId: 1, barber: null, position: id, status,
+      estimatedWaitTime: null, joinedAt: null, startedAt: null, completedAt: null, leftAt: null, updatedAt: null, ...changes,
+    };
+  }
+
+  test("seats waiting customers in order with their barber or whoever frees up first", () => {
+    const waits = estimateQueueWaitTimes([
+      entry(1, "in_progress", { barber: "Ana", startedAt: new Date(now.getTime() - 20 * minutes) }),
+      entry(2, "waiting"),
+      entry(3, "waiting", { barber: "Ana", serviceId: 2 }),
+      entry(4, "waiting"),
+      entry(5, "completed"),
+    ], team, services, now);
+    assert.deepEqual(waits, new Map([[2, 0], [3, 10], [4, 25]]));
+  });
+
+  test("a cut running over frees its chair now, not in the past", () => {
+    const waits = estimateQueueWaitTimes([
+      entry(1, "in_progress", { barber: "Ana", startedAt: new Date(now.getTime() - 45 * minutes) }),
+      entry(2, "waiting", { barber: "Ana" }),
+    ], team, services, now);
+    assert.deepEqual(waits, new Map([[2, 0]]));
+  });
+
+  test("waits for barbers who start later and skips those done for the day", () => {
+    const ben = { name: "Ben", workingHours: [{ start: now.getTime() + 60 * minutes, end: allDay.end }] };
+    const gone = { name: "Cy", workingHours: [{ start: allDay.start, end: now.getTime() - minutes }] };
+    const waits = estimateQueueWaitTimes([entry(1, "waiting", { barber: "Cy" }), entry(2, "waiting")], [ben, gone], services, now);
+    assert.deepEqual(waits, new Map([[1, 60], [2, 90]]));
+  });
+
+  test("with nobody on the schedule, the line still moves one chair at a time", () => {
+    const waits = estimateQueueWaitTimes([entry(1, "waiting"), entry(2, "waiting", { serviceId: 99 }), entry(3, "waiting")], [], services, now);
+    // Unknown services count as half an hour
+    assert.deepEqual(waits, new Map([[1, 0], [2, 30], [3, 60]]));
+  });
+});
@@ -0,0 +1,291 @@
+import type { Appointment, Queue, Service } from "@shared/schema";
+import { getDayHours, getDayRange, getBarberWorkingIntervals, type TimeInterval } from "@shared/schedule";
+import { calendarDate, type TimeZone } from "@shared/timezone";
+import { storage } from "./storage";
+
+export interface AvailableSlot {
+  startTime: string;
+  endTime: string;
+  barbers: string[];
+}
+
+export interface BarberAvailability {
+  name: string;
+  workingHours: TimeInterval[];
+}
+
+// Statuses that no longer occupy a barber's chair
+const inactiveAppointmentStatuses = ["cancelled"];
+const liveQueueStatuses = ["waiting", "in_progress"];
+
+function overlaps(a: TimeInterval, b: TimeInterval) {
+  return a.start < b.end && b.start < a.end;
+}
+
+function covers(intervals: TimeInterval[], slot: TimeInterval) {
+  return intervals.some((interval) => interval.start <= slot.start && slot.end <= interval.end);
+}
+
+// Earliest moment at or after `from` that falls inside the barber's working hours
+function nextWorkingTime(workingHours: TimeInterval[], from: number): number | null {
+  const interval = workingHours.find((candidate) => candidate.end > from);
+  return interval ? Math.max(interval.start, from) : null;
+}
+
+// When each barber can next take a customer: now, or when their next
+// working interval today starts. Barbers with no hours left aren't included.
+function barbersFreeAt(barbers: BarberAvailability[], now: number): Map<string, number> {
+  const freeAt = new Map<string, number>();
+  for (const candidate of barbers) {
+    const start = nextWorkingTime(candidate.workingHours, now);
+    if (start !== null) freeAt.set(candidate.name, start);
+  }
+  return freeAt;
+}
+
+export interface QueuePlacement {
+  item: Queue;
+  barber: string | null; // null when no barber has hours left today
+  start: number;
+  end: number;
+}
+
+// Play the live queue forward from now. Customers in the chair finish the
+// rest of their service; each waiting customer, in position order, goes to
+// their preferred barber if that barber is working today, otherwise to
+// whoever frees up first.
+export function playQueueForward(
+  queue: Queue[],
+  freeAt: Map<string, number>,
+  services: Service[],
+  now: number,
+): QueuePlacement[] {
+  const serviceDuration = (serviceId: number) =>
+    (services.find((service) => service.id === serviceId)?.duration ?? 30) * 60000;
+  // With nobody on the schedule, count a single chair so the wait still grows
+  const chairs = freeAt.size > 0 ? new Map(freeAt) : new Map([["", now]]);
+
+  const liveQueue = queue
+    .filter((item) => liveQueueStatuses.includes(item.status || ""))
+    .sort((a, b) => (a.status === b.status ? a.position - b.position : a.status === "in_progress" ? -1 : 1));
+
+  return liveQueue.map((item) => {
+    const name = item.barber && chairs.has(item.barber)
+      ? item.barber
+      : Array.from(chairs.keys()).reduce((earliest, candidate) =>
+          chairs.get(candidate)! < chairs.get(earliest)! ? candidate : earliest);
+    // Entries from before start times were kept fall back to their last update
+    const satDown = item.startedAt ?? item.updatedAt;
+    const start = item.status === "in_progress" && satDown
+      ? new Date(satDown).getTime()
+      : chairs.get(name)!;
+    const end = Math.max(start + serviceDuration(item.serviceId), now);
+    chairs.set(name, end);
+    return { item, barber: name || null, start, end };
+  });
+}
+
+export function computeAvailableSlots(options: {
+  date: Date;
+  timeZone: TimeZone;
+  businessHours: unknown;
+  duration: number;
+  barbers: BarberAvailability[];
+  barber?: string;
+  appointments: Appointment[];
+  queue: Queue[];
+  services: Service[];
+  now?: Date;
+  slotInterval?: number;
+}): AvailableSlot[] {
+  const { date, timeZone, duration, barber, appointments, queue, services } = options;
+  const now = options.now ?? new Date();
+  const slotInterval = options.slotInterval ?? 15;
+
+  const hours = getDayHours(options.businessHours, date, timeZone);
+  if (!hours) return [];
+
+  const barbers = options.barbers.filter((candidate) => candidate.workingHours.length > 0);
+  const busy = new Map<string, TimeInterval[]>(barbers.map((candidate) => [candidate.name, []]));
+  const unassigned: TimeInterval[] = [];
+  const addBusy = (name: string | null, interval: TimeInterval) => {
+    const intervals = name ? busy.get(name) : undefined;
+    if (intervals) {
+      intervals.push(interval);
+    } else {
+      unassigned.push(interval);
+    }
+  };
+
+  for (const appointment of appointments) {
+    if (inactiveAppointmentStatuses.includes(appointment.status || "")) continue;
+    addBusy(appointment.barber, {
+      start: new Date(appointment.startTime).getTime(),
+      end: new Date(appointment.endTime).getTime(),
+    });
+  }
+
+  // Walk-ins in the live queue only matter for today
+  const isToday = calendarDate(date, timeZone) === calendarDate(now, timeZone);
+  const freeAt = barbersFreeAt(barbers, now.getTime());
+  if (isToday && freeAt.size > 0) {
+    for (const placement of playQueueForward(queue, freeAt, services, now.getTime())) {
+      addBusy(placement.barber, { start: now.getTime(), end: placement.end });
+    }
+  }
+
+  const slots: AvailableSlot[] = [];
+  const lastStart = hours.close.getTime() - duration * 60000;
+  for (let start = hours.open.getTime(); start <= lastStart; start += slotInterval * 60000) {
+    if (start < now.getTime()) continue;
+
+    const slot = { start, end: start + duration * 60000 };
+    const freeBarbers = barbers
+      .filter((candidate) => covers(candidate.workingHours, slot))
+      .filter((candidate) => !busy.get(candidate.name)!.some((interval) => overlaps(interval, slot)))
+      .map((candidate) => candidate.name);
+    const unassignedLoad = unassigned.filter((interval) => overlaps(interval, slot)).length;
+    const capacity = options.barbers.length > 0 ? freeBarbers.length : 1;
+
+    if (capacity <= unassignedLoad) continue;
+    if (barber && !freeBarbers.includes(barber)) continue;
+
+    slots.push({
+      startTime: new Date(slot.start).toISOString(),
+      endTime: new Date(slot.end).toISOString(),
+      barbers: barber ? [barber] : freeBarbers,
+    });
+  }
+
+  return slots;
+}
+
+// The zone the shop's hours and calendar days are in
+export async function getShopTimeZone(userId: string): Promise<TimeZone> {
+  return (await storage.getUser(userId))?.timezone;
+}
+
+// Opening hours for one location. The main location's hours live on the
+// owner's profile.
+export async function getBusinessHours(userId: string, locationId: number | null): Promise<unknown> {
+  if (locationId) {
+    return (await storage.getLocation(locationId, userId))?.businessHours;
+  }
+  return (await storage.getUser(userId))?.businessHours;
+}
+
+// Loads what decides whether a booking can go ahead at a location. The
+// returned check gives the reason a booking is refused, or null: the shop is
+// closed that day or at that hour, the booked barber has time off over it, or
+// it falls outside their schedule or on their break.
+export async function getBookingCheck(
+  userId: string,
+  locationId: number | null,
+): Promise<(booking: { startTime: Date; endTime: Date; barber?: string | null }) => string | null> {
+  const businessHours = await getBusinessHours(userId, locationId);
+  const timeZone = await getShopTimeZone(userId);
+  const barbers = await storage.getBarbers(userId, locationId);
+  const timeOff = await storage.getBarberTimeOff(userId);
+
+  return (booking) => {
+    const booked = { start: booking.startTime.getTime(), end: booking.endTime.getTime() };
+    const hours = getDayHours(businessHours, booking.startTime, timeZone);
+    if (!hours) return "The shop is closed";
+    if (!covers([{ start: hours.open.getTime(), end: hours.close.getTime() }], booked)) return "The shop isn't open";
+
+    const barber = barbers.find((candidate) => candidate.name === booking.barber);
+    if (!barber) return null;
+    const barberTimeOff = timeOff.filter((entry) => entry.barberId === barber.id);
+    if (barberTimeOff.some((entry) => overlaps({ start: entry.startDate.getTime(), end: entry.endDate.getTime() }, booked))) {
+      return `${barber.name} is off`;
+    }
+    const workingHours = getBarberWorkingIntervals(barber.schedule, [], businessHours, booking.startTime, timeZone);
+    return covers(workingHours, booked) ? null : `${barber.name} isn't working`;
+  };
+}
+
+// Working hours for every active barber at the location on the given day
+export async function getBarberAvailability(
+  userId: string,
+  locationId: number | null,
+  businessHours: unknown,
+  date: Date,
+  timeZone: TimeZone,
+): Promise<BarberAvailability[]> {
+  const { start: dayStart, end: dayEnd } = getDayRange(date, timeZone);
+
+  const barbers = (await storage.getBarbers(userId, locationId)).filter((barber) => barber.isActive);
+  const timeOff = await storage.getBarberTimeOff(userId, dayStart, dayEnd);
+
+  return barbers.map((barber) => ({
+    name: barber.name,
+    workingHours: getBarberWorkingIntervals(
+      barber.schedule,
+      timeOff.filter((entry) => entry.barberId === barber.id),
+      businessHours,
+      dayStart,
+      timeZone,
+    ),
+  }));
+}
+
+// Load everything the availability engine needs for one location and day
+export async function getAvailableSlots(
+  userId: string,
+  options: { serviceId: number; date: Date; locationId: number | null; barber?: string; excludeAppointmentId?: number },
+): Promise<AvailableSlot[]> {
+  const service = await storage.getService(options.serviceId, userId);
+  if (!service) return [];
+  const businessHours = await getBusinessHours(userId, options.locationId);
+  const timeZone = await getShopTimeZone(userId);
+  const { start: dayStart, end: dayEnd } = getDayRange(options.date, timeZone);
+
+  const appointments = await storage.getAppointmentsInRange(userId, dayStart, dayEnd, options.locationId);
+
+  return computeAvailableSlots({
+    date: dayStart,
+    timeZone,
+    businessHours,
+    duration: service.duration,
+    barbers: await getBarberAvailability(userId, options.locationId, businessHours, dayStart, timeZone),
+    barber: options.barber,
+    appointments: appointments.filter((appointment) => appointment.id !== options.excludeAppointmentId),
+    queue: await storage.getQueue(userId, options.locationId),
+    services: await storage.getServices(userId),
+  });
+}
+
+// Minutes until each waiting customer reaches a chair, by queue id
+export function estimateQueueWaitTimes(
+  queue: Queue[],
+  barbers: BarberAvailability[],
+  services: Service[],
+  now: Date = new Date(),
+): Map<number, number> {
+  const placements = playQueueForward(queue, barbersFreeAt(barbers, now.getTime()), services, now.getTime());
+  return new Map(placements
+    .filter((placement) => placement.item.status === "waiting")
+    .map((placement) => [placement.item.id, Math.max(0, Math.ceil((placement.start - now.getTime()) / 60000))]));
+}
+
+// Re-estimate the whole queue at a location after anything in it changes,
+// and store the new waits. Returns them by queue id.
+export async function refreshQueueWaitTimes(userId: string, locationId: number | null): Promise<Map<number, number>> {
+  const now = new Date();
+  const businessHours = await getBusinessHours(userId, locationId);
+  const queue = await storage.getQueue(userId, locationId);
+  const waitTimes = estimateQueueWaitTimes(
+    queue,
+    await getBarberAvailability(userId, locationId, businessHours, now, await getShopTimeZone(userId)),
+    await storage.getServices(userId),
+    now,
+  );
+
+  const changed = queue
+    .filter((item) => waitTimes.has(item.id) && waitTimes.get(item.id) !== item.estimatedWaitTime)
+    .map((item) => ({ id: item.id, estimatedWaitTime: waitTimes.get(item.id)! }));
+  if (changed.length > 0) {
+    await storage.setQueueWaitTimes(changed, userId);
+  }
+  return waitTimes;
+}
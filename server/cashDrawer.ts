@@ -0,0 +1,83 @@
+import {
+  paymentMethods,
+  type CashDrawerMovement,
+  type CashDrawerSession,
+  type DrawerActivity,
+  type PaymentMethod,
+  type ZReport,
+} from "@shared/schema";
+import { fromCents, toCents } from "@shared/pricing";
+import { storage } from "./storage";
+
+function byMethod(): Record<PaymentMethod, number> {
+  return Object.fromEntries(paymentMethods.map((method) => [method, 0])) as Record<PaymentMethod, number>;
+}
+
+function inDollars(cents: Record<PaymentMethod, number>): Record<PaymentMethod, string> {
+  return Object.fromEntries(paymentMethods.map((method) => [method, fromCents(cents[method])])) as Record<PaymentMethod, string>;
+}
+
+// Works out what should be in the drawer from the sales and refunds since it
+// opened. Voided sales gave their money back, and card payments the
+// processor turned down never came in, so neither counts.
+export function buildZReport(
+  session: CashDrawerSession,
+  movements: CashDrawerMovement[],
+  activity: DrawerActivity,
+  closing?: { closedAt: Date; countedCash: number },
+): ZReport {
+  const sales = activity.sales.filter((sale) => sale.status !== "voided");
+  const counted = new Set(sales.map((sale) => sale.id));
+  const taken = byMethod();
+  const refunded = byMethod();
+  let pendingCents = 0;
+
+  for (const payment of activity.payments) {
+    if (!counted.has(payment.transactionId) || payment.status === "failed") continue;
+    if (payment.status === "pending") {
+      pendingCents += toCents(payment.amount);
+    } else {
+      taken[payment.method as PaymentMethod] += toCents(payment.amount);
+    }
+  }
+  for (const refund of activity.refunds) {
+    refunded[refund.paymentMethod as PaymentMethod] += toCents(refund.amount);
+  }
+
+  const sum = (values: (string | null)[]) => values.reduce((total, value) => total + toCents(value ?? 0), 0);
+  const paidInCents = sum(movements.filter((movement) => movement.type === "paid_in").map((movement) => movement.amount));
+  const paidOutCents = sum(movements.filter((movement) => movement.type === "paid_out").map((movement) => movement.amount));
+  const expectedCents = toCents(session.openingFloat) + taken.cash - refunded.cash + paidInCents - paidOutCents;
+  const countedCents = closing ? Math.round(closing.countedCash * 100) : null;
+
+  return {
+    openedAt: session.openedAt.toISOString(),
+    closedAt: closing ? closing.closedAt.toISOString() : null,
+    openingFloat: session.openingFloat,
+    salesCount: sales.length,
+    voidedCount: activity.sales.length - sales.length,
+    grossSales: fromCents(sum(sales.map((sale) => sale.total))),
+    discounts: fromCents(sum(sales.map((sale) => sale.discountTotal))),
+    tax: fromCents(sum(sales.map((sale) => sale.taxTotal))),
+    tips: fromCents(sum(sales.map((sale) => sale.tip))),
+    taken: inDollars(taken),
+    pending: fromCents(pendingCents),
+    refunded: inDollars(refunded),
+    paidIn: fromCents(paidInCents),
+    paidOut: fromCents(paidOutCents),
+    expectedCash: fromCents(expectedCents),
+    countedCash: countedCents === null ? null : fromCents(countedCents),
+    overShort: countedCents === null ? null : fromCents(countedCents - expectedCents),
+  };
+}
+
+// The session's movements and its report as of now, or as of closing time
+export async function reportForSession(
+  session: CashDrawerSession,
+  closing?: { closedAt: Date; countedCash: number },
+): Promise<{ movements: CashDrawerMovement[]; report: ZReport }> {
+  const movements = await storage.getCashDrawerMovements(session.id);
+  const until = closing?.closedAt ?? new Date();
+  const activity = await storage.getDrawerActivity(session.userId, session.locationId, session.openedAt, until);
+  return { movements, report: buildZReport(session, movements, activity, closing) };
+}
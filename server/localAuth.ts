@@ -0,0 +1,163 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  loginSchema,
+  registerSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getMailer } from "./mailer";
+
+const scryptAsync = promisify(scrypt);
+const resetTokenTtl = 60 * 60 * 1000; // 1 hour
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Reset and invite tokens are only stored hashed
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function toSessionUser(user: User) {
+  return {
+    provider: "local",
+    claims: {
+      sub: user.id,
+      email: user.email,
+      first_name: user.firstName,
+      last_name: user.lastName,
+    },
+  };
+}
+
+export function setupLocalAuth(app: Express) {
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email);
+        const passwordHash = user && await storage.getPasswordHash(user.id);
+        if (!user || !passwordHash || !(await verifyPassword(password, passwordHash))) {
+          return done(null, false);
+        }
+        done(null, toSessionUser(user));
+      } catch (error) {
+        done(error);
+      }
+    }),
+  );
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      const { email, password, firstName, lastName } = registerSchema.parse(req.body);
+      if (await storage.getUserByEmail(email)) {
+        return res.status(409).json({ message: "An account with this email already exists" });
+      }
+
+      const user = await storage.upsertUser({ id: randomUUID(), email, firstName, lastName });
+      await storage.setPasswordHash(user.id, await hashPassword(password));
+
+      req.login(toSessionUser(user), (error) => {
+        if (error) return next(error);
+        res.status(201).json(user);
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error registering user:", error);
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).message });
+    }
+
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid email or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json({ message: "Logged in" });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.json({ message: "Logged out" });
+    });
+  });
+
+  // Always answers the same way so the endpoint can't be used to probe for accounts
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+      const user = await storage.getUserByEmail(email);
+      if (user) {
+        const token = randomBytes(32).toString("hex");
+        await storage.createPasswordResetToken(user.id, hashToken(token), new Date(Date.now() + resetTokenTtl));
+
+        const origin = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+        const resetUrl = `${origin}/reset-password?token=${token}`;
+        // A mail failure can't change the answer, or it would give the account away
+        await getMailer().send({
+          to: user.email ?? email,
+          subject: "Reset your password",
+          text: `Someone asked to reset the password for this account. If it was you, choose a new password here within the hour:\n\n${resetUrl}\n\nIf it wasn't, you can ignore this email.`,
+        }).catch((error) => console.error("Error sending password reset email:", error));
+      }
+      res.json({ message: "If an account exists for that email, a reset link has been sent" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      const userId = await storage.consumePasswordResetToken(hashToken(token));
+      if (!userId) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      await storage.setPasswordHash(userId, await hashPassword(password));
+      res.json({ message: "Password updated" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+}
@@ -0,0 +1,104 @@
+// Outgoing email. MAIL_TRANSPORT picks how mail leaves the server; a new
+// transport only needs to implement Mailer and be added to `transports`.
+
+export interface MailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// The transport refused the message or couldn't be reached
+export class MailerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MailerError";
+  }
+}
+
+// Writes mail to the server log instead of sending it. Outside production
+// that's how reset and invite links are picked up while developing; in
+// production only the fact that something wasn't sent is logged, since the
+// body can hold a live token.
+export class ConsoleMailer implements Mailer {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    if (process.env.NODE_ENV === "production") {
+      console.warn(`No mail transport configured; "${message.subject}" to ${message.to} was not sent`);
+      return;
+    }
+    const attached = (message.attachments ?? []).map((attachment) => attachment.filename);
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}` +
+      (attached.length > 0 ? `\n[attached: ${attached.join(", ")}]` : ""));
+  }
+}
+
+// Sends through Postmark's HTTP API
+export class PostmarkMailer implements Mailer {
+  readonly name = "postmark";
+
+  constructor(private serverToken: string, private from: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch("https://api.postmarkapp.com/email", {
+      method: "POST",
+      headers: {
+        "Accept": "application/json",
+        "Content-Type": "application/json",
+        "X-Postmark-Server-Token": this.serverToken,
+      },
+      body: JSON.stringify({
+        From: this.from,
+        To: message.to,
+        Subject: message.subject,
+        TextBody: message.text,
+        HtmlBody: message.html,
+        Attachments: message.attachments?.map((attachment) => ({
+          Name: attachment.filename,
+          Content: attachment.content.toString("base64"),
+          ContentType: attachment.contentType,
+        })),
+      }),
+    });
+    if (!response.ok) {
+      throw new MailerError(`Postmark answered ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+const transports: Record<string, () => Mailer> = {
+  console: () => new ConsoleMailer(),
+  postmark: () => {
+    if (!process.env.POSTMARK_SERVER_TOKEN || !process.env.MAIL_FROM) {
+      throw new MailerError("POSTMARK_SERVER_TOKEN and MAIL_FROM are required to send mail through Postmark");
+    }
+    return new PostmarkMailer(process.env.POSTMARK_SERVER_TOKEN, process.env.MAIL_FROM);
+  },
+};
+
+let mailer: Mailer | undefined;
+
+export function getMailer(): Mailer {
+  if (!mailer) {
+    const transport = process.env.MAIL_TRANSPORT || "console";
+    const create = transports[transport];
+    if (!create) {
+      throw new MailerError(`Unknown mail transport: ${transport}`);
+    }
+    mailer = create();
+  }
+  return mailer;
+}
@@ -0,0 +1,1216 @@
+import {
+  users,
+  customers,
+  services,
+  products,
+  appointments,
+  appointmentSeries,
+  queue,
+  reviews,
+  gallery,
+  transactions,
+  transactionItems,
+  transactionPayments,
+  refunds,
+  refundItems,
+  cashDrawerSessions,
+  cashDrawerMovements,
+  barbers,
+  barberTimeOff,
+  commissionRules,
+  timeEntries,
+  timeEntryEdits,
+  passwordResetTokens,
+  staffInvites,
+  locations,
+  devices,
+  type User,
+  type UpsertUser,
+  type Customer,
+  type InsertCustomer,
+  type Service,
+  type InsertService,
+  type Product,
+  type InsertProduct,
+  type Appointment,
+  type InsertAppointment,
+  type AppointmentSeries,
+  type InsertAppointmentSeries,
+  type SeriesScope,
+  type Queue,
+  type InsertQueue,
+  type Review,
+  type InsertReview,
+  type Gallery,
+  type InsertGallery,
+  type Transaction,
+  type InsertTransaction,
+  type TransactionItem,
+  type InsertTransactionItem,
+  type TransactionPayment,
+  type InsertTransactionPayment,
+  type TransactionWithItems,
+  type Refund,
+  type RefundItem,
+  type RefundData,
+  type CashDrawerSession,
+  type CashDrawerMovement,
+  type CashDrawerMovementData,
+  type DrawerActivity,
+  type ZReport,
+  type Barber,
+  type InsertBarber,
+  type BarberTimeOff,
+  type InsertBarberTimeOff,
+  type CommissionRule,
+  type CommissionRuleData,
+  type TimeEntry,
+  type TimeEntryEdit,
+  type TimeEntryEditData,
+  type TimeEntryWithEdits,
+  type TimePunchAction,
+  type OnboardingData,
+  type PasswordResetToken,
+  type StaffInvite,
+  type InsertStaffInvite,
+  type UpdateStaffMemberData,
+  type Location,
+  type Device,
+  type DeviceKind,
+  type QueueStatus,
+  type InsertDevice,
+  type InsertLocation,
+} from "@shared/schema";
+import { randomUUID } from "crypto";
+import { getTableColumns, getTableName, is, SQL } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { AppointmentConflictError, OutOfStockError, type IStorage } from "./storage";
+import { assertVoidable, planRefund, refundsThroughProcessor, saleAfterRefunds, saleStatusAfterPayments } from "./refunds";
+import { applyPunch, entryTimes, planTimeEntryEdit } from "./timeclock";
+import { queueStatusTimes } from "./queueMetrics";
+import { moveSeries } from "./recurrence";
+import { getDayRange } from "@shared/schedule";
+import type { TimeZone } from "@shared/timezone";
+import { fromCents, netSaleCents, toCents } from "@shared/pricing";
+
+type Row = Record<string, unknown>;
+
+// Build a row the way Postgres would on insert: column defaults filled in
+// (defaultNow() is the only SQL default in the schema), decimals rendered
+// with their scale and everything else missing stored as null
+function toRow<T>(table: PgTable, values: Row): T {
+  const row: Row = {};
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    let value = values[key];
+    if (value === undefined) {
+      value = column.default === undefined ? null
+        : is(column.default, SQL) ? new Date()
+        : structuredClone(column.default);
+    }
+    row[key] = normalizeValue(column, value);
+  }
+  return row as T;
+}
+
+// Apply an update like drizzle's .set(): undefined keys are left untouched
+function applyChanges<T extends object>(table: PgTable, row: T, changes: Row): T {
+  const columns = getTableColumns(table) as Record<string, unknown>;
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === undefined || !(key in columns)) continue;
+    (row as Row)[key] = normalizeValue(columns[key], value);
+  }
+  return row;
+}
+
+function normalizeValue(column: unknown, value: unknown) {
+  const { columnType, scale } = column as { columnType?: string; scale?: number };
+  if (columnType === "PgNumeric" && value !== null && scale !== undefined) {
+    return Number(value).toFixed(scale);
+  }
+  return value;
+}
+
+const byAsc = <T>(key: keyof T) => (a: T, b: T) => compare(a[key], b[key]);
+const byDesc = <T>(key: keyof T) => (a: T, b: T) => compare(b[key], a[key]);
+
+function compare(a: unknown, b: unknown): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a ?? "").localeCompare(String(b ?? ""));
+}
+
+// Callers get copies, as they would from a database round trip
+const copy = <T>(row: T): T => ({ ...row });
+
+// Same location filter as DatabaseStorage: undefined matches every location
+const atLocation = (locationId?: number | null) => (row: { locationId: number | null }) =>
+  locationId === undefined || row.locationId === locationId;
+
+export class MemStorage implements IStorage {
+  private users = new Map<string, User>();
+  private customers: Customer[] = [];
+  private services: Service[] = [];
+  private products: Product[] = [];
+  private appointmentSeries: AppointmentSeries[] = [];
+  private appointments: Appointment[] = [];
+  private queue: Queue[] = [];
+  private reviews: Review[] = [];
+  private gallery: Gallery[] = [];
+  private transactions: Transaction[] = [];
+  private transactionItems: TransactionItem[] = [];
+  private transactionPayments: TransactionPayment[] = [];
+  private refunds: Refund[] = [];
+  private refundItems: RefundItem[] = [];
+  private cashDrawerSessions: CashDrawerSession[] = [];
+  private cashDrawerMovements: CashDrawerMovement[] = [];
+  private barbers: Barber[] = [];
+  private barberTimeOff: BarberTimeOff[] = [];
+  private commissionRules: CommissionRule[] = [];
+  private timeEntries: TimeEntry[] = [];
+  private timeEntryEdits: TimeEntryEdit[] = [];
+  private passwordHashes = new Map<string, string>();
+  private passwordResetTokens: PasswordResetToken[] = [];
+  private staffInvites: StaffInvite[] = [];
+  private locations: Location[] = [];
+  private devices: Device[] = [];
+  private sequences = new Map<string, number>();
+
+  private insert<T>(table: PgTable, rows: T[], values: Row): T {
+    const name = getTableName(table);
+    const id = (this.sequences.get(name) ?? 0) + 1;
+    this.sequences.set(name, id);
+    const row = toRow<T>(table, { ...values, id });
+    rows.push(row);
+    return copy(row);
+  }
+
+  // Appointment writes that touch several rows either all apply or none do
+  private atomically<T>(work: () => T): T {
+    const snapshot = {
+      appointments: this.appointments.map(copy),
+      appointmentSeries: this.appointmentSeries.map(copy),
+    };
+    try {
+      return work();
+    } catch (error) {
+      this.appointments = snapshot.appointments;
+      this.appointmentSeries = snapshot.appointmentSeries;
+      throw error;
+    }
+  }
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && copy(user);
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const existing = this.users.get(userData.id);
+    if (existing) {
+      return copy(applyChanges(users, existing, { ...userData, updatedAt: new Date() }));
+    }
+    const user = toRow<User>(users, userData);
+    this.users.set(user.id, user);
+    return copy(user);
+  }
+
+  async getUserBySubdomain(subdomain: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find((candidate) => candidate.subdomain === subdomain);
+    return user && copy(user);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values())
+      .find((candidate) => candidate.email?.toLowerCase() === email.toLowerCase());
+    return user && copy(user);
+  }
+
+  // Local credential operations
+  async getPasswordHash(userId: string): Promise<string | undefined> {
+    return this.passwordHashes.get(userId);
+  }
+
+  async setPasswordHash(userId: string, passwordHash: string): Promise<void> {
+    this.passwordHashes.set(userId, passwordHash);
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    this.insert(passwordResetTokens, this.passwordResetTokens, { userId, tokenHash, expiresAt });
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<string | undefined> {
+    const token = this.passwordResetTokens.find((candidate) =>
+      candidate.tokenHash === tokenHash && !candidate.usedAt && candidate.expiresAt > new Date());
+    if (!token) return undefined;
+    token.usedAt = new Date();
+    return token.userId;
+  }
+
+  // Staff operations
+  async getStaffMembers(shopId: string): Promise<User[]> {
+    return Array.from(this.users.values())
+      .filter((user) => user.shopId === shopId)
+      .sort(byAsc("createdAt"))
+      .map(copy);
+  }
+
+  async updateStaffMember(id: string, data: UpdateStaffMemberData, shopId: string): Promise<User | undefined> {
+    const member = this.users.get(id);
+    if (!member || member.shopId !== shopId) return undefined;
+    return copy(applyChanges(users, member, { role: data.role, barberId: data.barberId ?? null, updatedAt: new Date() }));
+  }
+
+  async removeStaffMember(id: string, shopId: string): Promise<boolean> {
+    const member = this.users.get(id);
+    if (!member || member.shopId !== shopId) return false;
+    applyChanges(users, member, { shopId: null, role: null, barberId: null, updatedAt: new Date() });
+    return true;
+  }
+
+  async getStaffInvites(shopId: string): Promise<StaffInvite[]> {
+    return this.staffInvites
+      .filter((invite) => invite.userId === shopId && !invite.acceptedAt)
+      .sort(byDesc("createdAt"))
+      .map(copy);
+  }
+
+  async getStaffInviteByToken(tokenHash: string): Promise<StaffInvite | undefined> {
+    const invite = this.staffInvites.find((candidate) =>
+      candidate.tokenHash === tokenHash && !candidate.acceptedAt && candidate.expiresAt > new Date());
+    return invite && copy(invite);
+  }
+
+  async createStaffInvite(invite: InsertStaffInvite, shopId: string): Promise<StaffInvite> {
+    return this.insert(staffInvites, this.staffInvites, { ...invite, userId: shopId });
+  }
+
+  async deleteStaffInvite(id: number, shopId: string): Promise<boolean> {
+    const before = this.staffInvites.length;
+    this.staffInvites = this.staffInvites.filter((invite) => !(invite.id === id && invite.userId === shopId));
+    return this.staffInvites.length < before;
+  }
+
+  async acceptStaffInvite(inviteId: number, userId: string): Promise<User | undefined> {
+    const invite = this.staffInvites.find((candidate) => candidate.id === inviteId && !candidate.acceptedAt);
+    if (!invite) return undefined;
+    invite.acceptedAt = new Date();
+    const member = this.users.get(userId)!;
+    applyChanges(users, member, { shopId: invite.userId, role: invite.role, barberId: invite.barberId, updatedAt: new Date() });
+    return copy(member);
+  }
+
+  // Location operations
+  async getLocations(userId: string): Promise<Location[]> {
+    return this.locations
+      .filter((location) => location.userId === userId && location.isActive === true)
+      .sort(byAsc("name"))
+      .map(copy);
+  }
+
+  async getLocation(id: number, userId: string): Promise<Location | undefined> {
+    const location = this.locations.find((candidate) =>
+      candidate.id === id && candidate.userId === userId && candidate.isActive === true);
+    return location && copy(location);
+  }
+
+  async getLocationBySubdomain(subdomain: string): Promise<Location | undefined> {
+    const location = this.locations.find((candidate) => candidate.subdomain === subdomain && candidate.isActive === true);
+    return location && copy(location);
+  }
+
+  async createLocation(location: InsertLocation, userId: string): Promise<Location> {
+    const subdomain = await this.generateSubdomain(location.name);
+    return this.insert(locations, this.locations, { ...location, subdomain, userId });
+  }
+
+  async updateLocation(id: number, location: Partial<InsertLocation>, userId: string): Promise<Location | undefined> {
+    const existing = this.locations.find((candidate) =>
+      candidate.id === id && candidate.userId === userId && candidate.isActive === true);
+    return existing && copy(applyChanges(locations, existing, { ...location, updatedAt: new Date() }));
+  }
+
+  async deleteLocation(id: number, userId: string): Promise<boolean> {
+    const existing = this.locations.find((candidate) =>
+      candidate.id === id && candidate.userId === userId && candidate.isActive === true);
+    if (!existing) return false;
+    applyChanges(locations, existing, { isActive: false, subdomain: null, updatedAt: new Date() });
+    this.devices = this.devices.filter((device) => !(device.locationId === id && device.userId === userId));
+    return true;
+  }
+
+  // Device operations
+  async getDevices(userId: string, locationId?: number | null): Promise<Device[]> {
+    return this.devices
+      .filter((device) => device.userId === userId)
+      .filter(atLocation(locationId))
+      .sort(byAsc("createdAt"))
+      .map(copy);
+  }
+
+  async createDevice(device: InsertDevice, userId: string, locationId: number | null = null): Promise<Device> {
+    return this.insert<Device>(devices, this.devices, { ...device, userId, locationId });
+  }
+
+  async pairDevice(kind: DeviceKind, pairingCodeHash: string, tokenHash: string): Promise<Device | undefined> {
+    const device = this.devices.find((candidate) =>
+      candidate.kind === kind && candidate.pairingCodeHash === pairingCodeHash && !!candidate.pairingExpiresAt && candidate.pairingExpiresAt > new Date());
+    if (!device) return undefined;
+    return copy(applyChanges(devices, device, { tokenHash, pairedAt: new Date(), pairingCodeHash: null, pairingExpiresAt: null }));
+  }
+
+  async getDeviceByToken(tokenHash: string): Promise<Device | undefined> {
+    const device = this.devices.find((candidate) => candidate.tokenHash === tokenHash);
+    return device && copy(device);
+  }
+
+  async deleteDevice(id: number, userId: string): Promise<boolean> {
+    const before = this.devices.length;
+    this.devices = this.devices.filter((device) => !(device.id === id && device.userId === userId));
+    return this.devices.length < before;
+  }
+
+  // Customer operations
+  async getCustomers(userId: string): Promise<Customer[]> {
+    return this.customers
+      .filter((customer) => customer.userId === userId)
+      .sort(byDesc("createdAt"))
+      .map(copy);
+  }
+
+  async getCustomer(id: number, userId: string): Promise<Customer | undefined> {
+    const customer = this.customers.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return customer && copy(customer);
+  }
+
+  async findCustomerByContact(userId: string, phone?: string, email?: string): Promise<Customer | undefined> {
+    if (!phone && !email) return undefined;
+    const customer = this.customers
+      .filter((candidate) => candidate.userId === userId)
+      .filter((candidate) => (phone && candidate.phone === phone) || (email && candidate.email === email))
+      .sort(byAsc("createdAt"))[0];
+    return customer && copy(customer);
+  }
+
+  async createCustomer(customer: InsertCustomer, userId: string): Promise<Customer> {
+    return this.insert(customers, this.customers, { ...customer, userId });
+  }
+
+  async updateCustomer(id: number, customer: Partial<InsertCustomer>, userId: string): Promise<Customer | undefined> {
+    const existing = this.customers.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return existing && copy(applyChanges(customers, existing, { ...customer, updatedAt: new Date() }));
+  }
+
+  async deleteCustomer(id: number, userId: string): Promise<boolean> {
+    const before = this.customers.length;
+    this.customers = this.customers.filter((customer) => !(customer.id === id && customer.userId === userId));
+    return this.customers.length < before;
+  }
+
+  // Service operations
+  async getServices(userId: string, locationId?: number | null): Promise<Service[]> {
+    return this.services
+      .filter((service) => service.userId === userId && service.isActive === true)
+      .filter(atLocation(locationId))
+      .sort(byAsc("name"))
+      .map(copy);
+  }
+
+  async getService(id: number, userId: string): Promise<Service | undefined> {
+    const service = this.services.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return service && copy(service);
+  }
+
+  async createService(service: InsertService, userId: string, locationId: number | null = null): Promise<Service> {
+    return this.insert(services, this.services, { ...service, userId, locationId });
+  }
+
+  async updateService(id: number, service: Partial<InsertService>, userId: string): Promise<Service | undefined> {
+    const existing = this.services.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return existing && copy(applyChanges(services, existing, service));
+  }
+
+  async deleteService(id: number, userId: string): Promise<boolean> {
+    const existing = this.services.find((candidate) => candidate.id === id && candidate.userId === userId);
+    if (existing) existing.isActive = false;
+    return !!existing;
+  }
+
+  // Product operations
+  async getProducts(userId: string, locationId?: number | null): Promise<Product[]> {
+    return this.products
+      .filter((product) => product.userId === userId && product.isActive === true)
+      .filter(atLocation(locationId))
+      .sort(byAsc("name"))
+      .map(copy);
+  }
+
+  async getLowStockProducts(userId: string, locationId?: number | null): Promise<Product[]> {
+    return (await this.getProducts(userId, locationId))
+      .filter((product) => product.stock <= product.reorderThreshold)
+      .sort((a, b) => a.stock - b.stock || a.name.localeCompare(b.name));
+  }
+
+  async getProduct(id: number, userId: string): Promise<Product | undefined> {
+    const product = this.products.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return product && copy(product);
+  }
+
+  async createProduct(product: InsertProduct, userId: string, locationId: number | null = null): Promise<Product> {
+    return this.insert(products, this.products, { ...product, userId, locationId });
+  }
+
+  async updateProduct(id: number, product: Partial<InsertProduct>, userId: string): Promise<Product | undefined> {
+    const existing = this.products.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return existing && copy(applyChanges(products, existing, product));
+  }
+
+  async deleteProduct(id: number, userId: string): Promise<boolean> {
+    const existing = this.products.find((candidate) => candidate.id === id && candidate.userId === userId);
+    if (existing) existing.isActive = false;
+    return !!existing;
+  }
+
+  private restock(productId: number | null, quantity: number) {
+    const product = this.products.find((candidate) => candidate.id === productId);
+    if (product) product.stock += quantity;
+  }
+
+  // Appointment operations
+  async getAppointments(userId: string, locationId?: number | null): Promise<Appointment[]> {
+    return this.appointments
+      .filter((appointment) => appointment.userId === userId)
+      .filter(atLocation(locationId))
+      .sort(byDesc("startTime"))
+      .map(copy);
+  }
+
+  async getTodaysAppointments(userId: string, locationId: number | null, timeZone: TimeZone): Promise<Appointment[]> {
+    const { start: today, end: tomorrow } = getDayRange(new Date(), timeZone);
+
+    return await this.getAppointmentsInRange(userId, today, tomorrow, locationId);
+  }
+
+  async getAppointmentsInRange(userId: string, start: Date, end: Date, locationId?: number | null): Promise<Appointment[]> {
+    return this.appointments
+      .filter((appointment) => appointment.userId === userId && appointment.startTime >= start && appointment.startTime < end)
+      .filter(atLocation(locationId))
+      .sort(byAsc("startTime"))
+      .map(copy);
+  }
+
+  async getAppointment(id: number, userId: string): Promise<Appointment | undefined> {
+    const appointment = this.appointments.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return appointment && copy(appointment);
+  }
+
+  async createAppointment(appointment: InsertAppointment, userId: string, locationId: number | null = null): Promise<Appointment> {
+    this.assertNoAppointmentConflict({ ...appointment, userId, locationId });
+    return this.insert(appointments, this.appointments, { ...appointment, userId, locationId });
+  }
+
+  async updateAppointment(id: number, appointment: Partial<InsertAppointment>, userId: string): Promise<Appointment | undefined> {
+    const existing = this.appointments.find((candidate) => candidate.id === id && candidate.userId === userId);
+    if (!existing) return undefined;
+
+    this.assertNoAppointmentConflict({ ...existing, ...appointment, excludeIds: [id] });
+    return copy(applyChanges(appointments, existing, { ...appointment, updatedAt: new Date() }));
+  }
+
+  // Same rule as DatabaseStorage: no two live appointments for one barber may overlap
+  private assertNoAppointmentConflict(
+    appointment: {
+      excludeIds?: number[];
+      userId: string;
+      locationId: number | null;
+      barber?: string | null;
+      status?: string | null;
+      startTime: Date;
+      endTime: Date;
+    },
+  ): void {
+    if (!appointment.barber || appointment.status === "cancelled") return;
+
+    const conflict = this.appointments.find((candidate) =>
+      candidate.userId === appointment.userId &&
+      candidate.locationId === appointment.locationId &&
+      candidate.barber === appointment.barber &&
+      candidate.status !== null && candidate.status !== "cancelled" &&
+      candidate.startTime < appointment.endTime &&
+      candidate.endTime > appointment.startTime &&
+      !appointment.excludeIds?.includes(candidate.id));
+
+    if (conflict) {
+      throw new AppointmentConflictError(copy(conflict));
+    }
+  }
+
+  async deleteAppointment(id: number, userId: string): Promise<boolean> {
+    const before = this.appointments.length;
+    this.appointments = this.appointments.filter((appointment) => !(appointment.id === id && appointment.userId === userId));
+    return this.appointments.length < before;
+  }
+
+  async createAppointmentSeries(
+    series: InsertAppointmentSeries,
+    occurrences: InsertAppointment[],
+    userId: string,
+    locationId: number | null = null,
+  ): Promise<{ series: AppointmentSeries; appointments: Appointment[] }> {
+    return this.atomically(() => {
+      const newSeries = this.insert(appointmentSeries, this.appointmentSeries, { ...series, userId });
+      const created = occurrences.map((occurrence) => {
+        this.assertNoAppointmentConflict({ ...occurrence, userId, locationId });
+        return this.insert<Appointment>(appointments, this.appointments, { ...occurrence, userId, locationId, seriesId: newSeries.id });
+      });
+      return { series: newSeries, appointments: created };
+    });
+  }
+
+  private getSeriesScope(anchor: Appointment, scope: SeriesScope): Appointment[] {
+    if (scope === "this" || !anchor.seriesId) return [anchor];
+
+    const members = this.appointments
+      .filter((appointment) =>
+        appointment.seriesId === anchor.seriesId &&
+        appointment.status === "scheduled" &&
+        (scope !== "following" || appointment.startTime >= anchor.startTime))
+      .sort(byAsc("startTime"));
+    return members.includes(anchor) ? members : [anchor, ...members];
+  }
+
+  async getAppointmentsInSeries(id: number, scope: SeriesScope, userId: string): Promise<Appointment[]> {
+    const anchor = this.appointments.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return anchor ? this.getSeriesScope(anchor, scope).map(copy) : [];
+  }
+
+  async updateAppointmentInSeries(
+    id: number,
+    appointment: Partial<InsertAppointment>,
+    scope: SeriesScope,
+    userId: string,
+  ): Promise<Appointment[] | undefined> {
+    const anchor = this.appointments.find((candidate) => candidate.id === id && candidate.userId === userId);
+    if (!anchor) return undefined;
+
+    return this.atomically(() => {
+      const members = this.getSeriesScope(anchor, scope);
+      const { startTime, endTime, ...fields } = appointment;
+      const times = moveSeries(anchor, members, { startTime, endTime });
+      const memberIds = members.map((member) => member.id);
+
+      return members.map((member, index) => {
+        const changes = { ...fields, ...times[index] };
+        this.assertNoAppointmentConflict({ ...member, ...changes, excludeIds: memberIds });
+        return copy(applyChanges(appointments, member, { ...changes, updatedAt: new Date() }));
+      });
+    });
+  }
+
+  async deleteAppointmentInSeries(id: number, scope: SeriesScope, userId: string): Promise<boolean> {
+    const anchor = this.appointments.find((candidate) => candidate.id === id && candidate.userId === userId);
+    if (!anchor) return false;
+
+    const members = this.getSeriesScope(anchor, scope);
+    this.appointments = this.appointments.filter((appointment) => !members.includes(appointment));
+    return true;
+  }
+
+  // Queue operations
+  async getQueue(userId: string, locationId?: number | null): Promise<Queue[]> {
+    return this.queue
+      .filter((item) => item.userId === userId)
+      .filter(atLocation(locationId))
+      .sort(byAsc("position"))
+      .map(copy);
+  }
+
+  async getQueueHistory(userId: string, locationId: number | null, since: Date, until: Date): Promise<Queue[]> {
+    return this.queue
+      .filter((item) => item.userId === userId && !!item.joinedAt && item.joinedAt >= since && item.joinedAt < until)
+      .filter(atLocation(locationId))
+      .sort(byAsc("joinedAt"))
+      .map(copy);
+  }
+
+  async addToQueue(queueItem: InsertQueue, userId: string, locationId: number | null = null): Promise<Queue> {
+    return this.insert(queue, this.queue, { ...queueItem, userId, locationId });
+  }
+
+  async updateQueuePosition(id: number, position: number, userId: string): Promise<Queue | undefined> {
+    const existing = this.queue.find((item) => item.id === id && item.userId === userId);
+    return existing && copy(applyChanges(queue, existing, { position, updatedAt: new Date() }));
+  }
+
+  async updateQueueStatus(id: number, status: QueueStatus, userId: string): Promise<Queue | undefined> {
+    const existing = this.queue.find((item) => item.id === id && item.userId === userId);
+    if (!existing) return undefined;
+    const now = new Date();
+    return copy(applyChanges(queue, existing, { status, ...queueStatusTimes(existing, status, now), updatedAt: now }));
+  }
+
+  async removeFromQueue(id: number, userId: string): Promise<Queue | undefined> {
+    const removed = this.queue.find((item) => item.id === id && item.userId === userId);
+    if (!removed) return undefined;
+    this.queue = this.queue.filter((item) => item !== removed);
+    return removed;
+  }
+
+  async setQueueWaitTimes(waitTimes: { id: number; estimatedWaitTime: number }[], userId: string): Promise<void> {
+    for (const { id, estimatedWaitTime } of waitTimes) {
+      const existing = this.queue.find((item) => item.id === id && item.userId === userId);
+      if (existing) applyChanges(queue, existing, { estimatedWaitTime });
+    }
+  }
+
+  // Review operations
+  async getReviews(userId: string): Promise<Review[]> {
+    return this.reviews
+      .filter((review) => review.userId === userId)
+      .sort(byDesc("createdAt"))
+      .map(copy);
+  }
+
+  async getRecentReviews(userId: string, limit: number): Promise<Review[]> {
+    return (await this.getReviews(userId)).slice(0, limit);
+  }
+
+  async createReview(review: InsertReview, userId: string): Promise<Review> {
+    return this.insert(reviews, this.reviews, { ...review, userId });
+  }
+
+  // Gallery operations
+  async getGallery(userId: string): Promise<Gallery[]> {
+    return this.gallery
+      .filter((item) => item.userId === userId && item.isActive === true)
+      .sort(byDesc("createdAt"))
+      .map(copy);
+  }
+
+  async createGalleryItem(item: InsertGallery, userId: string): Promise<Gallery> {
+    return this.insert(gallery, this.gallery, { ...item, userId });
+  }
+
+  async updateGalleryItem(id: number, item: Partial<InsertGallery>, userId: string): Promise<Gallery | undefined> {
+    const existing = this.gallery.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return existing && copy(applyChanges(gallery, existing, item));
+  }
+
+  async deleteGalleryItem(id: number, userId: string): Promise<boolean> {
+    const existing = this.gallery.find((candidate) => candidate.id === id && candidate.userId === userId);
+    if (existing) existing.isActive = false;
+    return !!existing;
+  }
+
+  // Transaction operations
+  async getTransactions(userId: string, locationId?: number | null): Promise<Transaction[]> {
+    return this.transactions
+      .filter((transaction) => transaction.userId === userId)
+      .filter(atLocation(locationId))
+      .sort(byDesc("createdAt"))
+      .map(copy);
+  }
+
+  async getTodaysTransactions(userId: string, locationId: number | null, timeZone: TimeZone): Promise<Transaction[]> {
+    const { start: today, end: tomorrow } = getDayRange(new Date(), timeZone);
+
+    return (await this.getTransactions(userId, locationId)).filter((transaction) =>
+      transaction.createdAt && transaction.createdAt >= today && transaction.createdAt < tomorrow);
+  }
+
+  async getTransaction(id: number, userId: string): Promise<TransactionWithItems | undefined> {
+    const transaction = this.transactions.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return transaction && this.saleDetails(transaction);
+  }
+
+  // Synchronous, so a refund can check the balance and record itself without
+  // another request slipping in between
+  private saleDetails(transaction: Transaction): TransactionWithItems {
+    const id = transaction.id;
+    const saleRefunds = this.refunds
+      .filter((refund) => refund.transactionId === id)
+      .sort(byAsc("createdAt"));
+    const refundIds = saleRefunds.map((refund) => refund.id);
+    const items = this.transactionItems
+      .filter((item) => item.transactionId === id)
+      .sort(byAsc("id"))
+      .map((item) => ({
+        ...item,
+        name: (item.serviceId
+          ? this.services.find((service) => service.id === item.serviceId)?.name
+          : this.products.find((product) => product.id === item.productId)?.name) ?? "",
+        refundedQuantity: this.refundItems
+          .filter((line) => line.transactionItemId === item.id && refundIds.includes(line.refundId))
+          .reduce((sum, line) => sum + line.quantity, 0),
+      }));
+    const payments = this.transactionPayments
+      .filter((payment) => payment.transactionId === id)
+      .sort(byAsc("id"))
+      .map(copy);
+    return { ...transaction, items, payments, refunds: saleRefunds.map(copy) };
+  }
+
+  async createTransaction(
+    transaction: InsertTransaction,
+    items: InsertTransactionItem[],
+    payments: InsertTransactionPayment[],
+    userId: string,
+    locationId: number | null = null,
+  ): Promise<Transaction> {
+    // Check every line's stock before anything is written
+    const wanted = new Map<number, number>();
+    for (const item of items) {
+      if (item.productId) {
+        wanted.set(item.productId, (wanted.get(item.productId) ?? 0) + (item.quantity ?? 1));
+      }
+    }
+    for (const [productId, quantity] of Array.from(wanted)) {
+      const product = this.products.find((candidate) => candidate.id === productId)!;
+      if (product.stock < quantity) throw new OutOfStockError(copy(product));
+    }
+    for (const [productId, quantity] of Array.from(wanted)) {
+      this.restock(productId, -quantity);
+    }
+
+    const shop = this.users.get(userId);
+    if (shop) shop.lastReceiptNumber += 1;
+    const newTransaction = this.insert<Transaction>(transactions, this.transactions, {
+      ...transaction,
+      userId,
+      locationId,
+      receiptNumber: shop?.lastReceiptNumber ?? null,
+    });
+    for (const item of items) {
+      this.insert(transactionItems, this.transactionItems, { ...item, transactionId: newTransaction.id });
+    }
+    for (const payment of payments) {
+      this.insert(transactionPayments, this.transactionPayments, { ...payment, transactionId: newTransaction.id });
+    }
+    return newTransaction;
+  }
+
+  async createRefund(
+    transactionId: number,
+    refund: RefundData,
+    refundedBy: string,
+    userId: string,
+  ): Promise<Refund[] | undefined> {
+    const transaction = this.transactions.find((candidate) => candidate.id === transactionId && candidate.userId === userId);
+    if (!transaction) return undefined;
+
+    const sale = this.saleDetails(transaction);
+    const plan = planRefund(sale, refund);
+    const newRefunds: Refund[] = [];
+    for (const part of plan.payments) {
+      const pending = refundsThroughProcessor(sale.payments.find((candidate) => candidate.id === part.transactionPaymentId));
+      newRefunds.push(this.insert<Refund>(refunds, this.refunds, {
+        userId,
+        transactionId,
+        amount: part.amount,
+        paymentMethod: part.paymentMethod,
+        transactionPaymentId: part.transactionPaymentId,
+        status: pending ? "pending" : "completed",
+        idempotencyKey: pending ? randomUUID() : null,
+        reason: refund.reason,
+        refundedBy,
+      }));
+    }
+    for (const item of plan.items) {
+      this.insert(refundItems, this.refundItems, { ...item, refundId: newRefunds[0].id });
+      this.restock(sale.items.find((candidate) => candidate.id === item.transactionItemId)?.productId ?? null, item.quantity);
+    }
+
+    applyChanges(transactions, transaction, saleAfterRefunds(sale, toCents(sale.refundedTotal ?? 0) + toCents(plan.amount)));
+    return newRefunds;
+  }
+
+  async completeRefund(id: number, providerRefundId: string | null): Promise<void> {
+    const pending = this.refunds.find((refund) => refund.id === id && refund.status === "pending");
+    if (pending) applyChanges(refunds, pending, { status: "completed", providerRefundId });
+  }
+
+  async releaseRefund(id: number): Promise<void> {
+    const pending = this.refunds.find((refund) => refund.id === id && refund.status === "pending");
+    if (!pending) return;
+    for (const line of this.refundItems.filter((candidate) => candidate.refundId === id)) {
+      const item = this.transactionItems.find((candidate) => candidate.id === line.transactionItemId);
+      this.restock(item?.productId ?? null, -line.quantity);
+    }
+    this.refundItems = this.refundItems.filter((line) => line.refundId !== id);
+    this.refunds = this.refunds.filter((refund) => refund !== pending);
+    const sale = this.transactions.find((candidate) => candidate.id === pending.transactionId)!;
+    applyChanges(transactions, sale, saleAfterRefunds(sale, toCents(sale.refundedTotal ?? 0) - toCents(pending.amount)));
+  }
+
+  async voidTransaction(id: number, reason: string, userId: string, timeZone: TimeZone): Promise<Transaction | undefined> {
+    const sale = this.transactions.find((candidate) => candidate.id === id && candidate.userId === userId);
+    if (!sale) return undefined;
+
+    assertVoidable(sale, timeZone);
+    for (const item of this.transactionItems.filter((candidate) => candidate.transactionId === id)) {
+      this.restock(item.productId, item.quantity ?? 1);
+    }
+    return copy(applyChanges(transactions, sale, { status: "voided", voidReason: reason, voidedAt: new Date() }));
+  }
+
+  async markPaymentRefunded(id: number): Promise<void> {
+    const payment = this.transactionPayments.find((candidate) => candidate.id === id);
+    if (payment) applyChanges(transactionPayments, payment, { status: "refunded" });
+  }
+
+  async getPaymentByProviderId(provider: string, providerPaymentId: string): Promise<TransactionPayment | undefined> {
+    const payment = this.transactionPayments.find((candidate) =>
+      candidate.provider === provider && candidate.providerPaymentId === providerPaymentId);
+    return payment && copy(payment);
+  }
+
+  async settlePayment(id: number, status: "captured" | "failed", reason?: string): Promise<Transaction | undefined> {
+    const payment = this.transactionPayments.find((candidate) => candidate.id === id);
+    if (!payment) return undefined;
+    if (payment.status === "pending") {
+      applyChanges(transactionPayments, payment, { status });
+    }
+
+    const sale = this.transactions.find((candidate) => candidate.id === payment.transactionId)!;
+    if (sale.status !== "pending") return copy(sale);
+    const changes = saleStatusAfterPayments(
+      this.transactionPayments.filter((candidate) => candidate.transactionId === sale.id),
+      reason,
+    );
+    if (!changes) return copy(sale);
+    if (changes.status === "voided") {
+      for (const item of this.transactionItems.filter((candidate) => candidate.transactionId === sale.id)) {
+        this.restock(item.productId, item.quantity ?? 1);
+      }
+    }
+    return copy(applyChanges(transactions, sale, changes));
+  }
+
+  // Cash drawer operations
+  async getOpenCashDrawerSession(userId: string, locationId?: number | null): Promise<CashDrawerSession | undefined> {
+    const session = this.cashDrawerSessions
+      .filter((candidate) => candidate.userId === userId && !candidate.closedAt)
+      .filter(atLocation(locationId))
+      .sort(byDesc("openedAt"))[0];
+    return session && copy(session);
+  }
+
+  async getCashDrawerSessions(userId: string, locationId?: number | null): Promise<CashDrawerSession[]> {
+    return this.cashDrawerSessions
+      .filter((session) => session.userId === userId && session.closedAt)
+      .filter(atLocation(locationId))
+      .sort(byDesc("closedAt"))
+      .map(copy);
+  }
+
+  async getCashDrawerSession(id: number, userId: string): Promise<CashDrawerSession | undefined> {
+    const session = this.cashDrawerSessions.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return session && copy(session);
+  }
+
+  async openCashDrawerSession(
+    openingFloat: string,
+    openedBy: string,
+    userId: string,
+    locationId: number | null = null,
+  ): Promise<CashDrawerSession> {
+    return this.insert<CashDrawerSession>(cashDrawerSessions, this.cashDrawerSessions, { openingFloat, openedBy, userId, locationId });
+  }
+
+  async getCashDrawerMovements(sessionId: number): Promise<CashDrawerMovement[]> {
+    return this.cashDrawerMovements
+      .filter((movement) => movement.sessionId === sessionId)
+      .sort(byAsc("createdAt"))
+      .map(copy);
+  }
+
+  async addCashDrawerMovement(sessionId: number, movement: CashDrawerMovementData, createdBy: string): Promise<CashDrawerMovement> {
+    return this.insert<CashDrawerMovement>(cashDrawerMovements, this.cashDrawerMovements, {
+      ...movement,
+      amount: fromCents(toCents(movement.amount)),
+      sessionId,
+      createdBy,
+    });
+  }
+
+  async getDrawerActivity(userId: string, locationId: number | null, since: Date, until: Date): Promise<DrawerActivity> {
+    const within = (date: Date | null) => !!date && date >= since && date < until;
+    const sales = this.transactions
+      .filter((sale) => sale.userId === userId && within(sale.createdAt))
+      .filter(atLocation(locationId))
+      .sort(byAsc("createdAt"));
+    const saleIds = sales.map((sale) => sale.id);
+    const atThisLocation = new Set(this.transactions.filter(atLocation(locationId)).map((sale) => sale.id));
+    return {
+      sales: sales.map(copy),
+      payments: this.transactionPayments.filter((payment) => saleIds.includes(payment.transactionId)).map(copy),
+      refunds: this.refunds
+        .filter((refund) => refund.userId === userId && within(refund.createdAt) && atThisLocation.has(refund.transactionId))
+        .map(copy),
+    };
+  }
+
+  async closeCashDrawerSession(
+    id: number,
+    report: ZReport,
+    notes: string | null,
+    closedBy: string,
+    userId: string,
+  ): Promise<CashDrawerSession | undefined> {
+    const session = this.cashDrawerSessions.find((candidate) => candidate.id === id && candidate.userId === userId);
+    if (!session || session.closedAt) return undefined;
+    return copy(applyChanges(cashDrawerSessions, session, {
+      expectedCash: report.expectedCash,
+      countedCash: report.countedCash,
+      overShort: report.overShort,
+      report,
+      notes,
+      closedBy,
+      closedAt: report.closedAt ? new Date(report.closedAt) : new Date(),
+    }));
+  }
+
+  // Analytics operations
+  async getDashboardStats(userId: string, locationId: number | null, timeZone: TimeZone): Promise<{
+    todayQueueCount: number;
+    todayAppointmentCount: number;
+    averageWaitTime: number;
+    todayRevenue: number;
+  }> {
+    const queueItems = await this.getQueue(userId, locationId);
+    const waitingItems = queueItems.filter((item) => item.status === "waiting");
+    const averageWaitTime = waitingItems.length > 0
+      ? waitingItems.reduce((sum, item) => sum + (item.estimatedWaitTime || 0), 0) / waitingItems.length
+      : 0;
+
+    const todayRevenue = (await this.getTodaysTransactions(userId, locationId, timeZone)).reduce((sum, transaction) =>
+      sum + netSaleCents(transaction), 0) / 100;
+
+    return {
+      todayQueueCount: queueItems.length,
+      todayAppointmentCount: (await this.getTodaysAppointments(userId, locationId, timeZone)).length,
+      averageWaitTime: Math.round(averageWaitTime),
+      todayRevenue,
+    };
+  }
+
+  // Barber operations
+  async getBarbers(userId: string, locationId?: number | null): Promise<Barber[]> {
+    return this.barbers
+      .filter((barber) => barber.userId === userId)
+      .filter(atLocation(locationId))
+      .sort(byAsc("name"))
+      .map(copy);
+  }
+
+  async getBarber(id: number, userId: string): Promise<Barber | undefined> {
+    const barber = this.barbers.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return barber && copy(barber);
+  }
+
+  async createBarber(barber: InsertBarber, userId: string, locationId: number | null = null): Promise<Barber> {
+    return this.insert(barbers, this.barbers, { ...barber, userId, locationId });
+  }
+
+  async updateBarber(id: number, barber: Partial<InsertBarber>, userId: string): Promise<Barber | undefined> {
+    const existing = this.barbers.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return existing && copy(applyChanges(barbers, existing, barber));
+  }
+
+  async deleteBarber(id: number, userId: string): Promise<boolean> {
+    const before = this.barbers.length;
+    this.barbers = this.barbers.filter((barber) => !(barber.id === id && barber.userId === userId));
+    // Time off, pay rules and shifts cascade with the barber, as the foreign keys do
+    const kept = (row: { barberId: number }) => this.barbers.some((barber) => barber.id === row.barberId);
+    this.barberTimeOff = this.barberTimeOff.filter(kept);
+    this.commissionRules = this.commissionRules.filter(kept);
+    this.timeEntries = this.timeEntries.filter(kept);
+    this.timeEntryEdits = this.timeEntryEdits.filter((edit) => this.timeEntries.some((entry) => entry.id === edit.entryId));
+    return this.barbers.length < before;
+  }
+
+  async getBarberTimeOff(userId: string, start?: Date, end?: Date): Promise<BarberTimeOff[]> {
+    return this.barberTimeOff
+      .filter((entry) =>
+        entry.userId === userId &&
+        (!end || entry.startDate < end) &&
+        (!start || entry.endDate > start))
+      .sort(byAsc("startDate"))
+      .map(copy);
+  }
+
+  async createBarberTimeOff(timeOff: InsertBarberTimeOff, userId: string): Promise<BarberTimeOff> {
+    return this.insert(barberTimeOff, this.barberTimeOff, { ...timeOff, userId });
+  }
+
+  async deleteBarberTimeOff(id: number, userId: string): Promise<boolean> {
+    const before = this.barberTimeOff.length;
+    this.barberTimeOff = this.barberTimeOff.filter((entry) => !(entry.id === id && entry.userId === userId));
+    return this.barberTimeOff.length < before;
+  }
+
+  // Payroll operations
+  async getCommissionRules(userId: string): Promise<CommissionRule[]> {
+    return this.commissionRules.filter((rule) => rule.userId === userId).map(copy);
+  }
+
+  async saveCommissionRule(barberId: number, rule: CommissionRuleData, userId: string): Promise<CommissionRule> {
+    const values = {
+      payType: rule.payType,
+      serviceRate: rule.serviceRate.toFixed(2),
+      retailRate: rule.retailRate.toFixed(2),
+      tipsPassThrough: rule.tipsPassThrough,
+      boothRent: fromCents(Math.round(rule.boothRent * 100)),
+      hourlyRate: fromCents(Math.round(rule.hourlyRate * 100)),
+    };
+    const existing = this.commissionRules.find((candidate) => candidate.barberId === barberId);
+    if (existing) {
+      return copy(applyChanges(commissionRules, existing, { ...values, updatedAt: new Date() }));
+    }
+    return this.insert<CommissionRule>(commissionRules, this.commissionRules, { ...values, barberId, userId });
+  }
+
+  async getSalesWithItems(
+    userId: string,
+    locationId: number | null,
+    since: Date,
+    until: Date,
+  ): Promise<(Transaction & { items: TransactionItem[] })[]> {
+    return this.transactions
+      .filter((sale) => sale.userId === userId && !!sale.createdAt && sale.createdAt >= since && sale.createdAt < until)
+      .filter(atLocation(locationId))
+      .sort(byAsc("createdAt"))
+      .map((sale) => ({
+        ...sale,
+        items: this.transactionItems.filter((item) => item.transactionId === sale.id).map(copy),
+      }));
+  }
+
+  // Time clock operations
+  async getOpenTimeEntries(userId: string, locationId?: number | null): Promise<TimeEntry[]> {
+    return this.timeEntries
+      .filter((entry) => entry.userId === userId && !entry.clockOut)
+      .filter(atLocation(locationId))
+      .sort(byAsc("clockIn"))
+      .map(copy);
+  }
+
+  private withEdits(entry: TimeEntry): TimeEntryWithEdits {
+    return {
+      ...entry,
+      edits: this.timeEntryEdits.filter((edit) => edit.entryId === entry.id).sort(byAsc("createdAt")).map(copy),
+    };
+  }
+
+  async getTimeEntries(userId: string, locationId: number | null, since: Date, until: Date): Promise<TimeEntryWithEdits[]> {
+    return this.timeEntries
+      .filter((entry) => entry.userId === userId && entry.clockIn >= since && entry.clockIn < until)
+      .filter(atLocation(locationId))
+      .sort(byAsc("clockIn"))
+      .map((entry) => this.withEdits(entry));
+  }
+
+  async getTimeEntry(id: number, userId: string): Promise<TimeEntryWithEdits | undefined> {
+    const entry = this.timeEntries.find((candidate) => candidate.id === id && candidate.userId === userId);
+    return entry && this.withEdits(entry);
+  }
+
+  async punchTimeClock(
+    barberId: number,
+    action: TimePunchAction,
+    punchedBy: string,
+    userId: string,
+    locationId: number | null = null,
+  ): Promise<TimeEntry> {
+    const open = this.timeEntries.find((entry) => entry.barberId === barberId && entry.userId === userId && !entry.clockOut);
+    const shift = applyPunch(open, action, new Date());
+    if (!open) {
+      return this.insert<TimeEntry>(timeEntries, this.timeEntries, { ...shift, barberId, punchedBy, userId, locationId });
+    }
+    return copy(applyChanges(timeEntries, open, {
+      clockOut: shift.clockOut,
+      breaks: shift.breaks,
+      punchedBy,
+      updatedAt: new Date(),
+    }));
+  }
+
+  async editTimeEntry(id: number, data: TimeEntryEditData, editedBy: string, userId: string): Promise<TimeEntry | undefined> {
+    const entry = this.timeEntries.find((candidate) => candidate.id === id && candidate.userId === userId);
+    if (!entry) return undefined;
+    const shift = planTimeEntryEdit(entry, data);
+    this.insert<TimeEntryEdit>(timeEntryEdits, this.timeEntryEdits, {
+      entryId: id,
+      editedBy,
+      reason: data.reason,
+      before: entryTimes(entry),
+      after: entryTimes(shift),
+    });
+    return copy(applyChanges(timeEntries, entry, { ...shift, updatedAt: new Date() }));
+  }
+
+  async addTimeEntry(
+    barberId: number,
+    data: TimeEntryEditData,
+    editedBy: string,
+    userId: string,
+    locationId: number | null = null,
+  ): Promise<TimeEntry> {
+    const shift = planTimeEntryEdit(undefined, data);
+    const entry = this.insert<TimeEntry>(timeEntries, this.timeEntries, { ...shift, barberId, punchedBy: editedBy, userId, locationId });
+    this.insert<TimeEntryEdit>(timeEntryEdits, this.timeEntryEdits, {
+      entryId: entry.id,
+      editedBy,
+      reason: data.reason,
+      before: null,
+      after: entryTimes(shift),
+    });
+    return entry;
+  }
+
+  // Onboarding operations
+  async completeOnboarding(userId: string, data: OnboardingData): Promise<User> {
+    const subdomain = await this.generateSubdomain(data.barbershopName);
+    const user = await this.updateUserProfile(userId, {
+      barbershopName: data.barbershopName,
+      address: data.address,
+      phone: data.phone,
+      subdomain,
+      primaryColor: data.primaryColor,
+      secondaryColor: data.secondaryColor,
+      bookingStyle: data.bookingStyle,
+      logoUrl: data.logoUrl,
+      businessHours: data.businessHours,
+      timezone: data.timezone,
+      isOnboarded: true,
+    });
+
+    for (const barberData of data.barbers) {
+      await this.createBarber(barberData, userId);
+    }
+
+    return user;
+  }
+
+  async generateSubdomain(businessName: string): Promise<string> {
+    const baseSubdomain = businessName
+      .toLowerCase()
+      .replace(/[^a-z0-9]/g, '')
+      .slice(0, 20);
+
+    let subdomain = baseSubdomain;
+    let counter = 1;
+    while (await this.getUserBySubdomain(subdomain) || this.locations.some((location) => location.subdomain === subdomain)) {
+      subdomain = `${baseSubdomain}${counter}`;
+      counter++;
+    }
+
+    return subdomain;
+  }
+
+  async updateUserProfile(userId: string, data: Partial<UpsertUser>): Promise<User> {
+    const user = this.users.get(userId);
+    if (user) applyChanges(users, user, { ...data, updatedAt: new Date() });
+    return (user && copy(user)) as User;
+  }
+}
@@ -0,0 +1,181 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import {
+  PaymentProviderError,
+  type Authorization,
+  type AuthorizeRequest,
+  type PaymentEvent,
+  type PaymentProvider,
+  type ProviderRefund,
+} from "./paymentProvider";
+
+// Sandbox card numbers and what they do. Any other 12-19 digit number is
+// approved.
+export const mockTestCards: Record<string, { outcome: "approve" | "decline" | "settle-later" | "fail-later"; reason?: string }> = {
+  "4242424242424242": { outcome: "approve" },
+  "4000000000000002": { outcome: "decline", reason: "Card declined" },
+  "4000000000009995": { outcome: "decline", reason: "Insufficient funds" },
+  "4000000000000259": { outcome: "settle-later" },
+  "4000000000000341": { outcome: "fail-later", reason: "Card declined by the issuer" },
+};
+
+interface MockPayment {
+  amountCents: number;
+  capturedCents: number;
+  refundedCents: number;
+  status: "authorized" | "pending" | "captured" | "failed" | "cancelled";
+}
+
+const signatureHeader = "x-mock-signature";
+
+// An in-process stand-in for a card processor. Nothing leaves the server
+// except the delayed webhooks, which are posted back to this app's own
+// webhook endpoint and signed like a real processor's would be.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+  private cards = new Map<string, string>(); // token -> card number
+  private payments = new Map<string, MockPayment>();
+  private authorizations = new Map<string, Authorization>();
+  private refunds = new Map<string, ProviderRefund>();
+  private webhookSecret: string;
+
+  constructor(
+    webhookSecret = process.env.PAYMENT_WEBHOOK_SECRET,
+    private webhookDelayMs = Number(process.env.MOCK_WEBHOOK_DELAY_MS ?? 3000),
+  ) {
+    // Anyone who knows the secret can settle payments by webhook
+    if (!webhookSecret) {
+      throw new Error("PAYMENT_WEBHOOK_SECRET must be set to use the mock payment provider");
+    }
+    this.webhookSecret = webhookSecret;
+  }
+
+  // Stands in for a processor's card form: the number goes in and only an
+  // opaque token comes back, which is all a sale ever charges
+  tokenize(cardNumber: string): { token: string; last4: string } {
+    const number = cardNumber.replace(/[\s-]/g, "");
+    const token = `mock_tok_${randomUUID()}`;
+    this.cards.set(token, number);
+    return { token, last4: number.slice(-4) };
+  }
+
+  async authorize(request: AuthorizeRequest): Promise<Authorization> {
+    // Retried requests get the original answer instead of a second charge
+    const previous = this.authorizations.get(request.idempotencyKey);
+    if (previous) return previous;
+
+    const number = this.cards.get(request.token) ?? "";
+    const card = mockTestCards[number] ?? (/^\d{12,19}$/.test(number)
+      ? { outcome: "approve" as const }
+      : { outcome: "decline" as const, reason: number ? "Invalid card number" : "Unknown card token" });
+    const id = `mock_pay_${randomUUID()}`;
+    const last4 = number.slice(-4);
+
+    let authorization: Authorization;
+    if (card.outcome === "decline") {
+      authorization = { id, status: "declined", last4, declineReason: card.reason };
+    } else if (card.outcome === "approve") {
+      this.payments.set(id, { amountCents: request.amountCents, capturedCents: 0, refundedCents: 0, status: "authorized" });
+      authorization = { id, status: "authorized", last4 };
+    } else {
+      this.payments.set(id, { amountCents: request.amountCents, capturedCents: 0, refundedCents: 0, status: "pending" });
+      this.settleLater(id, card.outcome === "settle-later", card.reason);
+      authorization = { id, status: "pending", last4 };
+    }
+    this.authorizations.set(request.idempotencyKey, authorization);
+    return authorization;
+  }
+
+  async capture(paymentId: string, amountCents: number): Promise<void> {
+    const payment = this.find(paymentId);
+    if (payment.status !== "authorized") {
+      throw new PaymentProviderError(`Payment ${paymentId} is ${payment.status} and can't be captured`);
+    }
+    if (amountCents > payment.amountCents) {
+      throw new PaymentProviderError("Can't capture more than was authorized");
+    }
+    payment.capturedCents = amountCents;
+    payment.status = "captured";
+  }
+
+  async cancel(paymentId: string): Promise<void> {
+    const payment = this.find(paymentId);
+    if (payment.status !== "authorized" && payment.status !== "pending") {
+      throw new PaymentProviderError(`Payment ${paymentId} is ${payment.status} and can't be cancelled`);
+    }
+    payment.status = "cancelled";
+  }
+
+  async refund(paymentId: string, amountCents: number, idempotencyKey: string): Promise<ProviderRefund> {
+    const previous = this.refunds.get(idempotencyKey);
+    if (previous) return previous;
+
+    const payment = this.find(paymentId);
+    if (payment.status !== "captured") {
+      throw new PaymentProviderError(`Payment ${paymentId} is ${payment.status} and can't be refunded`);
+    }
+    if (payment.refundedCents + amountCents > payment.capturedCents) {
+      throw new PaymentProviderError("Can't refund more than was captured");
+    }
+    payment.refundedCents += amountCents;
+    const refund = { id: `mock_ref_${randomUUID()}` };
+    this.refunds.set(idempotencyKey, refund);
+    return refund;
+  }
+
+  parseWebhook(headers: IncomingHttpHeaders, rawBody: Buffer): PaymentEvent | null {
+    const signature = headers[signatureHeader];
+    const expected = Buffer.from(this.sign(rawBody));
+    if (typeof signature !== "string" || signature.length !== expected.length ||
+        !timingSafeEqual(Buffer.from(signature), expected)) {
+      throw new PaymentProviderError("Webhook signature doesn't match");
+    }
+    let event;
+    try {
+      event = JSON.parse(rawBody.toString("utf8"));
+    } catch {
+      throw new PaymentProviderError("Webhook body isn't valid JSON");
+    }
+    if (typeof event !== "object" || event === null) {
+      throw new PaymentProviderError("Webhook body isn't an event");
+    }
+    if (event.type !== "payment.captured" && event.type !== "payment.failed") return null;
+    return { type: event.type, paymentId: event.paymentId, reason: event.reason };
+  }
+
+  private find(paymentId: string): MockPayment {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new PaymentProviderError(`No such payment: ${paymentId}`);
+    }
+    return payment;
+  }
+
+  private sign(body: Buffer | string) {
+    return createHmac("sha256", this.webhookSecret).update(body).digest("hex");
+  }
+
+  // The processor makes up its mind after the sale is rung up and says so
+  // by webhook, the way bank-side checks do with a real processor
+  private settleLater(paymentId: string, approve: boolean, reason?: string) {
+    const timer = setTimeout(async () => {
+      const payment = this.payments.get(paymentId);
+      if (!payment || payment.status !== "pending") return;
+      payment.status = approve ? "captured" : "failed";
+      payment.capturedCents = approve ? payment.amountCents : 0;
+
+      const body = JSON.stringify({ type: approve ? "payment.captured" : "payment.failed", paymentId, reason });
+      const origin = process.env.APP_URL || "http://localhost:5000";
+      try {
+        await fetch(`${origin}/api/payments/webhooks/${this.name}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", [signatureHeader]: this.sign(body) },
+          body,
+        });
+      } catch (error) {
+        console.error("Error delivering mock payment webhook:", error);
+      }
+    }, this.webhookDelayMs);
+    timer.unref();
+  }
+}
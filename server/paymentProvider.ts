@@ -0,0 +1,58 @@
+import type { IncomingHttpHeaders } from "http";
+
+// What a card processor has to do for the POS. Providers work in cents and
+// in their own payment ids; nothing here knows about sales or refunds.
+
+export interface AuthorizeRequest {
+  amountCents: number;
+  token: string; // from the processor's card reader or payment form
+  idempotencyKey: string;
+  description?: string;
+}
+
+export interface Authorization {
+  id: string;
+  // pending means the processor decides later and reports it by webhook
+  status: "authorized" | "pending" | "declined";
+  last4?: string;
+  declineReason?: string;
+}
+
+export interface ProviderRefund {
+  id: string;
+}
+
+export interface PaymentEvent {
+  type: "payment.captured" | "payment.failed";
+  paymentId: string;
+  reason?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  authorize(request: AuthorizeRequest): Promise<Authorization>;
+  capture(paymentId: string, amountCents: number): Promise<void>;
+  // Releases an authorization that was never captured
+  cancel(paymentId: string): Promise<void>;
+  // A retry with the same key gets the first refund back, not a second one
+  refund(paymentId: string, amountCents: number, idempotencyKey: string): Promise<ProviderRefund>;
+  // Checks the webhook came from the processor and says what happened;
+  // null for events the POS doesn't act on
+  parseWebhook(headers: IncomingHttpHeaders, rawBody: Buffer): PaymentEvent | null;
+}
+
+// A card the processor turned down; the message is safe to show the cashier
+export class PaymentDeclinedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentDeclinedError";
+  }
+}
+
+// The processor refused a request or sent something we can't trust
+export class PaymentProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentProviderError";
+  }
+}
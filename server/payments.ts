@@ -0,0 +1,176 @@
+import { randomUUID } from "crypto";
+import type { InsertTransactionPayment, Refund, Tender, TransactionPayment } from "@shared/schema";
+import { fromCents, toCents, type SettledTender } from "@shared/pricing";
+import { storage } from "./storage";
+import { publishChange } from "./realtime";
+import { MockPaymentProvider } from "./mockPaymentProvider";
+import { refundsThroughProcessor } from "./refunds";
+import {
+  PaymentDeclinedError,
+  PaymentProviderError,
+  type PaymentEvent,
+  type PaymentProvider,
+} from "./paymentProvider";
+
+// PAYMENT_PROVIDER picks the processor card payments go through. Left unset,
+// the POS doesn't process cards: they're run on the shop's own terminal and
+// recorded like cash. A real processor only needs to implement
+// PaymentProvider and be added here. The sandbox is opt-in and never runs in
+// production.
+function configuredProviders(name = process.env.PAYMENT_PROVIDER): Map<string, PaymentProvider> {
+  if (!name) return new Map();
+  if (name === "mock") {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("The mock payment provider can't be used in production");
+    }
+    return new Map([["mock", new MockPaymentProvider()]]);
+  }
+  throw new Error(`Unknown PAYMENT_PROVIDER: ${name}`);
+}
+
+const providers = configuredProviders();
+
+export function getPaymentProvider(name: string): PaymentProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new PaymentProviderError(`Unknown payment provider: ${name}`);
+  }
+  return provider;
+}
+
+// The processor new card payments go through, or null when cards are run on
+// a separate terminal. Older payments are refunded through whichever one
+// took them.
+export function activePaymentProvider(): PaymentProvider | null {
+  return process.env.PAYMENT_PROVIDER ? getPaymentProvider(process.env.PAYMENT_PROVIDER) : null;
+}
+
+// Charge the card tenders on a sale before it's written. If a card is
+// declined the ones already charged are released, so a sale is paid in full
+// or not at all.
+export async function chargeTenders(
+  tenders: SettledTender<Tender>[],
+  description: string,
+): Promise<InsertTransactionPayment[]> {
+  const payments: InsertTransactionPayment[] = [];
+  try {
+    for (const tender of tenders) {
+      const payment: InsertTransactionPayment = {
+        method: tender.method,
+        amount: fromCents(tender.amountCents),
+        tendered: tender.method === "cash" ? fromCents(tender.tenderedCents) : null,
+        change: fromCents(tender.changeCents),
+        reference: tender.reference || null,
+      };
+      const provider = activePaymentProvider();
+      if (tender.method === "card" && tender.token && provider) {
+        const authorization = await provider.authorize({
+          amountCents: tender.amountCents,
+          token: tender.token,
+          idempotencyKey: randomUUID(),
+          description,
+        });
+        if (authorization.status === "declined") {
+          throw new PaymentDeclinedError(authorization.declineReason || "Card declined");
+        }
+        if (authorization.status === "authorized") {
+          await provider.capture(authorization.id, tender.amountCents);
+        }
+        payment.provider = provider.name;
+        payment.providerPaymentId = authorization.id;
+        payment.status = authorization.status === "pending" ? "pending" : "captured";
+        payment.reference = tender.reference || (authorization.last4 ? `ending ${authorization.last4}` : null);
+      }
+      payments.push(payment);
+    }
+  } catch (error) {
+    await releaseCharges(payments);
+    throw error;
+  }
+  return payments;
+}
+
+// Give back card charges for a sale that was never recorded
+export async function releaseCharges(payments: InsertTransactionPayment[]) {
+  for (const payment of payments) {
+    if (!payment.provider || !payment.providerPaymentId) continue;
+    const provider = getPaymentProvider(payment.provider);
+    try {
+      if (payment.status === "pending") {
+        await provider.cancel(payment.providerPaymentId);
+      } else {
+        await provider.refund(payment.providerPaymentId, toCents(payment.amount), `release-${payment.providerPaymentId}`);
+      }
+    } catch (error) {
+      console.error("Error releasing card charge:", error);
+    }
+  }
+}
+
+// Send money back through the processor that took the payment; payments
+// taken outside a processor (cash, digital) have nothing to send
+async function sendRefund(payment: TransactionPayment, cents: number, idempotencyKey: string): Promise<string | null> {
+  if (!refundsThroughProcessor(payment)) return null;
+  const refund = await getPaymentProvider(payment.provider!).refund(payment.providerPaymentId!, cents, idempotencyKey);
+  return refund.id;
+}
+
+// Ask the processors for the card refunds just recorded as pending. One the
+// processor turns down is released. One whose outcome isn't known stays
+// pending and keeps holding its share of the sale, so it can't go out twice.
+export async function sendPendingRefunds(newRefunds: Refund[], payments: TransactionPayment[]) {
+  let failure: unknown;
+  for (const refund of newRefunds) {
+    if (refund.status !== "pending") continue;
+    const payment = payments.find((candidate) => candidate.id === refund.transactionPaymentId)!;
+    try {
+      const providerRefundId = await sendRefund(payment, toCents(refund.amount), refund.idempotencyKey!);
+      await storage.completeRefund(refund.id, providerRefundId);
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        await storage.releaseRefund(refund.id);
+      }
+      failure ??= error;
+    }
+  }
+  if (failure) throw failure;
+}
+
+// Give back the captured card payments on a voided sale. The key is tied to
+// the processor's payment, so sending a payment again can't refund it twice.
+export async function refundVoidedPayments(payments: TransactionPayment[]) {
+  let failure: unknown;
+  for (const payment of payments) {
+    if (!refundsThroughProcessor(payment) || payment.status !== "captured") continue;
+    try {
+      await sendRefund(payment, toCents(payment.amount), `void-${payment.providerPaymentId}`);
+      await storage.markPaymentRefunded(payment.id);
+    } catch (error) {
+      failure ??= error;
+    }
+  }
+  if (failure) throw failure;
+}
+
+// Record what the processor decided about a payment it took its time over
+export async function applyPaymentEvent(providerName: string, event: PaymentEvent) {
+  // Processors resend webhooks; only the first one for a payment counts
+  const payment = await storage.getPaymentByProviderId(providerName, event.paymentId);
+  if (!payment || payment.status !== "pending") return;
+  const sale = await storage.settlePayment(
+    payment.id,
+    event.type === "payment.captured" ? "captured" : "failed",
+    event.reason,
+  );
+  if (sale) publishChange(sale.userId, "transactions", sale.locationId);
+
+  // When a failed card voids a split sale, the other cards on it are given back
+  if (event.type === "payment.failed" && sale?.status === "voided") {
+    const details = await storage.getTransaction(sale.id, sale.userId);
+    try {
+      await refundVoidedPayments(details?.payments ?? []);
+    } catch (error) {
+      console.error("Error refunding card on failed sale:", error);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Barber, CommissionRule, TimeEntry, Transaction, TransactionItem } from "@shared/schema";
+import { buildPayrollReport, payPeriodBounds, payrollCsv } from "./payroll";
+
+function barber(id: number, name: string): Barber {
+  return {
+    id, userId: "shop", locationId: null, name, email: null, phone: null, profileImageUrl: null, specialties: [],
+    bio: null, experience: null, rating: "0.00", schedule: null, isActive: true, createdAt: null, updatedAt: null,
+  };
+}
+
+function rule(barberId: number, changes: Partial<CommissionRule>): CommissionRule {
+  return {
+    id: barberId, userId: "shop", barberId, payType: "commission", serviceRate: "0", retailRate: "0",
+    tipsPassThrough: true, boothRent: "0", hourlyRate: "0", updatedAt: null, ...changes,
+  };
+}
+
+function item(price: string, changes: Partial<TransactionItem> = {}): TransactionItem {
+  return { id: 1, transactionId: 1, serviceId: 1, productId: null, quantity: 1, price, discount: "0", taxable: false, tax: "0", ...changes };
+}
+
+function sale(barber: string, total: string, items: TransactionItem[], changes: Partial<Transaction> = {}): Transaction & { items: TransactionItem[] } {
+  return {
+    id: 1, userId: "shop", locationId: null, customerId: null, appointmentId: null, barber, receiptNumber: 1,
+    subtotal: null, discountTotal: "0", taxTotal: "0", tip: "0", total, paymentMethod: "cash", status: "completed",
+    refundedTotal: "0", voidReason: null, voidedAt: null, createdAt: null, items, ...changes,
+  };
+}
+
+function shift(barberId: number, clockIn: string, clockOut: string | null, breaks: TimeEntry["breaks"] = []): TimeEntry {
+  return {
+    id: 1, userId: "shop", locationId: null, barberId, clockIn: new Date(clockIn),
+    clockOut: clockOut ? new Date(clockOut) : null, breaks, punchedBy: null, updatedAt: null,
+  };
+}
+
+const week = { from: "2026-03-08", to: "2026-03-14" };
+const ana = barber(1, "Ana");
+const ben = barber(2, "Ben");
+const rules = [
+  rule(1, { serviceRate: "40", retailRate: "10", hourlyRate: "15.00" }),
+  rule(2, { payType: "booth_rent", boothRent: "140.00", tipsPassThrough: false }),
+];
+
+describe("buildPayrollReport", () => {
+  const report = buildPayrollReport(week, [ana, ben], rules, [
+    // $45 of service after a $5 discount, a $20 product, a $10 tip and $3 tax
+    sale("Ana", "78.00", [item("50.00", { discount: "5.00" }), item("20.00", { serviceId: null, productId: 1 })], { tip: "10.00", taxTotal: "3.00" }),
+    // Half refunded, so half the commission
+    sale("Ana", "30.00", [item("30.00")], { refundedTotal: "15.00", status: "partially_refunded" }),
+    sale("Ana", "40.00", [item("40.00")], { status: "voided" }),
+    // Discounted to nothing: still a sale, worth nothing
+    sale("Ana", "0.00", [item("10.00", { discount: "10.00" })]),
+    sale("Ben", "65.00", [item("60.00")], { tip: "5.00" }),
+    sale("Zed", "25.00", [item("25.00")]),
+  ], [
+    shift(1, "2026-03-09T09:00:00Z", "2026-03-09T17:00:00Z", [{ start: "2026-03-09T12:00:00Z", end: "2026-03-09T12:30:00Z" }]),
+    shift(1, "2026-03-10T09:00:00Z", null),
+    shift(2, "2026-03-09T09:00:00Z", "2026-03-09T17:00:00Z"),
+  ]);
+
+  test("pays commission on what sales brought in after discounts and refunds", () => {
+    const row = report.rows.find((candidate) => candidate.barberId === ana.id)!;
+    assert.equal(row.salesCount, 3);
+    assert.equal(row.serviceSales, "60.00");
+    assert.equal(row.retailSales, "20.00");
+    assert.equal(row.tips, "10.00");
+    assert.equal(row.serviceCommission, "24.00");
+    assert.equal(row.retailCommission, "2.00");
+    assert.equal(row.tipsPaid, "10.00");
+  });
+
+  test("pays finished shifts less their breaks at the hourly rate", () => {
+    const row = report.rows.find((candidate) => candidate.barberId === ana.id)!;
+    assert.equal(row.hours, "7.50");
+    assert.equal(row.hourlyPay, "112.50");
+    assert.equal(row.totalPay, "148.50");
+  });
+
+  test("booth renters keep their takings and owe a week's rent across a clock change", () => {
+    const row = report.rows.find((candidate) => candidate.barberId === ben.id)!;
+    assert.equal(row.serviceCommission, "60.00");
+    assert.equal(row.tipsPaid, "0.00");
+    assert.equal(row.hourlyPay, "0.00");
+    assert.equal(row.boothRent, "140.00");
+    assert.equal(row.totalPay, "-80.00");
+  });
+
+  test("gathers sales credited to nobody on the team", () => {
+    const row = report.rows[report.rows.length - 1];
+    assert.equal(row.barberId, null);
+    assert.equal(row.serviceSales, "25.00");
+    assert.equal(row.totalPay, "0.00");
+  });
+
+  test("a barber without a rule is paid nothing", () => {
+    const [row] = buildPayrollReport(week, [ana], [], [sale("Ana", "50.00", [item("50.00")], { tip: "5.00" })]).rows;
+    assert.equal(row.serviceCommission, "0.00");
+    assert.equal(row.tipsPaid, "5.00");
+    assert.equal(row.totalPay, "5.00");
+  });
+});
+
+describe("payPeriodBounds", () => {
+  test("runs from the shop's midnight on the first day to midnight after the last", () => {
+    // New York moves its clocks forward on March 8
+    assert.deepEqual(payPeriodBounds(week.from, week.to, "America/New_York"), {
+      since: new Date("2026-03-08T05:00:00Z"),
+      until: new Date("2026-03-15T04:00:00Z"),
+    });
+  });
+});
+
+describe("payrollCsv", () => {
+  test("writes names that look like formulas as text", () => {
+    const [row] = buildPayrollReport(week, [ana], [], []).rows;
+    const names = ["=HYPERLINK(\"x\")", "+1", "@SUM(A1)", "\t=1", "\r=1", "Smith, Jo"];
+    const lines = payrollCsv({ ...week, rows: names.map((name) => ({ ...row, barber: name, boothRent: "-80.00" })) })
+      .split("\r\n");
+    assert.deepEqual(lines.slice(1, -1).map((line) => line.split(",commission")[0]), [
+      "\"'=HYPERLINK(\"\"x\"\")\"",
+      "'+1",
+      "'@SUM(A1)",
+      "'\t=1",
+      "\"'\r=1\"",
+      "\"Smith, Jo\"",
+    ]);
+    assert.ok(lines[1].includes(",-80.00,"), "amounts stay numbers");
+  });
+});
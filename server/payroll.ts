@@ -0,0 +1,166 @@
+import type {
+  Barber,
+  CommissionRule,
+  PayrollReport,
+  PayrollRow,
+  TimeEntry,
+  Transaction,
+  TransactionItem,
+} from "@shared/schema";
+import { fromCents, lineTotalCents, netSaleCents, toCents } from "@shared/pricing";
+import { hoursLabel } from "@shared/timeclock";
+import { addCalendarDays, startOfCalendarDate, type TimeZone } from "@shared/timezone";
+import { clockedMinutes } from "./timeclock";
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+// Barbers with no rule saved yet are paid nothing until the owner sets one
+const noRule = { payType: "commission", serviceRate: "0", retailRate: "0", tipsPassThrough: true, boothRent: "0", hourlyRate: "0" };
+
+// Days in a period, both ends included. "YYYY-MM-DD" strings parse as UTC
+// midnight, so daylight saving can't shorten or stretch the count.
+function periodDays(from: string, to: string): number {
+  return (Date.parse(to) - Date.parse(from)) / dayMs + 1;
+}
+
+// The period's first moment and the moment after its last day, on the shop's clock
+export function payPeriodBounds(
+  from: string,
+  to: string,
+  timeZone: TimeZone,
+): { since: Date; until: Date } {
+  return {
+    since: startOfCalendarDate(from, timeZone),
+    until: addCalendarDays(startOfCalendarDate(to, timeZone), 1, timeZone),
+  };
+}
+
+interface Earnings {
+  salesCount: number;
+  serviceCents: number;
+  retailCents: number;
+  tipCents: number;
+}
+
+// Pay is worked out from what each sale brought in after discounts, before
+// tax. A refund takes back the same share of every line and the tip, so a
+// half-refunded sale earns half the commission; voided sales earn nothing.
+// Clocked hours are paid at the barber's hourly rate on top.
+export function buildPayrollReport(
+  period: { from: string; to: string },
+  barbers: Barber[],
+  rules: CommissionRule[],
+  sales: (Transaction & { items: TransactionItem[] })[],
+  shifts: TimeEntry[] = [],
+): PayrollReport {
+  const earnings = new Map<string | null, Earnings>();
+  const known = new Set(barbers.map((barber) => barber.name));
+
+  for (const sale of sales) {
+    const totalCents = toCents(sale.total);
+    const kept = totalCents > 0 ? netSaleCents(sale) / totalCents : sale.status === "voided" ? 0 : 1;
+    if (kept <= 0) continue;
+
+    const key = sale.barber && known.has(sale.barber) ? sale.barber : null;
+    const entry = earnings.get(key) ?? { salesCount: 0, serviceCents: 0, retailCents: 0, tipCents: 0 };
+    entry.salesCount += 1;
+    for (const item of sale.items) {
+      const netCents = Math.round((lineTotalCents(item) - toCents(item.discount ?? 0)) * kept);
+      if (item.productId) {
+        entry.retailCents += netCents;
+      } else {
+        entry.serviceCents += netCents;
+      }
+    }
+    entry.tipCents += Math.round(toCents(sale.tip ?? 0) * kept);
+    earnings.set(key, entry);
+  }
+
+  const days = periodDays(period.from, period.to);
+  const minutes = clockedMinutes(shifts);
+  const rows: PayrollRow[] = barbers.map((barber) => {
+    const rule = rules.find((candidate) => candidate.barberId === barber.id) ?? noRule;
+    const entry = earnings.get(barber.name) ?? { salesCount: 0, serviceCents: 0, retailCents: 0, tipCents: 0 };
+    const boothRenter = rule.payType === "booth_rent";
+    // Booth renters keep all of their service takings
+    const serviceCommission = boothRenter
+      ? entry.serviceCents
+      : Math.round(entry.serviceCents * Number(rule.serviceRate) / 100);
+    const retailCommission = Math.round(entry.retailCents * Number(rule.retailRate) / 100);
+    const tipsPaid = rule.tipsPassThrough ? entry.tipCents : 0;
+    const boothRent = boothRenter ? Math.round(toCents(rule.boothRent) * days / 7) : 0;
+    const workedMinutes = minutes.get(barber.id) ?? 0;
+    // Booth renters work for themselves, so their hours aren't paid
+    const hourlyPay = boothRenter ? 0 : Math.round(toCents(rule.hourlyRate) * workedMinutes / 60);
+    return {
+      barberId: barber.id,
+      barber: barber.name,
+      payType: rule.payType,
+      salesCount: entry.salesCount,
+      serviceSales: fromCents(entry.serviceCents),
+      retailSales: fromCents(entry.retailCents),
+      tips: fromCents(entry.tipCents),
+      hours: hoursLabel(workedMinutes),
+      hourlyPay: fromCents(hourlyPay),
+      serviceCommission: fromCents(serviceCommission),
+      retailCommission: fromCents(retailCommission),
+      tipsPaid: fromCents(tipsPaid),
+      boothRent: fromCents(boothRent),
+      totalPay: fromCents(hourlyPay + serviceCommission + retailCommission + tipsPaid - boothRent),
+    };
+  });
+
+  const unassigned = earnings.get(null);
+  if (unassigned) {
+    rows.push({
+      barberId: null,
+      barber: "Unassigned",
+      payType: "",
+      salesCount: unassigned.salesCount,
+      serviceSales: fromCents(unassigned.serviceCents),
+      retailSales: fromCents(unassigned.retailCents),
+      tips: fromCents(unassigned.tipCents),
+      hours: "0.00",
+      hourlyPay: "0.00",
+      serviceCommission: "0.00",
+      retailCommission: "0.00",
+      tipsPaid: "0.00",
+      boothRent: "0.00",
+      totalPay: "0.00",
+    });
+  }
+  return { ...period, rows };
+}
+
+const csvColumns: [keyof PayrollRow, string][] = [
+  ["barber", "Barber"],
+  ["payType", "Pay type"],
+  ["salesCount", "Sales"],
+  ["serviceSales", "Service sales"],
+  ["retailSales", "Retail sales"],
+  ["tips", "Tips"],
+  ["hours", "Hours"],
+  ["hourlyPay", "Hourly pay"],
+  ["serviceCommission", "Service pay"],
+  ["retailCommission", "Retail commission"],
+  ["tipsPaid", "Tips paid"],
+  ["boothRent", "Booth rent"],
+  ["totalPay", "Total pay"],
+];
+
+// Spreadsheets run a cell starting with = + - or @ as a formula, and a
+// leading tab or carriage return can hide one, so a barber named
+// "=HYPERLINK(...)" is written as text. Amounts like "-150.00" stay numbers.
+function csvField(value: unknown) {
+  let text = String(value ?? "");
+  if (/^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function payrollCsv(report: PayrollReport): string {
+  const lines = [
+    csvColumns.map(([, label]) => csvField(label)).join(","),
+    ...report.rows.map((row) => csvColumns.map(([key]) => csvField(row[key])).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
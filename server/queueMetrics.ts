@@ -0,0 +1,80 @@
+import type { Queue, QueueStatus, QueueTimesReport, QueueTimesRow, Service } from "@shared/schema";
+import { calendarDate, type TimeZone } from "@shared/timezone";
+
+type QueueTimes = Pick<Queue, "startedAt" | "completedAt" | "leftAt">;
+
+// The timestamps a status change stamps or clears. Nothing changes when the
+// status stays the same, so a repeated click doesn't move the times.
+export function queueStatusTimes(current: Queue, status: QueueStatus, now: Date): Partial<QueueTimes> {
+  if (current.status === status) return {};
+  switch (status) {
+    case "waiting":
+      // Back in line: the visit hasn't really started
+      return { startedAt: null, completedAt: null, leftAt: null };
+    case "in_progress":
+      return { startedAt: now, completedAt: null, leftAt: null };
+    case "completed":
+      return { completedAt: now, leftAt: null };
+    case "no_show":
+    case "left":
+      return { leftAt: now, completedAt: null };
+  }
+}
+
+const minutesBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000;
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+function summarize(key: string, label: string, items: Queue[]): QueueTimesRow {
+  const waits = items
+    .filter((item) => item.joinedAt && item.startedAt)
+    .map((item) => minutesBetween(item.joinedAt!, item.startedAt!));
+  const services = items
+    .filter((item) => item.status === "completed" && item.startedAt && item.completedAt)
+    .map((item) => minutesBetween(item.startedAt!, item.completedAt!));
+  return {
+    key,
+    label,
+    joined: items.length,
+    served: items.filter((item) => item.status === "completed").length,
+    walkouts: items.filter((item) => item.status === "no_show" || item.status === "left").length,
+    averageWait: average(waits),
+    longestWait: waits.length > 0 ? Math.round(Math.max(...waits)) : null,
+    averageService: average(services),
+  };
+}
+
+function groupBy(items: Queue[], keyOf: (item: Queue) => string): Map<string, Queue[]> {
+  const groups = new Map<string, Queue[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  return groups;
+}
+
+// How long walk-ins who joined in the period really waited and how long they
+// spent in the chair, by day, barber and service. Wait runs from joining to
+// sitting down; service time only counts visits that were finished. Days are
+// the shop's calendar days, like the period bounds.
+export function buildQueueTimesReport(
+  period: { from: string; to: string },
+  items: Queue[],
+  services: Service[],
+  timeZone: TimeZone,
+): QueueTimesReport {
+  const serviceName = (id: number) => services.find((service) => service.id === id)?.name ?? "Deleted service";
+
+  const days = Array.from(groupBy(items, (item) => calendarDate(item.joinedAt ?? new Date(), timeZone)))
+    .map(([day, dayItems]) => summarize(day, day, dayItems))
+    .sort((a, b) => a.key.localeCompare(b.key));
+  const barbers = Array.from(groupBy(items, (item) => item.barber ?? ""))
+    .map(([barber, barberItems]) => summarize(barber, barber || "Unassigned", barberItems))
+    .sort((a, b) => (a.key === "" ? 1 : b.key === "" ? -1 : a.label.localeCompare(b.label)));
+  const byService = Array.from(groupBy(items, (item) => String(item.serviceId)))
+    .map(([id, serviceItems]) => summarize(id, serviceName(parseInt(id)), serviceItems))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  return { from: period.from, to: period.to, days, barbers, services: byService };
+}
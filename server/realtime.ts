@@ -0,0 +1,54 @@
+import type { Response } from "express";
+import type { ChangeTopic } from "@shared/schema";
+import type { ShopContext } from "./auth";
+
+// Server-sent events: each open dashboard tab (and lobby display) holds one
+// stream and is told when shop data changes. Events only name what changed; tabs refetch it
+// through the normal routes, so each role still sees only what it may.
+// Streams live in this process, which is fine for the single server the app
+// runs on.
+
+interface Subscriber {
+  res: Response;
+  locationId: number | null;
+}
+
+const subscribers = new Map<string, Set<Subscriber>>();
+
+// Proxies close streams that go quiet
+const heartbeatMs = 25 * 1000;
+
+export function subscribeToChanges(shop: Pick<ShopContext, "id" | "locationId">, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 3000\n\n");
+
+  const subscriber: Subscriber = { res, locationId: shop.locationId };
+  const shopSubscribers = subscribers.get(shop.id) ?? new Set();
+  shopSubscribers.add(subscriber);
+  subscribers.set(shop.id, shopSubscribers);
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), heartbeatMs);
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    shopSubscribers.delete(subscriber);
+    if (shopSubscribers.size === 0) subscribers.delete(shop.id);
+  });
+}
+
+// Tells the shop's tabs working at a location that something changed there.
+// Leave the location out for shop-wide data such as customers.
+export function publishChange(shopId: string, topic: ChangeTopic, locationId?: number | null) {
+  const shopSubscribers = subscribers.get(shopId);
+  if (!shopSubscribers) return;
+  const message = `event: change\ndata: ${JSON.stringify({ topic })}\n\n`;
+  shopSubscribers.forEach((subscriber) => {
+    if (locationId === undefined || subscriber.locationId === locationId) {
+      subscriber.res.write(message);
+    }
+  });
+}
@@ -0,0 +1,350 @@
+import type { Customer, Location, TransactionWithItems, User } from "@shared/schema";
+import { fromCents, lineTotalCents, toCents } from "@shared/pricing";
+import type { MailMessage } from "./mailer";
+import { storage } from "./storage";
+
+// A sale laid out for the customer: what the shop is, what was bought and
+// how it was paid for. Every rendering below works from this.
+export interface Receipt {
+  number: string | null; // null on sales from before receipts were numbered
+  saleId: number;
+  soldAt: string;
+  shopName: string;
+  locationName: string | null;
+  logoUrl: string | null;
+  address: string | null;
+  phone: string | null;
+  customerName: string | null;
+  customerEmail: string | null;
+  lines: { name: string; quantity: number; unitPrice: string; amount: string; discount: string | null }[];
+  subtotal: string;
+  discountTotal: string;
+  taxTotal: string;
+  tip: string;
+  total: string;
+  payments: { label: string; amount: string; tendered: string | null; change: string | null }[];
+  refundedTotal: string | null;
+  status: string;
+}
+
+export function formatReceiptNumber(receiptNumber: number): string {
+  return String(receiptNumber).padStart(6, "0");
+}
+
+export function buildReceipt(
+  sale: TransactionWithItems,
+  shop: User | undefined,
+  location?: Location,
+  customer?: Customer,
+): Receipt {
+  const lines = sale.items.map((item) => {
+    const quantity = item.quantity ?? 1;
+    const discountCents = toCents(item.discount ?? 0);
+    return {
+      name: item.name,
+      quantity,
+      unitPrice: item.price,
+      amount: fromCents(lineTotalCents(item)),
+      discount: discountCents > 0 ? fromCents(discountCents) : null,
+    };
+  });
+  const subtotalCents = lines.reduce((sum, line) => sum + toCents(line.amount), 0);
+  const refundedCents = toCents(sale.refundedTotal ?? 0);
+
+  return {
+    number: sale.receiptNumber ? formatReceiptNumber(sale.receiptNumber) : null,
+    saleId: sale.id,
+    soldAt: (sale.createdAt ?? new Date()).toLocaleString("en-US", {
+      dateStyle: "medium",
+      timeStyle: "short",
+      timeZone: shop?.timezone ?? undefined,
+    }),
+    shopName: shop?.barbershopName || location?.name || "Receipt",
+    locationName: location && location.name !== shop?.barbershopName ? location.name : null,
+    logoUrl: shop?.logoUrl ?? null,
+    address: (location ? location.address : shop?.address) ?? null,
+    phone: (location ? location.phone : shop?.phone) ?? null,
+    customerName: customer?.name ?? null,
+    customerEmail: customer?.email ?? null,
+    lines,
+    subtotal: sale.subtotal ?? fromCents(subtotalCents),
+    discountTotal: sale.discountTotal ?? "0.00",
+    taxTotal: sale.taxTotal ?? "0.00",
+    tip: sale.tip ?? "0.00",
+    total: sale.total,
+    payments: sale.payments.map((payment) => ({
+      label: [
+        payment.method.charAt(0).toUpperCase() + payment.method.slice(1),
+        payment.reference,
+        payment.status === "captured" ? null : `(${payment.status})`,
+      ].filter(Boolean).join(" "),
+      amount: payment.amount,
+      tendered: payment.tendered,
+      change: payment.change && toCents(payment.change) > 0 ? payment.change : null,
+    })),
+    refundedTotal: refundedCents > 0 ? fromCents(refundedCents) : null,
+    status: sale.status ?? "completed",
+  };
+}
+
+// Gathers everything a receipt shows; undefined when the sale isn't the shop's
+export async function loadReceipt(transactionId: number, userId: string): Promise<Receipt | undefined> {
+  const sale = await storage.getTransaction(transactionId, userId);
+  if (!sale) return undefined;
+  const shop = await storage.getUser(userId);
+  const location = sale.locationId ? await storage.getLocation(sale.locationId, userId) : undefined;
+  const customer = sale.customerId ? await storage.getCustomer(sale.customerId, userId) : undefined;
+  return buildReceipt(sale, shop, location, customer);
+}
+
+function receiptTitle(receipt: Receipt) {
+  return receipt.number ? `Receipt #${receipt.number}` : `Sale #${receipt.saleId}`;
+}
+
+function money(amount: string) {
+  return `$${amount}`;
+}
+
+// Plain text layout
+
+interface TextLine {
+  text: string;
+  emphasis?: boolean;
+}
+
+// Thermal printers and the PDF's built-in font only cover ASCII
+function toAscii(text: string) {
+  return text.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").replace(/[^\x20-\x7e]/g, "?");
+}
+
+function wrap(text: string, width: number): string[] {
+  const wrapped: string[] = [];
+  let current = "";
+  for (const word of toAscii(text).split(/\s+/).filter(Boolean)) {
+    for (let start = 0; start < word.length; start += width) {
+      const piece = word.slice(start, start + width);
+      if (current && current.length + 1 + piece.length > width) {
+        wrapped.push(current);
+        current = piece;
+      } else {
+        current = current ? `${current} ${piece}` : piece;
+      }
+    }
+  }
+  if (current) wrapped.push(current);
+  return wrapped;
+}
+
+function centered(text: string, width: number): string[] {
+  return wrap(text, width).map((line) => " ".repeat(Math.floor((width - line.length) / 2)) + line);
+}
+
+// Label on the left, amount on the right; a label too long for the row gets
+// rows of its own above the amount
+function row(label: string, amount: string, width: number): string[] {
+  const room = width - amount.length - 1;
+  const indent = label.length - label.trimStart().length;
+  const labels = wrap(label, room - indent).map((text) => " ".repeat(indent) + text);
+  const last = labels.pop() ?? "";
+  return [...labels, last.padEnd(room) + " " + amount];
+}
+
+function receiptTextLines(receipt: Receipt, width: number): TextLine[] {
+  const rule = "-".repeat(width);
+  const lines: TextLine[] = [];
+  const add = (texts: string[], emphasis = false) => lines.push(...texts.map((text) => ({ text, emphasis })));
+
+  add(centered(receipt.shopName, width), true);
+  if (receipt.locationName) add(centered(receipt.locationName, width));
+  for (const part of (receipt.address ?? "").split("\n")) add(centered(part, width));
+  if (receipt.phone) add(centered(receipt.phone, width));
+  add([rule, toAscii(receiptTitle(receipt)), toAscii(receipt.soldAt)]);
+  if (receipt.customerName) add(wrap(`Customer: ${receipt.customerName}`, width));
+  add([rule]);
+
+  for (const line of receipt.lines) {
+    const label = line.quantity > 1 ? `${line.quantity} x ${line.name}` : line.name;
+    add(row(label, line.amount, width));
+    if (line.discount) add(row("  Discount", `-${line.discount}`, width));
+  }
+  add([rule]);
+  add(row("Subtotal", receipt.subtotal, width));
+  if (toCents(receipt.discountTotal) > 0) add(row("Discounts", `-${receipt.discountTotal}`, width));
+  if (toCents(receipt.taxTotal) > 0) add(row("Tax", receipt.taxTotal, width));
+  if (toCents(receipt.tip) > 0) add(row("Tip", receipt.tip, width));
+  add(row("TOTAL", money(receipt.total), width), true);
+
+  if (receipt.payments.length > 0) {
+    add([rule]);
+    for (const payment of receipt.payments) {
+      add(row(payment.label, payment.tendered ?? payment.amount, width));
+      if (payment.change) add(row("  Change", payment.change, width));
+    }
+  }
+  if (receipt.refundedTotal) add(row("Refunded", `-${receipt.refundedTotal}`, width), true);
+  if (receipt.status === "voided") add(centered("*** VOIDED ***", width), true);
+
+  add(["", ...centered("Thank you!", width)]);
+  return lines;
+}
+
+export function renderReceiptText(receipt: Receipt, width = 42): string {
+  return receiptTextLines(receipt, width).map((line) => line.text).join("\n") + "\n";
+}
+
+// ESC/POS for thermal printers: 42 columns fits 80mm paper, 32 fits 58mm
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+export function renderReceiptEscPos(receipt: Receipt, width = 42): Buffer {
+  const bytes: number[] = [ESC, 0x40]; // reset the printer
+  for (const line of receiptTextLines(receipt, width)) {
+    if (line.emphasis) bytes.push(ESC, 0x45, 1);
+    for (const char of line.text + "\n") bytes.push(char.charCodeAt(0));
+    if (line.emphasis) bytes.push(ESC, 0x45, 0);
+  }
+  bytes.push(ESC, 0x64, 4); // feed past the cutter
+  bytes.push(GS, 0x56, 1); // partial cut
+  return Buffer.from(bytes);
+}
+
+// A single page PDF sized to 80mm receipt paper, set in Courier so it lines
+// up exactly like the printed receipt
+
+function pdfString(text: string) {
+  return `(${text.replace(/[\\()]/g, (char) => `\\${char}`)})`;
+}
+
+export function renderReceiptPdf(receipt: Receipt): Buffer {
+  const columns = 42;
+  const fontSize = 8;
+  const leading = 10;
+  const margin = 14;
+  const lines = receiptTextLines(receipt, columns);
+  const pageWidth = Math.ceil(columns * fontSize * 0.6 + margin * 2); // Courier is 0.6em wide
+  const pageHeight = lines.length * leading + margin * 2;
+
+  const content = [
+    "BT",
+    `${leading} TL`,
+    `${margin} ${pageHeight - margin - fontSize} Td`,
+    ...lines.map((line) => `/${line.emphasis ? "F2" : "F1"} ${fontSize} Tf ${pdfString(line.text)} Tj T*`),
+    "ET",
+  ].join("\n");
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      "/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold >>",
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  // Everything is ASCII, so string lengths are byte offsets
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "ascii");
+}
+
+// Printable HTML, used for the browser's print dialog and as the email body
+
+function escapeHtml(text: string) {
+  return text.replace(/[&<>"']/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]!);
+}
+
+export function renderReceiptHtml(receipt: Receipt, { autoPrint = false } = {}): string {
+  const amountRow = (label: string, amount: string, className = "") =>
+    `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="amount">${escapeHtml(amount)}</td></tr>`;
+
+  const header = [
+    receipt.logoUrl ? `<img class="logo" src="${escapeHtml(receipt.logoUrl)}" alt="">` : "",
+    `<h1>${escapeHtml(receipt.shopName)}</h1>`,
+    receipt.locationName ? `<div>${escapeHtml(receipt.locationName)}</div>` : "",
+    receipt.address ? `<div>${escapeHtml(receipt.address).replace(/\n/g, "<br>")}</div>` : "",
+    receipt.phone ? `<div>${escapeHtml(receipt.phone)}</div>` : "",
+  ].join("");
+  const items = receipt.lines.map((line) => [
+    amountRow(line.quantity > 1 ? `${line.quantity} × ${line.name} @ ${money(line.unitPrice)}` : line.name, money(line.amount)),
+    line.discount ? amountRow("Discount", `-${money(line.discount)}`, "detail") : "",
+  ].join("")).join("");
+  const totals = [
+    amountRow("Subtotal", money(receipt.subtotal)),
+    toCents(receipt.discountTotal) > 0 ? amountRow("Discounts", `-${money(receipt.discountTotal)}`) : "",
+    toCents(receipt.taxTotal) > 0 ? amountRow("Tax", money(receipt.taxTotal)) : "",
+    toCents(receipt.tip) > 0 ? amountRow("Tip", money(receipt.tip)) : "",
+    amountRow("Total", money(receipt.total), "total"),
+  ].join("");
+  const payments = receipt.payments.map((payment) => [
+    amountRow(payment.label, money(payment.tendered ?? payment.amount)),
+    payment.change ? amountRow("Change", money(payment.change), "detail") : "",
+  ].join("")).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(receiptTitle(receipt))} - ${escapeHtml(receipt.shopName)}</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; font-size: 14px; color: #111; margin: 0; }
+  .receipt { max-width: 320px; margin: 24px auto; padding: 0 12px; }
+  header { text-align: center; margin-bottom: 12px; }
+  .logo { max-width: 120px; max-height: 80px; }
+  h1 { font-size: 18px; margin: 6px 0; }
+  .meta { border-top: 1px dashed #999; border-bottom: 1px dashed #999; padding: 6px 0; margin-bottom: 8px; }
+  table { width: 100%; border-collapse: collapse; }
+  td { padding: 2px 0; vertical-align: top; }
+  .amount { text-align: right; white-space: nowrap; padding-left: 8px; }
+  .detail td { color: #555; font-size: 12px; padding-left: 12px; }
+  tbody + tbody { border-top: 1px dashed #999; }
+  .total td { font-weight: bold; font-size: 16px; }
+  .notice { text-align: center; font-weight: bold; margin-top: 8px; }
+  footer { text-align: center; margin-top: 16px; }
+  @media print { .receipt { margin: 0 auto; } @page { margin: 8mm; } }
+</style>
+</head>
+<body>
+<div class="receipt">
+  <header>${header}</header>
+  <div class="meta">
+    <div>${escapeHtml(receiptTitle(receipt))}</div>
+    <div>${escapeHtml(receipt.soldAt)}</div>
+    ${receipt.customerName ? `<div>Customer: ${escapeHtml(receipt.customerName)}</div>` : ""}
+  </div>
+  <table>
+    <tbody>${items}</tbody>
+    <tbody>${totals}</tbody>
+    ${payments ? `<tbody>${payments}</tbody>` : ""}
+  </table>
+  ${receipt.refundedTotal ? `<div class="notice">Refunded ${money(receipt.refundedTotal)}</div>` : ""}
+  ${receipt.status === "voided" ? `<div class="notice">VOIDED</div>` : ""}
+  <footer>Thank you!</footer>
+</div>
+${autoPrint ? "<script>window.addEventListener('load', () => window.print());</script>" : ""}
+</body>
+</html>
+`;
+}
+
+export function receiptEmail(receipt: Receipt, to: string): MailMessage {
+  return {
+    to,
+    subject: `Your receipt from ${receipt.shopName}`,
+    text: renderReceiptText(receipt),
+    html: renderReceiptHtml(receipt),
+    attachments: [{
+      filename: `receipt-${receipt.number ?? receipt.saleId}.pdf`,
+      content: renderReceiptPdf(receipt),
+      contentType: "application/pdf",
+    }],
+  };
+}
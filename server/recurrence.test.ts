@@ -0,0 +1,125 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Appointment } from "@shared/schema";
+import { wallClock } from "@shared/timezone";
+import { generateOccurrences, moveSeries, type Occurrence } from "./recurrence";
+
+const minutes = 60000;
+const bookAll = () => true;
+
+function visit(startTime: string, length = 30): Occurrence {
+  const start = new Date(startTime);
+  return { startTime: start, endTime: new Date(start.getTime() + length * minutes) };
+}
+
+const isoTimes = (occurrences: Occurrence[]) => occurrences.map((occurrence) => occurrence.startTime.toISOString());
+
+describe("generateOccurrences", () => {
+  test("every other Tuesday keeps 10am on the shop's clock across daylight saving", () => {
+    // 10am EST; New York moves its clocks forward on March 8
+    const { occurrences } = generateOccurrences(
+      visit("2026-02-24T15:00:00Z"),
+      { frequency: "weekly", interval: 2, count: 4 },
+      bookAll,
+      "America/New_York",
+    );
+    assert.deepEqual(isoTimes(occurrences), [
+      "2026-02-24T15:00:00.000Z",
+      "2026-03-10T14:00:00.000Z",
+      "2026-03-24T14:00:00.000Z",
+      "2026-04-07T14:00:00.000Z",
+    ]);
+    for (const { startTime, endTime } of occurrences) {
+      const clock = wallClock(startTime, "America/New_York");
+      assert.equal(clock.weekday, 2);
+      assert.equal(clock.hour, 10);
+      assert.equal(endTime.getTime() - startTime.getTime(), 30 * minutes);
+    }
+  });
+
+  test("dates that can't be booked are skipped and don't count", () => {
+    const closed = "2026-03-10T10:00:00.000Z";
+    const { occurrences, skipped } = generateOccurrences(
+      visit("2026-03-03T10:00:00Z"),
+      { frequency: "weekly", interval: 1, count: 3 },
+      (occurrence) => occurrence.startTime.toISOString() !== closed,
+      "UTC",
+    );
+    assert.deepEqual(isoTimes(occurrences), [
+      "2026-03-03T10:00:00.000Z",
+      "2026-03-17T10:00:00.000Z",
+      "2026-03-24T10:00:00.000Z",
+    ]);
+    assert.deepEqual(skipped.map((date) => date.toISOString()), [closed]);
+  });
+
+  test("stops at the end date, which is included", () => {
+    const { occurrences } = generateOccurrences(
+      visit("2026-03-03T10:00:00Z"),
+      { frequency: "weekly", interval: 1, until: new Date("2026-03-24T10:00:00Z") },
+      bookAll,
+      "UTC",
+    );
+    assert.equal(occurrences.length, 4);
+  });
+
+  test("monthly visits on the 31st fall on the last day of shorter months", () => {
+    const { occurrences } = generateOccurrences(
+      visit("2026-01-31T16:00:00Z"),
+      { frequency: "monthly", interval: 1, count: 4 },
+      bookAll,
+      "UTC",
+    );
+    assert.deepEqual(isoTimes(occurrences), [
+      "2026-01-31T16:00:00.000Z",
+      "2026-02-28T16:00:00.000Z",
+      "2026-03-31T16:00:00.000Z",
+      "2026-04-30T16:00:00.000Z",
+    ]);
+  });
+
+  test("a series can't run past 52 visits or a year", () => {
+    const farFuture = new Date("2030-01-01T00:00:00Z");
+    const weekly = generateOccurrences(visit("2026-01-06T10:00:00Z"), { frequency: "weekly", interval: 1, until: farFuture }, bookAll, "UTC");
+    assert.equal(weekly.occurrences.length, 52);
+
+    const monthly = generateOccurrences(visit("2026-01-15T10:00:00Z"), { frequency: "monthly", interval: 1, until: farFuture }, bookAll, "UTC");
+    assert.equal(monthly.occurrences.length, 13);
+
+    // However many dates are skipped, it gives up at the year's end
+    const never = generateOccurrences(visit("2026-01-06T10:00:00Z"), { frequency: "weekly", interval: 1, count: 2 }, () => false, "UTC");
+    assert.equal(never.occurrences.length, 0);
+    assert.equal(never.skipped.length, 53);
+  });
+});
+
+describe("moveSeries", () => {
+  function appointment(id: number, startTime: string): Appointment {
+    const { startTime: start, endTime } = visit(startTime);
+    return {
+      id, userId: "shop", locationId: null, customerId: 1, serviceId: 1, barber: "Sam", startTime: start, endTime,
+      status: "scheduled", notes: null, seriesId: 1, createdAt: null, updatedAt: null,
+    };
+  }
+
+  const members = [appointment(1, "2026-03-03T10:00:00Z"), appointment(2, "2026-03-10T10:00:00Z"), appointment(3, "2026-03-17T10:00:00Z")];
+
+  test("shifts every member by the moved visit's offset and gives them its new length", () => {
+    const moved = moveSeries(members[1], members, {
+      startTime: new Date("2026-03-11T11:00:00Z"),
+      endTime: new Date("2026-03-11T11:45:00Z"),
+    });
+    assert.deepEqual(isoTimes(moved), [
+      "2026-03-04T11:00:00.000Z",
+      "2026-03-11T11:00:00.000Z",
+      "2026-03-18T11:00:00.000Z",
+    ]);
+    assert.ok(moved.every(({ startTime, endTime }) => endTime.getTime() - startTime.getTime() === 45 * minutes));
+  });
+
+  test("changing only the end time keeps the start times", () => {
+    const moved = moveSeries(members[0], members, { endTime: new Date("2026-03-03T11:00:00Z") });
+    assert.deepEqual(isoTimes(moved), members.map((member) => member.startTime.toISOString()));
+    assert.ok(moved.every(({ startTime, endTime }) => endTime.getTime() - startTime.getTime() === 60 * minutes));
+  });
+});
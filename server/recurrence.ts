@@ -0,0 +1,69 @@
+import type { Appointment, InsertAppointment, RecurrenceRule } from "@shared/schema";
+import { addCalendarDays, wallClock, zonedTime, type TimeZone } from "@shared/timezone";
+
+// Hard limits so a typo can't fill the calendar for years
+const maxOccurrences = 52;
+const maxSeriesLengthDays = 366;
+// Dates tried before giving up, however many of them had to be skipped
+const maxAttempts = maxOccurrences * 4;
+
+export interface Occurrence {
+  startTime: Date;
+  endTime: Date;
+}
+
+// Calendar arithmetic on the shop's clock keeps the wall-clock time across
+// daylight saving changes. The 31st becomes the last day of shorter months.
+function addMonthsClamped(date: Date, months: number, timeZone: TimeZone): Date {
+  const { year, month, day, hour, minute } = wallClock(date, timeZone);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return zonedTime(year, month + months, Math.min(day, lastDay), hour, minute, timeZone);
+}
+
+// Expand a recurrence rule into concrete appointment times. Dates that can't
+// be booked are dropped and reported in `skipped`; they don't count towards
+// the rule's number of occurrences.
+export function generateOccurrences(
+  first: Occurrence,
+  rule: RecurrenceRule,
+  canBook: (occurrence: Occurrence) => boolean,
+  timeZone: TimeZone,
+): { occurrences: Occurrence[]; skipped: Date[] } {
+  const duration = first.endTime.getTime() - first.startTime.getTime();
+  const lastAllowed = new Date(first.startTime.getTime() + maxSeriesLengthDays * 24 * 60 * 60000);
+  const until = rule.until && rule.until < lastAllowed ? rule.until : lastAllowed;
+  const count = Math.min(rule.count ?? maxOccurrences, maxOccurrences);
+
+  const occurrences: Occurrence[] = [];
+  const skipped: Date[] = [];
+  for (let index = 0; occurrences.length < count && index < maxAttempts; index++) {
+    const startTime = rule.frequency === "monthly"
+      ? addMonthsClamped(first.startTime, index * rule.interval, timeZone)
+      : addCalendarDays(first.startTime, index * rule.interval * 7, timeZone);
+    if (startTime > until) break;
+
+    const occurrence = { startTime, endTime: new Date(startTime.getTime() + duration) };
+    if (canBook(occurrence)) {
+      occurrences.push(occurrence);
+    } else {
+      skipped.push(startTime);
+    }
+  }
+
+  return { occurrences, skipped };
+}
+
+// Where each member of a series lands when one of them is moved: everyone
+// shifts by the same offset and takes the new length
+export function moveSeries(
+  anchor: Appointment,
+  members: Appointment[],
+  change: Pick<Partial<InsertAppointment>, "startTime" | "endTime">,
+): Occurrence[] {
+  const shift = change.startTime ? change.startTime.getTime() - anchor.startTime.getTime() : 0;
+  const duration = (change.endTime ?? anchor.endTime).getTime() - (change.startTime ?? anchor.startTime).getTime();
+  return members.map((member) => {
+    const startTime = new Date(member.startTime.getTime() + shift);
+    return { startTime, endTime: new Date(startTime.getTime() + duration) };
+  });
+}
@@ -0,0 +1,183 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Refund, TransactionPayment, TransactionWithItems } from "@shared/schema";
+import {
+  assertVoidable,
+  planRefund,
+  refundsThroughProcessor,
+  saleAfterRefunds,
+  saleStatusAfterPayments,
+  TransactionAdjustmentError,
+} from "./refunds";
+
+function payment(id: number, method: string, amount: string, changes: Partial<TransactionPayment> = {}): TransactionPayment {
+  return {
+    id, transactionId: 1, method, amount, tendered: null, change: "0", reference: null,
+    provider: null, providerPaymentId: null, status: "captured", createdAt: new Date(), ...changes,
+  };
+}
+
+function refund(amount: string, paymentMethod: string, transactionPaymentId: number | null): Refund {
+  return {
+    id: 1, userId: "shop", transactionId: 1, amount, paymentMethod, transactionPaymentId, providerRefundId: null,
+    status: "completed", idempotencyKey: null, reason: "Returned", refundedBy: null, createdAt: new Date(),
+  };
+}
+
+// A $33.00 sale: a discounted, taxed cut ($19.62) and two jars of pomade
+// ($13.38), paid $20 by card and $13 in cash
+function sale(changes: Partial<TransactionWithItems> = {}): TransactionWithItems {
+  return {
+    id: 1, userId: "shop", locationId: null, customerId: null, appointmentId: null, barber: null, receiptNumber: 1,
+    subtotal: "33.38", discountTotal: "2.00", taxTotal: "1.62", tip: "0", total: "33.00",
+    paymentMethod: "split", status: "completed", refundedTotal: "0", voidReason: null, voidedAt: null,
+    createdAt: new Date(),
+    items: [
+      {
+        id: 1, transactionId: 1, serviceId: 1, productId: null, quantity: 1, price: "20.00",
+        discount: "2.00", taxable: true, tax: "1.62", name: "Cut", refundedQuantity: 0,
+      },
+      {
+        id: 2, transactionId: 1, serviceId: null, productId: 1, quantity: 2, price: "6.69",
+        discount: "0", taxable: false, tax: "0", name: "Pomade", refundedQuantity: 0,
+      },
+    ],
+    payments: [payment(10, "card", "20.00"), payment(11, "cash", "13.00")],
+    refunds: [],
+    ...changes,
+  };
+}
+
+const refused = (message: string) => (error: unknown) =>
+  error instanceof TransactionAdjustmentError && error.message === message;
+
+describe("planRefund", () => {
+  test("a full refund returns every line, card before cash", () => {
+    assert.deepEqual(planRefund(sale(), { reason: "Unhappy" }), {
+      amount: "33.00",
+      items: [{ transactionItemId: 1, quantity: 1 }, { transactionItemId: 2, quantity: 2 }],
+      payments: [
+        { transactionPaymentId: 10, paymentMethod: "card", amount: "20.00" },
+        { transactionPaymentId: 11, paymentMethod: "cash", amount: "13.00" },
+      ],
+    });
+  });
+
+  test("a returned unit carries its share of the line's discount and tax", () => {
+    const plan = planRefund(sale(), { reason: "Returned", items: [{ transactionItemId: 2, quantity: 1 }] });
+    assert.equal(plan.amount, "6.69");
+    assert.deepEqual(plan.payments, [{ transactionPaymentId: 10, paymentMethod: "card", amount: "6.69" }]);
+
+    const threeCuts = sale({
+      items: [{ ...sale().items[0], quantity: 3, price: "10.00", discount: "1.00", tax: "0" }],
+    });
+    assert.equal(planRefund(threeCuts, { reason: "Returned", items: [{ transactionItemId: 1, quantity: 1 }] }).amount, "9.67");
+  });
+
+  test("an amount can be sent back to one payment method, up to what it paid", () => {
+    assert.deepEqual(planRefund(sale(), { reason: "Goodwill", amount: 5, paymentMethod: "cash" }).payments, [
+      { transactionPaymentId: 11, paymentMethod: "cash", amount: "5.00" },
+    ]);
+    assert.throws(
+      () => planRefund(sale(), { reason: "Goodwill", amount: 15, paymentMethod: "cash" }),
+      refused("At most $13.00 can go back to cash"),
+    );
+    assert.throws(
+      () => planRefund(sale(), { reason: "Goodwill", amount: 5, paymentMethod: "digital" }),
+      refused("Nothing paid by digital is left to refund on this sale"),
+    );
+  });
+
+  test("earlier refunds come off what is left on the sale and its payments", () => {
+    const cardRefunded = sale({ refundedTotal: "20.00", refunds: [refund("20.00", "card", 10)] });
+    assert.deepEqual(planRefund(cardRefunded, { reason: "Unhappy" }).payments, [
+      { transactionPaymentId: 11, paymentMethod: "cash", amount: "13.00" },
+    ]);
+
+    const mostlyRefunded = sale({ refundedTotal: "30.00", refunds: [refund("30.00", "card", null)] });
+    assert.throws(
+      () => planRefund(mostlyRefunded, { reason: "Goodwill", amount: 5 }),
+      refused("At most $3.00 can be refunded on this sale"),
+    );
+    // The cut is worth more than is left, so only the rest goes back
+    assert.equal(planRefund(mostlyRefunded, { reason: "Returned", items: [{ transactionItemId: 1, quantity: 1 }] }).amount, "3.00");
+  });
+
+  test("units already returned can't be returned again", () => {
+    const returned = sale({ items: sale().items.map((item) => ({ ...item, refundedQuantity: item.quantity ?? 1 })) });
+    assert.throws(
+      () => planRefund(returned, { reason: "Returned", items: [{ transactionItemId: 2, quantity: 1 }] }),
+      refused("Only 0 of Pomade can still be refunded"),
+    );
+    assert.throws(
+      () => planRefund(sale(), { reason: "Returned", items: [{ transactionItemId: 99, quantity: 1 }] }),
+      refused("That item isn't on this sale"),
+    );
+  });
+
+  test("a sale from before split payments refunds to its one method", () => {
+    const legacy = sale({ payments: [], paymentMethod: "cash" });
+    assert.deepEqual(planRefund(legacy, { reason: "Goodwill", amount: 4 }).payments, [
+      { transactionPaymentId: null, paymentMethod: "cash", amount: "4.00" },
+    ]);
+  });
+
+  test("voided, processing and fully refunded sales can't be refunded", () => {
+    assert.throws(() => planRefund(sale({ status: "voided" }), { reason: "x" }), refused("This sale was voided"));
+    assert.throws(
+      () => planRefund(sale({ status: "pending" }), { reason: "x" }),
+      refused("A card payment on this sale is still processing"),
+    );
+    assert.throws(
+      () => planRefund(sale({ status: "refunded", refundedTotal: "33.00" }), { reason: "x" }),
+      refused("This sale has already been fully refunded"),
+    );
+  });
+});
+
+describe("saleAfterRefunds", () => {
+  test("moves the sale from completed to partially refunded to refunded", () => {
+    assert.deepEqual(saleAfterRefunds(sale(), 0), { refundedTotal: "0.00", status: "completed" });
+    assert.deepEqual(saleAfterRefunds(sale(), 669), { refundedTotal: "6.69", status: "partially_refunded" });
+    assert.deepEqual(saleAfterRefunds(sale(), 3300), { refundedTotal: "33.00", status: "refunded" });
+  });
+});
+
+describe("assertVoidable", () => {
+  test("only voids sales rung up today on the shop's calendar", () => {
+    // 11pm on March 9 in New York, but already March 10 in UTC
+    const lateSale = sale({ createdAt: new Date("2026-03-10T03:00:00Z") });
+    const nextMorning = new Date("2026-03-10T05:00:00Z");
+    assert.throws(
+      () => assertVoidable(lateSale, "America/New_York", nextMorning),
+      refused("Only today's sales can be voided - refund it instead"),
+    );
+    assert.doesNotThrow(() => assertVoidable(lateSale, "UTC", nextMorning));
+    assert.doesNotThrow(() => assertVoidable(lateSale, "America/New_York", new Date("2026-03-10T03:30:00Z")));
+  });
+
+  test("won't void a sale with refunds or one already voided", () => {
+    assert.throws(() => assertVoidable(sale({ refundedTotal: "1.00" }), "UTC"), refused("A sale with refunds can't be voided"));
+    assert.throws(() => assertVoidable(sale({ status: "voided" }), "UTC"), refused("This sale has already been voided"));
+  });
+});
+
+describe("card payments", () => {
+  test("a sale waits for every slow payment and is voided if one fails", () => {
+    assert.equal(saleStatusAfterPayments([payment(1, "card", "10.00", { status: "pending" })]), undefined);
+    assert.deepEqual(saleStatusAfterPayments([payment(1, "card", "10.00"), payment(2, "cash", "5.00")]), { status: "completed" });
+
+    const failed = saleStatusAfterPayments(
+      [payment(1, "card", "10.00", { status: "failed" }), payment(2, "card", "5.00", { status: "pending" })],
+      "Card declined by the issuer",
+    );
+    assert.equal(failed?.status, "voided");
+    assert.equal(failed?.voidReason, "Card payment failed: Card declined by the issuer");
+  });
+
+  test("only payments a processor took are refunded through it", () => {
+    assert.equal(refundsThroughProcessor(payment(1, "card", "10.00", { provider: "mock", providerPaymentId: "mock_pay_1" })), true);
+    assert.equal(refundsThroughProcessor(payment(1, "card", "10.00")), false);
+    assert.equal(refundsThroughProcessor(undefined), false);
+  });
+});
@@ -0,0 +1,174 @@
+import type { RefundData, Transaction, TransactionPayment, TransactionWithItems } from "@shared/schema";
+import { fromCents, lineNetCents, toCents } from "@shared/pricing";
+import { calendarDate, type TimeZone } from "@shared/timezone";
+
+// Thrown when a refund or void isn't allowed on the sale as it stands
+export class TransactionAdjustmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TransactionAdjustmentError";
+  }
+}
+
+export interface RefundPlan {
+  amount: string;
+  items: { transactionItemId: number; quantity: number }[];
+  // Where the money goes back to, one entry per payment it comes off.
+  // Sales from before split payments have no payment rows to point at.
+  payments: { transactionPaymentId: number | null; paymentMethod: string; amount: string }[];
+}
+
+// Card payments a processor took have to be refunded through it; cash,
+// digital and keyed-in card payments are handed back at the counter
+export function refundsThroughProcessor(payment: TransactionPayment | undefined) {
+  return !!payment?.provider && !!payment.providerPaymentId;
+}
+
+// The sale's refunded total and status once refundedCents have gone back
+export function saleAfterRefunds(sale: Pick<Transaction, "total">, refundedCents: number): Pick<Transaction, "refundedTotal" | "status"> {
+  return {
+    refundedTotal: fromCents(refundedCents),
+    status: refundedCents >= toCents(sale.total)
+      ? "refunded"
+      : refundedCents > 0 ? "partially_refunded" : "completed",
+  };
+}
+
+// What is left to give back on each payment. Sales from before split payments
+// were paid in full by their one method.
+function refundablePayments(sale: TransactionWithItems) {
+  const payments = sale.payments.length > 0
+    ? sale.payments.map((payment) => ({ id: payment.id as number | null, method: payment.method, cents: toCents(payment.amount) }))
+    : [{ id: null, method: sale.paymentMethod, cents: toCents(sale.total) }];
+  for (const refund of sale.refunds) {
+    let cents = toCents(refund.amount);
+    // Refunds recorded before they were tied to a payment come off the
+    // first payments made by their method
+    const targets = refund.transactionPaymentId
+      ? payments.filter((payment) => payment.id === refund.transactionPaymentId)
+      : payments.filter((payment) => payment.method === refund.paymentMethod);
+    for (const payment of targets) {
+      const share = Math.min(cents, payment.cents);
+      payment.cents -= share;
+      cents -= share;
+    }
+  }
+  return payments;
+}
+
+// Card and digital payments are refunded before cash so the drawer only pays
+// out what was paid into it
+function allocateRefund(
+  sale: TransactionWithItems,
+  cents: number,
+  paymentMethod: string | undefined,
+): RefundPlan["payments"] {
+  let payments = refundablePayments(sale);
+  if (paymentMethod) {
+    payments = payments.filter((payment) => payment.method === paymentMethod);
+    const available = payments.reduce((sum, payment) => sum + payment.cents, 0);
+    if (available <= 0) {
+      throw new TransactionAdjustmentError(`Nothing paid by ${paymentMethod} is left to refund on this sale`);
+    }
+    if (cents > available) {
+      throw new TransactionAdjustmentError(`At most $${fromCents(available)} can go back to ${paymentMethod}`);
+    }
+  } else {
+    payments.sort((a, b) => Number(a.method === "cash") - Number(b.method === "cash"));
+  }
+
+  const plan: RefundPlan["payments"] = [];
+  let remaining = cents;
+  for (const payment of payments) {
+    const share = Math.min(remaining, payment.cents);
+    if (share > 0) {
+      plan.push({ transactionPaymentId: payment.id, paymentMethod: payment.method, amount: fromCents(share) });
+      remaining -= share;
+    }
+  }
+  return plan;
+}
+
+// Work out what a refund request gives back, checked against what has
+// already been refunded on the sale, pending card refunds included. Callers
+// hold the sale locked while they plan and record the refund.
+export function planRefund(sale: TransactionWithItems, request: RefundData): RefundPlan {
+  if (sale.status === "voided") {
+    throw new TransactionAdjustmentError("This sale was voided");
+  }
+  if (sale.status === "pending") {
+    throw new TransactionAdjustmentError("A card payment on this sale is still processing");
+  }
+  const remainingCents = toCents(sale.total) - toCents(sale.refundedTotal ?? 0);
+  if (remainingCents <= 0) {
+    throw new TransactionAdjustmentError("This sale has already been fully refunded");
+  }
+
+  if (request.amount !== undefined) {
+    const cents = toCents(request.amount);
+    if (cents > remainingCents) {
+      throw new TransactionAdjustmentError(`At most $${fromCents(remainingCents)} can be refunded on this sale`);
+    }
+    return { amount: fromCents(cents), items: [], payments: allocateRefund(sale, cents, request.paymentMethod) };
+  }
+
+  // Without a list of lines, everything not yet returned goes back
+  const requested = new Map<number, number>();
+  for (const line of request.items ?? sale.items.map((item) => ({ transactionItemId: item.id, quantity: (item.quantity ?? 1) - item.refundedQuantity }))) {
+    if (line.quantity > 0) {
+      requested.set(line.transactionItemId, (requested.get(line.transactionItemId) ?? 0) + line.quantity);
+    }
+  }
+
+  let cents = 0;
+  const items: RefundPlan["items"] = [];
+  for (const [transactionItemId, quantity] of Array.from(requested)) {
+    const item = sale.items.find((candidate) => candidate.id === transactionItemId);
+    if (!item) {
+      throw new TransactionAdjustmentError("That item isn't on this sale");
+    }
+    const refundable = (item.quantity ?? 1) - item.refundedQuantity;
+    if (quantity > refundable) {
+      throw new TransactionAdjustmentError(`Only ${refundable} of ${item.name} can still be refunded`);
+    }
+    // Returned units carry their share of the line's discount and tax
+    cents += Math.round(lineNetCents(item) * quantity / (item.quantity ?? 1));
+    items.push({ transactionItemId, quantity });
+  }
+
+  // Earlier amount-only refunds can leave less on the sale than the lines are
+  // worth, and a full refund always clears whatever is left
+  cents = request.items ? Math.min(cents, remainingCents) : remainingCents;
+  return { amount: fromCents(cents), items, payments: allocateRefund(sale, cents, request.paymentMethod) };
+}
+
+// Voids are for mistakes caught the same day, before any money went back;
+// anything else is a refund. "Same day" is on the shop's calendar.
+export function assertVoidable(sale: Transaction, timeZone: TimeZone, now = new Date()) {
+  if (sale.status === "voided") {
+    throw new TransactionAdjustmentError("This sale has already been voided");
+  }
+  if (sale.status === "pending") {
+    throw new TransactionAdjustmentError("A card payment on this sale is still processing");
+  }
+  if (toCents(sale.refundedTotal ?? 0) > 0) {
+    throw new TransactionAdjustmentError("A sale with refunds can't be voided");
+  }
+  if (!sale.createdAt || calendarDate(sale.createdAt, timeZone) !== calendarDate(now, timeZone)) {
+    throw new TransactionAdjustmentError("Only today's sales can be voided - refund it instead");
+  }
+}
+
+// Where a sale waiting on slow card payments stands once one of them
+// settles; undefined while others are still out. A failed payment voids the
+// sale because the money never arrived.
+export function saleStatusAfterPayments(
+  payments: TransactionPayment[],
+  reason?: string,
+): Pick<Transaction, "status"> & Partial<Pick<Transaction, "voidReason" | "voidedAt">> | undefined {
+  if (payments.some((payment) => payment.status === "failed")) {
+    return { status: "voided", voidReason: `Card payment failed${reason ? `: ${reason}` : ""}`, voidedAt: new Date() };
+  }
+  if (payments.some((payment) => payment.status === "pending")) return undefined;
+  return { status: "completed" };
+}
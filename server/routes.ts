@@ -1,19 +1,129 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { randomBytes, randomUUID } from "crypto";
+import { storage, AppointmentConflictError, OutOfStockError } from "./storage";
+import { setupAuth, isAuthenticated, requireDevice, requirePermission, type ShopContext } from "./auth";
+import { getAvailableSlots, getBookingCheck, getBusinessHours, getShopTimeZone, refreshQueueWaitTimes } from "./availability";
+import { generateOccurrences, moveSeries } from "./recurrence";
+import { TransactionAdjustmentError } from "./refunds";
+import {
+  activePaymentProvider,
+  applyPaymentEvent,
+  chargeTenders,
+  getPaymentProvider,
+  refundVoidedPayments,
+  releaseCharges,
+  sendPendingRefunds,
+} from "./payments";
+import { PaymentDeclinedError, PaymentProviderError } from "./paymentProvider";
+import { MockPaymentProvider } from "./mockPaymentProvider";
+import { getMailer } from "./mailer";
+import { reportForSession } from "./cashDrawer";
+import { publishChange, subscribeToChanges } from "./realtime";
+import { buildPayrollReport, payPeriodBounds, payrollCsv } from "./payroll";
+import { buildTimesheets, TimeClockError } from "./timeclock";
+import { buildQueueTimesReport } from "./queueMetrics";
+import { loadReceipt, receiptEmail, renderReceiptEscPos, renderReceiptHtml, renderReceiptPdf, renderReceiptText } from "./receipts";
+import { hashPassword, hashToken, toSessionUser } from "./localAuth";
 import { 
   insertCustomerSchema, 
   insertServiceSchema, 
+  insertProductSchema,
   insertAppointmentSchema, 
   insertQueueSchema, 
+  queueStatusSchema,
   insertReviewSchema, 
   insertGallerySchema,
-  insertTransactionSchema,
+  checkoutSchema,
+  refundSchema,
+  voidTransactionSchema,
+  emailReceiptSchema,
+  openCashDrawerSchema,
+  cashDrawerMovementSchema,
+  closeCashDrawerSchema,
+  commissionRuleSchema,
+  payPeriodSchema,
+  timePunchSchema,
+  timeEntryEditSchema,
+  addTimeEntrySchema,
   insertBarberSchema,
-  onboardingSchema 
+  insertBarberTimeOffSchema,
+  onboardingSchema,
+  publicBookingSchema,
+  recurrenceRuleSchema,
+  seriesScopeSchema,
+  staffInviteSchema,
+  updateStaffMemberSchema,
+  acceptInviteSchema,
+  insertLocationSchema,
+  switchLocationSchema,
+  sandboxCardSchema,
+  updateProfileSchema,
+  createDeviceSchema,
+  pairDeviceSchema,
+  kioskCheckInSchema,
+  type KioskCheckIn,
+  type QueueBoardEntry,
+  type User,
+  type InsertLocation,
+  type InsertTransactionItem,
+  type Service,
+  type Product
 } from "@shared/schema";
+import { getSubdomainFromHost } from "@shared/tenant";
+import { hasPermission } from "@shared/permissions";
+import { effectiveTaxRate, fromCents, netSaleCents, priceSale, settleTenders } from "@shared/pricing";
+import { getDayRange } from "@shared/schedule";
+import { addCalendarDays, startOfCalendarDate } from "@shared/timezone";
 import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+// 409 payload describing the appointment a booking clashed with
+function sendAppointmentConflict(res: Response, error: AppointmentConflictError) {
+  const { id, customerId, serviceId, barber, startTime, endTime } = error.conflict;
+  res.status(409).json({
+    message: error.message,
+    conflict: { id, customerId, serviceId, barber, startTime, endTime },
+  });
+}
+
+// Ids in a request body must point at the shop's own records, otherwise a
+// booking or sale could be attached to another tenant's customers
+async function referencesBelongToUser(
+  userId: string,
+  data: { customerId?: number | null; serviceId?: number | null; appointmentId?: number | null },
+): Promise<boolean> {
+  if (data.customerId && !(await storage.getCustomer(data.customerId, userId))) return false;
+  if (data.serviceId && !(await storage.getService(data.serviceId, userId))) return false;
+  if (data.appointmentId && !(await storage.getAppointment(data.appointmentId, userId))) return false;
+  return true;
+}
+
+const staffInviteTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
+const devicePairingTtl = 15 * 60 * 1000; // 15 minutes
+
+// "Joe Smith" becomes "Joe S." on screens the public can see
+function boardName(fullName: string) {
+  const [first = "", ...rest] = fullName.trim().split(/\s+/);
+  const last = rest[rest.length - 1];
+  return last ? `${first} ${last[0].toUpperCase()}.` : first;
+}
+
+// Short enough to type on a tablet; no 0/O or 1/I to mix up
+function generatePairingCode() {
+  const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  return Array.from(randomBytes(8), (byte) => alphabet[byte % alphabet.length]).join("");
+}
+
+// Barbers only work their own chair: they see and change just the
+// appointments booked with the barber profile their account is linked to
+async function getAppointmentFilter(shop: ShopContext): Promise<(appointment: { barber?: string | null }) => boolean> {
+  if (hasPermission(shop.role, "appointments.viewAll")) {
+    return () => true;
+  }
+  const barber = shop.barberId ? await storage.getBarber(shop.barberId, shop.id) : undefined;
+  return (appointment) => !!barber && appointment.barber === barber.name;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
@@ -24,7 +134,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      res.json(user);
+      if (!user?.shopId) {
+        return res.json(user);
+      }
+
+      // Staff see the shop's branding and settings under their own identity
+      const shop = await storage.getUser(user.shopId);
+      const { id, email, firstName, lastName, profileImageUrl, shopId, role, barberId } = user;
+      res.json({ ...shop, id, email, firstName, lastName, profileImageUrl, shopId, role, barberId });
     } catch (error) {
       console.error("Error fetching user:", error);
       res.status(500).json({ message: "Failed to fetch user" });
@@ -47,35 +164,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/onboarding', isAuthenticated, async (req: any, res) => {
-    try {
-      const userId = req.user.claims.sub;
-      const onboardingData = req.body;
-      
-      const user = await storage.completeOnboarding(userId, onboardingData);
-      res.json(user);
-    } catch (error) {
-      console.error("Error completing onboarding:", error);
-      res.status(500).json({ message: "Failed to complete onboarding" });
-    }
-  });
-
   // Dashboard stats
   app.get('/api/dashboard/stats', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const stats = await storage.getDashboardStats(userId);
-      res.json(stats);
+      const userId = req.shop.id;
+      const { todayRevenue, ...stats } = await storage.getDashboardStats(userId, req.shop.locationId, await getShopTimeZone(userId));
+      // Revenue is analytics; other roles still see the day's queue and bookings
+      res.json(hasPermission(req.shop.role, "analytics.view") ? { ...stats, todayRevenue } : stats);
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
       res.status(500).json({ message: "Failed to fetch dashboard stats" });
     }
   });
 
+  // Live updates: a server-sent event stream that says when queue,
+  // appointment, sale or customer data changes at the current location
+  app.get('/api/events', isAuthenticated, (req: any, res) => {
+    subscribeToChanges(req.shop, res);
+  });
+
   // Customer routes
   app.get('/api/customers', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const customers = await storage.getCustomers(userId);
       res.json(customers);
     } catch (error) {
@@ -86,9 +197,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/customers', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const customerData = insertCustomerSchema.parse(req.body);
       const customer = await storage.createCustomer(customerData, userId);
+      publishChange(userId, "customers");
       res.json(customer);
     } catch (error) {
       console.error("Error creating customer:", error);
@@ -98,9 +210,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/customers/:id', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const customerId = parseInt(req.params.id);
       const customerData = insertCustomerSchema.partial().parse(req.body);
-      const customer = await storage.updateCustomer(customerId, customerData);
+      const customer = await storage.updateCustomer(customerId, customerData, userId);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      publishChange(userId, "customers");
       res.json(customer);
     } catch (error) {
       console.error("Error updating customer:", error);
@@ -108,10 +225,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/customers/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/customers/:id', isAuthenticated, requirePermission("customers.delete"), async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const customerId = parseInt(req.params.id);
-      await storage.deleteCustomer(customerId);
+      const deleted = await storage.deleteCustomer(customerId, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      publishChange(userId, "customers");
       res.json({ message: "Customer deleted successfully" });
     } catch (error) {
       console.error("Error deleting customer:", error);
@@ -122,8 +244,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Service routes
   app.get('/api/services', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const services = await storage.getServices(userId);
+      const userId = req.shop.id;
+      const services = await storage.getServices(userId, req.shop.locationId);
       res.json(services);
     } catch (error) {
       console.error("Error fetching services:", error);
@@ -131,11 +253,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/services', isAuthenticated, async (req: any, res) => {
+  app.post('/api/services', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const serviceData = insertServiceSchema.parse(req.body);
-      const service = await storage.createService(serviceData, userId);
+      const service = await storage.createService(serviceData, userId, req.shop.locationId);
       res.json(service);
     } catch (error) {
       console.error("Error creating service:", error);
@@ -143,11 +265,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/services/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/services/:id', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const serviceId = parseInt(req.params.id);
       const serviceData = insertServiceSchema.partial().parse(req.body);
-      const service = await storage.updateService(serviceId, serviceData);
+      const service = await storage.updateService(serviceId, serviceData, userId);
+      if (!service) {
+        return res.status(404).json({ message: "Service not found" });
+      }
       res.json(service);
     } catch (error) {
       console.error("Error updating service:", error);
@@ -155,12 +281,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Product routes - retail stock sold over the counter
+  app.get('/api/products', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const products = await storage.getProducts(userId, req.shop.locationId);
+      res.json(products);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
+  app.get('/api/products/low-stock', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const products = await storage.getLowStockProducts(userId, req.shop.locationId);
+      res.json(products);
+    } catch (error) {
+      console.error("Error fetching low stock products:", error);
+      res.status(500).json({ message: "Failed to fetch low stock products" });
+    }
+  });
+
+  app.post('/api/products', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const productData = insertProductSchema.parse(req.body);
+      const product = await storage.createProduct(productData, userId, req.shop.locationId);
+      res.json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating product:", error);
+      res.status(500).json({ message: "Failed to create product" });
+    }
+  });
+
+  app.put('/api/products/:id', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const productId = parseInt(req.params.id);
+      const productData = insertProductSchema.partial().parse(req.body);
+      const product = await storage.updateProduct(productId, productData, userId);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(product);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating product:", error);
+      res.status(500).json({ message: "Failed to update product" });
+    }
+  });
+
+  app.delete('/api/products/:id', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const productId = parseInt(req.params.id);
+      const deleted = await storage.deleteProduct(productId, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json({ message: "Product deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting product:", error);
+      res.status(500).json({ message: "Failed to delete product" });
+    }
+  });
+
   // Appointment routes
   app.get('/api/appointments', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const appointments = await storage.getAppointments(userId);
-      res.json(appointments);
+      const userId = req.shop.id;
+      const canSee = await getAppointmentFilter(req.shop);
+      const appointments = await storage.getAppointments(userId, req.shop.locationId);
+      res.json(appointments.filter(canSee));
     } catch (error) {
       console.error("Error fetching appointments:", error);
       res.status(500).json({ message: "Failed to fetch appointments" });
@@ -169,22 +368,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/appointments/today', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const appointments = await storage.getTodaysAppointments(userId);
-      res.json(appointments);
+      const userId = req.shop.id;
+      const canSee = await getAppointmentFilter(req.shop);
+      const appointments = await storage.getTodaysAppointments(userId, req.shop.locationId, await getShopTimeZone(userId));
+      res.json(appointments.filter(canSee));
     } catch (error) {
       console.error("Error fetching today's appointments:", error);
       res.status(500).json({ message: "Failed to fetch today's appointments" });
     }
   });
 
+  app.get('/api/availability', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const serviceId = parseInt(req.query.serviceId as string);
+      const date = startOfCalendarDate(String(req.query.date), await getShopTimeZone(userId));
+      if (!serviceId || isNaN(date.getTime())) {
+        return res.status(400).json({ message: "serviceId and date are required" });
+      }
+
+      let barber: string | undefined;
+      if (req.query.barberId) {
+        const barberRow = await storage.getBarber(parseInt(req.query.barberId as string), userId);
+        if (!barberRow) {
+          return res.status(404).json({ message: "Barber not found" });
+        }
+        barber = barberRow.name;
+      }
+
+      const slots = await getAvailableSlots(userId, {
+        serviceId,
+        date,
+        locationId: req.shop.locationId,
+        barber,
+        excludeAppointmentId: req.query.excludeAppointmentId ? parseInt(req.query.excludeAppointmentId as string) : undefined,
+      });
+      res.json(slots);
+    } catch (error) {
+      console.error("Error fetching availability:", error);
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  });
+
   app.post('/api/appointments', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const appointmentData = insertAppointmentSchema.parse(req.body);
-      const appointment = await storage.createAppointment(appointmentData, userId);
-      res.json(appointment);
+      if (!(await referencesBelongToUser(userId, appointmentData))) {
+        return res.status(404).json({ message: "Customer or service not found" });
+      }
+      const canSee = await getAppointmentFilter(req.shop);
+      if (!canSee(appointmentData)) {
+        return res.status(403).json({ message: "You can only book appointments with yourself" });
+      }
+      const bookingProblem = await getBookingCheck(userId, req.shop.locationId);
+      if (!req.body.recurrence) {
+        const problem = bookingProblem(appointmentData);
+        if (problem) {
+          return res.status(409).json({ message: `${problem} then` });
+        }
+        const appointment = await storage.createAppointment(appointmentData, userId, req.shop.locationId);
+        publishChange(userId, "appointments", req.shop.locationId);
+        return res.json(appointment);
+      }
+
+      const rule = recurrenceRuleSchema.parse(req.body.recurrence);
+      const { occurrences, skipped } = generateOccurrences(
+        appointmentData,
+        rule,
+        (occurrence) => bookingProblem({ ...occurrence, barber: appointmentData.barber }) === null,
+        await getShopTimeZone(userId),
+      );
+      if (occurrences.length === 0) {
+        return res.status(400).json({ message: "The shop is closed or the barber isn't working on every date in this series" });
+      }
+
+      const { series, appointments } = await storage.createAppointmentSeries(
+        {
+          customerId: appointmentData.customerId,
+          serviceId: appointmentData.serviceId,
+          barber: appointmentData.barber,
+          frequency: rule.frequency,
+          interval: rule.interval,
+          startTime: occurrences[0].startTime,
+          untilDate: rule.until,
+          occurrenceCount: rule.count,
+        },
+        occurrences.map((occurrence) => ({ ...appointmentData, ...occurrence })),
+        userId,
+        req.shop.locationId,
+      );
+      publishChange(userId, "appointments", req.shop.locationId);
+      res.json({ series, appointments, skipped });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof AppointmentConflictError) {
+        return sendAppointmentConflict(res, error);
+      }
       console.error("Error creating appointment:", error);
       res.status(500).json({ message: "Failed to create appointment" });
     }
@@ -192,11 +474,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/appointments/:id', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const appointmentId = parseInt(req.params.id);
       const appointmentData = insertAppointmentSchema.partial().parse(req.body);
-      const appointment = await storage.updateAppointment(appointmentId, appointmentData);
-      res.json(appointment);
+      if (!(await referencesBelongToUser(userId, appointmentData))) {
+        return res.status(404).json({ message: "Customer or service not found" });
+      }
+      const canSee = await getAppointmentFilter(req.shop);
+      const existing = await storage.getAppointment(appointmentId, userId);
+      if (!existing || !canSee(existing)) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      if (appointmentData.barber !== undefined && !canSee(appointmentData)) {
+        return res.status(403).json({ message: "You can only book appointments with yourself" });
+      }
+
+      const scope = req.query.scope ? seriesScopeSchema.parse(req.query.scope) : undefined;
+      // Saving the form unchanged, or only its notes, isn't a move
+      const moved = (appointmentData.startTime && appointmentData.startTime.getTime() !== existing.startTime.getTime())
+        || (appointmentData.endTime && appointmentData.endTime.getTime() !== existing.endTime.getTime())
+        || (appointmentData.barber !== undefined && appointmentData.barber !== existing.barber);
+      if (moved && scope) {
+        // A series move is held to the same rules as booking the series
+        const members = await storage.getAppointmentsInSeries(appointmentId, scope, userId);
+        const times = moveSeries(existing, members, appointmentData);
+        const bookingProblem = await getBookingCheck(userId, existing.locationId);
+        const timeZone = await getShopTimeZone(userId);
+        for (let index = 0; index < members.length; index++) {
+          const barber = appointmentData.barber !== undefined ? appointmentData.barber : members[index].barber;
+          const problem = bookingProblem({ ...times[index], barber });
+          if (problem) {
+            return res.status(409).json({
+              message: `${problem} on ${times[index].startTime.toLocaleDateString("en-US", { timeZone: timeZone ?? undefined, dateStyle: "full" })}, so it can't be moved there`,
+            });
+          }
+        }
+      } else if (moved) {
+        // A move is held to the same rules as a new booking
+        const bookingProblem = await getBookingCheck(userId, existing.locationId);
+        const problem = bookingProblem({
+          startTime: appointmentData.startTime ?? existing.startTime,
+          endTime: appointmentData.endTime ?? existing.endTime,
+          barber: appointmentData.barber !== undefined ? appointmentData.barber : existing.barber,
+        });
+        if (problem) {
+          return res.status(409).json({ message: `${problem} then` });
+        }
+      }
+
+      const updated = scope
+        ? await storage.updateAppointmentInSeries(appointmentId, appointmentData, scope, userId)
+        : await storage.updateAppointment(appointmentId, appointmentData, userId);
+      if (!updated) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      publishChange(userId, "appointments", existing.locationId);
+      res.json(updated);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof AppointmentConflictError) {
+        return sendAppointmentConflict(res, error);
+      }
       console.error("Error updating appointment:", error);
       res.status(500).json({ message: "Failed to update appointment" });
     }
@@ -204,10 +544,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete('/api/appointments/:id', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const appointmentId = parseInt(req.params.id);
-      await storage.deleteAppointment(appointmentId);
+      const canSee = await getAppointmentFilter(req.shop);
+      const existing = await storage.getAppointment(appointmentId, userId);
+      if (!existing || !canSee(existing)) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      const deleted = req.query.scope
+        ? await storage.deleteAppointmentInSeries(appointmentId, seriesScopeSchema.parse(req.query.scope), userId)
+        : await storage.deleteAppointment(appointmentId, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      publishChange(userId, "appointments", existing.locationId);
       res.json({ message: "Appointment deleted successfully" });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error deleting appointment:", error);
       res.status(500).json({ message: "Failed to delete appointment" });
     }
@@ -216,8 +571,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Queue routes
   app.get('/api/queue', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const queue = await storage.getQueue(userId);
+      const userId = req.shop.id;
+      const queue = await storage.getQueue(userId, req.shop.locationId);
       res.json(queue);
     } catch (error) {
       console.error("Error fetching queue:", error);
@@ -227,10 +582,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/queue', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const queueData = insertQueueSchema.parse(req.body);
-      const queueItem = await storage.addToQueue(queueData, userId);
-      res.json(queueItem);
+      if (!(await referencesBelongToUser(userId, queueData))) {
+        return res.status(404).json({ message: "Customer or service not found" });
+      }
+      // Waits are the server's to work out, whatever the client sent
+      const queueItem = await storage.addToQueue({ ...queueData, estimatedWaitTime: null }, userId, req.shop.locationId);
+      const waitTimes = await refreshQueueWaitTimes(userId, queueItem.locationId);
+      publishChange(userId, "queue", queueItem.locationId);
+      res.json({ ...queueItem, estimatedWaitTime: waitTimes.get(queueItem.id) ?? null });
     } catch (error) {
       console.error("Error adding to queue:", error);
       res.status(500).json({ message: "Failed to add to queue" });
@@ -239,10 +600,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/queue/:id/position', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const queueId = parseInt(req.params.id);
       const { position } = req.body;
-      const queueItem = await storage.updateQueuePosition(queueId, position);
-      res.json(queueItem);
+      const queueItem = await storage.updateQueuePosition(queueId, position, userId);
+      if (!queueItem) {
+        return res.status(404).json({ message: "Queue item not found" });
+      }
+      const waitTimes = await refreshQueueWaitTimes(userId, queueItem.locationId);
+      publishChange(userId, "queue", queueItem.locationId);
+      res.json({ ...queueItem, estimatedWaitTime: waitTimes.get(queueItem.id) ?? queueItem.estimatedWaitTime });
     } catch (error) {
       console.error("Error updating queue position:", error);
       res.status(500).json({ message: "Failed to update queue position" });
@@ -251,11 +618,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/queue/:id/status', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const queueId = parseInt(req.params.id);
-      const { status } = req.body;
-      const queueItem = await storage.updateQueueStatus(queueId, status);
-      res.json(queueItem);
+      const { status } = queueStatusSchema.parse(req.body);
+      const queueItem = await storage.updateQueueStatus(queueId, status, userId);
+      if (!queueItem) {
+        return res.status(404).json({ message: "Queue item not found" });
+      }
+      const waitTimes = await refreshQueueWaitTimes(userId, queueItem.locationId);
+      publishChange(userId, "queue", queueItem.locationId);
+      res.json({ ...queueItem, estimatedWaitTime: waitTimes.get(queueItem.id) ?? queueItem.estimatedWaitTime });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error updating queue status:", error);
       res.status(500).json({ message: "Failed to update queue status" });
     }
@@ -263,8 +639,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete('/api/queue/:id', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const queueId = parseInt(req.params.id);
-      await storage.removeFromQueue(queueId);
+      const removed = await storage.removeFromQueue(queueId, userId);
+      if (!removed) {
+        return res.status(404).json({ message: "Queue item not found" });
+      }
+      await refreshQueueWaitTimes(userId, removed.locationId);
+      publishChange(userId, "queue", removed.locationId);
       res.json({ message: "Removed from queue successfully" });
     } catch (error) {
       console.error("Error removing from queue:", error);
@@ -275,7 +657,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Review routes
   app.get('/api/reviews', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const reviews = await storage.getReviews(userId);
       res.json(reviews);
     } catch (error) {
@@ -286,7 +668,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/reviews/recent', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const limit = parseInt(req.query.limit as string) || 5;
       const reviews = await storage.getRecentReviews(userId, limit);
       res.json(reviews);
@@ -298,8 +680,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/reviews', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const reviewData = insertReviewSchema.parse(req.body);
+      if (!(await referencesBelongToUser(userId, reviewData))) {
+        return res.status(404).json({ message: "Customer or appointment not found" });
+      }
       const review = await storage.createReview(reviewData, userId);
       res.json(review);
     } catch (error) {
@@ -311,7 +696,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Gallery routes
   app.get('/api/gallery', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const gallery = await storage.getGallery(userId);
       res.json(gallery);
     } catch (error) {
@@ -322,7 +707,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/gallery', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const galleryData = insertGallerySchema.parse(req.body);
       const galleryItem = await storage.createGalleryItem(galleryData, userId);
       res.json(galleryItem);
@@ -334,9 +719,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/gallery/:id', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const galleryId = parseInt(req.params.id);
       const galleryData = insertGallerySchema.partial().parse(req.body);
-      const galleryItem = await storage.updateGalleryItem(galleryId, galleryData);
+      const galleryItem = await storage.updateGalleryItem(galleryId, galleryData, userId);
+      if (!galleryItem) {
+        return res.status(404).json({ message: "Gallery item not found" });
+      }
       res.json(galleryItem);
     } catch (error) {
       console.error("Error updating gallery item:", error);
@@ -346,8 +735,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete('/api/gallery/:id', isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const galleryId = parseInt(req.params.id);
-      await storage.deleteGalleryItem(galleryId);
+      const deleted = await storage.deleteGalleryItem(galleryId, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Gallery item not found" });
+      }
       res.json({ message: "Gallery item deleted successfully" });
     } catch (error) {
       console.error("Error deleting gallery item:", error);
@@ -356,10 +749,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Transaction routes
-  app.get('/api/transactions', isAuthenticated, async (req: any, res) => {
+  app.get('/api/transactions', isAuthenticated, requirePermission("analytics.view"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const transactions = await storage.getTransactions(userId);
+      const userId = req.shop.id;
+      const transactions = await storage.getTransactions(userId, req.shop.locationId);
       res.json(transactions);
     } catch (error) {
       console.error("Error fetching transactions:", error);
@@ -367,10 +760,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/transactions/today', isAuthenticated, async (req: any, res) => {
+  app.get('/api/transactions/today', isAuthenticated, requirePermission("pos.use"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const transactions = await storage.getTodaysTransactions(userId);
+      const userId = req.shop.id;
+      const transactions = await storage.getTodaysTransactions(userId, req.shop.locationId, await getShopTimeZone(userId));
       res.json(transactions);
     } catch (error) {
       console.error("Error fetching today's transactions:", error);
@@ -378,23 +771,575 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/transactions', isAuthenticated, async (req: any, res) => {
+  app.get('/api/transactions/:id', isAuthenticated, requirePermission("pos.use"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const transactionData = insertTransactionSchema.parse(req.body);
-      const transaction = await storage.createTransaction(transactionData, userId);
+      const userId = req.shop.id;
+      const transaction = await storage.getTransaction(parseInt(req.params.id), userId);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
       res.json(transaction);
     } catch (error) {
+      console.error("Error fetching transaction:", error);
+      res.status(500).json({ message: "Failed to fetch transaction" });
+    }
+  });
+
+  // ?format=html (the default), pdf, escpos or text; width sets the columns
+  // for escpos and text, 42 for 80mm paper or 32 for 58mm
+  app.get('/api/transactions/:id/receipt', isAuthenticated, requirePermission("pos.use"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const receipt = await loadReceipt(parseInt(req.params.id), userId);
+      if (!receipt) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      const width = Math.min(Math.max(parseInt(req.query.width) || 42, 24), 64);
+      const filename = `receipt-${receipt.number ?? receipt.saleId}`;
+      switch (req.query.format ?? "html") {
+        case "html":
+          return res.type("html").send(renderReceiptHtml(receipt, { autoPrint: req.query.print === "1" }));
+        case "pdf":
+          res.setHeader("Content-Disposition", `inline; filename="${filename}.pdf"`);
+          return res.type("application/pdf").send(renderReceiptPdf(receipt));
+        case "escpos":
+          res.setHeader("Content-Disposition", `attachment; filename="${filename}.bin"`);
+          return res.type("application/octet-stream").send(renderReceiptEscPos(receipt, width));
+        case "text":
+          return res.type("text/plain").send(renderReceiptText(receipt, width));
+        default:
+          return res.status(400).json({ message: "Receipt format must be html, pdf, escpos or text" });
+      }
+    } catch (error) {
+      console.error("Error rendering receipt:", error);
+      res.status(500).json({ message: "Failed to render receipt" });
+    }
+  });
+
+  app.post('/api/transactions/:id/receipt/email', isAuthenticated, requirePermission("pos.use"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const { email } = emailReceiptSchema.parse(req.body);
+      const receipt = await loadReceipt(parseInt(req.params.id), userId);
+      if (!receipt) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      const to = email || receipt.customerEmail;
+      if (!to) {
+        return res.status(400).json({ message: "Enter an email address to send the receipt to" });
+      }
+      await getMailer().send(receiptEmail(receipt, to));
+      res.json({ message: `Receipt sent to ${to}` });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error emailing receipt:", error);
+      res.status(502).json({ message: "The receipt couldn't be sent; try again later" });
+    }
+  });
+
+  app.post('/api/transactions', isAuthenticated, requirePermission("pos.use"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const { items, discount, tip, payments, ...transactionData } = checkoutSchema.parse(req.body);
+      if (!(await referencesBelongToUser(userId, transactionData))) {
+        return res.status(404).json({ message: "Customer or appointment not found" });
+      }
+      // Commission goes to whoever did the work; an appointment's barber unless told otherwise
+      if (transactionData.barber) {
+        const barbers = await storage.getBarbers(userId, req.shop.locationId);
+        if (!barbers.some((barber) => barber.isActive && barber.name === transactionData.barber)) {
+          return res.status(404).json({ message: "Barber not found" });
+        }
+      } else if (transactionData.appointmentId) {
+        transactionData.barber = (await storage.getAppointment(transactionData.appointmentId, userId))?.barber ?? null;
+      }
+
+      // Each line is priced from the service or product as it stands now and
+      // that price is kept on the line, so later price changes don't rewrite
+      // old sales
+      const soldItems: (Service | Product)[] = [];
+      const wanted = new Map<number, number>();
+      for (const item of items) {
+        if (item.productId) {
+          const product = await storage.getProduct(item.productId, userId);
+          if (!product || !product.isActive || product.locationId !== req.shop.locationId) {
+            return res.status(404).json({ message: "Product not found" });
+          }
+          // Checked again when the sale is written; this just stops a card
+          // being charged for something that isn't on the shelf
+          wanted.set(product.id, (wanted.get(product.id) ?? 0) + item.quantity);
+          if (product.stock < wanted.get(product.id)!) {
+            throw new OutOfStockError(product);
+          }
+          soldItems.push(product);
+        } else {
+          const service = await storage.getService(item.serviceId!, userId);
+          if (!service || !service.isActive || service.locationId !== req.shop.locationId) {
+            return res.status(404).json({ message: "Service not found" });
+          }
+          soldItems.push(service);
+        }
+      }
+
+      const shop = await storage.getUser(userId);
+      const location = req.shop.locationId ? await storage.getLocation(req.shop.locationId, userId) : undefined;
+      const sale = priceSale({
+        lines: items.map((item, index) => ({ ...item, price: soldItems[index].price, taxable: soldItems[index].taxable })),
+        discount,
+        tip,
+        taxRate: effectiveTaxRate(shop, location),
+      });
+      const lines: InsertTransactionItem[] = items.map((item, index) => ({
+        serviceId: item.serviceId ?? null,
+        productId: item.productId ?? null,
+        quantity: item.quantity,
+        price: soldItems[index].price,
+        discount: fromCents(sale.lines[index].discountCents),
+        taxable: soldItems[index].taxable,
+        tax: fromCents(sale.lines[index].taxCents),
+      }));
+
+      // Card tokens only mean something to the processor that issued them
+      const processor = activePaymentProvider();
+      if (payments.some((tender) => tender.method === "card" && !tender.token !== !processor)) {
+        return res.status(400).json({
+          message: processor
+            ? "Charge cards through the card form"
+            : "Cards are run on the shop's own terminal here; record the payment without charging it",
+        });
+      }
+
+      const settlement = settleTenders(sale.totalCents, payments);
+      if (settlement.balanceCents > 0) {
+        return res.status(400).json({ message: `$${fromCents(settlement.balanceCents)} is still owed on this sale` });
+      }
+      if (settlement.overpaidCents > 0) {
+        return res.status(400).json({ message: "Card and digital payments can't be more than what's owed; take the rest in cash" });
+      }
+      const tenders = await chargeTenders(settlement.payments, location?.name || shop?.barbershopName || "POS sale");
+      const methods = Array.from(new Set(tenders.map((payment) => payment.method)));
+
+      const transaction = await storage.createTransaction(
+        {
+          ...transactionData,
+          subtotal: fromCents(sale.subtotalCents),
+          discountTotal: fromCents(sale.discountCents),
+          taxTotal: fromCents(sale.taxCents),
+          tip: fromCents(sale.tipCents),
+          total: fromCents(sale.totalCents),
+          // A sale discounted to nothing takes no payment and is filed as cash
+          paymentMethod: methods.length > 1 ? "split" : methods[0] ?? "cash",
+          // Completes when the processor confirms any slow card payments
+          status: tenders.some((payment) => payment.status === "pending") ? "pending" : "completed",
+        },
+        lines,
+        tenders,
+        userId,
+        req.shop.locationId,
+      ).catch(async (error) => {
+        await releaseCharges(tenders);
+        throw error;
+      });
+      publishChange(userId, "transactions", transaction.locationId);
+      res.json(await storage.getTransaction(transaction.id, userId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof PaymentDeclinedError) {
+        return res.status(402).json({ message: error.message });
+      }
+      if (error instanceof OutOfStockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof PaymentProviderError) {
+        console.error("Error charging card:", error);
+        return res.status(502).json({ message: "The card processor didn't respond; try again or take another payment" });
+      }
       console.error("Error creating transaction:", error);
       res.status(500).json({ message: "Failed to create transaction" });
     }
   });
 
+  app.post('/api/transactions/:id/refunds', isAuthenticated, requirePermission("pos.refund"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const transactionId = parseInt(req.params.id);
+      const refundData = refundSchema.parse(req.body);
+      const newRefunds = await storage.createRefund(transactionId, refundData, req.user.claims.sub, userId);
+      if (!newRefunds) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      // The refund is on record before any card processor is asked
+      const sale = (await storage.getTransaction(transactionId, userId))!;
+      try {
+        await sendPendingRefunds(newRefunds, sale.payments);
+      } finally {
+        publishChange(userId, "transactions", sale.locationId);
+      }
+      res.json(await storage.getTransaction(transactionId, userId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof TransactionAdjustmentError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof PaymentProviderError) {
+        console.error("Error refunding card:", error);
+        return res.status(502).json({ message: "The card processor couldn't refund this payment" });
+      }
+      console.error("Error refunding transaction:", error);
+      res.status(500).json({ message: "Failed to refund transaction" });
+    }
+  });
+
+  app.post('/api/transactions/:id/void', isAuthenticated, requirePermission("pos.refund"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const transactionId = parseInt(req.params.id);
+      const { reason } = voidTransactionSchema.parse(req.body);
+      const transaction = await storage.voidTransaction(transactionId, reason, userId, await getShopTimeZone(userId));
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      const sale = (await storage.getTransaction(transactionId, userId))!;
+      try {
+        await refundVoidedPayments(sale.payments);
+      } finally {
+        publishChange(userId, "transactions", transaction.locationId);
+      }
+      res.json(await storage.getTransaction(transactionId, userId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof TransactionAdjustmentError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof PaymentProviderError) {
+        console.error("Error refunding card:", error);
+        return res.status(502).json({ message: "The sale was voided, but the card processor couldn't refund the card" });
+      }
+      console.error("Error voiding transaction:", error);
+      res.status(500).json({ message: "Failed to void transaction" });
+    }
+  });
+
+  // Which processor the POS charges cards through; null when cards are run
+  // on the shop's own terminal
+  app.get('/api/payments/config', isAuthenticated, requirePermission("pos.use"), async (_req, res) => {
+    res.json({ provider: activePaymentProvider()?.name ?? null });
+  });
+
+  // The sandbox processor's card form. Real processors tokenize cards in
+  // their own hosted fields, so their card numbers never reach this server.
+  app.post('/api/payments/mock/tokens', isAuthenticated, requirePermission("pos.use"), async (req, res) => {
+    try {
+      const provider = activePaymentProvider();
+      if (!(provider instanceof MockPaymentProvider)) {
+        return res.status(404).json({ message: "The sandbox card form isn't enabled" });
+      }
+      const { number } = sandboxCardSchema.parse(req.body);
+      res.json(provider.tokenize(number));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error tokenizing card:", error);
+      res.status(500).json({ message: "Failed to read card" });
+    }
+  });
+
+  // Payment processors report slow card payments here; no session, the
+  // provider checks the request's signature instead
+  app.post('/api/payments/webhooks/:provider', async (req: any, res) => {
+    try {
+      const provider = getPaymentProvider(req.params.provider);
+      const event = provider.parseWebhook(req.headers, req.rawBody ?? Buffer.from(JSON.stringify(req.body)));
+      if (event) {
+        await applyPaymentEvent(provider.name, event);
+      }
+      res.json({ received: true });
+    } catch (error) {
+      if (error instanceof PaymentProviderError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error handling payment webhook:", error);
+      res.status(500).json({ message: "Failed to handle payment webhook" });
+    }
+  });
+
+  // Cash drawer routes. Each location has one drawer, open for a shift at a
+  // time; null when nobody has opened it
+  app.get('/api/cash-drawer/current', isAuthenticated, requirePermission("pos.use"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const session = await storage.getOpenCashDrawerSession(userId, req.shop.locationId);
+      res.json(session ? { session, ...(await reportForSession(session)) } : null);
+    } catch (error) {
+      console.error("Error fetching cash drawer:", error);
+      res.status(500).json({ message: "Failed to fetch cash drawer" });
+    }
+  });
+
+  app.post('/api/cash-drawer/open', isAuthenticated, requirePermission("pos.use"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const { openingFloat } = openCashDrawerSchema.parse(req.body);
+      if (await storage.getOpenCashDrawerSession(userId, req.shop.locationId)) {
+        return res.status(409).json({ message: "The drawer is already open; close it before starting a new one" });
+      }
+      const session = await storage.openCashDrawerSession(
+        fromCents(Math.round(openingFloat * 100)),
+        req.user.claims.sub,
+        userId,
+        req.shop.locationId,
+      );
+      res.status(201).json({ session, ...(await reportForSession(session)) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error opening cash drawer:", error);
+      res.status(500).json({ message: "Failed to open cash drawer" });
+    }
+  });
+
+  app.post('/api/cash-drawer/current/movements', isAuthenticated, requirePermission("pos.use"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const movementData = cashDrawerMovementSchema.parse(req.body);
+      const session = await storage.getOpenCashDrawerSession(userId, req.shop.locationId);
+      if (!session) {
+        return res.status(409).json({ message: "Open the drawer first" });
+      }
+      await storage.addCashDrawerMovement(session.id, movementData, req.user.claims.sub);
+      res.status(201).json({ session, ...(await reportForSession(session)) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error recording cash drawer movement:", error);
+      res.status(500).json({ message: "Failed to record cash drawer movement" });
+    }
+  });
+
+  app.post('/api/cash-drawer/current/close', isAuthenticated, requirePermission("pos.use"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const { countedCash, notes } = closeCashDrawerSchema.parse(req.body);
+      const session = await storage.getOpenCashDrawerSession(userId, req.shop.locationId);
+      if (!session) {
+        return res.status(409).json({ message: "The drawer isn't open" });
+      }
+      const { report } = await reportForSession(session, { closedAt: new Date(), countedCash });
+      const closed = await storage.closeCashDrawerSession(session.id, report, notes || null, req.user.claims.sub, userId);
+      if (!closed) {
+        return res.status(409).json({ message: "The drawer has already been closed" });
+      }
+      res.json(closed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error closing cash drawer:", error);
+      res.status(500).json({ message: "Failed to close cash drawer" });
+    }
+  });
+
+  // Z-reports from closed drawers
+  app.get('/api/cash-drawer/sessions', isAuthenticated, requirePermission("analytics.view"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const sessions = await storage.getCashDrawerSessions(userId, req.shop.locationId);
+      res.json(sessions);
+    } catch (error) {
+      console.error("Error fetching cash drawer sessions:", error);
+      res.status(500).json({ message: "Failed to fetch cash drawer sessions" });
+    }
+  });
+
+  app.get('/api/cash-drawer/sessions/:id', isAuthenticated, requirePermission("analytics.view"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const session = await storage.getCashDrawerSession(parseInt(req.params.id), userId);
+      if (!session) {
+        return res.status(404).json({ message: "Drawer session not found" });
+      }
+      res.json({ session, movements: await storage.getCashDrawerMovements(session.id) });
+    } catch (error) {
+      console.error("Error fetching cash drawer session:", error);
+      res.status(500).json({ message: "Failed to fetch cash drawer session" });
+    }
+  });
+
+  // Payroll routes
+  app.get('/api/payroll/rules', isAuthenticated, requirePermission("payroll.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const rules = await storage.getCommissionRules(userId);
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching commission rules:", error);
+      res.status(500).json({ message: "Failed to fetch commission rules" });
+    }
+  });
+
+  app.put('/api/payroll/rules/:barberId', isAuthenticated, requirePermission("payroll.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const barberId = parseInt(req.params.barberId);
+      const ruleData = commissionRuleSchema.parse(req.body);
+      if (!(await storage.getBarber(barberId, userId))) {
+        return res.status(404).json({ message: "Barber not found" });
+      }
+      const rule = await storage.saveCommissionRule(barberId, ruleData, userId);
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error saving commission rule:", error);
+      res.status(500).json({ message: "Failed to save commission rule" });
+    }
+  });
+
+  // ?from=YYYY-MM-DD&to=YYYY-MM-DD, both days included
+  app.get('/api/payroll', isAuthenticated, requirePermission("payroll.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const period = payPeriodSchema.parse(req.query);
+      const { since, until } = payPeriodBounds(period.from, period.to, await getShopTimeZone(userId));
+      const report = buildPayrollReport(
+        period,
+        await storage.getBarbers(userId, req.shop.locationId),
+        await storage.getCommissionRules(userId),
+        await storage.getSalesWithItems(userId, req.shop.locationId, since, until),
+        await storage.getTimeEntries(userId, req.shop.locationId, since, until),
+      );
+      if (req.query.format === "csv") {
+        res.setHeader("Content-Disposition", `attachment; filename="payroll-${period.from}-to-${period.to}.csv"`);
+        return res.type("text/csv").send(payrollCsv(report));
+      }
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error building payroll report:", error);
+      res.status(500).json({ message: "Failed to build payroll report" });
+    }
+  });
+
+  // Time clock routes
+  app.get('/api/timeclock/open', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const entries = await storage.getOpenTimeEntries(userId, req.shop.locationId);
+      res.json(hasPermission(req.shop.role, "timeclock.punchAll")
+        ? entries
+        : entries.filter((entry) => entry.barberId === req.shop.barberId));
+    } catch (error) {
+      console.error("Error fetching open shifts:", error);
+      res.status(500).json({ message: "Failed to fetch open shifts" });
+    }
+  });
+
+  app.post('/api/timeclock/punch', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const punch = timePunchSchema.parse(req.body);
+      if (punch.barberId !== req.shop.barberId && !hasPermission(req.shop.role, "timeclock.punchAll")) {
+        return res.status(403).json({ message: "You can only punch your own time" });
+      }
+      if (!(await storage.getBarber(punch.barberId, userId))) {
+        return res.status(404).json({ message: "Barber not found" });
+      }
+      const entry = await storage.punchTimeClock(punch.barberId, punch.action, req.user.claims.sub, userId, req.shop.locationId);
+      res.json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof TimeClockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error punching time clock:", error);
+      res.status(500).json({ message: "Failed to punch the time clock" });
+    }
+  });
+
+  // ?from=YYYY-MM-DD&to=YYYY-MM-DD, shifts that started in the period
+  app.get('/api/timeclock/timesheets', isAuthenticated, requirePermission("payroll.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const period = payPeriodSchema.parse(req.query);
+      const { since, until } = payPeriodBounds(period.from, period.to, await getShopTimeZone(userId));
+      const timesheets = buildTimesheets(
+        await storage.getBarbers(userId, req.shop.locationId),
+        await storage.getTimeEntries(userId, req.shop.locationId, since, until),
+      );
+      res.json(timesheets);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error fetching timesheets:", error);
+      res.status(500).json({ message: "Failed to fetch timesheets" });
+    }
+  });
+
+  app.post('/api/timeclock/entries', isAuthenticated, requirePermission("timeclock.edit"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const { barberId, ...entryData } = addTimeEntrySchema.parse(req.body);
+      if (!(await storage.getBarber(barberId, userId))) {
+        return res.status(404).json({ message: "Barber not found" });
+      }
+      const entry = await storage.addTimeEntry(barberId, entryData, req.user.claims.sub, userId, req.shop.locationId);
+      res.status(201).json(await storage.getTimeEntry(entry.id, userId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof TimeClockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error adding shift:", error);
+      res.status(500).json({ message: "Failed to add shift" });
+    }
+  });
+
+  app.put('/api/timeclock/entries/:id', isAuthenticated, requirePermission("timeclock.edit"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const entryId = parseInt(req.params.id);
+      const entryData = timeEntryEditSchema.parse(req.body);
+      const entry = await storage.editTimeEntry(entryId, entryData, req.user.claims.sub, userId);
+      if (!entry) {
+        return res.status(404).json({ message: "Shift not found" });
+      }
+      res.json(await storage.getTimeEntry(entryId, userId));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof TimeClockError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error editing shift:", error);
+      res.status(500).json({ message: "Failed to edit shift" });
+    }
+  });
+
   // Barber routes
   app.get('/api/barbers', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const barbers = await storage.getBarbers(userId);
+      const userId = req.shop.id;
+      const barbers = await storage.getBarbers(userId, req.shop.locationId);
       res.json(barbers);
     } catch (error) {
       console.error("Error fetching barbers:", error);
@@ -402,11 +1347,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/barbers', isAuthenticated, async (req: any, res) => {
+  app.post('/api/barbers', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const barberData = insertBarberSchema.parse(req.body);
-      const barber = await storage.createBarber(barberData, userId);
+      const barber = await storage.createBarber(barberData, userId, req.shop.locationId);
       res.json(barber);
     } catch (error) {
       console.error("Error creating barber:", error);
@@ -414,11 +1359,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/barbers/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/barbers/:id', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const barberId = parseInt(req.params.id);
       const barberData = insertBarberSchema.partial().parse(req.body);
-      const barber = await storage.updateBarber(barberId, barberData);
+      const barber = await storage.updateBarber(barberId, barberData, userId);
+      if (!barber) {
+        return res.status(404).json({ message: "Barber not found" });
+      }
       res.json(barber);
     } catch (error) {
       console.error("Error updating barber:", error);
@@ -426,10 +1375,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/barbers/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/barbers/:id', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
     try {
+      const userId = req.shop.id;
       const barberId = parseInt(req.params.id);
-      await storage.deleteBarber(barberId);
+      const deleted = await storage.deleteBarber(barberId, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Barber not found" });
+      }
       res.json({ message: "Barber deleted successfully" });
     } catch (error) {
       console.error("Error deleting barber:", error);
@@ -437,14 +1390,252 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Barber time off routes
+  app.get('/api/barbers/time-off', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      const timeOff = await storage.getBarberTimeOff(userId, from, to);
+      res.json(timeOff);
+    } catch (error) {
+      console.error("Error fetching barber time off:", error);
+      res.status(500).json({ message: "Failed to fetch barber time off" });
+    }
+  });
+
+  app.post('/api/barbers/:id/time-off', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const barberId = parseInt(req.params.id);
+      const barber = await storage.getBarber(barberId, userId);
+      if (!barber) {
+        return res.status(404).json({ message: "Barber not found" });
+      }
+
+      const timeOffData = insertBarberTimeOffSchema.parse({ ...req.body, barberId });
+      const timeOff = await storage.createBarberTimeOff(timeOffData, userId);
+      res.json(timeOff);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating barber time off:", error);
+      res.status(500).json({ message: "Failed to create barber time off" });
+    }
+  });
+
+  app.delete('/api/barbers/time-off/:id', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const timeOffId = parseInt(req.params.id);
+      const deleted = await storage.deleteBarberTimeOff(timeOffId, userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Time off not found" });
+      }
+      res.json({ message: "Time off deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting barber time off:", error);
+      res.status(500).json({ message: "Failed to delete barber time off" });
+    }
+  });
+
+  // Location routes - the shop's main location is the owner's own profile,
+  // these are the additional storefronts
+  app.get('/api/locations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const locations = await storage.getLocations(userId);
+      res.json({ currentLocationId: req.shop.locationId, locations });
+    } catch (error) {
+      console.error("Error fetching locations:", error);
+      res.status(500).json({ message: "Failed to fetch locations" });
+    }
+  });
+
+  app.post('/api/locations', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const locationData = insertLocationSchema.parse(req.body);
+      // New storefronts start out with the main location's opening hours
+      const businessHours = locationData.businessHours ?? (await getBusinessHours(userId, null)) as InsertLocation["businessHours"];
+      const location = await storage.createLocation({ ...locationData, businessHours }, userId);
+      res.json(location);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating location:", error);
+      res.status(500).json({ message: "Failed to create location" });
+    }
+  });
+
+  app.put('/api/locations/:id', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const locationData = insertLocationSchema.partial().parse(req.body);
+      const location = await storage.updateLocation(parseInt(req.params.id), locationData, userId);
+      if (!location) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      res.json(location);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating location:", error);
+      res.status(500).json({ message: "Failed to update location" });
+    }
+  });
+
+  app.delete('/api/locations/:id', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const deleted = await storage.deleteLocation(parseInt(req.params.id), userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      res.json({ message: "Location closed successfully" });
+    } catch (error) {
+      console.error("Error deleting location:", error);
+      res.status(500).json({ message: "Failed to close location" });
+    }
+  });
+
+  // The location switcher - remembered for the rest of the session
+  app.post('/api/locations/switch', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const { locationId } = switchLocationSchema.parse(req.body);
+      if (locationId !== null && !(await storage.getLocation(locationId, userId))) {
+        return res.status(404).json({ message: "Location not found" });
+      }
+      req.session.locationId = locationId;
+      res.json({ currentLocationId: locationId });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error switching location:", error);
+      res.status(500).json({ message: "Failed to switch location" });
+    }
+  });
+
+  // Device routes - tablets paired to the current location
+  app.get('/api/devices', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const devices = await storage.getDevices(userId, req.shop.locationId);
+      res.json(devices.map(({ pairingCodeHash, tokenHash, ...device }) => device));
+    } catch (error) {
+      console.error("Error fetching devices:", error);
+      res.status(500).json({ message: "Failed to fetch devices" });
+    }
+  });
+
+  // The pairing code is only ever shown here, once
+  app.post('/api/devices', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const deviceData = createDeviceSchema.parse(req.body);
+      const pairingCode = generatePairingCode();
+      const { pairingCodeHash, tokenHash, ...device } = await storage.createDevice({
+        ...deviceData,
+        pairingCodeHash: hashToken(pairingCode),
+        pairingExpiresAt: new Date(Date.now() + devicePairingTtl),
+      }, userId, req.shop.locationId);
+      res.status(201).json({ device, pairingCode });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating device:", error);
+      res.status(500).json({ message: "Failed to create device" });
+    }
+  });
+
+  app.delete('/api/devices/:id', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const deleted = await storage.deleteDevice(parseInt(req.params.id), userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      res.json({ message: "Device removed" });
+    } catch (error) {
+      console.error("Error removing device:", error);
+      res.status(500).json({ message: "Failed to remove device" });
+    }
+  });
+
+  // How long walk-ins really waited and sat in the chair over a period
+  app.get('/api/analytics/queue', isAuthenticated, requirePermission("analytics.view"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const period = payPeriodSchema.parse(req.query);
+      const timeZone = await getShopTimeZone(userId);
+      const { since, until } = payPeriodBounds(period.from, period.to, timeZone);
+      const report = buildQueueTimesReport(
+        period,
+        await storage.getQueueHistory(userId, req.shop.locationId, since, until),
+        await storage.getServices(userId),
+        timeZone,
+      );
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error fetching queue analytics:", error);
+      res.status(500).json({ message: "Failed to fetch queue analytics" });
+    }
+  });
+
+  // Side-by-side numbers for every location, for owners running several shops
+  app.get('/api/analytics/locations', isAuthenticated, requirePermission("analytics.view"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const shop = await storage.getUser(userId);
+      const locations = [
+        { id: null, name: shop?.barbershopName || "Main location" },
+        ...(await storage.getLocations(userId)).map(({ id, name }) => ({ id, name })),
+      ];
+
+      const timeZone = await getShopTimeZone(userId);
+      const weekStart = getDayRange(addCalendarDays(new Date(), -6, timeZone), timeZone).start;
+
+      const breakdown = await Promise.all(locations.map(async (location) => {
+        const stats = await storage.getDashboardStats(userId, location.id, timeZone);
+        const weekTransactions = (await storage.getTransactions(userId, location.id))
+          .filter((transaction) => transaction.createdAt && transaction.createdAt >= weekStart && transaction.status !== "voided");
+        return {
+          locationId: location.id,
+          name: location.name,
+          todayRevenue: stats.todayRevenue,
+          todayAppointmentCount: stats.todayAppointmentCount,
+          todayQueueCount: stats.todayQueueCount,
+          weekRevenue: weekTransactions.reduce((sum, transaction) => sum + netSaleCents(transaction), 0) / 100,
+          weekTransactionCount: weekTransactions.length,
+        };
+      }));
+      res.json(breakdown);
+    } catch (error) {
+      console.error("Error fetching location analytics:", error);
+      res.status(500).json({ message: "Failed to fetch location analytics" });
+    }
+  });
+
   // Onboarding routes
-  app.post('/api/onboarding', isAuthenticated, async (req: any, res) => {
+  app.post('/api/onboarding', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
+      const userId = req.shop.id;
       const onboardingData = onboardingSchema.parse(req.body);
       const user = await storage.completeOnboarding(userId, onboardingData);
       res.json(user);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error completing onboarding:", error);
       res.status(500).json({ message: "Failed to complete onboarding" });
     }
@@ -462,17 +1653,528 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // User profile update endpoint
-  app.put('/api/user/profile', isAuthenticated, async (req: any, res) => {
+  app.put('/api/user/profile', isAuthenticated, requirePermission("settings.manage"), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.updateUserProfile(userId, req.body);
+      const userId = req.shop.id;
+      const profileData = updateProfileSchema.parse(req.body);
+      const user = await storage.updateUserProfile(userId, profileData);
       res.json(user);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error updating user profile:", error);
       res.status(500).json({ message: "Failed to update user profile" });
     }
   });
 
+  // Staff routes - the owner invites people into their shop
+  app.get('/api/staff', isAuthenticated, requirePermission("staff.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const [members, invites] = await Promise.all([
+        storage.getStaffMembers(userId),
+        storage.getStaffInvites(userId),
+      ]);
+      // Token hashes stay on the server
+      res.json({
+        members,
+        invites: invites.map(({ tokenHash, ...invite }) => invite),
+      });
+    } catch (error) {
+      console.error("Error fetching staff:", error);
+      res.status(500).json({ message: "Failed to fetch staff" });
+    }
+  });
+
+  app.post('/api/staff/invites', isAuthenticated, requirePermission("staff.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const inviteData = staffInviteSchema.parse(req.body);
+      if (inviteData.barberId && !(await storage.getBarber(inviteData.barberId, userId))) {
+        return res.status(404).json({ message: "Barber not found" });
+      }
+      const existing = await storage.getUserByEmail(inviteData.email);
+      if (existing && (existing.id === userId || existing.shopId === userId)) {
+        return res.status(409).json({ message: "This person is already part of your shop" });
+      }
+
+      const token = randomBytes(32).toString("hex");
+      const { tokenHash, ...invite } = await storage.createStaffInvite({
+        email: inviteData.email,
+        role: inviteData.role,
+        barberId: inviteData.role === "barber" ? inviteData.barberId : null,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + staffInviteTtl),
+      }, userId);
+
+      const origin = process.env.APP_URL || `${req.protocol}://${req.get("host")}`;
+      const inviteUrl = `${origin}/invite?token=${token}`;
+      // The owner gets the link back too, so a failed email doesn't lose the invite
+      const shop = await storage.getUser(userId);
+      await getMailer().send({
+        to: invite.email,
+        subject: `You're invited to join ${shop?.barbershopName || "a shop"}`,
+        text: `You've been invited to join ${shop?.barbershopName || "a shop"} as ${invite.role.replace("_", " ")}. Accept the invite here within a week:\n\n${inviteUrl}`,
+      }).catch((error) => console.error("Error sending staff invite email:", error));
+      res.status(201).json({ invite, inviteUrl });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating staff invite:", error);
+      res.status(500).json({ message: "Failed to create invite" });
+    }
+  });
+
+  app.delete('/api/staff/invites/:id', isAuthenticated, requirePermission("staff.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const deleted = await storage.deleteStaffInvite(parseInt(req.params.id), userId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      res.json({ message: "Invite revoked" });
+    } catch (error) {
+      console.error("Error revoking staff invite:", error);
+      res.status(500).json({ message: "Failed to revoke invite" });
+    }
+  });
+
+  app.put('/api/staff/:id', isAuthenticated, requirePermission("staff.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const memberData = updateStaffMemberSchema.parse(req.body);
+      if (memberData.barberId && !(await storage.getBarber(memberData.barberId, userId))) {
+        return res.status(404).json({ message: "Barber not found" });
+      }
+      const member = await storage.updateStaffMember(req.params.id, {
+        role: memberData.role,
+        barberId: memberData.role === "barber" ? memberData.barberId : null,
+      }, userId);
+      if (!member) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating staff member:", error);
+      res.status(500).json({ message: "Failed to update staff member" });
+    }
+  });
+
+  app.delete('/api/staff/:id', isAuthenticated, requirePermission("staff.manage"), async (req: any, res) => {
+    try {
+      const userId = req.shop.id;
+      const removed = await storage.removeStaffMember(req.params.id, userId);
+      if (!removed) {
+        return res.status(404).json({ message: "Staff member not found" });
+      }
+      res.json({ message: "Staff member removed" });
+    } catch (error) {
+      console.error("Error removing staff member:", error);
+      res.status(500).json({ message: "Failed to remove staff member" });
+    }
+  });
+
+  // Invite acceptance - unauthenticated, the token is the credential
+  app.get('/api/invites/:token', async (req, res) => {
+    try {
+      const invite = await storage.getStaffInviteByToken(hashToken(req.params.token));
+      if (!invite) {
+        return res.status(404).json({ message: "This invite is invalid or has expired" });
+      }
+      const shop = await storage.getUser(invite.userId);
+      res.json({
+        email: invite.email,
+        role: invite.role,
+        barbershopName: shop?.barbershopName,
+        hasAccount: !!(await storage.getUserByEmail(invite.email)),
+      });
+    } catch (error) {
+      console.error("Error fetching invite:", error);
+      res.status(500).json({ message: "Failed to fetch invite" });
+    }
+  });
+
+  // Signed-in users join with their current account; everyone else gets a
+  // new password account for the invited email
+  app.post('/api/invites/accept', async (req: any, res, next) => {
+    try {
+      const { token, password, firstName, lastName } = acceptInviteSchema.parse(req.body);
+      const invite = await storage.getStaffInviteByToken(hashToken(token));
+      if (!invite) {
+        return res.status(404).json({ message: "This invite is invalid or has expired" });
+      }
+
+      let account: User | undefined;
+      if (req.isAuthenticated()) {
+        account = await storage.getUser(req.user.claims.sub);
+      } else {
+        if (await storage.getUserByEmail(invite.email)) {
+          return res.status(409).json({ message: "An account with this email already exists. Sign in, then open the invite link again." });
+        }
+        if (!password) {
+          return res.status(400).json({ message: "Choose a password for your account" });
+        }
+        account = await storage.upsertUser({ id: randomUUID(), email: invite.email, firstName, lastName });
+        await storage.setPasswordHash(account.id, await hashPassword(password));
+      }
+      if (!account) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (account.id === invite.userId || (account.isOnboarded && !account.shopId)) {
+        return res.status(409).json({ message: "This account already runs its own shop" });
+      }
+
+      const member = await storage.acceptStaffInvite(invite.id, account.id);
+      if (!member) {
+        return res.status(404).json({ message: "This invite is invalid or has expired" });
+      }
+      if (req.isAuthenticated()) {
+        return res.json(member);
+      }
+      req.login(toSessionUser(member), (error: unknown) => {
+        if (error) return next(error);
+        res.status(201).json(member);
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error accepting invite:", error);
+      res.status(500).json({ message: "Failed to accept invite" });
+    }
+  });
+
+  // Paired device routes - no staff session. Pairing swaps the code typed on
+  // the device for its token; everything after that runs on the token.
+  app.post('/api/devices/pair', async (req, res) => {
+    try {
+      const { kind, code } = pairDeviceSchema.parse(req.body);
+      const token = randomBytes(32).toString("hex");
+      const device = await storage.pairDevice(kind, hashToken(code.replace(/[\s-]/g, "").toUpperCase()), hashToken(token));
+      if (!device) {
+        return res.status(404).json({ message: "That code is invalid or has expired" });
+      }
+      res.json({ token, name: device.name });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error pairing device:", error);
+      res.status(500).json({ message: "Failed to pair device" });
+    }
+  });
+
+  // The walk-in check-in kiosk
+  app.get('/api/kiosk', requireDevice("kiosk"), async (req, res) => {
+    try {
+      const { userId, locationId } = req.device!;
+      const shop = await storage.getUser(userId);
+      const location = locationId ? await storage.getLocation(locationId, userId) : undefined;
+      const services = await storage.getServices(userId, locationId);
+      const barbers = await storage.getBarbers(userId, locationId);
+      res.json({
+        shop: {
+          barbershopName: shop?.barbershopName,
+          locationName: location?.name ?? null,
+          logoUrl: shop?.logoUrl,
+          primaryColor: shop?.primaryColor,
+          secondaryColor: shop?.secondaryColor,
+          acceptsWalkIns: shop?.bookingStyle !== "appointment",
+        },
+        services: services
+          .filter((service) => service.isActive)
+          .map(({ id, name, price, duration }) => ({ id, name, price, duration })),
+        barbers: barbers
+          .filter((barber) => barber.isActive)
+          .map(({ id, name }) => ({ id, name })),
+      });
+    } catch (error) {
+      console.error("Error fetching kiosk:", error);
+      res.status(500).json({ message: "Failed to fetch kiosk" });
+    }
+  });
+
+  app.post('/api/kiosk/check-in', requireDevice("kiosk"), async (req, res) => {
+    try {
+      const { userId, locationId } = req.device!;
+      const shop = await storage.getUser(userId);
+      if (shop?.bookingStyle === "appointment") {
+        return res.status(403).json({ message: "This shop isn't taking walk-ins" });
+      }
+
+      const checkInData = kioskCheckInSchema.parse(req.body);
+      const service = await storage.getService(checkInData.serviceId, userId);
+      if (!service || !service.isActive || service.locationId !== locationId) {
+        return res.status(400).json({ message: "Selected service is not available" });
+      }
+      const barber = checkInData.barber || null;
+      if (barber) {
+        const barbers = await storage.getBarbers(userId, locationId);
+        if (!barbers.some((candidate) => candidate.isActive && candidate.name === barber)) {
+          return res.status(400).json({ message: "Selected barber is not available" });
+        }
+      }
+
+      let customer = await storage.findCustomerByContact(userId, checkInData.phone);
+      if (!customer) {
+        customer = await storage.createCustomer({ name: checkInData.name, phone: checkInData.phone }, userId);
+        publishChange(userId, "customers");
+      }
+
+      const queue = await storage.getQueue(userId, locationId);
+      const waiting = queue.filter((item) => item.status === "waiting");
+      const firstName = checkInData.name.split(/\s+/)[0];
+      // Checking in twice just shows the spot they already have
+      const customerId = customer.id;
+      const existing = waiting.find((item) => item.customerId === customerId);
+      if (existing) {
+        const checkIn: KioskCheckIn = {
+          queueId: existing.id,
+          firstName,
+          position: waiting.indexOf(existing) + 1,
+          estimatedWaitTime: existing.estimatedWaitTime ?? 0,
+        };
+        return res.json(checkIn);
+      }
+
+      const queueItem = await storage.addToQueue({
+        customerId,
+        serviceId: service.id,
+        barber,
+        position: Math.max(0, ...queue.map((item) => item.position)) + 1,
+        status: "waiting",
+      }, userId, locationId);
+      const waitTimes = await refreshQueueWaitTimes(userId, locationId);
+      publishChange(userId, "queue", locationId);
+
+      const checkIn: KioskCheckIn = {
+        queueId: queueItem.id,
+        firstName,
+        position: waiting.length + 1,
+        estimatedWaitTime: waitTimes.get(queueItem.id) ?? 0,
+      };
+      res.status(201).json(checkIn);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error checking in from kiosk:", error);
+      res.status(500).json({ message: "Failed to check in" });
+    }
+  });
+
+  // The lobby queue display - read-only, and shows no more of a customer
+  // than a first name and initial
+  app.get('/api/display', requireDevice("display"), async (req, res) => {
+    try {
+      const { userId, locationId } = req.device!;
+      const shop = await storage.getUser(userId);
+      const location = locationId ? await storage.getLocation(locationId, userId) : undefined;
+      const queue = await storage.getQueue(userId, locationId);
+      const customers = await storage.getCustomers(userId);
+      const names = new Map(customers.map((customer) => [customer.id, customer.name]));
+      const entries: QueueBoardEntry[] = queue
+        .filter((item) => item.status === "waiting" || item.status === "in_progress")
+        .map((item) => ({
+          id: item.id,
+          name: boardName(names.get(item.customerId) ?? ""),
+          barber: item.barber,
+          status: item.status ?? "waiting",
+          estimatedWaitTime: item.estimatedWaitTime,
+        }));
+      res.json({
+        shop: {
+          barbershopName: shop?.barbershopName,
+          locationName: location?.name ?? null,
+          logoUrl: shop?.logoUrl,
+          primaryColor: shop?.primaryColor,
+          secondaryColor: shop?.secondaryColor,
+        },
+        queue: entries,
+      });
+    } catch (error) {
+      console.error("Error fetching queue display:", error);
+      res.status(500).json({ message: "Failed to fetch queue display" });
+    }
+  });
+
+  app.get('/api/display/events', requireDevice("display"), (req, res) => {
+    const { userId, locationId } = req.device!;
+    subscribeToChanges({ id: userId, locationId }, res);
+  });
+
+  // Public booking site routes - unauthenticated, the shop is resolved from
+  // the Host header or from the /s/:subdomain path fallback. Additional
+  // locations have their own subdomain and show their own contact details.
+  const getPublicShop = async (req: any) => {
+    const subdomain = (req.params.subdomain || getSubdomainFromHost(req.hostname, process.env.BASE_DOMAIN))?.toLowerCase();
+    if (!subdomain) return undefined;
+
+    const shop = await storage.getUserBySubdomain(subdomain);
+    if (shop) {
+      return shop.isOnboarded ? { ...shop, locationId: null, locationName: null } : undefined;
+    }
+
+    const location = await storage.getLocationBySubdomain(subdomain);
+    const owner = location && await storage.getUser(location.userId);
+    if (!location || !owner?.isOnboarded) return undefined;
+    return {
+      ...owner,
+      address: location.address,
+      phone: location.phone,
+      businessHours: location.businessHours,
+      subdomain: location.subdomain,
+      locationId: location.id,
+      locationName: location.name,
+    };
+  };
+
+  app.get(['/api/public/shop', '/api/public/shops/:subdomain'], async (req, res) => {
+    try {
+      const shop = await getPublicShop(req);
+      if (!shop) {
+        return res.status(404).json({ message: "Shop not found" });
+      }
+
+      const services = await storage.getServices(shop.id, shop.locationId);
+      const barbers = await storage.getBarbers(shop.id, shop.locationId);
+      res.json({
+        shop: {
+          barbershopName: shop.barbershopName,
+          locationName: shop.locationName,
+          subdomain: shop.subdomain,
+          logoUrl: shop.logoUrl,
+          primaryColor: shop.primaryColor,
+          secondaryColor: shop.secondaryColor,
+          address: shop.address,
+          phone: shop.phone,
+          bookingStyle: shop.bookingStyle,
+          businessHours: shop.businessHours,
+        },
+        services: services.map(({ id, name, duration, price, description }) => ({
+          id, name, duration, price, description,
+        })),
+        barbers: barbers
+          .filter((barber) => barber.isActive)
+          .map(({ id, name, bio, specialties, experience, profileImageUrl }) => ({
+            id, name, bio, specialties, experience, profileImageUrl,
+          })),
+      });
+    } catch (error) {
+      console.error("Error fetching public shop:", error);
+      res.status(500).json({ message: "Failed to fetch shop" });
+    }
+  });
+
+  app.get(['/api/public/shop/availability', '/api/public/shops/:subdomain/availability'], async (req, res) => {
+    try {
+      const shop = await getPublicShop(req);
+      if (!shop) {
+        return res.status(404).json({ message: "Shop not found" });
+      }
+
+      const serviceId = parseInt(req.query.serviceId as string);
+      const date = startOfCalendarDate(String(req.query.date), shop.timezone);
+      if (!serviceId || isNaN(date.getTime())) {
+        return res.status(400).json({ message: "serviceId and date are required" });
+      }
+
+      const slots = await getAvailableSlots(shop.id, {
+        serviceId,
+        date,
+        locationId: shop.locationId,
+        barber: (req.query.barber as string) || undefined,
+      });
+      res.json(slots);
+    } catch (error) {
+      console.error("Error fetching public availability:", error);
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  });
+
+  app.post(['/api/public/shop/bookings', '/api/public/shops/:subdomain/bookings'], async (req, res) => {
+    try {
+      const shop = await getPublicShop(req);
+      if (!shop) {
+        return res.status(404).json({ message: "Shop not found" });
+      }
+      if (shop.bookingStyle === "walk-in") {
+        return res.status(400).json({ message: "This shop only takes walk-ins" });
+      }
+
+      const bookingData = publicBookingSchema.parse(req.body);
+      const service = await storage.getService(bookingData.serviceId, shop.id);
+      if (!service || !service.isActive || service.locationId !== shop.locationId) {
+        return res.status(400).json({ message: "Selected service is not available" });
+      }
+
+      if (bookingData.barber) {
+        const barbers = await storage.getBarbers(shop.id, shop.locationId);
+        if (!barbers.some((barber) => barber.isActive && barber.name === bookingData.barber)) {
+          return res.status(400).json({ message: "Selected barber is not available" });
+        }
+      }
+
+      const startTime = new Date(bookingData.startTime);
+      if (isNaN(startTime.getTime()) || startTime < new Date()) {
+        return res.status(400).json({ message: "Please choose a time in the future" });
+      }
+      const endTime = new Date(startTime.getTime() + service.duration * 60000);
+
+      // Only slots the availability engine offers can be booked publicly
+      const slots = await getAvailableSlots(shop.id, {
+        serviceId: service.id,
+        date: startTime,
+        locationId: shop.locationId,
+        barber: bookingData.barber || undefined,
+      });
+      const slot = slots.find((candidate) => new Date(candidate.startTime).getTime() === startTime.getTime());
+      if (!slot) {
+        return res.status(409).json({ message: "That time is no longer available" });
+      }
+
+      const email = bookingData.email || undefined;
+      let customer = await storage.findCustomerByContact(shop.id, bookingData.phone, email);
+      if (!customer) {
+        customer = await storage.createCustomer({ name: bookingData.name, phone: bookingData.phone, email }, shop.id);
+        publishChange(shop.id, "customers");
+      }
+
+      const appointment = await storage.createAppointment({
+        customerId: customer.id,
+        serviceId: service.id,
+        barber: bookingData.barber || slot.barbers[0] || null,
+        startTime,
+        endTime,
+        notes: bookingData.notes,
+        status: "scheduled",
+      }, shop.id, shop.locationId);
+      publishChange(shop.id, "appointments", shop.locationId);
+
+      res.status(201).json({
+        id: appointment.id,
+        serviceName: service.name,
+        barber: appointment.barber,
+        startTime: appointment.startTime,
+        endTime: appointment.endTime,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      if (error instanceof AppointmentConflictError) {
+        return res.status(409).json({ message: "That time is no longer available" });
+      }
+      console.error("Error creating public booking:", error);
+      res.status(500).json({ message: "Failed to create booking" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -2,21 +2,42 @@ import {
   users,
   customers,
   services,
+  products,
   appointments,
+  appointmentSeries,
   queue,
   reviews,
   gallery,
   transactions,
   transactionItems,
+  transactionPayments,
+  refunds,
+  refundItems,
+  cashDrawerSessions,
+  cashDrawerMovements,
   barbers,
+  barberTimeOff,
+  commissionRules,
+  timeEntries,
+  timeEntryEdits,
+  userCredentials,
+  passwordResetTokens,
+  staffInvites,
+  locations,
+  devices,
   type User,
   type UpsertUser,
   type Customer,
   type InsertCustomer,
   type Service,
   type InsertService,
+  type Product,
+  type InsertProduct,
   type Appointment,
   type InsertAppointment,
+  type AppointmentSeries,
+  type InsertAppointmentSeries,
+  type SeriesScope,
   type Queue,
   type InsertQueue,
   type Review,
@@ -26,46 +47,178 @@ import {
   type Transaction,
   type InsertTransaction,
   type TransactionItem,
+  type InsertTransactionItem,
+  type TransactionPayment,
+  type InsertTransactionPayment,
+  type TransactionWithItems,
+  type Refund,
+  type RefundData,
+  type CashDrawerSession,
+  type CashDrawerMovement,
+  type CashDrawerMovementData,
+  type DrawerActivity,
+  type ZReport,
   type Barber,
   type InsertBarber,
+  type BarberTimeOff,
+  type InsertBarberTimeOff,
+  type CommissionRule,
+  type CommissionRuleData,
+  type TimeEntry,
+  type TimeEntryEdit,
+  type TimeEntryEditData,
+  type TimeEntryWithEdits,
+  type TimePunchAction,
   type OnboardingData,
+  type StaffInvite,
+  type InsertStaffInvite,
+  type UpdateStaffMemberData,
+  type Location,
+  type Device,
+  type DeviceKind,
+  type QueueStatus,
+  type InsertDevice,
+  type InsertLocation,
 } from "@shared/schema";
+import { randomUUID } from "crypto";
 import { db } from "./db";
-import { eq, and, desc, asc, count } from "drizzle-orm";
+import { MemStorage } from "./memStorage";
+import { eq, and, or, ne, gt, gte, lt, lte, desc, asc, count, sql, inArray, notInArray, isNull, isNotNull, getTableColumns } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { getDayRange } from "@shared/schedule";
+import type { TimeZone } from "@shared/timezone";
+import { fromCents, netSaleCents, toCents } from "@shared/pricing";
+import { assertVoidable, planRefund, refundsThroughProcessor, saleAfterRefunds, saleStatusAfterPayments } from "./refunds";
+import { applyPunch, entryTimes, planTimeEntryEdit } from "./timeclock";
+import { queueStatusTimes } from "./queueMetrics";
+import { moveSeries } from "./recurrence";
+
+// Thrown when an appointment would overlap another booking for the same barber
+export class AppointmentConflictError extends Error {
+  constructor(public conflict: Appointment) {
+    super("The barber already has an appointment at this time");
+    this.name = "AppointmentConflictError";
+  }
+}
+
+// Thrown when a sale asks for more of a product than is on the shelf
+export class OutOfStockError extends Error {
+  constructor(public product: Product) {
+    super(product.stock > 0
+      ? `Only ${product.stock} of ${product.name} left in stock`
+      : `${product.name} is out of stock`);
+    this.name = "OutOfStockError";
+  }
+}
+
+// Location filter for list queries: undefined reads every location, null only
+// the shop's main location
+function atLocation(column: AnyPgColumn, locationId?: number | null) {
+  if (locationId === undefined) return [];
+  return [locationId === null ? isNull(column) : eq(column, locationId)];
+}
 
 export interface IStorage {
   // User operations - required for Replit Auth
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  getUserBySubdomain(subdomain: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+
+  // Local credential operations
+  getPasswordHash(userId: string): Promise<string | undefined>;
+  setPasswordHash(userId: string, passwordHash: string): Promise<void>;
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void>;
+  consumePasswordResetToken(tokenHash: string): Promise<string | undefined>;
+
+  // Staff operations
+  getStaffMembers(shopId: string): Promise<User[]>;
+  updateStaffMember(id: string, data: UpdateStaffMemberData, shopId: string): Promise<User | undefined>;
+  removeStaffMember(id: string, shopId: string): Promise<boolean>;
+  getStaffInvites(shopId: string): Promise<StaffInvite[]>;
+  getStaffInviteByToken(tokenHash: string): Promise<StaffInvite | undefined>;
+  createStaffInvite(invite: InsertStaffInvite, shopId: string): Promise<StaffInvite>;
+  deleteStaffInvite(id: number, shopId: string): Promise<boolean>;
+  // Undefined when the invite was already accepted, so it can only be used once
+  acceptStaffInvite(inviteId: number, userId: string): Promise<User | undefined>;
+
+  // Location operations
+  getLocations(userId: string): Promise<Location[]>;
+  getLocation(id: number, userId: string): Promise<Location | undefined>;
+  getLocationBySubdomain(subdomain: string): Promise<Location | undefined>;
+  createLocation(location: InsertLocation, userId: string): Promise<Location>;
+  updateLocation(id: number, location: Partial<InsertLocation>, userId: string): Promise<Location | undefined>;
+  deleteLocation(id: number, userId: string): Promise<boolean>;
+
+  // Device operations
+  getDevices(userId: string, locationId?: number | null): Promise<Device[]>;
+  createDevice(device: InsertDevice, userId: string, locationId?: number | null): Promise<Device>;
+  // Swaps an unexpired pairing code for the device's own token. Undefined if
+  // the code doesn't match a device of that kind waiting to be paired.
+  pairDevice(kind: DeviceKind, pairingCodeHash: string, tokenHash: string): Promise<Device | undefined>;
+  // Paired devices, looked up by their token (not shop scoped)
+  getDeviceByToken(tokenHash: string): Promise<Device | undefined>;
+  deleteDevice(id: number, userId: string): Promise<boolean>;
 
   // Customer operations
   getCustomers(userId: string): Promise<Customer[]>;
-  getCustomer(id: number): Promise<Customer | undefined>;
+  getCustomer(id: number, userId: string): Promise<Customer | undefined>;
+  findCustomerByContact(userId: string, phone?: string, email?: string): Promise<Customer | undefined>;
   createCustomer(customer: InsertCustomer, userId: string): Promise<Customer>;
-  updateCustomer(id: number, customer: Partial<InsertCustomer>): Promise<Customer>;
-  deleteCustomer(id: number): Promise<void>;
+  updateCustomer(id: number, customer: Partial<InsertCustomer>, userId: string): Promise<Customer | undefined>;
+  deleteCustomer(id: number, userId: string): Promise<boolean>;
 
   // Service operations
-  getServices(userId: string): Promise<Service[]>;
-  getService(id: number): Promise<Service | undefined>;
-  createService(service: InsertService, userId: string): Promise<Service>;
-  updateService(id: number, service: Partial<InsertService>): Promise<Service>;
-  deleteService(id: number): Promise<void>;
+  getServices(userId: string, locationId?: number | null): Promise<Service[]>;
+  getService(id: number, userId: string): Promise<Service | undefined>;
+  createService(service: InsertService, userId: string, locationId?: number | null): Promise<Service>;
+  updateService(id: number, service: Partial<InsertService>, userId: string): Promise<Service | undefined>;
+  deleteService(id: number, userId: string): Promise<boolean>;
+
+  // Product operations
+  getProducts(userId: string, locationId?: number | null): Promise<Product[]>;
+  getLowStockProducts(userId: string, locationId?: number | null): Promise<Product[]>;
+  getProduct(id: number, userId: string): Promise<Product | undefined>;
+  createProduct(product: InsertProduct, userId: string, locationId?: number | null): Promise<Product>;
+  updateProduct(id: number, product: Partial<InsertProduct>, userId: string): Promise<Product | undefined>;
+  deleteProduct(id: number, userId: string): Promise<boolean>;
 
   // Appointment operations
-  getAppointments(userId: string): Promise<Appointment[]>;
-  getTodaysAppointments(userId: string): Promise<Appointment[]>;
-  getAppointment(id: number): Promise<Appointment | undefined>;
-  createAppointment(appointment: InsertAppointment, userId: string): Promise<Appointment>;
-  updateAppointment(id: number, appointment: Partial<InsertAppointment>): Promise<Appointment>;
-  deleteAppointment(id: number): Promise<void>;
+  getAppointments(userId: string, locationId?: number | null): Promise<Appointment[]>;
+  getTodaysAppointments(userId: string, locationId: number | null, timeZone: TimeZone): Promise<Appointment[]>;
+  getAppointmentsInRange(userId: string, start: Date, end: Date, locationId?: number | null): Promise<Appointment[]>;
+  getAppointment(id: number, userId: string): Promise<Appointment | undefined>;
+  createAppointment(appointment: InsertAppointment, userId: string, locationId?: number | null): Promise<Appointment>;
+  updateAppointment(id: number, appointment: Partial<InsertAppointment>, userId: string): Promise<Appointment | undefined>;
+  deleteAppointment(id: number, userId: string): Promise<boolean>;
+  createAppointmentSeries(
+    series: InsertAppointmentSeries,
+    occurrences: InsertAppointment[],
+    userId: string,
+    locationId?: number | null,
+  ): Promise<{ series: AppointmentSeries; appointments: Appointment[] }>;
+  // The appointments a series edit with this scope would touch
+  getAppointmentsInSeries(id: number, scope: SeriesScope, userId: string): Promise<Appointment[]>;
+  updateAppointmentInSeries(
+    id: number,
+    appointment: Partial<InsertAppointment>,
+    scope: SeriesScope,
+    userId: string,
+  ): Promise<Appointment[] | undefined>;
+  deleteAppointmentInSeries(id: number, scope: SeriesScope, userId: string): Promise<boolean>;
 
   // Queue operations
-  getQueue(userId: string): Promise<Queue[]>;
-  addToQueue(queueItem: InsertQueue, userId: string): Promise<Queue>;
-  updateQueuePosition(id: number, position: number): Promise<Queue>;
-  updateQueueStatus(id: number, status: string): Promise<Queue>;
-  removeFromQueue(id: number): Promise<void>;
+  getQueue(userId: string, locationId?: number | null): Promise<Queue[]>;
+  // Everyone who joined the queue in the range, whatever became of them
+  getQueueHistory(userId: string, locationId: number | null, since: Date, until: Date): Promise<Queue[]>;
+  addToQueue(queueItem: InsertQueue, userId: string, locationId?: number | null): Promise<Queue>;
+  updateQueuePosition(id: number, position: number, userId: string): Promise<Queue | undefined>;
+  // Stamps startedAt, completedAt or leftAt to match the new status
+  updateQueueStatus(id: number, status: QueueStatus, userId: string): Promise<Queue | undefined>;
+  // Returns the removed entry, so callers know which location's line moved
+  removeFromQueue(id: number, userId: string): Promise<Queue | undefined>;
+  // Stores re-estimated waits. Nobody edited the entries, so updatedAt stays.
+  setQueueWaitTimes(waitTimes: { id: number; estimatedWaitTime: number }[], userId: string): Promise<void>;
 
   // Review operations
   getReviews(userId: string): Promise<Review[]>;
@@ -75,16 +228,54 @@ export interface IStorage {
   // Gallery operations
   getGallery(userId: string): Promise<Gallery[]>;
   createGalleryItem(item: InsertGallery, userId: string): Promise<Gallery>;
-  updateGalleryItem(id: number, item: Partial<InsertGallery>): Promise<Gallery>;
-  deleteGalleryItem(id: number): Promise<void>;
+  updateGalleryItem(id: number, item: Partial<InsertGallery>, userId: string): Promise<Gallery | undefined>;
+  deleteGalleryItem(id: number, userId: string): Promise<boolean>;
 
   // Transaction operations
-  getTransactions(userId: string): Promise<Transaction[]>;
-  getTodaysTransactions(userId: string): Promise<Transaction[]>;
-  createTransaction(transaction: InsertTransaction, userId: string): Promise<Transaction>;
+  getTransactions(userId: string, locationId?: number | null): Promise<Transaction[]>;
+  getTodaysTransactions(userId: string, locationId: number | null, timeZone: TimeZone): Promise<Transaction[]>;
+  getTransaction(id: number, userId: string): Promise<TransactionWithItems | undefined>;
+  createTransaction(
+    transaction: InsertTransaction,
+    items: InsertTransactionItem[],
+    payments: InsertTransactionPayment[],
+    userId: string,
+    locationId?: number | null,
+  ): Promise<Transaction>;
+  // Card parts of a refund are recorded pending. The processor is asked
+  // after the sale is unlocked, then each part is completed or released.
+  createRefund(
+    transactionId: number,
+    refund: RefundData,
+    refundedBy: string,
+    userId: string,
+  ): Promise<Refund[] | undefined>;
+  completeRefund(id: number, providerRefundId: string | null): Promise<void>;
+  // Drops a pending refund the processor turned down, giving its amount and
+  // any lines it returned back to the sale
+  releaseRefund(id: number): Promise<void>;
+  // Card payments on the voided sale are given back by the caller afterwards
+  voidTransaction(id: number, reason: string, userId: string, timeZone: TimeZone): Promise<Transaction | undefined>;
+  markPaymentRefunded(id: number): Promise<void>;
+  // Payments a processor took, looked up from its webhooks (not shop scoped)
+  getPaymentByProviderId(provider: string, providerPaymentId: string): Promise<TransactionPayment | undefined>;
+  settlePayment(id: number, status: "captured" | "failed", reason?: string): Promise<Transaction | undefined>;
+
+  // Cash drawer operations
+  getOpenCashDrawerSession(userId: string, locationId?: number | null): Promise<CashDrawerSession | undefined>;
+  // Closed sessions, newest first
+  getCashDrawerSessions(userId: string, locationId?: number | null): Promise<CashDrawerSession[]>;
+  getCashDrawerSession(id: number, userId: string): Promise<CashDrawerSession | undefined>;
+  openCashDrawerSession(openingFloat: string, openedBy: string, userId: string, locationId?: number | null): Promise<CashDrawerSession>;
+  getCashDrawerMovements(sessionId: number): Promise<CashDrawerMovement[]>;
+  addCashDrawerMovement(sessionId: number, movement: CashDrawerMovementData, createdBy: string): Promise<CashDrawerMovement>;
+  // Sales rung up and refunds given at a location between two times
+  getDrawerActivity(userId: string, locationId: number | null, since: Date, until: Date): Promise<DrawerActivity>;
+  // Undefined if the session is already closed
+  closeCashDrawerSession(id: number, report: ZReport, notes: string | null, closedBy: string, userId: string): Promise<CashDrawerSession | undefined>;
   
   // Analytics operations
-  getDashboardStats(userId: string): Promise<{
+  getDashboardStats(userId: string, locationId: number | null, timeZone: TimeZone): Promise<{
     todayQueueCount: number;
     todayAppointmentCount: number;
     averageWaitTime: number;
@@ -92,11 +283,51 @@ export interface IStorage {
   }>;
 
   // Barber operations
-  getBarbers(userId: string): Promise<Barber[]>;
-  getBarber(id: number): Promise<Barber | undefined>;
-  createBarber(barber: InsertBarber, userId: string): Promise<Barber>;
-  updateBarber(id: number, barber: Partial<InsertBarber>): Promise<Barber>;
-  deleteBarber(id: number): Promise<void>;
+  getBarbers(userId: string, locationId?: number | null): Promise<Barber[]>;
+  getBarber(id: number, userId: string): Promise<Barber | undefined>;
+  createBarber(barber: InsertBarber, userId: string, locationId?: number | null): Promise<Barber>;
+  updateBarber(id: number, barber: Partial<InsertBarber>, userId: string): Promise<Barber | undefined>;
+  deleteBarber(id: number, userId: string): Promise<boolean>;
+  getBarberTimeOff(userId: string, start?: Date, end?: Date): Promise<BarberTimeOff[]>;
+  createBarberTimeOff(timeOff: InsertBarberTimeOff, userId: string): Promise<BarberTimeOff>;
+  deleteBarberTimeOff(id: number, userId: string): Promise<boolean>;
+
+  // Payroll operations
+  getCommissionRules(userId: string): Promise<CommissionRule[]>;
+  // Each barber has one rule; saving replaces it
+  saveCommissionRule(barberId: number, rule: CommissionRuleData, userId: string): Promise<CommissionRule>;
+  // Sales rung up at a location between two times, with their line items
+  getSalesWithItems(
+    userId: string,
+    locationId: number | null,
+    since: Date,
+    until: Date,
+  ): Promise<(Transaction & { items: TransactionItem[] })[]>;
+
+  // Time clock operations
+  // Shifts still on the clock
+  getOpenTimeEntries(userId: string, locationId?: number | null): Promise<TimeEntry[]>;
+  // Shifts that started at a location between two times, with their edit history
+  getTimeEntries(userId: string, locationId: number | null, since: Date, until: Date): Promise<TimeEntryWithEdits[]>;
+  getTimeEntry(id: number, userId: string): Promise<TimeEntryWithEdits | undefined>;
+  // Throws TimeClockError when the punch doesn't fit the barber's open shift
+  punchTimeClock(
+    barberId: number,
+    action: TimePunchAction,
+    punchedBy: string,
+    userId: string,
+    locationId?: number | null,
+  ): Promise<TimeEntry>;
+  // Owner corrections, each recorded in the shift's edit history. Undefined
+  // if the entry doesn't exist.
+  editTimeEntry(id: number, data: TimeEntryEditData, editedBy: string, userId: string): Promise<TimeEntry | undefined>;
+  addTimeEntry(
+    barberId: number,
+    data: TimeEntryEditData,
+    editedBy: string,
+    userId: string,
+    locationId?: number | null,
+  ): Promise<TimeEntry>;
 
   // Onboarding operations
   completeOnboarding(userId: string, data: OnboardingData): Promise<User>;
@@ -128,6 +359,244 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserBySubdomain(subdomain: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.subdomain, subdomain));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user;
+  }
+
+  // Local credential operations
+  async getPasswordHash(userId: string): Promise<string | undefined> {
+    const [credentials] = await db
+      .select()
+      .from(userCredentials)
+      .where(eq(userCredentials.userId, userId));
+    return credentials?.passwordHash;
+  }
+
+  async setPasswordHash(userId: string, passwordHash: string): Promise<void> {
+    await db
+      .insert(userCredentials)
+      .values({ userId, passwordHash })
+      .onConflictDoUpdate({
+        target: userCredentials.userId,
+        set: { passwordHash, updatedAt: new Date() },
+      });
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<void> {
+    await db.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt });
+  }
+
+  // Marks the token used and returns its user, or undefined when the token is
+  // unknown, expired or already spent
+  async consumePasswordResetToken(tokenHash: string): Promise<string | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date()),
+      ))
+      .returning();
+    return token?.userId;
+  }
+
+  // Staff operations
+  async getStaffMembers(shopId: string): Promise<User[]> {
+    return await db
+      .select()
+      .from(users)
+      .where(eq(users.shopId, shopId))
+      .orderBy(asc(users.createdAt));
+  }
+
+  async updateStaffMember(id: string, data: UpdateStaffMemberData, shopId: string): Promise<User | undefined> {
+    const [member] = await db
+      .update(users)
+      .set({ role: data.role, barberId: data.barberId ?? null, updatedAt: new Date() })
+      .where(and(eq(users.id, id), eq(users.shopId, shopId)))
+      .returning();
+    return member;
+  }
+
+  // The account stays, it just stops belonging to the shop and has no role
+  async removeStaffMember(id: string, shopId: string): Promise<boolean> {
+    const removed = await db
+      .update(users)
+      .set({ shopId: null, role: null, barberId: null, updatedAt: new Date() })
+      .where(and(eq(users.id, id), eq(users.shopId, shopId)))
+      .returning({ id: users.id });
+    return removed.length > 0;
+  }
+
+  async getStaffInvites(shopId: string): Promise<StaffInvite[]> {
+    return await db
+      .select()
+      .from(staffInvites)
+      .where(and(eq(staffInvites.userId, shopId), isNull(staffInvites.acceptedAt)))
+      .orderBy(desc(staffInvites.createdAt));
+  }
+
+  // Only invites that are still open can be looked up by token
+  async getStaffInviteByToken(tokenHash: string): Promise<StaffInvite | undefined> {
+    const [invite] = await db
+      .select()
+      .from(staffInvites)
+      .where(and(
+        eq(staffInvites.tokenHash, tokenHash),
+        isNull(staffInvites.acceptedAt),
+        gt(staffInvites.expiresAt, new Date()),
+      ));
+    return invite;
+  }
+
+  async createStaffInvite(invite: InsertStaffInvite, shopId: string): Promise<StaffInvite> {
+    const [newInvite] = await db
+      .insert(staffInvites)
+      .values({ ...invite, userId: shopId })
+      .returning();
+    return newInvite;
+  }
+
+  async deleteStaffInvite(id: number, shopId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(staffInvites)
+      .where(and(eq(staffInvites.id, id), eq(staffInvites.userId, shopId)))
+      .returning({ id: staffInvites.id });
+    return deleted.length > 0;
+  }
+
+  async acceptStaffInvite(inviteId: number, userId: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [invite] = await tx
+        .update(staffInvites)
+        .set({ acceptedAt: new Date() })
+        .where(and(eq(staffInvites.id, inviteId), isNull(staffInvites.acceptedAt)))
+        .returning();
+      if (!invite) return undefined;
+
+      const [member] = await tx
+        .update(users)
+        .set({ shopId: invite.userId, role: invite.role, barberId: invite.barberId, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+      return member;
+    });
+  }
+
+  // Location operations
+  async getLocations(userId: string): Promise<Location[]> {
+    return await db
+      .select()
+      .from(locations)
+      .where(and(eq(locations.userId, userId), eq(locations.isActive, true)))
+      .orderBy(asc(locations.name));
+  }
+
+  async getLocation(id: number, userId: string): Promise<Location | undefined> {
+    const [location] = await db
+      .select()
+      .from(locations)
+      .where(and(eq(locations.id, id), eq(locations.userId, userId), eq(locations.isActive, true)));
+    return location;
+  }
+
+  async getLocationBySubdomain(subdomain: string): Promise<Location | undefined> {
+    const [location] = await db
+      .select()
+      .from(locations)
+      .where(and(eq(locations.subdomain, subdomain), eq(locations.isActive, true)));
+    return location;
+  }
+
+  async createLocation(location: InsertLocation, userId: string): Promise<Location> {
+    const subdomain = await this.generateSubdomain(location.name);
+    const [newLocation] = await db
+      .insert(locations)
+      .values({ ...location, subdomain, userId })
+      .returning();
+    return newLocation;
+  }
+
+  async updateLocation(id: number, location: Partial<InsertLocation>, userId: string): Promise<Location | undefined> {
+    const [updatedLocation] = await db
+      .update(locations)
+      .set({ ...location, updatedAt: new Date() })
+      .where(and(eq(locations.id, id), eq(locations.userId, userId), eq(locations.isActive, true)))
+      .returning();
+    return updatedLocation;
+  }
+
+  // Closed locations keep their history for reporting; their kiosks and
+  // displays are unpaired so they stop taking walk-ins
+  async deleteLocation(id: number, userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const deleted = await tx
+        .update(locations)
+        .set({ isActive: false, subdomain: null, updatedAt: new Date() })
+        .where(and(eq(locations.id, id), eq(locations.userId, userId), eq(locations.isActive, true)))
+        .returning({ id: locations.id });
+      if (deleted.length === 0) return false;
+      await tx.delete(devices).where(and(eq(devices.locationId, id), eq(devices.userId, userId)));
+      return true;
+    });
+  }
+
+  // Device operations
+  async getDevices(userId: string, locationId?: number | null): Promise<Device[]> {
+    return await db
+      .select()
+      .from(devices)
+      .where(and(eq(devices.userId, userId), ...atLocation(devices.locationId, locationId)))
+      .orderBy(asc(devices.createdAt));
+  }
+
+  async createDevice(device: InsertDevice, userId: string, locationId: number | null = null): Promise<Device> {
+    const [newDevice] = await db
+      .insert(devices)
+      .values({ ...device, userId, locationId })
+      .returning();
+    return newDevice;
+  }
+
+  async pairDevice(kind: DeviceKind, pairingCodeHash: string, tokenHash: string): Promise<Device | undefined> {
+    const [device] = await db
+      .update(devices)
+      .set({ tokenHash, pairedAt: new Date(), pairingCodeHash: null, pairingExpiresAt: null })
+      .where(and(
+        eq(devices.kind, kind),
+        eq(devices.pairingCodeHash, pairingCodeHash),
+        gt(devices.pairingExpiresAt, new Date()),
+      ))
+      .returning();
+    return device;
+  }
+
+  async getDeviceByToken(tokenHash: string): Promise<Device | undefined> {
+    const [device] = await db
+      .select()
+      .from(devices)
+      .where(eq(devices.tokenHash, tokenHash));
+    return device;
+  }
+
+  async deleteDevice(id: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(devices)
+      .where(and(eq(devices.id, id), eq(devices.userId, userId)))
+      .returning({ id: devices.id });
+    return deleted.length > 0;
+  }
+
   // Customer operations
   async getCustomers(userId: string): Promise<Customer[]> {
     return await db
@@ -137,11 +606,27 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(customers.createdAt));
   }
 
-  async getCustomer(id: number): Promise<Customer | undefined> {
+  async getCustomer(id: number, userId: string): Promise<Customer | undefined> {
     const [customer] = await db
       .select()
       .from(customers)
-      .where(eq(customers.id, id));
+      .where(and(eq(customers.id, id), eq(customers.userId, userId)));
+    return customer;
+  }
+
+  async findCustomerByContact(userId: string, phone?: string, email?: string): Promise<Customer | undefined> {
+    const matches = [
+      ...(phone ? [eq(customers.phone, phone)] : []),
+      ...(email ? [eq(customers.email, email)] : []),
+    ];
+    if (matches.length === 0) return undefined;
+
+    const [customer] = await db
+      .select()
+      .from(customers)
+      .where(and(eq(customers.userId, userId), or(...matches)))
+      .orderBy(asc(customers.createdAt))
+      .limit(1);
     return customer;
   }
 
@@ -153,149 +638,438 @@ export class DatabaseStorage implements IStorage {
     return newCustomer;
   }
 
-  async updateCustomer(id: number, customer: Partial<InsertCustomer>): Promise<Customer> {
+  async updateCustomer(id: number, customer: Partial<InsertCustomer>, userId: string): Promise<Customer | undefined> {
     const [updatedCustomer] = await db
       .update(customers)
       .set({ ...customer, updatedAt: new Date() })
-      .where(eq(customers.id, id))
+      .where(and(eq(customers.id, id), eq(customers.userId, userId)))
       .returning();
     return updatedCustomer;
   }
 
-  async deleteCustomer(id: number): Promise<void> {
-    await db.delete(customers).where(eq(customers.id, id));
+  async deleteCustomer(id: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(customers)
+      .where(and(eq(customers.id, id), eq(customers.userId, userId)))
+      .returning({ id: customers.id });
+    return deleted.length > 0;
   }
 
   // Service operations
-  async getServices(userId: string): Promise<Service[]> {
+  async getServices(userId: string, locationId?: number | null): Promise<Service[]> {
     return await db
       .select()
       .from(services)
-      .where(and(eq(services.userId, userId), eq(services.isActive, true)))
+      .where(and(eq(services.userId, userId), eq(services.isActive, true), ...atLocation(services.locationId, locationId)))
       .orderBy(asc(services.name));
   }
 
-  async getService(id: number): Promise<Service | undefined> {
+  async getService(id: number, userId: string): Promise<Service | undefined> {
     const [service] = await db
       .select()
       .from(services)
-      .where(eq(services.id, id));
+      .where(and(eq(services.id, id), eq(services.userId, userId)));
     return service;
   }
 
-  async createService(service: InsertService, userId: string): Promise<Service> {
+  async createService(service: InsertService, userId: string, locationId: number | null = null): Promise<Service> {
     const [newService] = await db
       .insert(services)
-      .values({ ...service, userId })
+      .values({ ...service, userId, locationId })
       .returning();
     return newService;
   }
 
-  async updateService(id: number, service: Partial<InsertService>): Promise<Service> {
+  async updateService(id: number, service: Partial<InsertService>, userId: string): Promise<Service | undefined> {
     const [updatedService] = await db
       .update(services)
       .set(service)
-      .where(eq(services.id, id))
+      .where(and(eq(services.id, id), eq(services.userId, userId)))
       .returning();
     return updatedService;
   }
 
-  async deleteService(id: number): Promise<void> {
-    await db.update(services).set({ isActive: false }).where(eq(services.id, id));
+  async deleteService(id: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .update(services)
+      .set({ isActive: false })
+      .where(and(eq(services.id, id), eq(services.userId, userId)))
+      .returning({ id: services.id });
+    return deleted.length > 0;
+  }
+
+  // Product operations
+  async getProducts(userId: string, locationId?: number | null): Promise<Product[]> {
+    return await db
+      .select()
+      .from(products)
+      .where(and(eq(products.userId, userId), eq(products.isActive, true), ...atLocation(products.locationId, locationId)))
+      .orderBy(asc(products.name));
+  }
+
+  async getLowStockProducts(userId: string, locationId?: number | null): Promise<Product[]> {
+    return await db
+      .select()
+      .from(products)
+      .where(and(
+        eq(products.userId, userId),
+        eq(products.isActive, true),
+        lte(products.stock, products.reorderThreshold),
+        ...atLocation(products.locationId, locationId),
+      ))
+      .orderBy(asc(products.stock), asc(products.name));
+  }
+
+  async getProduct(id: number, userId: string): Promise<Product | undefined> {
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(and(eq(products.id, id), eq(products.userId, userId)));
+    return product;
+  }
+
+  async createProduct(product: InsertProduct, userId: string, locationId: number | null = null): Promise<Product> {
+    const [newProduct] = await db
+      .insert(products)
+      .values({ ...product, userId, locationId })
+      .returning();
+    return newProduct;
+  }
+
+  async updateProduct(id: number, product: Partial<InsertProduct>, userId: string): Promise<Product | undefined> {
+    const [updatedProduct] = await db
+      .update(products)
+      .set(product)
+      .where(and(eq(products.id, id), eq(products.userId, userId)))
+      .returning();
+    return updatedProduct;
+  }
+
+  // Sold products stay on old sales, so they are retired rather than deleted
+  async deleteProduct(id: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .update(products)
+      .set({ isActive: false })
+      .where(and(eq(products.id, id), eq(products.userId, userId)))
+      .returning({ id: products.id });
+    return deleted.length > 0;
+  }
+
+  // Stock moves with the sale that moved it; selling more than is on the
+  // shelf throws and takes the sale with it
+  private async adjustStock(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    productId: number,
+    change: number,
+  ) {
+    const [updated] = await tx
+      .update(products)
+      .set({ stock: sql`${products.stock} + ${change}` })
+      .where(and(eq(products.id, productId), change < 0 ? gte(products.stock, -change) : undefined))
+      .returning();
+    if (!updated) {
+      const [product] = await tx.select().from(products).where(eq(products.id, productId));
+      throw new OutOfStockError(product);
+    }
   }
 
   // Appointment operations
-  async getAppointments(userId: string): Promise<Appointment[]> {
+  async getAppointments(userId: string, locationId?: number | null): Promise<Appointment[]> {
     return await db
       .select()
       .from(appointments)
-      .where(eq(appointments.userId, userId))
+      .where(and(eq(appointments.userId, userId), ...atLocation(appointments.locationId, locationId)))
       .orderBy(desc(appointments.startTime));
   }
 
-  async getTodaysAppointments(userId: string): Promise<Appointment[]> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+  async getTodaysAppointments(userId: string, locationId: number | null, timeZone: TimeZone): Promise<Appointment[]> {
+    const { start: today, end: tomorrow } = getDayRange(new Date(), timeZone);
+
+    return await this.getAppointmentsInRange(userId, today, tomorrow, locationId);
+  }
 
+  async getAppointmentsInRange(userId: string, start: Date, end: Date, locationId?: number | null): Promise<Appointment[]> {
     return await db
       .select()
       .from(appointments)
       .where(and(
         eq(appointments.userId, userId),
-        eq(appointments.startTime, today),
-        eq(appointments.startTime, tomorrow)
+        gte(appointments.startTime, start),
+        lt(appointments.startTime, end),
+        ...atLocation(appointments.locationId, locationId),
       ))
       .orderBy(asc(appointments.startTime));
   }
 
-  async getAppointment(id: number): Promise<Appointment | undefined> {
+  async getAppointment(id: number, userId: string): Promise<Appointment | undefined> {
     const [appointment] = await db
       .select()
       .from(appointments)
-      .where(eq(appointments.id, id));
+      .where(and(eq(appointments.id, id), eq(appointments.userId, userId)));
     return appointment;
   }
 
-  async createAppointment(appointment: InsertAppointment, userId: string): Promise<Appointment> {
-    const [newAppointment] = await db
-      .insert(appointments)
-      .values({ ...appointment, userId })
-      .returning();
-    return newAppointment;
+  async createAppointment(appointment: InsertAppointment, userId: string, locationId: number | null = null): Promise<Appointment> {
+    return await db.transaction(async (tx) => {
+      await this.assertNoAppointmentConflict(tx, { ...appointment, userId, locationId });
+
+      const [newAppointment] = await tx
+        .insert(appointments)
+        .values({ ...appointment, userId, locationId })
+        .returning();
+      return newAppointment;
+    });
   }
 
-  async updateAppointment(id: number, appointment: Partial<InsertAppointment>): Promise<Appointment> {
-    const [updatedAppointment] = await db
-      .update(appointments)
-      .set({ ...appointment, updatedAt: new Date() })
-      .where(eq(appointments.id, id))
-      .returning();
-    return updatedAppointment;
+  async updateAppointment(id: number, appointment: Partial<InsertAppointment>, userId: string): Promise<Appointment | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(appointments)
+        .where(and(eq(appointments.id, id), eq(appointments.userId, userId)));
+      if (!existing) return undefined;
+
+      await this.assertNoAppointmentConflict(tx, { ...existing, ...appointment, excludeIds: [id] });
+
+      const [updatedAppointment] = await tx
+        .update(appointments)
+        .set({ ...appointment, updatedAt: new Date() })
+        .where(eq(appointments.id, id))
+        .returning();
+      return updatedAppointment;
+    });
+  }
+
+  // Reject bookings that overlap another live appointment for the same barber.
+  // The advisory lock serialises concurrent bookings for one chair so two
+  // front-desk staff can't both pass the check at the same moment. Barbers
+  // belong to one location, so names are only compared within it.
+  private async assertNoAppointmentConflict(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    appointment: {
+      excludeIds?: number[];
+      userId: string;
+      locationId: number | null;
+      barber?: string | null;
+      status?: string | null;
+      startTime: Date;
+      endTime: Date;
+    },
+  ): Promise<void> {
+    if (!appointment.barber || appointment.status === "cancelled") return;
+
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`${appointment.userId}:${appointment.locationId ?? ""}:${appointment.barber}`}))`);
+
+    const [conflict] = await tx
+      .select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.userId, appointment.userId),
+        ...atLocation(appointments.locationId, appointment.locationId),
+        eq(appointments.barber, appointment.barber),
+        ne(appointments.status, "cancelled"),
+        lt(appointments.startTime, appointment.endTime),
+        gt(appointments.endTime, appointment.startTime),
+        ...(appointment.excludeIds?.length ? [notInArray(appointments.id, appointment.excludeIds)] : []),
+      ))
+      .limit(1);
+
+    if (conflict) {
+      throw new AppointmentConflictError(conflict);
+    }
+  }
+
+  async deleteAppointment(id: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(appointments)
+      .where(and(eq(appointments.id, id), eq(appointments.userId, userId)))
+      .returning({ id: appointments.id });
+    return deleted.length > 0;
   }
 
-  async deleteAppointment(id: number): Promise<void> {
-    await db.delete(appointments).where(eq(appointments.id, id));
+  // The whole series is booked or nothing is: one clash rolls everything back
+  async createAppointmentSeries(
+    series: InsertAppointmentSeries,
+    occurrences: InsertAppointment[],
+    userId: string,
+    locationId: number | null = null,
+  ): Promise<{ series: AppointmentSeries; appointments: Appointment[] }> {
+    return await db.transaction(async (tx) => {
+      const [newSeries] = await tx
+        .insert(appointmentSeries)
+        .values({ ...series, userId })
+        .returning();
+
+      const created: Appointment[] = [];
+      for (const occurrence of occurrences) {
+        await this.assertNoAppointmentConflict(tx, { ...occurrence, userId, locationId });
+        const [newAppointment] = await tx
+          .insert(appointments)
+          .values({ ...occurrence, userId, locationId, seriesId: newSeries.id })
+          .returning();
+        created.push(newAppointment);
+      }
+      return { series: newSeries, appointments: created };
+    });
+  }
+
+  // Appointments a series-wide change applies to. Visits that already happened
+  // or were cancelled are left alone so history stays intact.
+  private async getSeriesScope(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    anchor: Appointment,
+    scope: SeriesScope,
+  ): Promise<Appointment[]> {
+    if (scope === "this" || !anchor.seriesId) return [anchor];
+
+    const members = await tx
+      .select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.seriesId, anchor.seriesId),
+        eq(appointments.status, "scheduled"),
+        ...(scope === "following" ? [gte(appointments.startTime, anchor.startTime)] : []),
+      ))
+      .orderBy(asc(appointments.startTime));
+    return members.some((member) => member.id === anchor.id) ? members : [anchor, ...members];
+  }
+
+  async getAppointmentsInSeries(id: number, scope: SeriesScope, userId: string): Promise<Appointment[]> {
+    return await db.transaction(async (tx) => {
+      const [anchor] = await tx
+        .select()
+        .from(appointments)
+        .where(and(eq(appointments.id, id), eq(appointments.userId, userId)));
+      return anchor ? await this.getSeriesScope(tx, anchor, scope) : [];
+    });
+  }
+
+  // Moving one visit of a series moves the others by the same offset, so
+  // "every other Tuesday at 10" can become "every other Wednesday at 11"
+  async updateAppointmentInSeries(
+    id: number,
+    appointment: Partial<InsertAppointment>,
+    scope: SeriesScope,
+    userId: string,
+  ): Promise<Appointment[] | undefined> {
+    return await db.transaction(async (tx) => {
+      const [anchor] = await tx
+        .select()
+        .from(appointments)
+        .where(and(eq(appointments.id, id), eq(appointments.userId, userId)));
+      if (!anchor) return undefined;
+
+      const members = await this.getSeriesScope(tx, anchor, scope);
+      const { startTime, endTime, ...fields } = appointment;
+      const times = moveSeries(anchor, members, { startTime, endTime });
+      const memberIds = members.map((member) => member.id);
+
+      const updated: Appointment[] = [];
+      for (let index = 0; index < members.length; index++) {
+        const member = members[index];
+        const changes = { ...fields, ...times[index] };
+        await this.assertNoAppointmentConflict(tx, { ...member, ...changes, excludeIds: memberIds });
+
+        const [updatedAppointment] = await tx
+          .update(appointments)
+          .set({ ...changes, updatedAt: new Date() })
+          .where(eq(appointments.id, member.id))
+          .returning();
+        updated.push(updatedAppointment);
+      }
+      return updated;
+    });
+  }
+
+  async deleteAppointmentInSeries(id: number, scope: SeriesScope, userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [anchor] = await tx
+        .select()
+        .from(appointments)
+        .where(and(eq(appointments.id, id), eq(appointments.userId, userId)));
+      if (!anchor) return false;
+
+      const members = await this.getSeriesScope(tx, anchor, scope);
+      await tx.delete(appointments).where(inArray(appointments.id, members.map((member) => member.id)));
+      return true;
+    });
   }
 
   // Queue operations
-  async getQueue(userId: string): Promise<Queue[]> {
+  async getQueue(userId: string, locationId?: number | null): Promise<Queue[]> {
     return await db
       .select()
       .from(queue)
-      .where(eq(queue.userId, userId))
+      .where(and(eq(queue.userId, userId), ...atLocation(queue.locationId, locationId)))
       .orderBy(asc(queue.position));
   }
 
-  async addToQueue(queueItem: InsertQueue, userId: string): Promise<Queue> {
+  async getQueueHistory(userId: string, locationId: number | null, since: Date, until: Date): Promise<Queue[]> {
+    return await db
+      .select()
+      .from(queue)
+      .where(and(
+        eq(queue.userId, userId),
+        gte(queue.joinedAt, since),
+        lt(queue.joinedAt, until),
+        ...atLocation(queue.locationId, locationId),
+      ))
+      .orderBy(asc(queue.joinedAt));
+  }
+
+  async addToQueue(queueItem: InsertQueue, userId: string, locationId: number | null = null): Promise<Queue> {
     const [newQueueItem] = await db
       .insert(queue)
-      .values({ ...queueItem, userId })
+      .values({ ...queueItem, userId, locationId })
       .returning();
     return newQueueItem;
   }
 
-  async updateQueuePosition(id: number, position: number): Promise<Queue> {
+  async updateQueuePosition(id: number, position: number, userId: string): Promise<Queue | undefined> {
     const [updatedQueueItem] = await db
       .update(queue)
       .set({ position, updatedAt: new Date() })
-      .where(eq(queue.id, id))
+      .where(and(eq(queue.id, id), eq(queue.userId, userId)))
       .returning();
     return updatedQueueItem;
   }
 
-  async updateQueueStatus(id: number, status: string): Promise<Queue> {
-    const [updatedQueueItem] = await db
-      .update(queue)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(queue.id, id))
+  async updateQueueStatus(id: number, status: QueueStatus, userId: string): Promise<Queue | undefined> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(queue)
+        .where(and(eq(queue.id, id), eq(queue.userId, userId)))
+        .for("update");
+      if (!existing) return undefined;
+
+      const now = new Date();
+      const [updatedQueueItem] = await tx
+        .update(queue)
+        .set({ status, ...queueStatusTimes(existing, status, now), updatedAt: now })
+        .where(eq(queue.id, id))
+        .returning();
+      return updatedQueueItem;
+    });
+  }
+
+  async removeFromQueue(id: number, userId: string): Promise<Queue | undefined> {
+    const [deleted] = await db
+      .delete(queue)
+      .where(and(eq(queue.id, id), eq(queue.userId, userId)))
       .returning();
-    return updatedQueueItem;
+    return deleted;
   }
 
-  async removeFromQueue(id: number): Promise<void> {
-    await db.delete(queue).where(eq(queue.id, id));
+  async setQueueWaitTimes(waitTimes: { id: number; estimatedWaitTime: number }[], userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const { id, estimatedWaitTime } of waitTimes) {
+        await tx
+          .update(queue)
+          .set({ estimatedWaitTime })
+          .where(and(eq(queue.id, id), eq(queue.userId, userId)));
+      }
+    });
   }
 
   // Review operations
@@ -341,70 +1115,460 @@ export class DatabaseStorage implements IStorage {
     return newItem;
   }
 
-  async updateGalleryItem(id: number, item: Partial<InsertGallery>): Promise<Gallery> {
+  async updateGalleryItem(id: number, item: Partial<InsertGallery>, userId: string): Promise<Gallery | undefined> {
     const [updatedItem] = await db
       .update(gallery)
       .set(item)
-      .where(eq(gallery.id, id))
+      .where(and(eq(gallery.id, id), eq(gallery.userId, userId)))
       .returning();
     return updatedItem;
   }
 
-  async deleteGalleryItem(id: number): Promise<void> {
-    await db.update(gallery).set({ isActive: false }).where(eq(gallery.id, id));
+  async deleteGalleryItem(id: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .update(gallery)
+      .set({ isActive: false })
+      .where(and(eq(gallery.id, id), eq(gallery.userId, userId)))
+      .returning({ id: gallery.id });
+    return deleted.length > 0;
   }
 
   // Transaction operations
-  async getTransactions(userId: string): Promise<Transaction[]> {
+  async getTransactions(userId: string, locationId?: number | null): Promise<Transaction[]> {
     return await db
       .select()
       .from(transactions)
-      .where(eq(transactions.userId, userId))
+      .where(and(eq(transactions.userId, userId), ...atLocation(transactions.locationId, locationId)))
       .orderBy(desc(transactions.createdAt));
   }
 
-  async getTodaysTransactions(userId: string): Promise<Transaction[]> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+  async getTodaysTransactions(userId: string, locationId: number | null, timeZone: TimeZone): Promise<Transaction[]> {
+    const { start: today, end: tomorrow } = getDayRange(new Date(), timeZone);
 
     return await db
       .select()
       .from(transactions)
       .where(and(
         eq(transactions.userId, userId),
-        eq(transactions.createdAt, today),
-        eq(transactions.createdAt, tomorrow)
+        gte(transactions.createdAt, today),
+        lt(transactions.createdAt, tomorrow),
+        ...atLocation(transactions.locationId, locationId),
       ))
       .orderBy(desc(transactions.createdAt));
   }
 
-  async createTransaction(transaction: InsertTransaction, userId: string): Promise<Transaction> {
-    const [newTransaction] = await db
-      .insert(transactions)
-      .values({ ...transaction, userId })
+  async getTransaction(id: number, userId: string): Promise<TransactionWithItems | undefined> {
+    const [transaction] = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+    return transaction && await this.withSaleDetails(db, transaction);
+  }
+
+  // Line items (with how many of each were returned), payments and refunds for a sale
+  private async withSaleDetails(
+    executor: Pick<typeof db, "select">,
+    transaction: Transaction,
+  ): Promise<TransactionWithItems> {
+    const items = await executor
+      .select({ ...getTableColumns(transactionItems), name: sql<string>`coalesce(${services.name}, ${products.name})` })
+      .from(transactionItems)
+      .leftJoin(services, eq(transactionItems.serviceId, services.id))
+      .leftJoin(products, eq(transactionItems.productId, products.id))
+      .where(eq(transactionItems.transactionId, transaction.id))
+      .orderBy(asc(transactionItems.id));
+    const payments = await executor
+      .select()
+      .from(transactionPayments)
+      .where(eq(transactionPayments.transactionId, transaction.id))
+      .orderBy(asc(transactionPayments.id));
+    const saleRefunds = await executor
+      .select()
+      .from(refunds)
+      .where(eq(refunds.transactionId, transaction.id))
+      .orderBy(asc(refunds.createdAt));
+    const returned = saleRefunds.length > 0
+      ? await executor
+        .select()
+        .from(refundItems)
+        .where(inArray(refundItems.refundId, saleRefunds.map((refund) => refund.id)))
+      : [];
+
+    return {
+      ...transaction,
+      items: items.map((item) => ({
+        ...item,
+        refundedQuantity: returned
+          .filter((line) => line.transactionItemId === item.id)
+          .reduce((sum, line) => sum + line.quantity, 0),
+      })),
+      payments,
+      refunds: saleRefunds,
+    };
+  }
+
+  // A sale is written with its line items and payments or not at all
+  async createTransaction(
+    transaction: InsertTransaction,
+    items: InsertTransactionItem[],
+    payments: InsertTransactionPayment[],
+    userId: string,
+    locationId: number | null = null,
+  ): Promise<Transaction> {
+    return await db.transaction(async (tx) => {
+      // Taking the next number locks the shop's row, so numbers never repeat or skip
+      const [counter] = await tx
+        .update(users)
+        .set({ lastReceiptNumber: sql`${users.lastReceiptNumber} + 1` })
+        .where(eq(users.id, userId))
+        .returning({ receiptNumber: users.lastReceiptNumber });
+      const [newTransaction] = await tx
+        .insert(transactions)
+        .values({ ...transaction, userId, locationId, receiptNumber: counter?.receiptNumber ?? null })
+        .returning();
+      if (items.length > 0) {
+        await tx
+          .insert(transactionItems)
+          .values(items.map((item) => ({ ...item, transactionId: newTransaction.id })));
+      }
+      for (const item of items) {
+        if (item.productId) {
+          await this.adjustStock(tx, item.productId, -(item.quantity ?? 1));
+        }
+      }
+      if (payments.length > 0) {
+        await tx
+          .insert(transactionPayments)
+          .values(payments.map((payment) => ({ ...payment, transactionId: newTransaction.id })));
+      }
+      return newTransaction;
+    });
+  }
+
+  // The sale row stays locked while the refund is checked and recorded, so
+  // two refunds can't both spend the same remaining balance
+  async createRefund(
+    transactionId: number,
+    refund: RefundData,
+    refundedBy: string,
+    userId: string,
+  ): Promise<Refund[] | undefined> {
+    return await db.transaction(async (tx) => {
+      const [sale] = await tx
+        .select()
+        .from(transactions)
+        .where(and(eq(transactions.id, transactionId), eq(transactions.userId, userId)))
+        .for("update");
+      if (!sale) return undefined;
+
+      const details = await this.withSaleDetails(tx, sale);
+      const plan = planRefund(details, refund);
+      const rows = [];
+      for (const part of plan.payments) {
+        const payment = details.payments.find((candidate) => candidate.id === part.transactionPaymentId);
+        const pending = refundsThroughProcessor(payment);
+        rows.push({
+          userId,
+          transactionId,
+          amount: part.amount,
+          paymentMethod: part.paymentMethod,
+          transactionPaymentId: part.transactionPaymentId,
+          status: pending ? "pending" : "completed",
+          idempotencyKey: pending ? randomUUID() : null,
+          reason: refund.reason,
+          refundedBy,
+        });
+      }
+      const newRefunds = await tx
+        .insert(refunds)
+        .values(rows)
+        .returning();
+      // Returned lines hang off the first refund row when the money is split
+      if (plan.items.length > 0) {
+        await tx
+          .insert(refundItems)
+          .values(plan.items.map((item) => ({ ...item, refundId: newRefunds[0].id })));
+      }
+      // Returned products go back on the shelf
+      for (const line of plan.items) {
+        const item = details.items.find((candidate) => candidate.id === line.transactionItemId);
+        if (item?.productId) {
+          await this.adjustStock(tx, item.productId, line.quantity);
+        }
+      }
+
+      await tx
+        .update(transactions)
+        .set(saleAfterRefunds(sale, toCents(sale.refundedTotal ?? 0) + toCents(plan.amount)))
+        .where(eq(transactions.id, transactionId));
+      return newRefunds;
+    });
+  }
+
+  async completeRefund(id: number, providerRefundId: string | null): Promise<void> {
+    await db
+      .update(refunds)
+      .set({ status: "completed", providerRefundId })
+      .where(and(eq(refunds.id, id), eq(refunds.status, "pending")));
+  }
+
+  async releaseRefund(id: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [pending] = await tx
+        .select()
+        .from(refunds)
+        .where(and(eq(refunds.id, id), eq(refunds.status, "pending")));
+      if (!pending) return;
+      const [sale] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, pending.transactionId))
+        .for("update");
+
+      const lines = await tx
+        .delete(refundItems)
+        .where(eq(refundItems.refundId, id))
+        .returning();
+      for (const line of lines) {
+        const [item] = await tx
+          .select()
+          .from(transactionItems)
+          .where(eq(transactionItems.id, line.transactionItemId));
+        if (item?.productId) {
+          await this.adjustStock(tx, item.productId, -line.quantity);
+        }
+      }
+      await tx.delete(refunds).where(eq(refunds.id, id));
+      await tx
+        .update(transactions)
+        .set(saleAfterRefunds(sale, toCents(sale.refundedTotal ?? 0) - toCents(pending.amount)))
+        .where(eq(transactions.id, sale.id));
+    });
+  }
+
+  async voidTransaction(id: number, reason: string, userId: string, timeZone: TimeZone): Promise<Transaction | undefined> {
+    return await db.transaction(async (tx) => {
+      const [sale] = await tx
+        .select()
+        .from(transactions)
+        .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+        .for("update");
+      if (!sale) return undefined;
+
+      assertVoidable(sale, timeZone);
+      const items = await tx
+        .select()
+        .from(transactionItems)
+        .where(eq(transactionItems.transactionId, id));
+      for (const item of items) {
+        if (item.productId) {
+          await this.adjustStock(tx, item.productId, item.quantity ?? 1);
+        }
+      }
+      const [voided] = await tx
+        .update(transactions)
+        .set({ status: "voided", voidReason: reason, voidedAt: new Date() })
+        .where(eq(transactions.id, id))
+        .returning();
+      return voided;
+    });
+  }
+
+  async markPaymentRefunded(id: number): Promise<void> {
+    await db
+      .update(transactionPayments)
+      .set({ status: "refunded" })
+      .where(eq(transactionPayments.id, id));
+  }
+
+  async getPaymentByProviderId(provider: string, providerPaymentId: string): Promise<TransactionPayment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(transactionPayments)
+      .where(and(eq(transactionPayments.provider, provider), eq(transactionPayments.providerPaymentId, providerPaymentId)));
+    return payment;
+  }
+
+  // A sale waits on its slow card payments: it completes once they are all
+  // captured, and a failed one voids it and restocks its products
+  async settlePayment(id: number, status: "captured" | "failed", reason?: string): Promise<Transaction | undefined> {
+    return await db.transaction(async (tx) => {
+      const [payment] = await tx
+        .select()
+        .from(transactionPayments)
+        .where(eq(transactionPayments.id, id))
+        .for("update");
+      if (!payment) return undefined;
+      if (payment.status === "pending") {
+        await tx
+          .update(transactionPayments)
+          .set({ status })
+          .where(eq(transactionPayments.id, id));
+      }
+
+      const [sale] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.id, payment.transactionId))
+        .for("update");
+      if (sale.status !== "pending") return sale;
+      const payments = await tx
+        .select()
+        .from(transactionPayments)
+        .where(eq(transactionPayments.transactionId, sale.id));
+      const changes = saleStatusAfterPayments(payments, reason);
+      if (!changes) return sale;
+      if (changes.status === "voided") {
+        const items = await tx
+          .select()
+          .from(transactionItems)
+          .where(eq(transactionItems.transactionId, sale.id));
+        for (const item of items) {
+          if (item.productId) {
+            await this.adjustStock(tx, item.productId, item.quantity ?? 1);
+          }
+        }
+      }
+      const [updated] = await tx
+        .update(transactions)
+        .set(changes)
+        .where(eq(transactions.id, sale.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Cash drawer operations
+  async getOpenCashDrawerSession(userId: string, locationId?: number | null): Promise<CashDrawerSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(cashDrawerSessions)
+      .where(and(
+        eq(cashDrawerSessions.userId, userId),
+        isNull(cashDrawerSessions.closedAt),
+        ...atLocation(cashDrawerSessions.locationId, locationId),
+      ))
+      .orderBy(desc(cashDrawerSessions.openedAt));
+    return session;
+  }
+
+  async getCashDrawerSessions(userId: string, locationId?: number | null): Promise<CashDrawerSession[]> {
+    return await db
+      .select()
+      .from(cashDrawerSessions)
+      .where(and(
+        eq(cashDrawerSessions.userId, userId),
+        isNotNull(cashDrawerSessions.closedAt),
+        ...atLocation(cashDrawerSessions.locationId, locationId),
+      ))
+      .orderBy(desc(cashDrawerSessions.closedAt));
+  }
+
+  async getCashDrawerSession(id: number, userId: string): Promise<CashDrawerSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(cashDrawerSessions)
+      .where(and(eq(cashDrawerSessions.id, id), eq(cashDrawerSessions.userId, userId)));
+    return session;
+  }
+
+  async openCashDrawerSession(
+    openingFloat: string,
+    openedBy: string,
+    userId: string,
+    locationId: number | null = null,
+  ): Promise<CashDrawerSession> {
+    const [session] = await db
+      .insert(cashDrawerSessions)
+      .values({ openingFloat, openedBy, userId, locationId })
       .returning();
-    return newTransaction;
+    return session;
+  }
+
+  async getCashDrawerMovements(sessionId: number): Promise<CashDrawerMovement[]> {
+    return await db
+      .select()
+      .from(cashDrawerMovements)
+      .where(eq(cashDrawerMovements.sessionId, sessionId))
+      .orderBy(asc(cashDrawerMovements.createdAt));
+  }
+
+  async addCashDrawerMovement(sessionId: number, movement: CashDrawerMovementData, createdBy: string): Promise<CashDrawerMovement> {
+    const [newMovement] = await db
+      .insert(cashDrawerMovements)
+      .values({ ...movement, amount: fromCents(toCents(movement.amount)), sessionId, createdBy })
+      .returning();
+    return newMovement;
+  }
+
+  async getDrawerActivity(userId: string, locationId: number | null, since: Date, until: Date): Promise<DrawerActivity> {
+    const sales = await db
+      .select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        gte(transactions.createdAt, since),
+        lt(transactions.createdAt, until),
+        ...atLocation(transactions.locationId, locationId),
+      ))
+      .orderBy(asc(transactions.createdAt));
+    const payments = sales.length > 0
+      ? await db
+        .select()
+        .from(transactionPayments)
+        .where(inArray(transactionPayments.transactionId, sales.map((sale) => sale.id)))
+      : [];
+    // Refunds count in the session they were handed back in, whenever the sale was
+    const sessionRefunds = await db
+      .select(getTableColumns(refunds))
+      .from(refunds)
+      .innerJoin(transactions, eq(refunds.transactionId, transactions.id))
+      .where(and(
+        eq(refunds.userId, userId),
+        gte(refunds.createdAt, since),
+        lt(refunds.createdAt, until),
+        ...atLocation(transactions.locationId, locationId),
+      ));
+    return { sales, payments, refunds: sessionRefunds };
+  }
+
+  async closeCashDrawerSession(
+    id: number,
+    report: ZReport,
+    notes: string | null,
+    closedBy: string,
+    userId: string,
+  ): Promise<CashDrawerSession | undefined> {
+    const [session] = await db
+      .update(cashDrawerSessions)
+      .set({
+        expectedCash: report.expectedCash,
+        countedCash: report.countedCash,
+        overShort: report.overShort,
+        report,
+        notes,
+        closedBy,
+        closedAt: report.closedAt ? new Date(report.closedAt) : new Date(),
+      })
+      .where(and(eq(cashDrawerSessions.id, id), eq(cashDrawerSessions.userId, userId), isNull(cashDrawerSessions.closedAt)))
+      .returning();
+    return session;
   }
 
   // Analytics operations
-  async getDashboardStats(userId: string): Promise<{
+  async getDashboardStats(userId: string, locationId: number | null, timeZone: TimeZone): Promise<{
     todayQueueCount: number;
     todayAppointmentCount: number;
     averageWaitTime: number;
     todayRevenue: number;
   }> {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
+    const { start: today, end: tomorrow } = getDayRange(new Date(), timeZone);
 
     // Get today's queue count
     const [queueCount] = await db
       .select({ count: count() })
       .from(queue)
-      .where(eq(queue.userId, userId));
+      .where(and(eq(queue.userId, userId), ...atLocation(queue.locationId, locationId)));
 
     // Get today's appointments count
     const [appointmentCount] = await db
@@ -412,18 +1576,20 @@ export class DatabaseStorage implements IStorage {
       .from(appointments)
       .where(and(
         eq(appointments.userId, userId),
-        eq(appointments.startTime, today),
-        eq(appointments.startTime, tomorrow)
+        gte(appointments.startTime, today),
+        lt(appointments.startTime, tomorrow),
+        ...atLocation(appointments.locationId, locationId),
       ));
 
-    // Get average wait time (simplified calculation)
-    const queueItems = await db
+    // Average wait for the customers still waiting; their estimates are
+    // refreshed whenever the queue changes
+    const waitingItems = await db
       .select()
       .from(queue)
-      .where(eq(queue.userId, userId));
-    
-    const averageWaitTime = queueItems.length > 0 
-      ? queueItems.reduce((sum, item) => sum + (item.estimatedWaitTime || 0), 0) / queueItems.length
+      .where(and(eq(queue.userId, userId), eq(queue.status, "waiting"), ...atLocation(queue.locationId, locationId)));
+
+    const averageWaitTime = waitingItems.length > 0
+      ? waitingItems.reduce((sum, item) => sum + (item.estimatedWaitTime || 0), 0) / waitingItems.length
       : 0;
 
     // Get today's revenue
@@ -432,12 +1598,13 @@ export class DatabaseStorage implements IStorage {
       .from(transactions)
       .where(and(
         eq(transactions.userId, userId),
-        eq(transactions.createdAt, today),
-        eq(transactions.createdAt, tomorrow)
+        gte(transactions.createdAt, today),
+        lt(transactions.createdAt, tomorrow),
+        ...atLocation(transactions.locationId, locationId),
       ));
 
     const todayRevenue = todayTransactions.reduce((sum, transaction) => 
-      sum + Number(transaction.total), 0);
+      sum + netSaleCents(transaction), 0) / 100;
 
     return {
       todayQueueCount: queueCount.count,
@@ -448,38 +1615,254 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Barber operations
-  async getBarbers(userId: string): Promise<Barber[]> {
+  async getBarbers(userId: string, locationId?: number | null): Promise<Barber[]> {
     return await db
       .select()
       .from(barbers)
-      .where(eq(barbers.userId, userId))
+      .where(and(eq(barbers.userId, userId), ...atLocation(barbers.locationId, locationId)))
       .orderBy(asc(barbers.name));
   }
 
-  async getBarber(id: number): Promise<Barber | undefined> {
-    const [barber] = await db.select().from(barbers).where(eq(barbers.id, id));
+  async getBarber(id: number, userId: string): Promise<Barber | undefined> {
+    const [barber] = await db
+      .select()
+      .from(barbers)
+      .where(and(eq(barbers.id, id), eq(barbers.userId, userId)));
     return barber;
   }
 
-  async createBarber(barber: InsertBarber, userId: string): Promise<Barber> {
+  async createBarber(barber: InsertBarber, userId: string, locationId: number | null = null): Promise<Barber> {
     const [newBarber] = await db
       .insert(barbers)
-      .values({ ...barber, userId })
+      .values({ ...barber, userId, locationId })
       .returning();
     return newBarber;
   }
 
-  async updateBarber(id: number, barber: Partial<InsertBarber>): Promise<Barber> {
+  async updateBarber(id: number, barber: Partial<InsertBarber>, userId: string): Promise<Barber | undefined> {
     const [updatedBarber] = await db
       .update(barbers)
       .set(barber)
-      .where(eq(barbers.id, id))
+      .where(and(eq(barbers.id, id), eq(barbers.userId, userId)))
       .returning();
     return updatedBarber;
   }
 
-  async deleteBarber(id: number): Promise<void> {
-    await db.delete(barbers).where(eq(barbers.id, id));
+  async deleteBarber(id: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(barbers)
+      .where(and(eq(barbers.id, id), eq(barbers.userId, userId)))
+      .returning({ id: barbers.id });
+    return deleted.length > 0;
+  }
+
+  async getBarberTimeOff(userId: string, start?: Date, end?: Date): Promise<BarberTimeOff[]> {
+    return await db
+      .select()
+      .from(barberTimeOff)
+      .where(and(
+        eq(barberTimeOff.userId, userId),
+        ...(end ? [lt(barberTimeOff.startDate, end)] : []),
+        ...(start ? [gt(barberTimeOff.endDate, start)] : []),
+      ))
+      .orderBy(asc(barberTimeOff.startDate));
+  }
+
+  async createBarberTimeOff(timeOff: InsertBarberTimeOff, userId: string): Promise<BarberTimeOff> {
+    const [newTimeOff] = await db
+      .insert(barberTimeOff)
+      .values({ ...timeOff, userId })
+      .returning();
+    return newTimeOff;
+  }
+
+  async deleteBarberTimeOff(id: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(barberTimeOff)
+      .where(and(eq(barberTimeOff.id, id), eq(barberTimeOff.userId, userId)))
+      .returning({ id: barberTimeOff.id });
+    return deleted.length > 0;
+  }
+
+  // Payroll operations
+  async getCommissionRules(userId: string): Promise<CommissionRule[]> {
+    return await db
+      .select()
+      .from(commissionRules)
+      .where(eq(commissionRules.userId, userId));
+  }
+
+  async saveCommissionRule(barberId: number, rule: CommissionRuleData, userId: string): Promise<CommissionRule> {
+    const values = {
+      payType: rule.payType,
+      serviceRate: rule.serviceRate.toFixed(2),
+      retailRate: rule.retailRate.toFixed(2),
+      tipsPassThrough: rule.tipsPassThrough,
+      boothRent: fromCents(Math.round(rule.boothRent * 100)),
+      hourlyRate: fromCents(Math.round(rule.hourlyRate * 100)),
+    };
+    const [saved] = await db
+      .insert(commissionRules)
+      .values({ ...values, barberId, userId })
+      .onConflictDoUpdate({
+        target: commissionRules.barberId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getSalesWithItems(
+    userId: string,
+    locationId: number | null,
+    since: Date,
+    until: Date,
+  ): Promise<(Transaction & { items: TransactionItem[] })[]> {
+    const sales = await db
+      .select()
+      .from(transactions)
+      .where(and(
+        eq(transactions.userId, userId),
+        gte(transactions.createdAt, since),
+        lt(transactions.createdAt, until),
+        ...atLocation(transactions.locationId, locationId),
+      ))
+      .orderBy(asc(transactions.createdAt));
+    const items = sales.length > 0
+      ? await db
+        .select()
+        .from(transactionItems)
+        .where(inArray(transactionItems.transactionId, sales.map((sale) => sale.id)))
+      : [];
+    return sales.map((sale) => ({ ...sale, items: items.filter((item) => item.transactionId === sale.id) }));
+  }
+
+  // Time clock operations
+  async getOpenTimeEntries(userId: string, locationId?: number | null): Promise<TimeEntry[]> {
+    return await db
+      .select()
+      .from(timeEntries)
+      .where(and(
+        eq(timeEntries.userId, userId),
+        isNull(timeEntries.clockOut),
+        ...atLocation(timeEntries.locationId, locationId),
+      ))
+      .orderBy(asc(timeEntries.clockIn));
+  }
+
+  private async withEdits(entries: TimeEntry[]): Promise<TimeEntryWithEdits[]> {
+    const edits: TimeEntryEdit[] = entries.length > 0
+      ? await db
+        .select()
+        .from(timeEntryEdits)
+        .where(inArray(timeEntryEdits.entryId, entries.map((entry) => entry.id)))
+        .orderBy(asc(timeEntryEdits.createdAt))
+      : [];
+    return entries.map((entry) => ({ ...entry, edits: edits.filter((edit) => edit.entryId === entry.id) }));
+  }
+
+  async getTimeEntries(userId: string, locationId: number | null, since: Date, until: Date): Promise<TimeEntryWithEdits[]> {
+    const entries = await db
+      .select()
+      .from(timeEntries)
+      .where(and(
+        eq(timeEntries.userId, userId),
+        gte(timeEntries.clockIn, since),
+        lt(timeEntries.clockIn, until),
+        ...atLocation(timeEntries.locationId, locationId),
+      ))
+      .orderBy(asc(timeEntries.clockIn));
+    return await this.withEdits(entries);
+  }
+
+  async getTimeEntry(id: number, userId: string): Promise<TimeEntryWithEdits | undefined> {
+    const [entry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(eq(timeEntries.id, id), eq(timeEntries.userId, userId)));
+    if (!entry) return undefined;
+    const [withEdits] = await this.withEdits([entry]);
+    return withEdits;
+  }
+
+  async punchTimeClock(
+    barberId: number,
+    action: TimePunchAction,
+    punchedBy: string,
+    userId: string,
+    locationId: number | null = null,
+  ): Promise<TimeEntry> {
+    return await db.transaction(async (tx) => {
+      // Locking the barber row keeps two quick taps from opening two shifts
+      await tx.select({ id: barbers.id }).from(barbers).where(eq(barbers.id, barberId)).for("update");
+      const [open] = await tx
+        .select()
+        .from(timeEntries)
+        .where(and(eq(timeEntries.barberId, barberId), eq(timeEntries.userId, userId), isNull(timeEntries.clockOut)));
+      const shift = applyPunch(open, action, new Date());
+      if (!open) {
+        const [entry] = await tx
+          .insert(timeEntries)
+          .values({ ...shift, barberId, punchedBy, userId, locationId })
+          .returning();
+        return entry;
+      }
+      const [entry] = await tx
+        .update(timeEntries)
+        .set({ clockOut: shift.clockOut, breaks: shift.breaks, punchedBy, updatedAt: new Date() })
+        .where(eq(timeEntries.id, open.id))
+        .returning();
+      return entry;
+    });
+  }
+
+  async editTimeEntry(id: number, data: TimeEntryEditData, editedBy: string, userId: string): Promise<TimeEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx
+        .select()
+        .from(timeEntries)
+        .where(and(eq(timeEntries.id, id), eq(timeEntries.userId, userId)))
+        .for("update");
+      if (!entry) return undefined;
+      const shift = planTimeEntryEdit(entry, data);
+      const [updated] = await tx
+        .update(timeEntries)
+        .set({ ...shift, updatedAt: new Date() })
+        .where(eq(timeEntries.id, id))
+        .returning();
+      await tx.insert(timeEntryEdits).values({
+        entryId: id,
+        editedBy,
+        reason: data.reason,
+        before: entryTimes(entry),
+        after: entryTimes(shift),
+      });
+      return updated;
+    });
+  }
+
+  async addTimeEntry(
+    barberId: number,
+    data: TimeEntryEditData,
+    editedBy: string,
+    userId: string,
+    locationId: number | null = null,
+  ): Promise<TimeEntry> {
+    const shift = planTimeEntryEdit(undefined, data);
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx
+        .insert(timeEntries)
+        .values({ ...shift, barberId, punchedBy: editedBy, userId, locationId })
+        .returning();
+      await tx.insert(timeEntryEdits).values({
+        entryId: entry.id,
+        editedBy,
+        reason: data.reason,
+        before: null,
+        after: entryTimes(shift),
+      });
+      return entry;
+    });
   }
 
   // Onboarding operations
@@ -498,6 +1881,7 @@ export class DatabaseStorage implements IStorage {
         bookingStyle: data.bookingStyle,
         logoUrl: data.logoUrl,
         businessHours: data.businessHours,
+        timezone: data.timezone,
         isOnboarded: true,
         updatedAt: new Date(),
       })
@@ -526,8 +1910,12 @@ export class DatabaseStorage implements IStorage {
         .select()
         .from(users)
         .where(eq(users.subdomain, subdomain));
+      const [existingLocation] = await db
+        .select()
+        .from(locations)
+        .where(eq(locations.subdomain, subdomain));
       
-      if (!existing) {
+      if (!existing && !existingLocation) {
         break;
       }
       
@@ -551,4 +1939,8 @@ export class DatabaseStorage implements IStorage {
   }
 }
 
-export const storage = new DatabaseStorage();
+// STORAGE_DRIVER=memory keeps everything in process memory, for local
+// development and API tests without a Postgres database
+export const storage: IStorage = process.env.STORAGE_DRIVER === "memory"
+  ? new MemStorage()
+  : new DatabaseStorage();
@@ -0,0 +1,340 @@
+// Two shops share one in-memory server; neither may read or change the
+// other's records. Run with STORAGE_DRIVER=memory (see `npm test`).
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { registerRoutes } from "./routes";
+import type {
+  Appointment,
+  Barber,
+  BarberTimeOff,
+  Customer,
+  Device,
+  Gallery,
+  Location,
+  Product,
+  Queue,
+  Review,
+  Service,
+  Transaction,
+  User,
+} from "@shared/schema";
+
+// JSON bodies carry dates as strings; the tests only look at ids and plain fields
+type Response<T> = { status: number; body: T };
+
+let server: Server;
+let baseUrl: string;
+
+// A signed-in browser: keeps its own session cookie between requests
+function session() {
+  let cookie = "";
+  return async <T = unknown>(method: string, path: string, body?: unknown): Promise<Response<T>> => {
+    const res = await fetch(baseUrl + path, {
+      method,
+      headers: { "content-type": "application/json", cookie },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    cookie = res.headers.get("set-cookie")?.split(";")[0] ?? cookie;
+    const text = await res.text();
+    return { status: res.status, body: text ? JSON.parse(text) : undefined };
+  };
+}
+
+const businessHours = Object.fromEntries(
+  ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]
+    .map((day) => [day, { open: "00:00", close: "23:59", closed: false }]),
+);
+
+async function openShop(email: string) {
+  const call = session();
+  assert.equal((await call("POST", "/api/auth/register", { email, password: "password123" })).status, 201);
+  const onboarding = await call("POST", "/api/onboarding", {
+    barbershopName: email,
+    address: "1 Main St",
+    phone: "555-0100",
+    bookingStyle: "both",
+    primaryColor: "#000000",
+    secondaryColor: "#111111",
+    timezone: "UTC",
+    businessHours,
+    barbers: [{ name: "Sam", specialties: [] }],
+  });
+  assert.equal(onboarding.status, 200);
+
+  const customer = (await call<Customer>("POST", "/api/customers", { name: "Pat Doe", phone: "555-0101" })).body;
+  const service = (await call<Service>("POST", "/api/services", { name: "Cut", price: "20.00", duration: 30 })).body;
+  const product = (await call<Product>("POST", "/api/products", { name: "Pomade", price: "12.00", stock: 5, reorderThreshold: 1 })).body;
+  const [barber] = (await call<Barber[]>("GET", "/api/barbers")).body;
+  const timeOff = (await call<BarberTimeOff>("POST", `/api/barbers/${barber.id}/time-off`, {
+    startDate: new Date(Date.now() + 30 * 24 * 60 * 60000),
+    endDate: new Date(Date.now() + 31 * 24 * 60 * 60000),
+  })).body;
+  const photo = (await call<Gallery>("POST", "/api/gallery", { title: "Fade", imageUrl: "https://example.com/fade.jpg" })).body;
+  const review = (await call<Review>("POST", "/api/reviews", { customerId: customer.id, rating: 5 })).body;
+  const location = (await call<Location>("POST", "/api/locations", { name: "Uptown" })).body;
+  const device = (await call<{ device: Device }>("POST", "/api/devices", { kind: "kiosk", name: "Front door" })).body.device;
+  // Noon tomorrow, well inside the shop's hours
+  const startTime = new Date(Date.now() + 24 * 60 * 60000);
+  startTime.setUTCHours(12, 0, 0, 0);
+  const appointment = (await call<Appointment>("POST", "/api/appointments", {
+    customerId: customer.id,
+    serviceId: service.id,
+    startTime,
+    endTime: new Date(startTime.getTime() + 30 * 60000),
+  })).body;
+  const queueItem = (await call<Queue>("POST", "/api/queue", { customerId: customer.id, serviceId: service.id, position: 1 })).body;
+  const sale = (await call<Transaction>("POST", "/api/transactions", {
+    customerId: customer.id,
+    items: [{ serviceId: service.id, quantity: 1 }],
+    payments: [{ method: "cash", amount: 20 }],
+  })).body;
+  const account = (await call<User>("GET", "/api/auth/user")).body;
+  const records = [customer, service, product, barber, timeOff, photo, review, location, device, appointment, queueItem, sale];
+  for (const record of records) {
+    assert.ok(record?.id, `setup failed: ${JSON.stringify(record)}`);
+  }
+
+  return {
+    call, account, customer, service, product, barber, timeOff, photo, review, location, device, appointment, queueItem, sale,
+  };
+}
+
+let shopA: Awaited<ReturnType<typeof openShop>>;
+let shopB: Awaited<ReturnType<typeof openShop>>;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  shopA = await openShop("a@example.com");
+  shopB = await openShop("b@example.com");
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+const ids = (rows: { id: number }[]) => rows.map((row) => row.id);
+
+describe("customers", () => {
+  test("another shop's customers aren't listed", async () => {
+    const { body } = await shopB.call<Customer[]>("GET", "/api/customers");
+    assert.ok(!ids(body).includes(shopA.customer.id));
+    assert.ok(ids(body).includes(shopB.customer.id));
+  });
+
+  test("another shop's customer can't be edited or deleted", async () => {
+    assert.equal((await shopB.call("PUT", `/api/customers/${shopA.customer.id}`, { name: "Taken" })).status, 404);
+    assert.equal((await shopB.call("DELETE", `/api/customers/${shopA.customer.id}`)).status, 404);
+
+    const { body } = await shopA.call<Customer[]>("GET", "/api/customers");
+    assert.equal(body.find((customer) => customer.id === shopA.customer.id)?.name, "Pat Doe");
+  });
+});
+
+describe("queue", () => {
+  test("another shop's walk-ins aren't listed", async () => {
+    const { body } = await shopB.call<Queue[]>("GET", "/api/queue");
+    assert.ok(!ids(body).includes(shopA.queueItem.id));
+  });
+
+  test("another shop's walk-ins can't be moved, served or removed", async () => {
+    const id = shopA.queueItem.id;
+    assert.equal((await shopB.call("PUT", `/api/queue/${id}/position`, { position: 5 })).status, 404);
+    assert.equal((await shopB.call("PUT", `/api/queue/${id}/status`, { status: "completed" })).status, 404);
+    assert.equal((await shopB.call("DELETE", `/api/queue/${id}`)).status, 404);
+
+    const { body } = await shopA.call<Queue[]>("GET", "/api/queue");
+    assert.equal(body.find((item) => item.id === id)?.status, "waiting");
+  });
+
+  test("another shop's customer can't be put in line", async () => {
+    const res = await shopB.call("POST", "/api/queue", {
+      customerId: shopA.customer.id,
+      serviceId: shopB.service.id,
+      position: 1,
+    });
+    assert.equal(res.status, 404);
+  });
+});
+
+describe("appointments", () => {
+  test("another shop's appointments aren't listed", async () => {
+    const { body } = await shopB.call<Appointment[]>("GET", "/api/appointments");
+    assert.ok(!ids(body).includes(shopA.appointment.id));
+  });
+
+  test("another shop's appointment can't be edited or cancelled", async () => {
+    const id = shopA.appointment.id;
+    assert.equal((await shopB.call("PUT", `/api/appointments/${id}`, { notes: "Taken" })).status, 404);
+    assert.equal((await shopB.call("DELETE", `/api/appointments/${id}`)).status, 404);
+
+    const { body } = await shopA.call<Appointment[]>("GET", "/api/appointments");
+    const appointment = body.find((candidate) => candidate.id === id);
+    assert.ok(appointment);
+    assert.notEqual(appointment.notes, "Taken");
+  });
+
+  test("another shop's customer can't be booked", async () => {
+    const startTime = new Date(Date.now() + 48 * 60 * 60000);
+    const res = await shopB.call("POST", "/api/appointments", {
+      customerId: shopA.customer.id,
+      serviceId: shopB.service.id,
+      startTime,
+      endTime: new Date(startTime.getTime() + 30 * 60000),
+    });
+    assert.equal(res.status, 404);
+  });
+});
+
+describe("transactions", () => {
+  test("another shop's sales aren't listed or shown", async () => {
+    const { body } = await shopB.call<Transaction[]>("GET", "/api/transactions");
+    assert.ok(!ids(body).includes(shopA.sale.id));
+    assert.equal((await shopB.call("GET", `/api/transactions/${shopA.sale.id}`)).status, 404);
+  });
+
+  test("another shop's sale can't be refunded or voided", async () => {
+    const id = shopA.sale.id;
+    assert.equal((await shopB.call("POST", `/api/transactions/${id}/refunds`, { reason: "Taken" })).status, 404);
+    assert.equal((await shopB.call("POST", `/api/transactions/${id}/void`, { reason: "Taken" })).status, 404);
+
+    const { body } = await shopA.call<Transaction>("GET", `/api/transactions/${id}`);
+    assert.equal(body.status, "completed");
+  });
+
+  test("another shop's customer can't be charged", async () => {
+    const res = await shopB.call("POST", "/api/transactions", {
+      customerId: shopA.customer.id,
+      items: [{ serviceId: shopB.service.id, quantity: 1 }],
+      payments: [{ method: "cash", amount: 20 }],
+    });
+    assert.equal(res.status, 404);
+  });
+});
+
+describe("services and products", () => {
+  test("another shop's service can't be edited", async () => {
+    assert.equal((await shopB.call("PUT", `/api/services/${shopA.service.id}`, { name: "Taken" })).status, 404);
+
+    const { body } = await shopA.call<Service[]>("GET", "/api/services");
+    assert.equal(body.find((service) => service.id === shopA.service.id)?.name, "Cut");
+  });
+
+  test("another shop's products aren't listed and can't be edited or deleted", async () => {
+    const id = shopA.product.id;
+    assert.ok(!ids((await shopB.call<Product[]>("GET", "/api/products")).body).includes(id));
+    assert.equal((await shopB.call("PUT", `/api/products/${id}`, { stock: 0 })).status, 404);
+    assert.equal((await shopB.call("DELETE", `/api/products/${id}`)).status, 404);
+
+    const { body } = await shopA.call<Product[]>("GET", "/api/products");
+    assert.equal(body.find((product) => product.id === id)?.stock, 5);
+  });
+
+  test("another shop's product can't be sold", async () => {
+    const res = await shopB.call("POST", "/api/transactions", {
+      items: [{ productId: shopA.product.id, quantity: 1 }],
+      payments: [{ method: "cash", amount: 12 }],
+    });
+    assert.equal(res.status, 404);
+  });
+});
+
+describe("barbers", () => {
+  test("another shop's barber can't be edited or deleted", async () => {
+    const id = shopA.barber.id;
+    assert.equal((await shopB.call("PUT", `/api/barbers/${id}`, { name: "Taken" })).status, 404);
+    assert.equal((await shopB.call("DELETE", `/api/barbers/${id}`)).status, 404);
+
+    const { body } = await shopA.call<Barber[]>("GET", "/api/barbers");
+    assert.equal(body.find((barber) => barber.id === id)?.name, "Sam");
+  });
+
+  test("another shop's barber can't be given or lose time off", async () => {
+    const res = await shopB.call("POST", `/api/barbers/${shopA.barber.id}/time-off`, {
+      startDate: new Date(Date.now() + 60 * 24 * 60 * 60000),
+      endDate: new Date(Date.now() + 61 * 24 * 60 * 60000),
+    });
+    assert.equal(res.status, 404);
+    assert.equal((await shopB.call("DELETE", `/api/barbers/time-off/${shopA.timeOff.id}`)).status, 404);
+
+    const { body } = await shopA.call<BarberTimeOff[]>("GET", "/api/barbers/time-off");
+    assert.deepEqual(ids(body), [shopA.timeOff.id]);
+  });
+
+  test("another shop's barber can't be tied to a staff invite", async () => {
+    const res = await shopB.call("POST", "/api/staff/invites", {
+      email: "sam@example.com",
+      role: "barber",
+      barberId: shopA.barber.id,
+    });
+    assert.equal(res.status, 404);
+  });
+});
+
+describe("gallery and reviews", () => {
+  test("another shop's photos aren't listed and can't be edited or deleted", async () => {
+    const id = shopA.photo.id;
+    assert.ok(!ids((await shopB.call<Gallery[]>("GET", "/api/gallery")).body).includes(id));
+    assert.equal((await shopB.call("PUT", `/api/gallery/${id}`, { title: "Taken" })).status, 404);
+    assert.equal((await shopB.call("DELETE", `/api/gallery/${id}`)).status, 404);
+
+    const { body } = await shopA.call<Gallery[]>("GET", "/api/gallery");
+    assert.equal(body.find((photo) => photo.id === id)?.title, "Fade");
+  });
+
+  test("another shop's reviews aren't listed", async () => {
+    assert.ok(!ids((await shopB.call<Review[]>("GET", "/api/reviews")).body).includes(shopA.review.id));
+  });
+
+  test("another shop's customer can't be reviewed", async () => {
+    const res = await shopB.call("POST", "/api/reviews", { customerId: shopA.customer.id, rating: 1 });
+    assert.equal(res.status, 404);
+  });
+});
+
+describe("locations and devices", () => {
+  test("another shop's location can't be edited, closed or switched to", async () => {
+    const id = shopA.location.id;
+    assert.equal((await shopB.call("PUT", `/api/locations/${id}`, { name: "Taken" })).status, 404);
+    assert.equal((await shopB.call("DELETE", `/api/locations/${id}`)).status, 404);
+    assert.equal((await shopB.call("POST", "/api/locations/switch", { locationId: id })).status, 404);
+
+    const { body } = await shopA.call<{ locations: Location[] }>("GET", "/api/locations");
+    assert.equal(body.locations.find((location) => location.id === id)?.name, "Uptown");
+  });
+
+  test("another shop's devices aren't listed and can't be removed", async () => {
+    const id = shopA.device.id;
+    assert.ok(!ids((await shopB.call<Device[]>("GET", "/api/devices")).body).includes(id));
+    assert.equal((await shopB.call("DELETE", `/api/devices/${id}`)).status, 404);
+    assert.ok(ids((await shopA.call<Device[]>("GET", "/api/devices")).body).includes(id));
+  });
+});
+
+describe("profile", () => {
+  test("a shop can't move its account into another shop", async () => {
+    for (const takeover of [{ shopId: shopA.account.id }, { role: "owner" }, { barberId: 1 }, { email: "a@example.com" }]) {
+      const res = await shopB.call("PUT", "/api/user/profile", takeover);
+      assert.equal(res.status, 400, JSON.stringify(takeover));
+    }
+
+    const { body } = await shopB.call<User>("GET", "/api/auth/user");
+    assert.equal(body.shopId, null);
+    assert.equal(body.email, "b@example.com");
+    assert.ok(!ids((await shopB.call<Customer[]>("GET", "/api/customers")).body).includes(shopA.customer.id));
+  });
+
+  test("shop details can still be changed", async () => {
+    const res = await shopB.call<User>("PUT", "/api/user/profile", { barbershopName: "B's Cuts", timezone: "America/Chicago" });
+    assert.equal(res.status, 200);
+    assert.equal(res.body.barbershopName, "B's Cuts");
+  });
+});
@@ -0,0 +1,107 @@
+import type {
+  Barber,
+  TimeBreak,
+  TimeEntry,
+  TimeEntryEditData,
+  TimeEntryTimes,
+  TimeEntryWithEdits,
+  TimePunchAction,
+  Timesheet,
+} from "@shared/schema";
+import { hoursLabel, onBreak, workedMinutes } from "@shared/timeclock";
+
+// Thrown when a punch or an edit doesn't fit the shift as it stands
+export class TimeClockError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TimeClockError";
+  }
+}
+
+export interface StoredShift {
+  clockIn: Date;
+  clockOut: Date | null;
+  breaks: TimeBreak[];
+}
+
+// How a shift's times are kept in its edit history
+export function entryTimes(entry: StoredShift): TimeEntryTimes {
+  return {
+    clockIn: entry.clockIn.toISOString(),
+    clockOut: entry.clockOut ? entry.clockOut.toISOString() : null,
+    breaks: entry.breaks,
+  };
+}
+
+// The barber's shift after a punch. Only clock-in works without an open
+// shift; clocking out ends a break that was never punched back from.
+export function applyPunch(open: TimeEntry | undefined, action: TimePunchAction, now: Date): StoredShift {
+  if (action === "clock_in") {
+    if (open) throw new TimeClockError("Already clocked in");
+    return { clockIn: now, clockOut: null, breaks: [] };
+  }
+  if (!open) throw new TimeClockError("Not clocked in");
+
+  const endBreaks = () => open.breaks.map((breakTime) => breakTime.end ? breakTime : { ...breakTime, end: now.toISOString() });
+  switch (action) {
+    case "break_start":
+      if (onBreak(open)) throw new TimeClockError("Already on a break");
+      return { ...open, breaks: [...open.breaks, { start: now.toISOString(), end: null }] };
+    case "break_end":
+      if (!onBreak(open)) throw new TimeClockError("Not on a break");
+      return { ...open, breaks: endBreaks() };
+    case "clock_out":
+      return { ...open, clockOut: now, breaks: endBreaks() };
+  }
+}
+
+// The times an owner's edit leaves on a shift, or on a new one when there's
+// no entry yet
+export function planTimeEntryEdit(entry: TimeEntry | undefined, data: TimeEntryEditData): StoredShift {
+  if (!entry && !data.clockOut) {
+    throw new TimeClockError("A shift added by hand needs a clock-out time");
+  }
+  if (entry?.clockOut && !data.clockOut) {
+    throw new TimeClockError("A finished shift can't be reopened");
+  }
+  const breaks = [...data.breaks].sort((a, b) => a.start.getTime() - b.start.getTime());
+  for (let index = 1; index < breaks.length; index++) {
+    const previousEnd = breaks[index - 1].end;
+    if (!previousEnd || previousEnd > breaks[index].start) {
+      throw new TimeClockError("Breaks can't overlap");
+    }
+  }
+  return {
+    clockIn: data.clockIn,
+    clockOut: data.clockOut,
+    breaks: breaks.map((breakTime) => ({
+      start: breakTime.start.toISOString(),
+      end: breakTime.end ? breakTime.end.toISOString() : null,
+    })),
+  };
+}
+
+// Minutes worked on finished shifts, by barber id. Open shifts are left out
+// until they're clocked out so pay never counts time that might be fixed up.
+export function clockedMinutes(entries: TimeEntry[]): Map<number, number> {
+  const minutes = new Map<number, number>();
+  for (const entry of entries) {
+    if (!entry.clockOut) continue;
+    minutes.set(entry.barberId, (minutes.get(entry.barberId) ?? 0) + workedMinutes(entry));
+  }
+  return minutes;
+}
+
+// Every active barber gets a timesheet, and anyone since let go who worked
+// in the period
+export function buildTimesheets(barbers: Barber[], entries: TimeEntryWithEdits[]): Timesheet[] {
+  const minutes = clockedMinutes(entries);
+  return barbers
+    .filter((barber) => barber.isActive || entries.some((entry) => entry.barberId === barber.id))
+    .map((barber) => ({
+      barberId: barber.id,
+      barber: barber.name,
+      hours: hoursLabel(minutes.get(barber.id) ?? 0),
+      entries: entries.filter((entry) => entry.barberId === barber.id),
+    }));
+}
@@ -0,0 +1,32 @@
+export const staffRoles = ["owner", "manager", "barber", "front_desk"] as const;
+export type StaffRole = typeof staffRoles[number];
+
+export const roleLabels: Record<StaffRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  barber: "Barber",
+  front_desk: "Front Desk",
+};
+
+// Which roles may do what. The server enforces these; the client only uses
+// them to hide what a role can't reach.
+const permissionRoles = {
+  "analytics.view": ["owner", "manager"],
+  "payroll.manage": ["owner", "manager"],
+  // Barbers can always punch their own time; these roles punch for anyone
+  "timeclock.punchAll": ["owner", "manager", "front_desk"],
+  "timeclock.edit": ["owner"],
+  "settings.manage": ["owner", "manager"],
+  "staff.manage": ["owner"],
+  "customers.delete": ["owner", "manager"],
+  "pos.use": ["owner", "manager", "front_desk"],
+  "pos.refund": ["owner", "manager"],
+  "appointments.viewAll": ["owner", "manager", "front_desk"],
+} satisfies Record<string, readonly StaffRole[]>;
+
+export type Permission = keyof typeof permissionRoles;
+
+// Accounts created before roles existed have no role and own their shop
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return (permissionRoles[permission] as readonly string[]).includes(role ?? "owner");
+}
@@ -0,0 +1,138 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  effectiveTaxRate,
+  fromCents,
+  netSaleCents,
+  priceSale,
+  settleTenders,
+  summarizeSales,
+  toCents,
+} from "./pricing";
+
+describe("cents", () => {
+  test("adds up without floating point drift", () => {
+    assert.equal(toCents("0.10") + toCents(0.2), 30);
+    assert.equal(fromCents(toCents("0.10") + toCents(0.2)), "0.30");
+    assert.equal(toCents("19.99"), 1999);
+    assert.equal(fromCents(-1505), "-15.05");
+  });
+});
+
+describe("priceSale", () => {
+  test("takes the discount off before tax and tips on the discounted subtotal", () => {
+    const sale = priceSale({
+      lines: [{ price: "10.00", taxable: true }, { price: "5.00", quantity: 2, taxable: false }],
+      discount: { type: "percent", value: 10 },
+      tip: { type: "percent", value: 15 },
+      taxRate: "8.25",
+    });
+    assert.deepEqual(sale.lines, [
+      { subtotalCents: 1000, discountCents: 100, taxCents: 74 }, // 900 * 8.25% = 74.25
+      { subtotalCents: 1000, discountCents: 100, taxCents: 0 },
+    ]);
+    assert.equal(sale.tipCents, 270);
+    assert.equal(sale.totalCents, 2000 - 200 + 74 + 270);
+  });
+
+  test("spreads an order discount so the shares add up to the exact amount", () => {
+    const sale = priceSale({
+      lines: [{ price: "1.00" }, { price: "1.00" }, { price: "1.00" }],
+      discount: { type: "amount", value: 1 },
+    });
+    assert.deepEqual(sale.lines.map((line) => line.discountCents), [33, 34, 33]);
+    assert.equal(sale.discountCents, 100);
+    assert.equal(sale.totalCents, 200);
+  });
+
+  test("applies line discounts before the order discount", () => {
+    const sale = priceSale({
+      lines: [{ price: "20.00", discount: { type: "amount", value: 5 } }],
+      discount: { type: "percent", value: 10 },
+    });
+    assert.equal(sale.discountCents, 500 + 150);
+    assert.equal(sale.totalCents, 1350);
+  });
+
+  test("never discounts below zero", () => {
+    const sale = priceSale({
+      lines: [{ price: "20.00", taxable: true }],
+      discount: { type: "amount", value: 50 },
+      tip: { type: "percent", value: 20 },
+      taxRate: 10,
+    });
+    assert.equal(sale.discountCents, 2000);
+    assert.equal(sale.taxCents, 0);
+    assert.equal(sale.tipCents, 0);
+    assert.equal(sale.totalCents, 0);
+  });
+
+  test("rounds tax half a cent up and never taxes the tip", () => {
+    assert.equal(priceSale({ lines: [{ price: "0.50", taxable: true }], taxRate: 5 }).taxCents, 3);
+
+    const sale = priceSale({
+      lines: [{ price: "10.00", taxable: true }],
+      tip: { type: "amount", value: 3 },
+      taxRate: 10,
+    });
+    assert.equal(sale.taxCents, 100);
+    assert.equal(sale.tipCents, 300);
+    assert.equal(sale.totalCents, 1400);
+  });
+});
+
+describe("effectiveTaxRate", () => {
+  test("uses the location's own rate, else the shop's", () => {
+    assert.equal(effectiveTaxRate({ taxRate: "8.25" }, { taxRate: "6.00" }), "6.00");
+    assert.equal(effectiveTaxRate({ taxRate: "8.25" }, { taxRate: null }), "8.25");
+    assert.equal(effectiveTaxRate(undefined), "0");
+  });
+});
+
+describe("settleTenders", () => {
+  test("puts cards on first and gives change from cash", () => {
+    const settlement = settleTenders(2500, [
+      { method: "cash", amount: 30 },
+      { method: "card", amount: "10.00" },
+    ]);
+    assert.deepEqual(
+      settlement.payments.map(({ method, amountCents, changeCents }) => ({ method, amountCents, changeCents })),
+      [
+        { method: "card", amountCents: 1000, changeCents: 0 },
+        { method: "cash", amountCents: 1500, changeCents: 1500 },
+      ],
+    );
+    assert.equal(settlement.balanceCents, 0);
+    assert.equal(settlement.changeCents, 1500);
+    assert.equal(settlement.overpaidCents, 0);
+  });
+
+  test("reports a card charged past the total and what is still owed", () => {
+    assert.equal(settleTenders(1000, [{ method: "card", amount: 15 }]).overpaidCents, 500);
+    assert.equal(settleTenders(1000, [{ method: "cash", amount: 5 }]).balanceCents, 500);
+  });
+});
+
+describe("sales totals", () => {
+  test("nets refunds off a sale and counts voided sales as nothing", () => {
+    assert.equal(netSaleCents({ total: "20.00", refundedTotal: "12.50" }), 750);
+    assert.equal(netSaleCents({ total: "20.00", status: "voided" }), 0);
+  });
+
+  test("summarizes the day's sales without the voided ones", () => {
+    const summary = summarizeSales([
+      { subtotal: "20.00", discountTotal: "2.00", taxTotal: "1.49", tip: "3.00", total: "22.49", refundedTotal: "5.00" },
+      { total: "10.00" },
+      { subtotal: "50.00", total: "50.00", status: "voided" },
+    ]);
+    assert.deepEqual(summary, {
+      count: 2,
+      grossCents: 3000,
+      discountCents: 200,
+      taxCents: 149,
+      tipCents: 300,
+      refundCents: 500,
+      netCents: 1749 + 1000,
+    });
+  });
+});
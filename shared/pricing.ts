@@ -0,0 +1,200 @@
+import type { Adjustment, PaymentMethod } from "./schema";
+
+// Money is added up in whole cents so totals don't pick up floating point
+// drift; decimal columns come back from the database as strings.
+export function toCents(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+// Back to the "12.50" form decimal columns expect
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export interface PricedLine {
+  price: string | number;
+  quantity?: number | null;
+}
+
+export function lineTotalCents(line: PricedLine): number {
+  return toCents(line.price) * (line.quantity ?? 1);
+}
+
+// A sold line after its discounts, with its tax added back on
+export function lineNetCents(line: PricedLine & { discount?: string | null; tax?: string | null }): number {
+  return lineTotalCents(line) - toCents(line.discount ?? 0) + toCents(line.tax ?? 0);
+}
+
+function adjustmentCents(adjustment: Adjustment | null | undefined, baseCents: number): number {
+  if (!adjustment) return 0;
+  const cents = adjustment.type === "percent"
+    ? Math.round(baseCents * adjustment.value / 100)
+    : toCents(adjustment.value);
+  return Math.min(Math.max(cents, 0), baseCents);
+}
+
+export interface SaleLineInput extends PricedLine {
+  taxable?: boolean | null;
+  discount?: Adjustment | null;
+}
+
+export interface PricedSale {
+  lines: { subtotalCents: number; discountCents: number; taxCents: number }[];
+  subtotalCents: number;
+  discountCents: number;
+  taxCents: number;
+  tipCents: number;
+  totalCents: number;
+}
+
+// Price a cart the same way on the till and on the server. Line discounts
+// come off first, then the order discount is spread over the lines in
+// proportion to what is left on each so tax is charged on what the customer
+// actually pays. Tips are a percentage of the discounted subtotal and are
+// never taxed.
+export function priceSale(sale: {
+  lines: SaleLineInput[];
+  discount?: Adjustment | null;
+  tip?: Adjustment | null;
+  taxRate?: string | number | null;
+}): PricedSale {
+  const taxRate = Number(sale.taxRate ?? 0);
+  const lines = sale.lines.map((line) => {
+    const subtotalCents = lineTotalCents(line);
+    return { subtotalCents, discountCents: adjustmentCents(line.discount, subtotalCents), taxCents: 0 };
+  });
+
+  const discountedCents = lines.reduce((sum, line) => sum + line.subtotalCents - line.discountCents, 0);
+  const orderDiscountCents = adjustmentCents(sale.discount, discountedCents);
+
+  // Allocating on running totals keeps the shares adding up to the exact discount
+  let runningCents = 0;
+  let allocatedCents = 0;
+  lines.forEach((line, index) => {
+    runningCents += line.subtotalCents - line.discountCents;
+    const share = discountedCents > 0
+      ? Math.round(orderDiscountCents * runningCents / discountedCents) - allocatedCents
+      : 0;
+    allocatedCents += share;
+    line.discountCents += share;
+    if (sale.lines[index].taxable) {
+      line.taxCents = Math.round((line.subtotalCents - line.discountCents) * taxRate / 100);
+    }
+  });
+
+  const subtotalCents = lines.reduce((sum, line) => sum + line.subtotalCents, 0);
+  const discountCents = lines.reduce((sum, line) => sum + line.discountCents, 0);
+  const taxCents = lines.reduce((sum, line) => sum + line.taxCents, 0);
+  const tipCents = adjustmentCents(sale.tip, subtotalCents - discountCents);
+  return {
+    lines,
+    subtotalCents,
+    discountCents,
+    taxCents,
+    tipCents,
+    totalCents: subtotalCents - discountCents + taxCents + tipCents,
+  };
+}
+
+// Locations without their own rate charge the main shop's
+export function effectiveTaxRate(
+  shop: { taxRate?: string | null } | null | undefined,
+  location?: { taxRate?: string | null } | null,
+): string {
+  return location?.taxRate ?? shop?.taxRate ?? "0";
+}
+
+export type SettledTender<T> = T & {
+  amountCents: number;
+  tenderedCents: number;
+  changeCents: number;
+};
+
+export interface Settlement<T> {
+  payments: SettledTender<T>[];
+  balanceCents: number; // still owed
+  changeCents: number; // cash handed back
+  overpaidCents: number; // card or digital charged beyond what was owed
+}
+
+// Apply what the customer handed over against a sale total. Card and digital
+// payments go on first and can only cover what's owed; cash goes last so any
+// excess comes back as change.
+export function settleTenders<T extends { method: PaymentMethod; amount: string | number }>(
+  totalCents: number,
+  tenders: T[],
+): Settlement<T> {
+  const ordered = [
+    ...tenders.filter((tender) => tender.method !== "cash"),
+    ...tenders.filter((tender) => tender.method === "cash"),
+  ];
+  let balanceCents = totalCents;
+  let changeCents = 0;
+  let overpaidCents = 0;
+  const payments = ordered.map((tender) => {
+    const tenderedCents = toCents(tender.amount);
+    const amountCents = Math.min(tenderedCents, balanceCents);
+    balanceCents -= amountCents;
+    const excessCents = tenderedCents - amountCents;
+    if (tender.method === "cash") {
+      changeCents += excessCents;
+    } else {
+      overpaidCents += excessCents;
+    }
+    return {
+      ...tender,
+      amountCents,
+      tenderedCents,
+      changeCents: tender.method === "cash" ? excessCents : 0,
+    };
+  });
+  return { payments, balanceCents, changeCents, overpaidCents };
+}
+
+// What a sale is worth after refunds; a voided sale never happened. Refunds
+// count against the sale they came from, so a day's revenue is the net of
+// the sales rung up that day.
+export function netSaleCents(transaction: {
+  total: string;
+  refundedTotal?: string | null;
+  status?: string | null;
+}): number {
+  if (transaction.status === "voided") return 0;
+  return toCents(transaction.total) - toCents(transaction.refundedTotal ?? 0);
+}
+
+export interface SalesSummary {
+  count: number;
+  grossCents: number;
+  discountCents: number;
+  taxCents: number;
+  tipCents: number;
+  refundCents: number;
+  netCents: number;
+}
+
+// Revenue broken out the way the shop reports it; voided sales are left out
+export function summarizeSales(transactions: {
+  subtotal?: string | null;
+  discountTotal?: string | null;
+  taxTotal?: string | null;
+  tip?: string | null;
+  total: string;
+  refundedTotal?: string | null;
+  status?: string | null;
+}[]): SalesSummary {
+  const summary: SalesSummary = {
+    count: 0, grossCents: 0, discountCents: 0, taxCents: 0, tipCents: 0, refundCents: 0, netCents: 0,
+  };
+  for (const transaction of transactions) {
+    if (transaction.status === "voided") continue;
+    summary.count += 1;
+    summary.grossCents += toCents(transaction.subtotal ?? transaction.total);
+    summary.discountCents += toCents(transaction.discountTotal ?? 0);
+    summary.taxCents += toCents(transaction.taxTotal ?? 0);
+    summary.tipCents += toCents(transaction.tip ?? 0);
+    summary.refundCents += toCents(transaction.refundedTotal ?? 0);
+    summary.netCents += netSaleCents(transaction);
+  }
+  return summary;
+}
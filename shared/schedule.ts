@@ -0,0 +1,126 @@
+import type { BarberSchedule, BarberTimeOff } from "./schema";
+import { wallClock, zonedTime, type TimeZone } from "./timezone";
+
+export interface DayHours {
+  open: string;
+  close: string;
+  closed?: boolean; // onboarding stores "closed"
+  isOpen?: boolean; // settings stores "isOpen"
+}
+
+export interface TimeInterval {
+  start: number;
+  end: number;
+}
+
+export const dayNames = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"] as const;
+
+// "HH:MM" on the shop's calendar day containing `date`
+function atTime(date: Date, time: string, timeZone: TimeZone): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  const { year, month, day } = wallClock(date, timeZone);
+  return zonedTime(year, month, day, hours, minutes || 0, timeZone);
+}
+
+// Remove `cut` from every interval, splitting intervals that straddle it
+function subtractInterval(intervals: TimeInterval[], cut: TimeInterval): TimeInterval[] {
+  return intervals.flatMap((interval) => {
+    if (cut.end <= interval.start || cut.start >= interval.end) return [interval];
+    return [
+      { start: interval.start, end: cut.start },
+      { start: cut.end, end: interval.end },
+    ].filter((part) => part.end > part.start);
+  });
+}
+
+// The calendar day containing `date`, from midnight up to the next midnight.
+// "Today" on the dashboard and in the day views is a range like this, never
+// an exact timestamp.
+export function getDayRange(date: Date, timeZone: TimeZone): { start: Date; end: Date } {
+  const { year, month, day } = wallClock(date, timeZone);
+  return {
+    start: zonedTime(year, month, day, 0, 0, timeZone),
+    end: zonedTime(year, month, day + 1, 0, 0, timeZone),
+  };
+}
+
+// Opening and closing time for the given day, or null when the shop is closed
+export function getDayHours(
+  businessHours: unknown,
+  date: Date,
+  timeZone: TimeZone,
+): { open: Date; close: Date } | null {
+  const hours = (businessHours as Record<string, DayHours> | null)?.[dayNames[wallClock(date, timeZone).weekday]];
+  if (!hours || hours.closed === true || hours.isOpen === false || !hours.open || !hours.close) {
+    return null;
+  }
+
+  const open = atTime(date, hours.open, timeZone);
+  const close = atTime(date, hours.close, timeZone);
+  return close > open ? { open, close } : null;
+}
+
+// When a barber is actually available on a day: their weekly schedule clipped
+// to the shop's hours, minus their break and any time off. A barber without a
+// schedule works whenever the shop is open.
+export function getBarberWorkingIntervals(
+  schedule: unknown,
+  timeOff: Pick<BarberTimeOff, "startDate" | "endDate">[],
+  businessHours: unknown,
+  date: Date,
+  timeZone: TimeZone,
+): TimeInterval[] {
+  const shopHours = getDayHours(businessHours, date, timeZone);
+  if (!shopHours) return [];
+
+  let start = shopHours.open.getTime();
+  let end = shopHours.close.getTime();
+  const day = (schedule as BarberSchedule | null)?.[dayNames[wallClock(date, timeZone).weekday]];
+  if (schedule) {
+    if (!day || !day.isWorking) return [];
+    start = Math.max(start, atTime(date, day.start, timeZone).getTime());
+    end = Math.min(end, atTime(date, day.end, timeZone).getTime());
+  }
+  if (end <= start) return [];
+
+  let intervals: TimeInterval[] = [{ start, end }];
+  if (day?.breakStart && day?.breakEnd) {
+    intervals = subtractInterval(intervals, {
+      start: atTime(date, day.breakStart, timeZone).getTime(),
+      end: atTime(date, day.breakEnd, timeZone).getTime(),
+    });
+  }
+  for (const entry of timeOff) {
+    intervals = subtractInterval(intervals, {
+      start: new Date(entry.startDate).getTime(),
+      end: new Date(entry.endDate).getTime(),
+    });
+  }
+
+  return intervals;
+}
+
+export function isBarberWorkingAt(
+  schedule: unknown,
+  timeOff: Pick<BarberTimeOff, "startDate" | "endDate">[],
+  businessHours: unknown,
+  at: Date,
+  timeZone: TimeZone,
+): boolean {
+  const time = at.getTime();
+  return getBarberWorkingIntervals(schedule, timeOff, businessHours, at, timeZone)
+    .some((interval) => interval.start <= time && time < interval.end);
+}
+
+// True when the barber is working for the whole of [start, end)
+export function isBarberWorkingDuring(
+  schedule: unknown,
+  timeOff: Pick<BarberTimeOff, "startDate" | "endDate">[],
+  businessHours: unknown,
+  start: Date,
+  end: Date,
+  timeZone: TimeZone,
+): boolean {
+  return getBarberWorkingIntervals(schedule, timeOff, businessHours, start, timeZone)
+    .some((interval) => interval.start <= start.getTime() && end.getTime() <= interval.end);
+}
@@ -14,6 +14,7 @@ import {
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidTimeZone } from "./timezone";
 
 // Session storage table - required for Replit Auth
 export const sessions = pgTable(
@@ -42,7 +43,77 @@ export const users = pgTable("users", {
   bookingStyle: varchar("booking_style").default("both"), // appointment, walk-in, both
   logoUrl: varchar("logo_url"),
   businessHours: jsonb("business_hours"),
+  timezone: varchar("timezone"), // IANA zone the hours and calendar days are in, e.g. "America/Chicago"
+  taxRate: decimal("tax_rate", { precision: 6, scale: 3 }).default("0"), // sales tax percent on taxable items
+  lastReceiptNumber: integer("last_receipt_number").notNull().default(0), // the shop's receipt counter
   isOnboarded: boolean("is_onboarded").default(false),
+  // Staff accounts belong to another user's shop; owners have no shopId
+  shopId: varchar("shop_id"),
+  role: varchar("role").default("owner"), // owner, manager, barber, front_desk
+  barberId: integer("barber_id"), // the barbers row a barber account works as
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Email + password credentials for locally registered users. Kept out of the
+// users table so a password hash can never leak through a user payload.
+export const userCredentials = pgTable("user_credentials", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  passwordHash: varchar("password_hash").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Single-use password reset tokens - only a hash of the token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  tokenHash: varchar("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Pending invitations for staff to join a shop
+export const staffInvites = pgTable("staff_invites", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  email: varchar("email").notNull(),
+  role: varchar("role").notNull(),
+  barberId: integer("barber_id"),
+  tokenHash: varchar("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Shop screens that run without a staff login: the walk-in check-in kiosk
+// and the lobby queue display. The owner pairs one by typing a short-lived code into it; from then
+// on it holds its own token until the owner removes it.
+export const devices = pgTable("devices", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id),
+  kind: varchar("kind").notNull(), // kiosk, display
+  name: varchar("name").notNull(),
+  pairingCodeHash: varchar("pairing_code_hash").unique(), // null once paired
+  pairingExpiresAt: timestamp("pairing_expires_at"),
+  tokenHash: varchar("token_hash").unique(),
+  pairedAt: timestamp("paired_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Additional storefronts run by the same owner. The owner's own profile is
+// the shop's main location: rows with no locationId belong to it.
+export const locations = pgTable("locations", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  name: varchar("name").notNull(),
+  phone: varchar("phone"),
+  address: text("address"),
+  subdomain: varchar("subdomain").unique(),
+  businessHours: jsonb("business_hours"),
+  taxRate: decimal("tax_rate", { precision: 6, scale: 3 }), // null uses the main shop's rate
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -66,18 +137,54 @@ export const customers = pgTable("customers", {
 export const services = pgTable("services", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id),
   name: varchar("name").notNull(),
   description: text("description"),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   duration: integer("duration").notNull(), // in minutes
+  taxable: boolean("taxable").default(false),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Retail products sold over the counter. Stock goes down as they are sold
+// and back up when they are returned.
+export const products = pgTable("products", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id),
+  name: varchar("name").notNull(),
+  sku: varchar("sku"),
+  barcode: varchar("barcode"),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  cost: decimal("cost", { precision: 10, scale: 2 }), // what the shop paid, for margins
+  stock: integer("stock").notNull().default(0),
+  reorderThreshold: integer("reorder_threshold").notNull().default(0), // low stock at or below this
+  taxable: boolean("taxable").default(true),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Recurring appointment series - each visit is still its own appointments row
+export const appointmentSeries = pgTable("appointment_series", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  customerId: integer("customer_id").references(() => customers.id).notNull(),
+  serviceId: integer("service_id").references(() => services.id).notNull(),
+  barber: varchar("barber"),
+  frequency: varchar("frequency").notNull(), // weekly, monthly
+  interval: integer("interval").notNull().default(1), // every N weeks or months
+  startTime: timestamp("start_time").notNull(), // first visit
+  untilDate: timestamp("until_date"),
+  occurrenceCount: integer("occurrence_count"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Appointments table
 export const appointments = pgTable("appointments", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id),
   customerId: integer("customer_id").references(() => customers.id).notNull(),
   serviceId: integer("service_id").references(() => services.id).notNull(),
   barber: varchar("barber"),
@@ -85,6 +192,7 @@ export const appointments = pgTable("appointments", {
   endTime: timestamp("end_time").notNull(),
   status: varchar("status").default("scheduled"), // scheduled, in_progress, completed, cancelled
   notes: text("notes"),
+  seriesId: integer("series_id").references(() => appointmentSeries.id),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -93,13 +201,18 @@ export const appointments = pgTable("appointments", {
 export const queue = pgTable("queue", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id),
   customerId: integer("customer_id").references(() => customers.id).notNull(),
   serviceId: integer("service_id").references(() => services.id).notNull(),
   barber: varchar("barber"),
   position: integer("position").notNull(),
-  status: varchar("status").default("waiting"), // waiting, in_progress, completed
+  status: varchar("status").default("waiting"), // waiting, in_progress, completed, no_show, left
   estimatedWaitTime: integer("estimated_wait_time"), // in minutes
   joinedAt: timestamp("joined_at").defaultNow(),
+  // Stamped by status changes: sat down, finished, or gave up on the wait
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  leftAt: timestamp("left_at"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -130,27 +243,119 @@ export const gallery = pgTable("gallery", {
 export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id),
   customerId: integer("customer_id").references(() => customers.id),
   appointmentId: integer("appointment_id").references(() => appointments.id),
+  barber: varchar("barber"), // who did the work, for commission
+  receiptNumber: integer("receipt_number"), // sequential per shop; null on sales from before receipts
+  // total = subtotal - discountTotal + taxTotal + tip
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }), // null on sales from before tax and discounts
+  discountTotal: decimal("discount_total", { precision: 10, scale: 2 }).default("0"),
+  taxTotal: decimal("tax_total", { precision: 10, scale: 2 }).default("0"),
+  tip: decimal("tip", { precision: 10, scale: 2 }).default("0"),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
-  paymentMethod: varchar("payment_method").notNull(), // cash, card, digital
-  status: varchar("status").default("completed"), // pending, completed, refunded
+  paymentMethod: varchar("payment_method").notNull(), // cash, card, digital, or split when paid several ways
+  status: varchar("status").default("completed"), // pending, completed, partially_refunded, refunded, voided
+  refundedTotal: decimal("refunded_total", { precision: 10, scale: 2 }).default("0"),
+  voidReason: text("void_reason"),
+  voidedAt: timestamp("voided_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-// Transaction items
+// Transaction items; each line is either a service or a product
 export const transactionItems = pgTable("transaction_items", {
   id: serial("id").primaryKey(),
   transactionId: integer("transaction_id").references(() => transactions.id).notNull(),
-  serviceId: integer("service_id").references(() => services.id).notNull(),
+  serviceId: integer("service_id").references(() => services.id),
+  productId: integer("product_id").references(() => products.id),
   quantity: integer("quantity").default(1),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  // Line discount plus this line's share of any order discount
+  discount: decimal("discount", { precision: 10, scale: 2 }).default("0"),
+  taxable: boolean("taxable").default(false),
+  tax: decimal("tax", { precision: 10, scale: 2 }).default("0"),
+});
+
+// One tender on a sale; the amounts add up to the sale total. Cash can be
+// handed over in excess of what's owed, in which case tendered is what the
+// customer gave and change is what went back to them.
+export const transactionPayments = pgTable("transaction_payments", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").references(() => transactions.id).notNull(),
+  method: varchar("method").notNull(), // cash, card, digital
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  tendered: decimal("tendered", { precision: 10, scale: 2 }),
+  change: decimal("change", { precision: 10, scale: 2 }).default("0"),
+  reference: varchar("reference"), // card last four, approval code or app reference
+  // Set when a payment processor took the money (card payments)
+  provider: varchar("provider"),
+  providerPaymentId: varchar("provider_payment_id"),
+  status: varchar("status").default("captured"), // pending, captured, failed, refunded (given back when the sale was voided)
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Money given back on a sale. Refunds go back to the methods the sale was
+// paid with, one row per method; refundItems records which lines were
+// returned, if any.
+export const refunds = pgTable("refunds", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  transactionId: integer("transaction_id").references(() => transactions.id).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  paymentMethod: varchar("payment_method").notNull(),
+  transactionPaymentId: integer("transaction_payment_id").references(() => transactionPayments.id),
+  providerRefundId: varchar("provider_refund_id"),
+  // Card refunds are written pending before the processor is asked, under a
+  // key that makes asking again safe
+  status: varchar("status").default("completed"), // pending, completed
+  idempotencyKey: varchar("idempotency_key").unique(),
+  reason: text("reason").notNull(),
+  refundedBy: varchar("refunded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const refundItems = pgTable("refund_items", {
+  id: serial("id").primaryKey(),
+  refundId: integer("refund_id").references(() => refunds.id).notNull(),
+  transactionItemId: integer("transaction_item_id").references(() => transactionItems.id).notNull(),
+  quantity: integer("quantity").notNull(),
+});
+
+// A shift on the till: opened with a float, closed with a count. While open
+// the expected cash is worked out from the sales rung up since it opened;
+// closing freezes those figures into the Z-report.
+export const cashDrawerSessions = pgTable("cash_drawer_sessions", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id),
+  openingFloat: decimal("opening_float", { precision: 10, scale: 2 }).notNull(),
+  openedBy: varchar("opened_by").references(() => users.id),
+  openedAt: timestamp("opened_at").defaultNow().notNull(),
+  expectedCash: decimal("expected_cash", { precision: 10, scale: 2 }),
+  countedCash: decimal("counted_cash", { precision: 10, scale: 2 }),
+  overShort: decimal("over_short", { precision: 10, scale: 2 }), // counted - expected
+  report: jsonb("report").$type<ZReport>(),
+  notes: text("notes"),
+  closedBy: varchar("closed_by").references(() => users.id),
+  closedAt: timestamp("closed_at"), // null while the drawer is open
+});
+
+// Cash put into or taken out of the drawer outside a sale
+export const cashDrawerMovements = pgTable("cash_drawer_movements", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").references(() => cashDrawerSessions.id).notNull(),
+  type: varchar("type").notNull(), // paid_in, paid_out
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  reason: text("reason").notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // Barbers table
 export const barbers = pgTable("barbers", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id),
   name: varchar("name").notNull(),
   email: varchar("email"),
   phone: varchar("phone"),
@@ -159,15 +364,71 @@ export const barbers = pgTable("barbers", {
   bio: text("bio"),
   experience: integer("experience"), // years of experience
   rating: decimal("rating", { precision: 3, scale: 2 }).default("0.00"),
+  schedule: jsonb("schedule"), // weekly working hours and breaks, null follows business hours
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Barber time off (vacations, sick days) - endDate is exclusive
+export const barberTimeOff = pgTable("barber_time_off", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  barberId: integer("barber_id").references(() => barbers.id, { onDelete: "cascade" }).notNull(),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// How a barber is paid. Kept apart from the barbers row, which the public
+// booking pages show. Commission barbers earn a percentage of what they sell;
+// booth renters keep their service takings and pay the shop a weekly rent.
+export const commissionRules = pgTable("commission_rules", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  barberId: integer("barber_id").references(() => barbers.id, { onDelete: "cascade" }).notNull().unique(),
+  payType: varchar("pay_type").notNull().default("commission"), // commission, booth_rent
+  serviceRate: decimal("service_rate", { precision: 5, scale: 2 }).notNull().default("0"), // percent of service sales
+  retailRate: decimal("retail_rate", { precision: 5, scale: 2 }).notNull().default("0"), // percent of product sales
+  tipsPassThrough: boolean("tips_pass_through").notNull().default(true),
+  boothRent: decimal("booth_rent", { precision: 10, scale: 2 }).notNull().default("0"), // per week
+  hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }).notNull().default("0"), // for clocked hours, on top of commission
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A barber's shift on the time clock. Breaks are punched into the entry as
+// they happen; the time worked is the shift less its breaks.
+export const timeEntries = pgTable("time_entries", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  locationId: integer("location_id").references(() => locations.id),
+  barberId: integer("barber_id").references(() => barbers.id, { onDelete: "cascade" }).notNull(),
+  clockIn: timestamp("clock_in").notNull(),
+  clockOut: timestamp("clock_out"), // null while on the clock
+  breaks: jsonb("breaks").$type<TimeBreak[]>().notNull().default([]),
+  punchedBy: varchar("punched_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Every change an owner makes to a shift by hand, with the times before and
+// after. A shift added after the fact has no "before".
+export const timeEntryEdits = pgTable("time_entry_edits", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").references(() => timeEntries.id, { onDelete: "cascade" }).notNull(),
+  editedBy: varchar("edited_by").references(() => users.id).notNull(),
+  reason: text("reason").notNull(),
+  before: jsonb("before").$type<TimeEntryTimes>(),
+  after: jsonb("after").$type<TimeEntryTimes>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
+  locations: many(locations),
   customers: many(customers),
   services: many(services),
+  products: many(products),
   appointments: many(appointments),
   queue: many(queue),
   reviews: many(reviews),
@@ -176,6 +437,22 @@ export const usersRelations = relations(users, ({ many }) => ({
   barbers: many(barbers),
 }));
 
+export const locationsRelations = relations(locations, ({ one, many }) => ({
+  user: one(users, { fields: [locations.userId], references: [users.id] }),
+  services: many(services),
+  products: many(products),
+  appointments: many(appointments),
+  queue: many(queue),
+  transactions: many(transactions),
+  barbers: many(barbers),
+  cashDrawerSessions: many(cashDrawerSessions),
+}));
+
+export const devicesRelations = relations(devices, ({ one }) => ({
+  user: one(users, { fields: [devices.userId], references: [users.id] }),
+  location: one(locations, { fields: [devices.locationId], references: [locations.id] }),
+}));
+
 export const customersRelations = relations(customers, ({ one, many }) => ({
   user: one(users, { fields: [customers.userId], references: [users.id] }),
   appointments: many(appointments),
@@ -186,13 +463,29 @@ export const customersRelations = relations(customers, ({ one, many }) => ({
 
 export const servicesRelations = relations(services, ({ one, many }) => ({
   user: one(users, { fields: [services.userId], references: [users.id] }),
+  location: one(locations, { fields: [services.locationId], references: [locations.id] }),
   appointments: many(appointments),
   queue: many(queue),
   transactionItems: many(transactionItems),
 }));
 
+export const productsRelations = relations(products, ({ one, many }) => ({
+  user: one(users, { fields: [products.userId], references: [users.id] }),
+  location: one(locations, { fields: [products.locationId], references: [locations.id] }),
+  transactionItems: many(transactionItems),
+}));
+
+export const appointmentSeriesRelations = relations(appointmentSeries, ({ one, many }) => ({
+  user: one(users, { fields: [appointmentSeries.userId], references: [users.id] }),
+  customer: one(customers, { fields: [appointmentSeries.customerId], references: [customers.id] }),
+  service: one(services, { fields: [appointmentSeries.serviceId], references: [services.id] }),
+  appointments: many(appointments),
+}));
+
 export const appointmentsRelations = relations(appointments, ({ one, many }) => ({
   user: one(users, { fields: [appointments.userId], references: [users.id] }),
+  location: one(locations, { fields: [appointments.locationId], references: [locations.id] }),
+  series: one(appointmentSeries, { fields: [appointments.seriesId], references: [appointmentSeries.id] }),
   customer: one(customers, { fields: [appointments.customerId], references: [customers.id] }),
   service: one(services, { fields: [appointments.serviceId], references: [services.id] }),
   reviews: many(reviews),
@@ -201,6 +494,7 @@ export const appointmentsRelations = relations(appointments, ({ one, many }) =>
 
 export const queueRelations = relations(queue, ({ one }) => ({
   user: one(users, { fields: [queue.userId], references: [users.id] }),
+  location: one(locations, { fields: [queue.locationId], references: [locations.id] }),
   customer: one(customers, { fields: [queue.customerId], references: [customers.id] }),
   service: one(services, { fields: [queue.serviceId], references: [services.id] }),
 }));
@@ -217,30 +511,278 @@ export const galleryRelations = relations(gallery, ({ one }) => ({
 
 export const transactionsRelations = relations(transactions, ({ one, many }) => ({
   user: one(users, { fields: [transactions.userId], references: [users.id] }),
+  location: one(locations, { fields: [transactions.locationId], references: [locations.id] }),
   customer: one(customers, { fields: [transactions.customerId], references: [customers.id] }),
   appointment: one(appointments, { fields: [transactions.appointmentId], references: [appointments.id] }),
   items: many(transactionItems),
+  payments: many(transactionPayments),
+  refunds: many(refunds),
 }));
 
-export const transactionItemsRelations = relations(transactionItems, ({ one }) => ({
+export const transactionPaymentsRelations = relations(transactionPayments, ({ one, many }) => ({
+  transaction: one(transactions, { fields: [transactionPayments.transactionId], references: [transactions.id] }),
+  refunds: many(refunds),
+}));
+
+export const transactionItemsRelations = relations(transactionItems, ({ one, many }) => ({
   transaction: one(transactions, { fields: [transactionItems.transactionId], references: [transactions.id] }),
   service: one(services, { fields: [transactionItems.serviceId], references: [services.id] }),
+  product: one(products, { fields: [transactionItems.productId], references: [products.id] }),
+  refundItems: many(refundItems),
+}));
+
+export const refundsRelations = relations(refunds, ({ one, many }) => ({
+  user: one(users, { fields: [refunds.userId], references: [users.id] }),
+  transaction: one(transactions, { fields: [refunds.transactionId], references: [transactions.id] }),
+  payment: one(transactionPayments, { fields: [refunds.transactionPaymentId], references: [transactionPayments.id] }),
+  items: many(refundItems),
+}));
+
+export const refundItemsRelations = relations(refundItems, ({ one }) => ({
+  refund: one(refunds, { fields: [refundItems.refundId], references: [refunds.id] }),
+  transactionItem: one(transactionItems, { fields: [refundItems.transactionItemId], references: [transactionItems.id] }),
 }));
 
-export const barbersRelations = relations(barbers, ({ one }) => ({
+export const cashDrawerSessionsRelations = relations(cashDrawerSessions, ({ one, many }) => ({
+  user: one(users, { fields: [cashDrawerSessions.userId], references: [users.id] }),
+  location: one(locations, { fields: [cashDrawerSessions.locationId], references: [locations.id] }),
+  movements: many(cashDrawerMovements),
+}));
+
+export const cashDrawerMovementsRelations = relations(cashDrawerMovements, ({ one }) => ({
+  session: one(cashDrawerSessions, { fields: [cashDrawerMovements.sessionId], references: [cashDrawerSessions.id] }),
+}));
+
+export const barbersRelations = relations(barbers, ({ one, many }) => ({
   user: one(users, { fields: [barbers.userId], references: [users.id] }),
+  location: one(locations, { fields: [barbers.locationId], references: [locations.id] }),
+  timeOff: many(barberTimeOff),
+  timeEntries: many(timeEntries),
+}));
+
+export const commissionRulesRelations = relations(commissionRules, ({ one }) => ({
+  user: one(users, { fields: [commissionRules.userId], references: [users.id] }),
+  barber: one(barbers, { fields: [commissionRules.barberId], references: [barbers.id] }),
+}));
+
+export const timeEntriesRelations = relations(timeEntries, ({ one, many }) => ({
+  user: one(users, { fields: [timeEntries.userId], references: [users.id] }),
+  location: one(locations, { fields: [timeEntries.locationId], references: [locations.id] }),
+  barber: one(barbers, { fields: [timeEntries.barberId], references: [barbers.id] }),
+  edits: many(timeEntryEdits),
+}));
+
+export const timeEntryEditsRelations = relations(timeEntryEdits, ({ one }) => ({
+  entry: one(timeEntries, { fields: [timeEntryEdits.entryId], references: [timeEntries.id] }),
+}));
+
+export const barberTimeOffRelations = relations(barberTimeOff, ({ one }) => ({
+  user: one(users, { fields: [barberTimeOff.userId], references: [users.id] }),
+  barber: one(barbers, { fields: [barberTimeOff.barberId], references: [barbers.id] }),
 }));
 
 // Zod schemas
 export const upsertUserSchema = createInsertSchema(users);
+export const insertStaffInviteSchema = createInsertSchema(staffInvites).omit({ id: true, userId: true, acceptedAt: true, createdAt: true });
 export const insertCustomerSchema = createInsertSchema(customers).omit({ id: true, userId: true, createdAt: true, updatedAt: true });
-export const insertServiceSchema = createInsertSchema(services).omit({ id: true, userId: true, createdAt: true });
-export const insertAppointmentSchema = createInsertSchema(appointments).omit({ id: true, userId: true, createdAt: true, updatedAt: true });
-export const insertQueueSchema = createInsertSchema(queue).omit({ id: true, userId: true, joinedAt: true, updatedAt: true });
+// Sales tax as a percentage, e.g. "8.875"
+export const taxRateSchema = z.string().regex(/^\d{1,3}(\.\d{1,3})?$/, "Enter a tax rate like 8.25");
+export const timeZoneSchema = z.string().refine(isValidTimeZone, "Choose a time zone like America/Chicago");
+
+// What a shop can change about itself. Account and staff fields (email,
+// shopId, role, barberId) and the receipt counter are never writable here.
+export const updateProfileSchema = createInsertSchema(users, {
+  taxRate: taxRateSchema,
+  timezone: timeZoneSchema.nullable(),
+}).pick({
+  barbershopName: true,
+  phone: true,
+  address: true,
+  primaryColor: true,
+  secondaryColor: true,
+  bookingStyle: true,
+  logoUrl: true,
+  businessHours: true,
+  timezone: true,
+  taxRate: true,
+}).partial().strict();
+
+export const insertLocationSchema = createInsertSchema(locations, {
+  name: z.string().min(1, "Location name is required"),
+  taxRate: taxRateSchema.nullable().optional(),
+}).omit({ id: true, userId: true, subdomain: true, isActive: true, createdAt: true, updatedAt: true });
+export const insertServiceSchema = createInsertSchema(services).omit({ id: true, userId: true, locationId: true, createdAt: true });
+export const insertProductSchema = createInsertSchema(products, {
+  name: z.string().trim().min(1, "Product name is required"),
+  price: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a price like 12.50"),
+  cost: z.string().regex(/^\d+(\.\d{1,2})?$/, "Enter a cost like 6.25").nullable().optional(),
+  stock: z.number().int(),
+  reorderThreshold: z.number().int().min(0, "Can't be negative"),
+}).omit({ id: true, userId: true, locationId: true, isActive: true, createdAt: true });
+export const insertAppointmentSchema = createInsertSchema(appointments, {
+  startTime: z.coerce.date(),
+  endTime: z.coerce.date(),
+}).omit({ id: true, userId: true, locationId: true, seriesId: true, createdAt: true, updatedAt: true });
+export const insertAppointmentSeriesSchema = createInsertSchema(appointmentSeries).omit({ id: true, userId: true, createdAt: true });
+export const insertQueueSchema = createInsertSchema(queue).omit({
+  id: true,
+  userId: true,
+  locationId: true,
+  joinedAt: true,
+  startedAt: true,
+  completedAt: true,
+  leftAt: true,
+  updatedAt: true,
+});
 export const insertReviewSchema = createInsertSchema(reviews).omit({ id: true, userId: true, createdAt: true });
 export const insertGallerySchema = createInsertSchema(gallery).omit({ id: true, userId: true, createdAt: true });
-export const insertTransactionSchema = createInsertSchema(transactions).omit({ id: true, userId: true, createdAt: true });
-export const insertBarberSchema = createInsertSchema(barbers).omit({ id: true, userId: true, createdAt: true, updatedAt: true });
+export const insertTransactionSchema = createInsertSchema(transactions).omit({
+  id: true,
+  userId: true,
+  locationId: true,
+  receiptNumber: true,
+  refundedTotal: true,
+  voidReason: true,
+  voidedAt: true,
+  createdAt: true,
+});
+export const insertTransactionItemSchema = createInsertSchema(transactionItems).omit({ id: true, transactionId: true });
+export const insertTransactionPaymentSchema = createInsertSchema(transactionPayments).omit({ id: true, transactionId: true, createdAt: true });
+
+export const paymentMethods = ["cash", "card", "digital"] as const;
+
+// A payment handed over at the till. For cash this is what the customer
+// gave, which can be more than they owe. With a payment processor set up,
+// cards are charged with the token its card reader or card form hands back;
+// without one they're run on the shop's own terminal and carry no token.
+export const tenderSchema = z.object({
+  method: z.enum(paymentMethods),
+  amount: z.coerce.number().positive("Payment amount must be greater than 0"),
+  reference: z.string().trim().max(100).optional(),
+  token: z.string().trim().min(1).optional(),
+});
+
+// A test card typed into the sandbox processor's card form
+export const sandboxCardSchema = z.object({
+  number: z.string().trim().regex(/^[\d\s-]{12,23}$/, "Enter a test card number"),
+});
+
+// A discount or tip, either a percentage or a flat dollar amount
+export const adjustmentSchema = z.object({
+  type: z.enum(["percent", "amount"]),
+  value: z.number().min(0, "Can't be negative"),
+}).refine((adjustment) => adjustment.type !== "percent" || adjustment.value <= 100, {
+  message: "A percentage can't be more than 100",
+});
+
+// What the POS sends to ring up a sale. Prices, tax and the total are worked
+// out on the server from the service list, so the cart only names what was
+// sold, any discounts and tip, and how it was paid.
+export const checkoutSchema = insertTransactionSchema.pick({
+  customerId: true,
+  appointmentId: true,
+  barber: true,
+}).extend({
+  items: z.array(z.object({
+    serviceId: z.number().int().optional(),
+    productId: z.number().int().optional(),
+    quantity: z.number().int().min(1, "Quantity must be at least 1"),
+    discount: adjustmentSchema.optional(),
+  }).refine((item) => !item.serviceId !== !item.productId, {
+    message: "Each line is either a service or a product",
+  })).min(1, "Add at least one item to the sale"),
+  discount: adjustmentSchema.optional(),
+  tip: adjustmentSchema.optional(),
+  payments: z.array(tenderSchema).default([]),
+});
+const barberDayScheduleSchema = z.object({
+  isWorking: z.boolean(),
+  start: z.string(),
+  end: z.string(),
+  breakStart: z.string().optional(),
+  breakEnd: z.string().optional(),
+});
+
+export const barberScheduleSchema = z.object({
+  monday: barberDayScheduleSchema,
+  tuesday: barberDayScheduleSchema,
+  wednesday: barberDayScheduleSchema,
+  thursday: barberDayScheduleSchema,
+  friday: barberDayScheduleSchema,
+  saturday: barberDayScheduleSchema,
+  sunday: barberDayScheduleSchema,
+});
+
+export const insertBarberSchema = createInsertSchema(barbers, {
+  schedule: barberScheduleSchema.nullable().optional(),
+}).omit({ id: true, userId: true, locationId: true, createdAt: true, updatedAt: true });
+export const insertBarberTimeOffSchema = createInsertSchema(barberTimeOff, {
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+}).omit({ id: true, userId: true, createdAt: true }).refine(
+  (data) => data.endDate > data.startDate,
+  { message: "Time off must end after it starts", path: ["endDate"] },
+);
+
+const percentSchema = z.coerce.number().min(0, "Can't be negative").max(100, "Can't be more than 100%");
+
+export const commissionRuleSchema = z.object({
+  payType: z.enum(["commission", "booth_rent"]),
+  serviceRate: percentSchema,
+  retailRate: percentSchema,
+  tipsPassThrough: z.boolean(),
+  boothRent: z.coerce.number().min(0, "Can't be negative"),
+  hourlyRate: z.coerce.number().min(0, "Can't be negative").default(0),
+});
+
+export const timePunchActions = ["clock_in", "break_start", "break_end", "clock_out"] as const;
+
+export const timePunchSchema = z.object({
+  barberId: z.number().int(),
+  action: z.enum(timePunchActions),
+});
+
+// An owner correcting a shift, or adding one that was never punched
+export const timeEntryEditSchema = z.object({
+  clockIn: z.coerce.date(),
+  clockOut: z.coerce.date().nullable(),
+  breaks: z.array(z.object({
+    start: z.coerce.date(),
+    end: z.coerce.date().nullable(),
+  })).default([]),
+  reason: z.string().trim().min(1, "A reason is required"),
+}).superRefine((entry, ctx) => {
+  if (entry.clockOut && entry.clockOut <= entry.clockIn) {
+    ctx.addIssue({ code: "custom", message: "Clock out must be after clock in", path: ["clockOut"] });
+  }
+  entry.breaks.forEach((breakTime, index) => {
+    const lastMoment = breakTime.end ?? breakTime.start;
+    if (breakTime.start < entry.clockIn || (entry.clockOut && lastMoment > entry.clockOut)) {
+      ctx.addIssue({ code: "custom", message: "Breaks must fall within the shift", path: ["breaks", index] });
+    } else if (breakTime.end && breakTime.end <= breakTime.start) {
+      ctx.addIssue({ code: "custom", message: "A break must end after it starts", path: ["breaks", index] });
+    } else if (!breakTime.end && entry.clockOut) {
+      ctx.addIssue({ code: "custom", message: "Breaks on a finished shift need an end", path: ["breaks", index] });
+    }
+  });
+});
+
+export const addTimeEntrySchema = timeEntryEditSchema.and(z.object({
+  barberId: z.number().int(),
+}));
+
+// A pay period, both days included
+// no_show: called but never came back; left: walked out while waiting
+export const queueStatuses = ["waiting", "in_progress", "completed", "no_show", "left"] as const;
+
+export const queueStatusSchema = z.object({
+  status: z.enum(queueStatuses),
+});
+
+export const payPeriodSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates look like 2024-01-31"),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates look like 2024-01-31"),
+}).refine((period) => period.to >= period.from, { message: "The period must end on or after it starts", path: ["to"] });
 
 // Onboarding schema
 export const onboardingSchema = z.object({
@@ -251,6 +793,7 @@ export const onboardingSchema = z.object({
   primaryColor: z.string().min(1, "Primary color is required"),
   secondaryColor: z.string().min(1, "Secondary color is required"),
   logoUrl: z.string().optional(),
+  timezone: timeZoneSchema.optional(),
   businessHours: z.object({
     monday: z.object({ open: z.string(), close: z.string(), closed: z.boolean() }),
     tuesday: z.object({ open: z.string(), close: z.string(), closed: z.boolean() }),
@@ -270,15 +813,156 @@ export const onboardingSchema = z.object({
   })).min(1, "At least one barber is required"),
 });
 
+// Local authentication schemas
+export const loginSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const registerSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is missing"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Staff invitation - barber accounts are linked to a barbers row
+export const staffInviteSchema = z.object({
+  email: z.string().email("Enter a valid email address"),
+  role: z.enum(["manager", "barber", "front_desk"]),
+  barberId: z.number().int().nullable().optional(),
+}).refine((invite) => invite.role !== "barber" || invite.barberId, {
+  message: "Choose which barber this account is for",
+  path: ["barberId"],
+});
+
+export const updateStaffMemberSchema = z.object({
+  role: z.enum(["manager", "barber", "front_desk"]),
+  barberId: z.number().int().nullable().optional(),
+}).refine((member) => member.role !== "barber" || member.barberId, {
+  message: "Choose which barber this account is for",
+  path: ["barberId"],
+});
+
+export const acceptInviteSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8, "Password must be at least 8 characters").optional(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+});
+
+// Recurrence rule for booking a regular - ends on a date or after a number of visits
+export const recurrenceRuleSchema = z.object({
+  frequency: z.enum(["weekly", "monthly"]),
+  interval: z.number().int().min(1).max(12),
+  until: z.coerce.date().optional(),
+  count: z.number().int().min(2).max(52).optional(),
+}).refine((rule) => rule.until || rule.count, { message: "Choose an end date or a number of visits" });
+
+// Which appointments of a series an edit or cancellation applies to
+export const seriesScopeSchema = z.enum(["this", "following", "series"]);
+
+// Switching the location the dashboard works in; null is the main location
+export const switchLocationSchema = z.object({
+  locationId: z.number().int().nullable(),
+});
+
+// Refunding a sale. Name the lines being returned, or give an amount for a
+// goodwill refund; with neither, whatever is left on the sale is refunded.
+export const refundSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+  items: z.array(z.object({
+    transactionItemId: z.number().int(),
+    quantity: z.number().int().min(1, "Quantity must be at least 1"),
+  })).min(1).optional(),
+  amount: z.coerce.number().positive("Refund amount must be greater than 0").optional(),
+  // Left out, the refund goes back to card and digital payments before cash
+  paymentMethod: z.enum(paymentMethods).optional(),
+}).refine((data) => !(data.items && data.amount), {
+  message: "Refund either items or an amount, not both",
+});
+
+export const voidTransactionSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+export const openCashDrawerSchema = z.object({
+  openingFloat: z.coerce.number().min(0, "The float can't be negative"),
+});
+
+export const cashDrawerMovementSchema = z.object({
+  type: z.enum(["paid_in", "paid_out"]),
+  amount: z.coerce.number().positive("Amount must be greater than 0"),
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+export const closeCashDrawerSchema = z.object({
+  countedCash: z.coerce.number().min(0, "The count can't be negative"),
+  notes: z.string().trim().max(500).optional(),
+});
+
+// Emailing a receipt; left out, it goes to the customer on the sale
+export const emailReceiptSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address").optional(),
+});
+
+export const deviceKinds = ["kiosk", "display"] as const;
+
+export const createDeviceSchema = z.object({
+  kind: z.enum(deviceKinds),
+  name: z.string().trim().min(1, "Give the device a name").max(60),
+});
+
+export const pairDeviceSchema = z.object({
+  kind: z.enum(deviceKinds),
+  code: z.string().trim().min(1, "Enter the pairing code"),
+});
+
+// A walk-in adding themselves to the queue at the kiosk
+export const kioskCheckInSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  phone: z.string().trim().min(7, "Enter your phone number").max(30),
+  serviceId: z.number().int({ message: "Please select a service" }),
+  barber: z.string().trim().optional(),
+});
+
+// Public booking schema - submitted from the shop's public site
+export const publicBookingSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  phone: z.string().min(1, "Phone number is required"),
+  email: z.string().email().optional().or(z.literal("")),
+  serviceId: z.number().min(1, "Please select a service"),
+  barber: z.string().optional(),
+  startTime: z.string().min(1, "Please select a date and time"),
+  notes: z.string().optional(),
+});
+
 // Types
 export type UpsertUser = z.infer<typeof upsertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
 export type Customer = typeof customers.$inferSelect;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 export type Service = typeof services.$inferSelect;
 export type InsertService = z.infer<typeof insertServiceSchema>;
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Appointment = typeof appointments.$inferSelect;
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+export type AppointmentSeries = typeof appointmentSeries.$inferSelect;
+export type InsertAppointmentSeries = z.infer<typeof insertAppointmentSeriesSchema>;
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+export type SeriesScope = z.infer<typeof seriesScopeSchema>;
 export type Queue = typeof queue.$inferSelect;
 export type InsertQueue = z.infer<typeof insertQueueSchema>;
 export type Review = typeof reviews.$inferSelect;
@@ -288,6 +972,141 @@ export type InsertGallery = z.infer<typeof insertGallerySchema>;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 export type TransactionItem = typeof transactionItems.$inferSelect;
+export type InsertTransactionItem = z.infer<typeof insertTransactionItemSchema>;
+export type Adjustment = z.infer<typeof adjustmentSchema>;
+export type CheckoutData = z.infer<typeof checkoutSchema>;
+export type TransactionPayment = typeof transactionPayments.$inferSelect;
+export type InsertTransactionPayment = z.infer<typeof insertTransactionPaymentSchema>;
+export type PaymentMethod = typeof paymentMethods[number];
+export type Tender = z.infer<typeof tenderSchema>;
+export type Refund = typeof refunds.$inferSelect;
+export type RefundItem = typeof refundItems.$inferSelect;
+export type RefundData = z.infer<typeof refundSchema>;
+export type CashDrawerSession = typeof cashDrawerSessions.$inferSelect;
+export type CashDrawerMovement = typeof cashDrawerMovements.$inferSelect;
+export type CashDrawerMovementData = z.infer<typeof cashDrawerMovementSchema>;
+// Everything that went through the till during a drawer session, in dollars
+export type ZReport = {
+  openedAt: string;
+  closedAt: string | null;
+  openingFloat: string;
+  salesCount: number;
+  voidedCount: number;
+  grossSales: string; // sale totals, tips and tax included
+  discounts: string;
+  tax: string;
+  tips: string;
+  taken: Record<PaymentMethod, string>; // by tender, after change was given
+  pending: string; // card payments the processor hasn't confirmed yet
+  refunded: Record<PaymentMethod, string>;
+  paidIn: string;
+  paidOut: string;
+  expectedCash: string; // float + cash taken - cash refunded + paid in - paid out
+  countedCash: string | null;
+  overShort: string | null;
+};
+// The sales and refunds a drawer session covers
+export type DrawerActivity = {
+  sales: Transaction[];
+  payments: TransactionPayment[];
+  refunds: Refund[];
+};
+export type TransactionWithItems = Transaction & {
+  items: (TransactionItem & { name: string; refundedQuantity: number })[];
+  payments: TransactionPayment[];
+  refunds: Refund[];
+};
 export type Barber = typeof barbers.$inferSelect;
 export type InsertBarber = z.infer<typeof insertBarberSchema>;
+export type BarberSchedule = z.infer<typeof barberScheduleSchema>;
+export type BarberTimeOff = typeof barberTimeOff.$inferSelect;
+export type InsertBarberTimeOff = z.infer<typeof insertBarberTimeOffSchema>;
+export type CommissionRule = typeof commissionRules.$inferSelect;
+export type CommissionRuleData = z.infer<typeof commissionRuleSchema>;
+export type TimePunchAction = typeof timePunchActions[number];
+// Kinds of shop data the server announces changes to on /api/events
+export const changeTopics = ["queue", "appointments", "transactions", "customers"] as const;
+export type ChangeTopic = typeof changeTopics[number];
+export type TimeBreak = { start: string; end: string | null };
+// The times on a shift, as recorded in its edit history
+export type TimeEntryTimes = { clockIn: string; clockOut: string | null; breaks: TimeBreak[] };
+export type TimeEntry = typeof timeEntries.$inferSelect;
+export type TimeEntryEdit = typeof timeEntryEdits.$inferSelect;
+export type TimeEntryEditData = z.infer<typeof timeEntryEditSchema>;
+export type TimeEntryWithEdits = TimeEntry & { edits: TimeEntryEdit[] };
+// A barber's shifts that started in a pay period
+export type Timesheet = {
+  barberId: number;
+  barber: string;
+  hours: string; // worked, breaks taken out, finished shifts only
+  entries: TimeEntryWithEdits[];
+};
+// One barber's pay for a period, in dollars
+export type PayrollRow = {
+  barberId: number | null; // null gathers sales nobody was credited with
+  barber: string;
+  payType: string;
+  salesCount: number;
+  serviceSales: string; // after discounts and refunds, before tax
+  retailSales: string;
+  tips: string;
+  hours: string; // clocked, breaks taken out
+  hourlyPay: string;
+  serviceCommission: string;
+  retailCommission: string;
+  tipsPaid: string;
+  boothRent: string;
+  totalPay: string;
+};
+export type PayrollReport = {
+  from: string;
+  to: string;
+  rows: PayrollRow[];
+};
+export type QueueStatus = typeof queueStatuses[number];
+// Actual queue times for one day, barber or service, in minutes
+export type QueueTimesRow = {
+  key: string;
+  label: string;
+  joined: number;
+  served: number; // finished in the chair
+  walkouts: number; // no-shows and people who left
+  averageWait: number | null; // joined to sat down
+  longestWait: number | null;
+  averageService: number | null; // sat down to finished
+};
+export type QueueTimesReport = {
+  from: string;
+  to: string;
+  days: QueueTimesRow[];
+  barbers: QueueTimesRow[];
+  services: QueueTimesRow[];
+};
+export type Device = typeof devices.$inferSelect;
+export type DeviceKind = typeof deviceKinds[number];
+export type InsertDevice = Pick<Device, "kind" | "name" | "pairingCodeHash" | "pairingExpiresAt">;
+// A device as the settings page lists it, without its secrets
+export type DeviceSummary = Omit<Device, "pairingCodeHash" | "tokenHash">;
+export type KioskCheckIn = {
+  queueId: number;
+  firstName: string;
+  position: number; // 1 is next in line
+  estimatedWaitTime: number; // minutes
+};
+// A queue entry as the lobby display shows it: no full names or contact details
+export type QueueBoardEntry = {
+  id: number;
+  name: string; // first name and last initial
+  barber: string | null;
+  status: string;
+  estimatedWaitTime: number | null;
+};
 export type OnboardingData = z.infer<typeof onboardingSchema>;
+export type LoginData = z.infer<typeof loginSchema>;
+export type RegisterData = z.infer<typeof registerSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type StaffInvite = typeof staffInvites.$inferSelect;
+export type InsertStaffInvite = z.infer<typeof insertStaffInviteSchema>;
+export type StaffInviteData = z.infer<typeof staffInviteSchema>;
+export type UpdateStaffMemberData = z.infer<typeof updateStaffMemberSchema>;
+export type PublicBookingData = z.infer<typeof publicBookingSchema>;
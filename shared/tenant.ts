@@ -0,0 +1,28 @@
+// Subdomains that belong to the platform itself and never resolve to a shop
+const reservedSubdomains = ["www", "app", "api"];
+
+// Extract the shop subdomain from a host like "joesbarbers.trimify.app:5000".
+// Returns null when the host is the bare base domain or not under it at all.
+export function getSubdomainFromHost(host: string | undefined, baseDomain: string | undefined): string | null {
+  if (!host || !baseDomain) return null;
+
+  const hostname = host.split(":")[0].toLowerCase();
+  const base = baseDomain.toLowerCase().replace(/^\./, "");
+  if (!hostname.endsWith(`.${base}`)) return null;
+
+  const subdomain = hostname.slice(0, -(base.length + 1));
+  if (!subdomain || subdomain.includes(".") || reservedSubdomains.includes(subdomain)) {
+    return null;
+  }
+
+  return subdomain;
+}
+
+// Public booking link for a shop, preferring the subdomain when a base domain is configured
+export function getBookingUrl(subdomain: string, baseDomain: string | undefined, origin: string): string {
+  if (baseDomain) {
+    const protocol = origin.startsWith("http://") ? "http" : "https";
+    return `${protocol}://${subdomain}.${baseDomain}`;
+  }
+  return `${origin}/s/${subdomain}`;
+}
@@ -0,0 +1,26 @@
+import type { TimeBreak } from "./schema";
+
+// A shift's times, as stored (dates) or as sent to the browser (ISO strings)
+export interface ShiftTimes {
+  clockIn: Date | string;
+  clockOut: Date | string | null;
+  breaks: TimeBreak[];
+}
+
+const ms = (date: Date | string) => new Date(date).getTime();
+
+// Time on the clock less breaks. A shift or break still running counts up
+// to now.
+export function workedMinutes(entry: ShiftTimes, now = new Date()): number {
+  const end = entry.clockOut ? ms(entry.clockOut) : now.getTime();
+  const breakMs = entry.breaks.reduce((sum, breakTime) => {
+    const breakEnd = breakTime.end ? ms(breakTime.end) : Math.min(now.getTime(), end);
+    return sum + Math.max(0, breakEnd - ms(breakTime.start));
+  }, 0);
+  return Math.max(0, Math.round((end - ms(entry.clockIn) - breakMs) / 60000));
+}
+
+// Decimal hours, the way payroll counts them
+export const hoursLabel = (minutes: number) => (minutes / 60).toFixed(2);
+
+export const onBreak = (entry: ShiftTimes) => entry.breaks.some((breakTime) => !breakTime.end);
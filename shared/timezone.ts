@@ -0,0 +1,108 @@
+// Calendar days and opening times are the shop's wall clock, not the
+// server's. Shops store an IANA zone ("America/Chicago"); without one the
+// runtime's own zone is used, which is how older shops always behaved.
+export type TimeZone = string | null | undefined;
+
+export interface WallClock {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 is Sunday, like Date.getDay()
+}
+
+const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: TimeZone): Intl.DateTimeFormat {
+  const key = timeZone || "";
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timeZone || undefined,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short",
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// What a clock on the shop's wall reads at this instant
+export function wallClock(date: Date, timeZone: TimeZone): WallClock {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone).formatToParts(date).map((part) => [part.type, part.value]),
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: weekdays.indexOf(parts.weekday),
+  };
+}
+
+// How far the zone's clock is ahead of UTC at this instant, in milliseconds
+function zoneOffset(instant: number, timeZone: TimeZone): number {
+  const clock = wallClock(new Date(instant), timeZone);
+  const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+// The instant the shop's clock reads this date and time. Days and months
+// past the end roll over like the Date constructor.
+export function zonedTime(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: TimeZone,
+): Date {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = asUtc - zoneOffset(asUtc, timeZone);
+  const offsetThen = zoneOffset(guess, timeZone);
+  const corrected = asUtc - offsetThen;
+  // A time skipped when the clocks go forward fits neither offset; the first
+  // guess lands it as far past the jump as it was meant to be
+  return new Date(zoneOffset(corrected, timeZone) === offsetThen ? corrected : guess);
+}
+
+// The shop's "YYYY-MM-DD" for the day this instant falls on
+export function calendarDate(date: Date, timeZone: TimeZone): string {
+  const { year, month, day } = wallClock(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Midnight at the start of a "YYYY-MM-DD" day; an invalid date for anything else
+export function startOfCalendarDate(date: string, timeZone: TimeZone): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return new Date(NaN);
+  return zonedTime(Number(match[1]), Number(match[2]), Number(match[3]), 0, 0, timeZone);
+}
+
+// The same wall-clock time a number of days later, across daylight saving changes
+export function addCalendarDays(date: Date, days: number, timeZone: TimeZone): Date {
+  const clock = wallClock(date, timeZone);
+  const moved = zonedTime(clock.year, clock.month, clock.day + days, clock.hour, clock.minute, timeZone);
+  return new Date(moved.getTime() + clock.second * 1000 + date.getMilliseconds());
+}